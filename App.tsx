@@ -1,12 +1,36 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import SetupScreen from './components/SetupScreen';
 import ExamScreen from './components/ExamScreen';
 import ResultsScreen from './components/ResultsScreen';
 import ClassesScreen from './components/ClassesScreen';
 import PracticeQuizScreen from './components/PracticeQuizScreen';
-import { generateExamQuestions } from './services/gemini';
-import { ExamConfig, ExamState, Language } from './types';
-import { BookOpen, GraduationCap, Languages } from 'lucide-react';
+import HistoryScreen from './components/HistoryScreen';
+import ReviewScreen from './components/ReviewScreen';
+import QuestionBankScreen from './components/QuestionBankScreen';
+import ResumePrompt from './components/ResumePrompt';
+import StorageBanner from './components/StorageBanner';
+import BackupDialog from './components/BackupDialog';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import ProfileDialog, { ProfileFormValues } from './components/ProfileDialog';
+import PinPrompt from './components/PinPrompt';
+import { LanguageContext } from './components/LanguageContext';
+import { ExamProgress, GeneratedExam, generateExamStream, gradeDescriptiveAnswers, pregenerateExam, ungradedAnswers } from './services/gemini';
+import { loadAttempts, saveAttempt, deleteAttempt } from './services/history';
+import { finishExam, finishGrading, tickClock, withExamProgress, withGeneratedExam } from './services/examSession';
+import { loadDeck, addMissedQuestions, dueCards, recordReviewSession, removeCard, reviewQuestions } from './services/reviewDeck';
+import { loadBank, importBank, removeFromBank, saveExamToBank } from './services/questionBank';
+import { loadCheckpoint, saveCheckpoint, clearCheckpoint, secondsUntil } from './services/checkpoint';
+import { createNote } from './services/notes';
+import { loadSettings, updateSettings } from './services/settings';
+import { StorageIssue, onStorageIssue, switchProfile } from './services/storage';
+import { activeProfile, createProfile, deleteProfile, loadProfiles, updateProfile } from './services/profiles';
+import { MessageKey, MessageParams, translate } from './services/i18n';
+import { LANGUAGES } from './services/languages';
+import { Answer, BankQuestion, DescriptiveGrade, ExamAttempt, ExamCheckpoint, ExamConfig, ExamState, DifficultyLevel, Language, LessonLink, NoteSource, Profile, ReviewCard } from './types';
+import { BookOpen, GraduationCap, Languages, DatabaseBackup } from 'lucide-react';
+
+// The exam opens once this many questions are ready; the rest stream in while the student works.
+const QUESTIONS_BEFORE_START = 3;
 
 const initialState: ExamState = {
   status: 'idle',
@@ -19,13 +43,43 @@ const initialState: ExamState = {
   score: 0,
 };
 
-type AppMode = 'EXAM' | 'CLASSES' | 'PRACTICE';
+type AppMode = 'EXAM' | 'CLASSES' | 'PRACTICE' | 'HISTORY' | 'REVIEW' | 'BANK';
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<AppMode>('EXAM');
-  const [language, setLanguage] = useState<Language>(Language.ENGLISH);
+  const [language, setLanguage] = useState<Language>(() => loadSettings().language);
+  const [defaultLevel, setDefaultLevel] = useState<DifficultyLevel>(() => loadSettings().level);
+  const [bilingual, setBilingual] = useState(() => !!loadSettings().bilingual);
+  const [profiles, setProfiles] = useState<Profile[]>(() => loadProfiles());
+  const [profileId, setProfileId] = useState(() => activeProfile().id);
+  const [isLocked, setIsLocked] = useState(() => !!activeProfile().pinHash); // A PIN profile asks for its PIN on startup
+  const [pinRequest, setPinRequest] = useState<{ profile: Profile; action: 'switch' | 'delete' } | null>(null);
+  const [profileDialog, setProfileDialog] = useState<'create' | 'edit' | null>(null);
   const [examState, setExamState] = useState<ExamState>(initialState);
   const [config, setConfig] = useState<ExamConfig | null>(null);
+  const [attempts, setAttempts] = useState<ExamAttempt[]>(() => loadAttempts());
+  const [reviewAttempt, setReviewAttempt] = useState<ExamAttempt | null>(null);
+  const [reviewFocus, setReviewFocus] = useState<number | undefined>(undefined); // Question to scroll to in a reviewed attempt
+  const savedStartRef = useRef<number | null>(null);
+  const [pendingResume, setPendingResume] = useState<ExamCheckpoint | null>(() => loadCheckpoint());
+  const [lessonLink, setLessonLink] = useState<LessonLink | null>(null);
+  const [deck, setDeck] = useState<ReviewCard[]>(() => loadDeck());
+  const [reviewCards, setReviewCards] = useState<ReviewCard[] | null>(null); // Cards of the running review session
+  const [bank, setBank] = useState<BankQuestion[]>(() => loadBank());
+  const [isPregenerating, setIsPregenerating] = useState(false);
+  const [storageIssue, setStorageIssue] = useState<StorageIssue | null>(null);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [dataVersion, setDataVersion] = useState(0); // Bumped after a restore so screens reload saved data
+  const generationRef = useRef(0); // Bumped per exam so a stale generation stops updating the state
+
+  useEffect(() => onStorageIssue(setStorageIssue), []);
+
+  // Lets the browser pick the right script font and hyphenation for the page
+  useEffect(() => {
+    document.documentElement.lang = LANGUAGES[language].locale;
+  }, [language]);
+
+  const t = (key: MessageKey, params?: MessageParams) => translate(language, key, params);
 
   // Timer Effect
   useEffect(() => {
@@ -33,59 +87,144 @@ const App: React.FC = () => {
     if (examState.status === 'active' && examState.timeRemaining > 0) {
       timer = window.setInterval(() => {
         setExamState((prev) => {
-          if (prev.timeRemaining <= 1) {
-            // Auto submit when time runs out
-            return { ...prev, timeRemaining: 0, status: 'finished', score: calculateScore(prev) };
-          }
-          return { ...prev, timeRemaining: prev.timeRemaining - 1 };
+          const next = tickClock(prev, config);
+          // Auto submitted when time ran out, so stop a paper still streaming in
+          if (next.status !== prev.status) generationRef.current++;
+          return next;
         });
       }, 1000);
     }
     return () => clearInterval(timer);
   }, [examState.status, examState.timeRemaining]);
 
-  const calculateScore = (state: ExamState): number => {
-    let score = 0;
-    state.questions.forEach((q, idx) => {
-      if (state.answers[idx] === q.correctOptionIndex) {
-        score++;
-      }
+  // Checkpoint the active exam whenever answers, flags or position change
+  // Review sessions are short and rebuilt from the deck, so they are not checkpointed
+  useEffect(() => {
+    if (reviewCards) return;
+    if (examState.status === 'active' && config && examState.startTime) {
+      saveCheckpoint({
+        mode: mode === 'PRACTICE' ? 'PRACTICE' : 'EXAM',
+        config,
+        state: examState,
+        // The clock can pause while questions stream in, so the deadline follows the time left
+        deadline: Date.now() + examState.timeRemaining * 1000,
+        savedAt: Date.now(),
+      });
+    } else if (examState.status === 'finished') {
+      clearCheckpoint();
+    }
+    // timeRemaining is derived from the deadline on resume, so ticks need no checkpoint
+  }, [examState.status, examState.questions, examState.answers, examState.flagged, examState.currentQuestionIndex, config, mode, reviewCards]);
+
+  // Record each finished attempt once, keyed by its start time
+  useEffect(() => {
+    if (examState.status !== 'finished' || !config || !examState.startTime) return;
+    if (savedStartRef.current === examState.startTime) return;
+    savedStartRef.current = examState.startTime;
+
+    // A review session reschedules its cards instead of adding to the history
+    if (reviewCards) {
+      setDeck(recordReviewSession(reviewCards, examState, config));
+      return;
+    }
+
+    const finishedAt = Date.now();
+    const attempt: ExamAttempt = {
+      id: `${examState.startTime}`,
+      mode: mode === 'PRACTICE' ? 'PRACTICE' : 'EXAM',
+      config,
+      state: examState,
+      startedAt: examState.startTime,
+      finishedAt,
+      durationSeconds: Math.max(0, config.durationMinutes * 60 - examState.timeRemaining),
+    };
+    setAttempts(saveAttempt(attempt));
+    setDeck(addMissedQuestions(attempt));
+  }, [examState, config, mode, reviewCards]);
+
+  // Grading Effect
+  useEffect(() => {
+    if (examState.status !== 'grading' || !config) return;
+    let cancelled = false;
+    const finish = (grades: Record<number, DescriptiveGrade>) => {
+      if (!cancelled) setExamState((prev) => finishGrading(prev, grades, config));
+    };
+    gradeDescriptiveAnswers(examState, config).then(finish).catch((error) => {
+      console.error("Grading failed", error);
+      finish(ungradedAnswers(examState));
     });
-    return score;
-  };
+    return () => { cancelled = true; };
+  }, [examState.status]);
 
   const startQuizGeneration = async (newConfig: ExamConfig, targetMode: AppMode) => {
     setMode(targetMode);
+    setReviewCards(null);
     setConfig(newConfig);
     setExamState((prev) => ({ ...prev, status: 'loading' }));
+    const generation = ++generationRef.current;
+    const stream = generateExamStream(newConfig);
+    let started = false;
 
     try {
-      const questions = await generateExamQuestions(
-        newConfig.subject,
-        newConfig.level,
-        newConfig.questionCount,
-        newConfig.language,
-        newConfig.topic
-      );
+      for (let step = await stream.next(); ; step = await stream.next()) {
+        if (generationRef.current !== generation) {
+          await stream.return(undefined); // Exited or submitted, so the rest is not needed
+          return;
+        }
+        if (step.done) {
+          const exam = step.value as GeneratedExam;
+          const { questions, scenarios, sections, report } = exam;
+          // An exam served from the cache refills it, so the next one starts instantly too
+          if (report.fromCache) handlePregenerate(newConfig);
+          setExamState((prev) => started
+            ? withGeneratedExam(prev, exam)
+            : { ...initialState, status: 'active', questions, scenarios, sections, generationReport: report, timeRemaining: newConfig.durationMinutes * 60, startTime: Date.now() });
+          return;
+        }
 
-      setExamState({
-        ...initialState,
-        status: 'active',
-        questions,
-        timeRemaining: newConfig.durationMinutes * 60,
-        startTime: Date.now(),
-      });
+        const progress = step.value as ExamProgress;
+        const { questions, scenarios, sections, expected } = progress;
+        const pendingCount = expected - questions.length;
+        if (started) {
+          setExamState((prev) => withExamProgress(prev, progress));
+        } else if (questions.length >= Math.min(QUESTIONS_BEFORE_START, expected)) {
+          started = true;
+          setExamState({
+            ...initialState,
+            status: 'active',
+            questions,
+            scenarios,
+            sections,
+            pendingCount,
+            timeRemaining: newConfig.durationMinutes * 60,
+            startTime: Date.now(),
+          });
+        }
+      }
     } catch (error) {
       console.error(error);
+      if (started) {
+        // The exam goes on with the questions that did arrive
+        setExamState((prev) => ({ ...prev, pendingCount: 0 }));
+        return;
+      }
       setExamState((prev) => ({ 
         ...prev, 
         status: 'idle', 
         error: "Failed to generate exam. Please try again." 
       }));
-      alert("Failed to connect to CA Guide. Please check your API Key and try again.");
+      alert(t('app.connectFailed'));
     }
   };
 
+  // Runs in the background; failures only cost the head start
+  const handlePregenerate = (newConfig: ExamConfig) => {
+    setIsPregenerating(true);
+    pregenerateExam(newConfig)
+      .catch((error) => console.error("Failed to pre-generate questions", error))
+      .finally(() => setIsPregenerating(false));
+  };
+
   const handleStartSimulator = (newConfig: ExamConfig) => {
     startQuizGeneration(newConfig, 'EXAM');
   };
@@ -95,18 +234,23 @@ const App: React.FC = () => {
   };
 
   const handleExitPractice = () => {
-    if (window.confirm("Are you sure you want to exit? Your practice progress will be lost.")) {
+    if (window.confirm(t('app.confirmExitPractice'))) {
+      generationRef.current++;
+      clearCheckpoint();
       setMode('CLASSES');
       setExamState(initialState);
       setConfig(null);
     }
   };
 
-  const handleAnswer = (questionIndex: number, optionIndex: number) => {
-    setExamState((prev) => ({
-      ...prev,
-      answers: { ...prev.answers, [questionIndex]: optionIndex },
-    }));
+  const handleAnswer = (questionIndex: number, answer: Answer) => {
+    setExamState((prev) => {
+      const answers = { ...prev.answers, [questionIndex]: answer };
+      // A cleared written or numeric answer counts as unanswered
+      const isBlank = typeof answer === 'string' ? !answer.trim() : typeof answer === 'object' && !answer.value.trim();
+      if (isBlank) delete answers[questionIndex];
+      return { ...prev, answers };
+    });
   };
 
   const handleFlag = (questionIndex: number) => {
@@ -124,11 +268,8 @@ const App: React.FC = () => {
   };
 
   const handleSubmit = () => {
-    setExamState((prev) => ({
-      ...prev,
-      status: 'finished',
-      score: calculateScore(prev),
-    }));
+    generationRef.current++;
+    setExamState((prev) => finishExam({ ...prev, pendingCount: 0 }, config));
   };
 
   const handleRestart = () => {
@@ -139,7 +280,288 @@ const App: React.FC = () => {
     }
   };
 
+  const restoreCheckpoint = (checkpoint: ExamCheckpoint) => {
+    const timeRemaining = secondsUntil(checkpoint.deadline);
+    // A generation cut off by the reload is not resumed; the exam continues with what arrived
+    const restored: ExamState = { ...checkpoint.state, status: 'active', timeRemaining, pendingCount: 0 };
+    setPendingResume(null);
+    setConfig(checkpoint.config);
+    setMode(checkpoint.mode);
+    setExamState(timeRemaining > 0 ? restored : finishExam(restored, checkpoint.config));
+  };
+
+  const handleDiscardCheckpoint = () => {
+    if (window.confirm(t('app.confirmDiscardAttempt'))) {
+      clearCheckpoint();
+      setPendingResume(null);
+    }
+  };
+
+  // Leaves the results for a CA Classes lesson on one of the attempt's weak topics
+  const studyTopic = (attemptConfig: ExamConfig, fromHistory: boolean) => (topic: string) => {
+    setLessonLink({ subject: attemptConfig.subject, level: attemptConfig.level, topic, paperId: attemptConfig.paperId });
+    if (fromHistory) {
+      setReviewAttempt(null);
+    } else {
+      setExamState(initialState);
+      setConfig(null);
+    }
+    setMode('CLASSES');
+  };
+
+  const handleStartReview = (cards: ReviewCard[]) => {
+    const { questions, scenarios } = reviewQuestions(cards);
+    const first = cards[0];
+    const reviewConfig: ExamConfig = {
+      subject: first.subject,
+      level: first.level,
+      language: first.language,
+      questionCount: questions.length,
+      durationMinutes: questions.length * 2,
+      topic: t('review.due'),
+    };
+    setReviewCards(cards);
+    setConfig(reviewConfig);
+    setExamState({
+      ...initialState,
+      status: 'active',
+      questions,
+      scenarios,
+      timeRemaining: reviewConfig.durationMinutes * 60,
+      startTime: Date.now(),
+    });
+  };
+
+  const handleExitReview = () => {
+    if (window.confirm(t('app.confirmExitReview'))) {
+      handleFinishReview();
+    }
+  };
+
+  const handleFinishReview = () => {
+    setReviewCards(null);
+    setExamState(initialState);
+    setConfig(null);
+  };
+
+  const handleImportBank = (fileName: string, text: string) => {
+    try {
+      const result = importBank(text, fileName);
+      setBank(result.bank);
+      const summary = [t('bank.importedCount', { count: result.added })];
+      if (result.duplicates > 0) summary.push(t('bank.duplicates', { count: result.duplicates }));
+      if (result.errors.length > 0) {
+        summary.push(t('bank.rejected', { count: result.errors.length }), ...result.errors.slice(0, 10));
+        if (result.errors.length > 10) summary.push(t('bank.moreErrors', { count: result.errors.length - 10 }));
+      }
+      alert(summary.join('\n'));
+    } catch (error) {
+      console.error(error);
+      alert(t('bank.readFailed', { file: fileName, error: error instanceof Error ? error.message : '' }));
+    }
+  };
+
+  const saveToBank = (state: ExamState, examConfig: ExamConfig) => () => {
+    const { bank: updated, added } = saveExamToBank(state, examConfig);
+    setBank(updated);
+    alert(added > 0 ? t('bank.savedCount', { count: added }) : t('bank.allSaved'));
+  };
+
+  // Notes keep the attempt id so they can jump back to the question in History
+  const addQuestionNote = (attemptId: string, state: ExamState) => (questionIndex: number) => {
+    const question = state.questions[questionIndex];
+    createNote({
+      title: t('app.noteTitle', { number: questionIndex + 1, text: `${question.text.slice(0, 60)}${question.text.length > 60 ? '…' : ''}` }),
+      content: `${question.text}\n\n${t('app.noteExplanation', { text: question.explanation })}\n\n`,
+      source: { type: 'question', attemptId, questionIndex, questionText: question.text },
+    });
+  };
+
+  const handleOpenQuestion = (source: Extract<NoteSource, { type: 'question' }>) => {
+    const attempt = attempts.find((a) => a.id === source.attemptId);
+    if (!attempt) {
+      alert(t('app.attemptGone'));
+      return;
+    }
+    setReviewAttempt(attempt);
+    setReviewFocus(source.questionIndex);
+    setMode('HISTORY');
+  };
+
+  // After a restore or a profile switch every collection may have changed, so state read from storage is reloaded
+  const reloadSavedData = () => {
+    const settings = loadSettings();
+    setLanguage(settings.language);
+    setDefaultLevel(settings.level);
+    setBilingual(!!settings.bilingual);
+    setAttempts(loadAttempts());
+    setDeck(loadDeck());
+    setBank(loadBank());
+    setReviewAttempt(null);
+    setReviewFocus(undefined);
+    setDataVersion((v) => v + 1);
+  };
+
+  // --- Profiles ---
+
+  const profile = profiles.find((p) => p.id === profileId) ?? profiles[0];
+
+  const switchTo = async (target: Profile): Promise<boolean> => {
+    generationRef.current++; // Stops a generation still filling the old profile's exam
+    try {
+      await switchProfile(target.id);
+    } catch (error) {
+      console.error(error);
+      alert(t('profiles.openFailed'));
+      return false;
+    }
+    setExamState(initialState);
+    setConfig(null);
+    setReviewCards(null);
+    setLessonLink(null);
+    setPendingResume(loadCheckpoint());
+    setMode('EXAM');
+    setProfileId(target.id);
+    setIsLocked(false);
+    reloadSavedData();
+    return true;
+  };
+
+  const handleSelectProfile = (target: Profile) => {
+    if (target.id === profile.id) return;
+    // An unfinished exam stays checkpointed in its profile and is offered again on return
+    if (examState.status === 'active' && !window.confirm(t('profiles.confirmSwitch', { name: target.name }))) return;
+    if (target.pinHash) setPinRequest({ profile: target, action: 'switch' });
+    else switchTo(target);
+  };
+
+  const removeProfile = async (target: Profile) => {
+    try {
+      setProfiles(await deleteProfile(target.id));
+    } catch (error) {
+      console.error(error);
+      alert(t('profiles.deleteFailed'));
+    }
+  };
+
+  const handleDeleteProfile = (target: Profile) => {
+    if (!window.confirm(t('profiles.confirmDelete', { name: target.name }))) return;
+    if (target.pinHash) setPinRequest({ profile: target, action: 'delete' });
+    else removeProfile(target);
+  };
+
+  const handlePinUnlocked = () => {
+    const request = pinRequest;
+    setPinRequest(null);
+    if (request.action === 'switch') switchTo(request.profile);
+    else removeProfile(request.profile);
+  };
+
+  const handleSaveProfile = async (values: ProfileFormValues) => {
+    setProfileDialog(null);
+    if (profileDialog === 'create') {
+      const created = createProfile(values.name, values.pin ?? undefined);
+      setProfiles(loadProfiles());
+      if (!(await switchTo(created))) return;
+    } else {
+      setProfiles(updateProfile(profile.id, { name: values.name, pin: values.pin }));
+    }
+    const settings = updateSettings({ language: values.language, level: values.level });
+    setLanguage(settings.language);
+    setDefaultLevel(settings.level);
+  };
+
+  const handleDeleteAttempt = (id: string) => {
+    setAttempts(deleteAttempt(id));
+  };
+
+  const dueCount = dueCards(deck).length;
+
+  const renderGrading = () => (
+    <div className="flex h-[calc(100vh-4rem)] items-center justify-center bg-slate-50">
+      <div className="text-center">
+        <div className="w-16 h-16 border-4 border-ca-200 border-t-ca-600 rounded-full animate-spin mx-auto mb-4"></div>
+        <h3 className="text-gray-900 font-bold text-lg">{t('app.gradingTitle')}</h3>
+        <p className="text-gray-500 text-sm">{t('app.gradingDetail')}</p>
+      </div>
+    </div>
+  );
+
   const renderContent = () => {
+    // History browser, optionally reviewing a past attempt
+    if (mode === 'HISTORY') {
+      if (reviewAttempt) {
+        return (
+          <ResultsScreen
+            state={reviewAttempt.state}
+            config={reviewAttempt.config}
+            onRestart={() => { setReviewAttempt(null); setReviewFocus(undefined); }}
+            restartLabel={t('results.backToHistory')}
+            onStudyTopic={studyTopic(reviewAttempt.config, true)}
+            onSaveToBank={saveToBank(reviewAttempt.state, reviewAttempt.config)}
+            onAddNote={addQuestionNote(reviewAttempt.id, reviewAttempt.state)}
+            focusQuestion={reviewFocus}
+          />
+        );
+      }
+      return (
+        <HistoryScreen
+          attempts={attempts}
+          onOpen={(attempt) => { setReviewAttempt(attempt); setReviewFocus(undefined); }}
+          onDelete={handleDeleteAttempt}
+        />
+      );
+    }
+
+    // Spaced-repetition review, reusing the practice quiz UI
+    if (mode === 'REVIEW' && reviewCards) {
+      if (examState.status === 'active') {
+        return (
+          <PracticeQuizScreen
+            state={examState}
+            onAnswer={handleAnswer}
+            onNavigate={handleNavigate}
+            onSubmit={handleSubmit}
+            onExit={handleExitReview}
+            heading={t('review.due')}
+            title={t('app.reviewSession', { count: examState.questions.length })}
+          />
+        );
+      }
+      if (examState.status === 'grading') {
+        return renderGrading();
+      }
+      if (examState.status === 'finished' && config) {
+        return (
+          <ResultsScreen
+            state={examState}
+            config={config}
+            onRestart={handleFinishReview}
+            restartLabel={t('results.backToDeck')}
+          />
+        );
+      }
+    }
+    if (mode === 'BANK') {
+      return (
+        <QuestionBankScreen
+          bank={bank}
+          onImport={handleImportBank}
+          onRemove={(id) => setBank(removeFromBank(id))}
+        />
+      );
+    }
+
+    if (mode === 'REVIEW') {
+      return (
+        <ReviewScreen
+          deck={deck}
+          onStartReview={handleStartReview}
+          onRemove={(id) => setDeck(removeCard(id))}
+        />
+      );
+    }
+
     // 1. Practice Mode Logic
     if (mode === 'PRACTICE') {
       if (examState.status === 'loading') {
@@ -147,8 +569,8 @@ const App: React.FC = () => {
           <div className="flex h-[calc(100vh-4rem)] items-center justify-center bg-violet-50">
              <div className="text-center">
                 <div className="w-16 h-16 border-4 border-violet-200 border-t-violet-600 rounded-full animate-spin mx-auto mb-4"></div>
-                <h3 className="text-violet-900 font-bold text-lg">Preparing Practice Session...</h3>
-                <p className="text-violet-600 text-sm">Generating questions for {config?.topic}</p>
+                <h3 className="text-violet-900 font-bold text-lg">{t('app.preparingPractice')}</h3>
+                <p className="text-violet-600 text-sm">{t('app.generatingFor', { topic: config?.topic ?? '' })}</p>
              </div>
           </div>
         );
@@ -165,6 +587,9 @@ const App: React.FC = () => {
           />
         );
       }
+      if (examState.status === 'grading') {
+        return renderGrading();
+      }
       // Results are shared
       if (examState.status === 'finished' && config) {
         return (
@@ -172,6 +597,9 @@ const App: React.FC = () => {
             state={examState}
             config={config}
             onRestart={handleRestart}
+            onStudyTopic={studyTopic(config, false)}
+            onSaveToBank={saveToBank(examState, config)}
+            onAddNote={addQuestionNote(`${examState.startTime}`, examState)}
           />
         );
       }
@@ -185,6 +613,11 @@ const App: React.FC = () => {
         <ClassesScreen 
           onStartQuiz={handleStartPractice} 
           language={language}
+          defaultLevel={defaultLevel}
+          bilingual={bilingual}
+          initialLesson={lessonLink}
+          onInitialLessonOpened={() => setLessonLink(null)}
+          onOpenQuestion={handleOpenQuestion}
         />
       );
     }
@@ -196,6 +629,12 @@ const App: React.FC = () => {
           onStartExam={handleStartSimulator} 
           isLoading={examState.status === 'loading'} 
           language={language}
+          defaultLevel={defaultLevel}
+          bank={bank}
+          onPregenerate={handlePregenerate}
+          isPregenerating={isPregenerating}
+          bilingual={bilingual}
+          onBilingualChange={(value) => setBilingual(!!updateSettings({ bilingual: value }).bilingual)}
         />
       );
     } else if (examState.status === 'active') {
@@ -209,91 +648,188 @@ const App: React.FC = () => {
           title={config?.topic}
         />
       );
+    } else if (examState.status === 'grading') {
+      return renderGrading();
     } else {
       return config && (
         <ResultsScreen
           state={examState}
           config={config}
           onRestart={handleRestart}
+          onStudyTopic={studyTopic(config, false)}
+          onSaveToBank={saveToBank(examState, config)}
+          onAddNote={addQuestionNote(`${examState.startTime}`, examState)}
         />
       );
     }
   };
 
   return (
-    <div className="font-sans text-gray-900 bg-gray-50 min-h-screen flex flex-col">
-      {/* Navigation Menu */}
-      {/* Hide standard nav in Practice Mode to emphasize separation, or keep it for consistency. 
-          The requirement 'separate page' often implies a full focus mode. 
-          We'll hide the main nav in PRACTICE mode to make it feel like a modal/separate context.
-      */}
-      {mode !== 'PRACTICE' && (
-        <nav className="bg-white border-b border-gray-200 sticky top-0 z-30">
-          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-            <div className="flex justify-between h-16">
-              <div className="flex items-center">
-                <div className="flex-shrink-0 flex items-center gap-2">
-                  <span className="font-bold text-xl tracking-tight text-gray-900">CA Guide</span>
-                </div>
-                <div className="hidden sm:ml-8 sm:flex sm:space-x-8">
-                  <button
-                    onClick={() => setMode('EXAM')}
-                    className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors ${
-                      mode === 'EXAM'
-                        ? 'border-ca-600 text-gray-900'
-                        : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
-                    }`}
-                  >
-                    Exam Simulator
-                  </button>
-                  <button
-                    onClick={() => setMode('CLASSES')}
-                    className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors ${
-                      mode === 'CLASSES'
-                        ? 'border-ca-600 text-gray-900'
-                        : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
-                    }`}
-                  >
-                    CA Classes
-                  </button>
+    <LanguageContext.Provider value={language}>
+      <div className="font-sans text-gray-900 bg-gray-50 min-h-screen flex flex-col">
+        {/* Navigation Menu */}
+        {/* Hide standard nav in Practice Mode to emphasize separation, or keep it for consistency. 
+            The requirement 'separate page' often implies a full focus mode. 
+            We'll hide the main nav in PRACTICE mode to make it feel like a modal/separate context.
+        */}
+        {mode !== 'PRACTICE' && !(mode === 'REVIEW' && reviewCards && examState.status === 'active') && (
+          <nav className="bg-white border-b border-gray-200 sticky top-0 z-30">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+              <div className="flex justify-between h-16">
+                <div className="flex items-center">
+                  <div className="flex-shrink-0 flex items-center gap-2">
+                    <span className="font-bold text-xl tracking-tight text-gray-900">CA Guide</span>
+                  </div>
+                  <div className="hidden sm:ml-8 sm:flex sm:space-x-8">
+                    <button
+                      onClick={() => setMode('EXAM')}
+                      className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors ${
+                        mode === 'EXAM'
+                          ? 'border-ca-600 text-gray-900'
+                          : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                      }`}
+                    >
+                      {t('nav.exam')}
+                    </button>
+                    <button
+                      onClick={() => setMode('CLASSES')}
+                      className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors ${
+                        mode === 'CLASSES'
+                          ? 'border-ca-600 text-gray-900'
+                          : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                      }`}
+                    >
+                      {t('nav.classes')}
+                    </button>
+                    <button
+                      onClick={() => { setMode('HISTORY'); setReviewAttempt(null); setReviewFocus(undefined); }}
+                      className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors ${
+                        mode === 'HISTORY'
+                          ? 'border-ca-600 text-gray-900'
+                          : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                      }`}
+                    >
+                      {t('nav.history')}
+                    </button>
+                    <button
+                      onClick={() => setMode('REVIEW')}
+                      className={`inline-flex items-center gap-2 px-1 pt-1 border-b-2 text-sm font-medium transition-colors ${
+                        mode === 'REVIEW'
+                          ? 'border-ca-600 text-gray-900'
+                          : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                      }`}
+                    >
+                      {t('nav.review')}
+                      {dueCount > 0 && (
+                        <span className="bg-violet-600 text-white text-[10px] font-bold px-1.5 py-0.5 rounded-full">{dueCount}</span>
+                      )}
+                    </button>
+                    <button
+                      onClick={() => setMode('BANK')}
+                      className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors ${
+                        mode === 'BANK'
+                          ? 'border-ca-600 text-gray-900'
+                          : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                      }`}
+                    >
+                      {t('nav.bank')}
+                    </button>
+                  </div>
                 </div>
-              </div>
               
-              {/* Right side controls */}
-              <div className="flex items-center gap-4">
-                <div className="flex items-center gap-2 bg-gray-100 p-1 rounded-lg">
-                  <Languages size={16} className="text-gray-500 ml-2" />
-                  <select 
-                    value={language}
-                    onChange={(e) => setLanguage(e.target.value as Language)}
-                    className="bg-transparent text-sm font-medium text-gray-700 py-1 pr-2 outline-none cursor-pointer"
-                  >
-                    {Object.values(Language).map((lang) => (
-                      <option key={lang} value={lang}>{lang}</option>
-                    ))}
-                  </select>
-                </div>
+                {/* Right side controls */}
+                <div className="flex items-center gap-4">
+                  <ProfileSwitcher
+                    profiles={profiles}
+                    active={profile}
+                    onSelect={handleSelectProfile}
+                    onCreate={() => setProfileDialog('create')}
+                    onEdit={() => setProfileDialog('edit')}
+                    onDelete={handleDeleteProfile}
+                    canEdit={!isLocked}
+                  />
+                  {!isLocked && (
+                    <>
+                      <button
+                        onClick={() => setIsBackupOpen(true)}
+                        className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                        title={t('nav.backup')}
+                      >
+                        <DatabaseBackup size={18} />
+                      </button>
+                      <div className="flex items-center gap-2 bg-gray-100 p-1 rounded-lg">
+                        <Languages size={16} className="text-gray-500 ml-2" />
+                        <select 
+                          value={language}
+                          onChange={(e) => setLanguage(updateSettings({ language: e.target.value as Language }).language)}
+                          className="bg-transparent text-sm font-medium text-gray-700 py-1 pr-2 outline-none cursor-pointer"
+                        >
+                          {Object.values(Language).map((lang) => (
+                            <option key={lang} value={lang}>{LANGUAGES[lang].nativeName}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </>
+                  )}
 
-                {/* Mobile toggle */}
-                <div className="flex items-center sm:hidden">
-                  <button 
-                    onClick={() => setMode(mode === 'EXAM' ? 'CLASSES' : 'EXAM')}
-                    className="text-gray-500 hover:text-gray-700 font-medium text-xs ml-2"
-                  >
-                    {mode === 'EXAM' ? 'CLASSES' : 'EXAM'}
-                  </button>
+                  {/* Mobile toggle */}
+                  <div className="flex items-center sm:hidden">
+                    <button 
+                      onClick={() => setMode(mode === 'EXAM' ? 'CLASSES' : 'EXAM')}
+                      className="text-gray-500 hover:text-gray-700 font-medium text-xs ml-2 uppercase"
+                    >
+                      {mode === 'EXAM' ? t('nav.classesShort') : t('nav.examShort')}
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
+          </nav>
+        )}
+
+        {storageIssue && <StorageBanner issue={storageIssue} onDismiss={() => setStorageIssue(null)} />}
+
+        {pendingResume && !isLocked && (
+          <ResumePrompt
+            checkpoint={pendingResume}
+            onResume={() => restoreCheckpoint(pendingResume)}
+            onSubmit={() => restoreCheckpoint(pendingResume)}
+            onDiscard={handleDiscardCheckpoint}
+          />
+        )}
+
+        {isBackupOpen && <BackupDialog onClose={() => setIsBackupOpen(false)} onRestored={reloadSavedData} />}
+
+        {profileDialog && (
+          <ProfileDialog
+            profile={profileDialog === 'edit' ? profile : undefined}
+            settings={{ language, level: defaultLevel }}
+            onSave={handleSaveProfile}
+            onClose={() => setProfileDialog(null)}
+          />
+        )}
+
+        {pinRequest && (
+          <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4">
+            <PinPrompt
+              profile={pinRequest.profile}
+              message={pinRequest.action === 'switch' ? t('pin.toSwitch') : t('pin.toDelete')}
+              onUnlock={handlePinUnlocked}
+              onCancel={() => setPinRequest(null)}
+            />
           </div>
-        </nav>
-      )}
+        )}
 
-      {/* Main Content */}
-      <div className="flex-1">
-        {renderContent()}
+        {/* Main Content */}
+        <div className="flex-1" key={dataVersion}>
+          {isLocked ? (
+            <div className="flex justify-center px-4 py-16">
+              <PinPrompt profile={profile} message={t('pin.locked')} onUnlock={() => setIsLocked(false)} />
+            </div>
+          ) : renderContent()}
+        </div>
       </div>
-    </div>
+    </LanguageContext.Provider>
   );
 };
 
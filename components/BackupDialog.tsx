@@ -0,0 +1,145 @@
+import React, { useRef, useState } from 'react';
+import { BackupArchive, LIST_LABELS, RestoreMode, backupFileName, createBackup, parseBackup, restoreBackup } from '../services/backup';
+import { downloadFile } from '../services/download';
+import { useTranslation } from './LanguageContext';
+import { X, HardDriveDownload, HardDriveUpload, GitMerge, Replace } from 'lucide-react';
+
+interface BackupDialogProps {
+  onClose: () => void;
+  onRestored: () => void; // Saved data changed; screens should reload it
+}
+
+const LIST_NAMES = Object.keys(LIST_LABELS) as (keyof typeof LIST_LABELS)[];
+
+const BackupDialog: React.FC<BackupDialogProps> = ({ onClose, onRestored }) => {
+  const { t, formatDate } = useTranslation();
+  const [current, setCurrent] = useState<BackupArchive>(() => createBackup());
+  const [loaded, setLoaded] = useState<{ archive: BackupArchive; skipped: number; fileName: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleDownload = () => {
+    const archive = createBackup();
+    downloadFile(backupFileName(archive), JSON.stringify(archive), 'application/json');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Lets the same file be picked again
+    if (!file) return;
+    try {
+      setLoaded({ ...parseBackup(await file.text()), fileName: file.name });
+    } catch (error) {
+      console.error(error);
+      alert(t('backup.readFailed', { error: error instanceof Error ? error.message : String(error) }));
+    }
+  };
+
+  const handleRestore = (mode: RestoreMode) => {
+    if (!loaded) return;
+    if (mode === 'replace' && !window.confirm(t('backup.confirmReplace'))) return;
+    const result = restoreBackup(loaded.archive, mode);
+    const summary = LIST_NAMES
+      .filter((name) => result[name].added + result[name].updated + result[name].kept > 0)
+      .map((name) => {
+        const { added, updated, kept } = result[name];
+        return mode === 'replace'
+          ? t('backup.restored', { list: t(LIST_LABELS[name]), count: added })
+          : t('backup.merged', { list: t(LIST_LABELS[name]), added, updated, kept });
+      });
+    if (loaded.skipped > 0) summary.push(t('backup.skipped', { count: loaded.skipped }));
+    alert(summary.length > 0 ? summary.join('\n') : t('backup.empty'));
+    setLoaded(null);
+    setCurrent(createBackup());
+    onRestored();
+  };
+
+  const renderCounts = (archive: BackupArchive) => (
+    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+      {LIST_NAMES.map((name) => (
+        <div key={name} className="bg-gray-50 rounded-lg px-3 py-2">
+          <div className="text-lg font-bold text-gray-800">{archive.data[name].length}</div>
+          <div className="text-xs text-gray-500">{t(LIST_LABELS[name])}</div>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">{t('nav.backup')}</h2>
+            <p className="text-sm text-gray-500 mt-1">{t('backup.detail')}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100" title={t('common.close')}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <section>
+            <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">{t('backup.onDevice')}</div>
+            {renderCounts(current)}
+            <button
+              onClick={handleDownload}
+              className="mt-4 w-full flex items-center justify-center gap-2 bg-ca-600 text-white py-2.5 rounded-lg font-medium hover:bg-ca-700 transition-colors"
+            >
+              <HardDriveDownload size={18} /> {t('backup.download')}
+            </button>
+          </section>
+
+          <section className="border-t border-gray-100 pt-6">
+            <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">{t('backup.restore')}</div>
+            {!loaded ? (
+              <>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="w-full flex items-center justify-center gap-2 border border-dashed border-gray-300 text-gray-600 py-2.5 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+                >
+                  <HardDriveUpload size={18} /> {t('backup.choose')}
+                </button>
+                <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+              </>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  <span className="font-medium text-gray-800">{loaded.fileName}</span>
+                  {loaded.archive.exportedAt > 0 && t('backup.savedAt', { date: formatDate(loaded.archive.exportedAt) })}
+                </p>
+                {renderCounts(loaded.archive)}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <button
+                    onClick={() => handleRestore('merge')}
+                    className="flex items-start gap-3 p-4 rounded-xl border border-gray-200 text-left hover:border-ca-300 hover:bg-ca-50 transition-colors"
+                  >
+                    <GitMerge size={20} className="text-ca-600 flex-shrink-0 mt-0.5" />
+                    <div>
+                      <div className="font-semibold text-gray-800 text-sm">{t('backup.merge')}</div>
+                      <div className="text-xs text-gray-500 mt-0.5">{t('backup.mergeDetail')}</div>
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => handleRestore('replace')}
+                    className="flex items-start gap-3 p-4 rounded-xl border border-gray-200 text-left hover:border-red-300 hover:bg-red-50 transition-colors"
+                  >
+                    <Replace size={20} className="text-red-600 flex-shrink-0 mt-0.5" />
+                    <div>
+                      <div className="font-semibold text-gray-800 text-sm">{t('backup.replace')}</div>
+                      <div className="text-xs text-gray-500 mt-0.5">{t('backup.replaceDetail')}</div>
+                    </div>
+                  </button>
+                </div>
+                <button onClick={() => setLoaded(null)} className="text-sm text-gray-500 hover:text-gray-700">
+                  {t('backup.chooseOther')}
+                </button>
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupDialog;
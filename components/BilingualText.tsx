@@ -0,0 +1,53 @@
+import React from 'react';
+import { BilingualView } from '../types';
+import { useTranslation } from './LanguageContext';
+import { Columns2, Square } from 'lucide-react';
+
+interface BilingualTextProps {
+  text: string;
+  english?: string; // Absent on single-language questions, which show only `text`
+  view: BilingualView;
+}
+
+// Side by side, the English original takes a second column, stacking below on narrow screens
+const BilingualText: React.FC<BilingualTextProps> = ({ text, english, view }) => {
+  if (!english || view === 'single') return <>{text}</>;
+  return (
+    <span className="grid md:grid-cols-2 gap-x-6 gap-y-2">
+      <span>{text}</span>
+      <span lang="en" className="md:border-l md:border-gray-200 md:pl-6 opacity-75">{english}</span>
+    </span>
+  );
+};
+
+interface BilingualViewToggleProps {
+  view: BilingualView;
+  onChange: (view: BilingualView) => void;
+}
+
+export const BilingualViewToggle: React.FC<BilingualViewToggleProps> = ({ view, onChange }) => {
+  const { t } = useTranslation();
+  const options: { value: BilingualView; label: string; icon: React.ElementType }[] = [
+    { value: 'side-by-side', label: t('bilingual.sideBySide'), icon: Columns2 },
+    { value: 'single', label: t('bilingual.single'), icon: Square },
+  ];
+  return (
+    <div role="group" aria-label={t('bilingual.view')} className="inline-flex rounded-lg border border-gray-200 bg-white p-0.5 text-xs font-medium">
+      {options.map(({ value, label, icon: Icon }) => (
+        <button
+          key={value}
+          onClick={() => onChange(value)}
+          aria-pressed={view === value}
+          className={`flex items-center gap-1.5 px-2.5 py-1 rounded-md transition-colors ${
+            view === value ? 'bg-gray-800 text-white' : 'text-gray-500 hover:text-gray-800'
+          }`}
+        >
+          <Icon size={14} />
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default BilingualText;
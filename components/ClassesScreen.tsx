@@ -1,57 +1,82 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Subject, DifficultyLevel, Lesson, LearningStyle, ExamConfig, Language, LessonSection } from '../types';
-import { generateLessonStream } from '../services/gemini';
-import { BookOpen, GraduationCap, Search, Sparkles, ChevronRight, BookText, BrainCircuit, PlayCircle, Bookmark, BookmarkCheck, Trash2, Library, Plus, StickyNote, Save, PenLine, Clock } from 'lucide-react';
+import { Subject, DifficultyLevel, Lesson, LearningStyle, ExamConfig, Language, LessonSection, LessonLink, Note, NoteSource, SectionAction, TutorMessage } from '../types';
+import { generateLessonStream, rewriteSectionStream } from '../services/gemini';
+import { papersFor, findPaper, defaultPaperFor } from '../services/syllabus';
+import { allTags, createNote, deleteNote, describeSource, loadNotes, normalizeTag, searchLibrary, updateNote } from '../services/notes';
+import { isSameLesson, lessonId, loadLessons, removeLesson, saveLesson, updateLesson } from '../services/lessons';
+import { MessageKey } from '../services/i18n';
+import { LANGUAGES } from '../services/languages';
+import SyllabusPicker, { SyllabusSelection } from './SyllabusPicker';
+import MarkdownContent from './MarkdownContent';
+import TutorChat from './TutorChat';
+import ExportDialog from './ExportDialog';
+import { useTranslation } from './LanguageContext';
+import { BookOpen, GraduationCap, Search, Sparkles, ChevronRight, BookText, BrainCircuit, PlayCircle, Bookmark, BookmarkCheck, Trash2, Library, Plus, StickyNote, Save, PenLine, Clock, Feather, Layers, Lightbulb, RefreshCw, Undo2, Download, Tag, X, Link2, NotebookPen } from 'lucide-react';
 
 interface ClassesScreenProps {
   onStartQuiz: (config: ExamConfig) => void;
   language: Language;
+  defaultLevel: DifficultyLevel; // The profile's level, preselected
+  bilingual: boolean; // Quizzes also come in English, as chosen in the exam setup
+  initialLesson?: LessonLink | null; // Generated straight away when set
+  onInitialLessonOpened?: () => void;
+  onOpenQuestion?: (source: Extract<NoteSource, { type: 'question' }>) => void; // Jumps to a note's exam question
 }
 
-interface Note {
-  id: string;
-  title: string;
-  content: string;
-  lastModified: number;
-}
+const SECTION_ACTIONS: { action: SectionAction; label: MessageKey; icon: React.ElementType }[] = [
+  { action: 'simplify', label: 'classes.simplify', icon: Feather },
+  { action: 'deepen', label: 'classes.deepen', icon: Layers },
+  { action: 'example', label: 'classes.example', icon: Lightbulb },
+  { action: 'regenerate', label: 'classes.regenerate', icon: RefreshCw },
+];
+
+const STYLE_LABELS: Record<LearningStyle, MessageKey> = {
+  [LearningStyle.CONCEPTUAL]: 'style.conceptual',
+  [LearningStyle.EXAM_FOCUSED]: 'style.examFocused',
+  [LearningStyle.IN_DEPTH]: 'style.inDepth',
+};
+
+const MAX_SECTION_HISTORY = 5;
+
+// Models sometimes repeat the section header despite the prompt
+const stripLeadingHeader = (markdown: string) => markdown.replace(/^\s*#{1,2}\s[^\n]*(\n|$)/, '');
 
-const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language }) => {
-  const [subject, setSubject] = useState<Subject>(Subject.ACCOUNTING);
-  const [level, setLevel] = useState<DifficultyLevel>(DifficultyLevel.FOUNDATION);
+const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language, defaultLevel, bilingual, initialLesson, onInitialLessonOpened, onOpenQuestion }) => {
+  const { t, formatDate } = useTranslation();
+  const [level, setLevel] = useState<DifficultyLevel>(defaultLevel);
+  const [selection, setSelection] = useState<SyllabusSelection>({ paperId: papersFor(defaultLevel)[0].id });
+  const paper = papersFor(level).find((p) => p.id === selection.paperId) ?? papersFor(level)[0];
   const [style, setStyle] = useState<LearningStyle>(LearningStyle.CONCEPTUAL);
   const [topic, setTopic] = useState<string>('');
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [lesson, setLesson] = useState<Lesson | null>(null);
+  const [rewritingSection, setRewritingSection] = useState<number | null>(null);
   
   // Tabs State
   const [activeTab, setActiveTab] = useState<'generate' | 'saved' | 'notes'>('generate');
   
   // Bookmarks State
-  const [savedLessons, setSavedLessons] = useState<Lesson[]>([]);
+  const [savedLessons, setSavedLessons] = useState<Lesson[]>(() => loadLessons());
   
   // Notes State
-  const [notes, setNotes] = useState<Note[]>([]);
+  const [notes, setNotes] = useState<Note[]>(() => loadNotes());
   const [activeNoteId, setActiveNoteId] = useState<string | null>(null);
+  const [noteQuery, setNoteQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+  const [scrollToSection, setScrollToSection] = useState<number | null>(null);
+
+  // Export dialog, opened with the lessons and notes to preselect
+  const [exportRequest, setExportRequest] = useState<{ lessons: Lesson[]; notes: Note[] } | null>(null);
   
   const streamBufferRef = useRef<string>('');
 
-  // Load data on mount
+  // Brings a section into view once a lesson opened from a note or search result has rendered
   useEffect(() => {
-    try {
-      const saved = localStorage.getItem('ca-saved-lessons');
-      if (saved) setSavedLessons(JSON.parse(saved));
-      
-      const userNotes = localStorage.getItem('ca-user-notes');
-      if (userNotes) setNotes(JSON.parse(userNotes));
-    } catch (e) {
-      console.error("Failed to load local storage data", e);
-    }
-  }, []);
-
-  const saveLessonsToStorage = (lessons: Lesson[]) => {
-    localStorage.setItem('ca-saved-lessons', JSON.stringify(lessons));
-    setSavedLessons(lessons);
-  };
+    if (scrollToSection === null) return;
+    document.getElementById(`lesson-section-${scrollToSection}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    setScrollToSection(null);
+  }, [scrollToSection, lesson]);
 
   // --- Lesson Logic ---
 
@@ -85,22 +110,37 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
     return sections;
   };
 
-  const handleStartClass = async (e: React.FormEvent) => {
+  // Picking a chapter or unit fills in the topic, which can still be narrowed by hand
+  const handleSelectionChange = (next: SyllabusSelection) => {
+    setSelection(next);
+    const chapter = findPaper(next.paperId)?.chapters.find((c) => c.id === next.chapterId);
+    if (next.unit || chapter) setTopic(next.unit ?? chapter!.name);
+  };
+
+  const handleStartClass = (e: React.FormEvent) => {
     e.preventDefault();
     if (!topic.trim()) return;
+    startClass(paper.subject, level, topic, { paperId: paper.id, chapterId: selection.chapterId });
+  };
 
+  const startClass = async (subject: Subject, level: DifficultyLevel, topic: string, ref: Pick<Lesson, 'paperId' | 'chapterId'>) => {
     setIsGenerating(true);
     setActiveTab('generate');
     setLesson({
+        id: lessonId(subject, topic),
+        lastModified: Date.now(),
         topic: topic,
         subject: subject,
         level: level,
-        sections: []
+        sections: [],
+        style,
+        language,
+        ...ref
     });
     streamBufferRef.current = '';
 
     try {
-      const stream = generateLessonStream(subject, level, topic, style, language);
+      const stream = generateLessonStream(subject, level, topic, style, language, ref);
       for await (const chunk of stream) {
         if (chunk) {
           streamBufferRef.current += chunk;
@@ -109,12 +149,25 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
         }
       }
     } catch (error) {
-      alert("Connection interrupted. Please try again.");
+      alert(t('common.connectionInterrupted'));
     } finally {
       setIsGenerating(false);
     }
   };
 
+  // Lessons requested from another screen (e.g. a weak topic in the results)
+  useEffect(() => {
+    if (!initialLesson) return;
+    const { subject, level, topic, paperId } = initialLesson;
+    const linkedPaper = findPaper(paperId) ?? defaultPaperFor(level, subject);
+    const chapter = linkedPaper?.chapters.find((c) => c.name.toLowerCase() === topic.toLowerCase());
+    setLevel(level);
+    setSelection({ paperId: (linkedPaper ?? papersFor(level)[0]).id, chapterId: chapter?.id });
+    setTopic(topic);
+    startClass(subject, level, topic, { paperId: linkedPaper?.id, chapterId: chapter?.id });
+    onInitialLessonOpened?.();
+  }, [initialLesson]);
+
   const handleTakeQuiz = () => {
     if (!lesson) return;
     onStartQuiz({
@@ -123,27 +176,76 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
       questionCount: 5,
       durationMinutes: 5,
       topic: lesson.topic,
-      language: language
+      paperId: lesson.paperId,
+      chapterId: lesson.chapterId,
+      language: language,
+      bilingual,
     });
   };
 
-  const isBookmarked = lesson && savedLessons.some(l => l.topic === lesson.topic && l.subject === lesson.subject);
+  const isBookmarked = lesson && savedLessons.some(l => isSameLesson(l, lesson));
 
   const toggleBookmark = () => {
     if (!lesson) return;
-    if (isBookmarked) {
-      const newLessons = savedLessons.filter(l => !(l.topic === lesson.topic && l.subject === lesson.subject));
-      saveLessonsToStorage(newLessons);
-    } else {
-      const newLessons = [lesson, ...savedLessons];
-      saveLessonsToStorage(newLessons);
+    setSavedLessons(isBookmarked ? removeLesson(lesson) : saveLesson(lesson));
+  };
+
+  // A bookmarked copy follows changes to the open lesson, such as its chat or rewritten sections
+  const updateSavedLesson = (changed: Lesson, changes: Partial<Lesson>) => {
+    setSavedLessons(updateLesson(changed, changes));
+  };
+
+  const handleChatChange = (chat: TutorMessage[]) => {
+    setLesson(prev => prev ? { ...prev, chat } : null);
+    if (lesson) updateSavedLesson(lesson, { chat });
+  };
+
+  const setSection = (idx: number, section: LessonSection) => {
+    setLesson(prev => prev ? { ...prev, sections: prev.sections.map((s, i) => i === idx ? section : s) } : null);
+  };
+
+  const handleSectionAction = async (idx: number, action: SectionAction) => {
+    if (!lesson || rewritingSection !== null) return;
+    const original = lesson.sections[idx];
+    const history = [...(original.history ?? []), original.content].slice(-MAX_SECTION_HISTORY);
+    const compose = (text: string) => action === 'example'
+      ? `${original.content}\n\n${stripLeadingHeader(text)}`
+      : stripLeadingHeader(text);
+    setRewritingSection(idx);
+
+    let text = '';
+    try {
+      for await (const chunk of rewriteSectionStream(lesson, idx, action, style, language)) {
+        text += chunk;
+        setSection(idx, { ...original, content: compose(text), history });
+      }
+      if (!text.trim()) throw new Error("Empty section rewrite");
+      const section = { ...original, content: compose(text), history };
+      updateSavedLesson(lesson, { sections: lesson.sections.map((s, i) => i === idx ? section : s) });
+    } catch (error) {
+      console.error("Section rewrite failed", error);
+      setSection(idx, original);
+      alert(t('common.connectionInterrupted'));
+    } finally {
+      setRewritingSection(null);
     }
   };
 
+  const handleRevertSection = (idx: number) => {
+    if (!lesson) return;
+    const section = lesson.sections[idx];
+    if (!section.history?.length) return;
+    const reverted = { ...section, content: section.history[section.history.length - 1], history: section.history.slice(0, -1) };
+    setSection(idx, reverted);
+    updateSavedLesson(lesson, { sections: lesson.sections.map((s, i) => i === idx ? reverted : s) });
+  };
+
   const loadBookmark = (savedLesson: Lesson) => {
     setLesson(savedLesson);
-    setSubject(savedLesson.subject as Subject);
-    setLevel(savedLesson.level as unknown as DifficultyLevel);
+    const savedLevel = savedLesson.level as unknown as DifficultyLevel;
+    const savedPaper = findPaper(savedLesson.paperId) ?? defaultPaperFor(savedLevel, savedLesson.subject as Subject);
+    setLevel(savedLevel);
+    setSelection({ paperId: (savedPaper ?? papersFor(savedLevel)[0]).id, chapterId: savedLesson.chapterId });
     setTopic(savedLesson.topic);
     setActiveTab('generate'); // Switch back to view mode
   };
@@ -151,51 +253,29 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
   const deleteBookmark = (e: React.MouseEvent, index: number) => {
     e.stopPropagation();
     e.preventDefault();
-    if (window.confirm("Delete this saved class?")) {
-      const newLessons = [...savedLessons];
-      newLessons.splice(index, 1);
-      saveLessonsToStorage(newLessons);
+    if (window.confirm(t('classes.confirmDeleteLesson'))) {
+      setSavedLessons(removeLesson(savedLessons[index]));
     }
   };
 
   // --- Notes Logic ---
 
   const handleCreateNote = () => {
-    const newNote: Note = {
-      id: Date.now().toString(),
-      title: '',
-      content: '',
-      lastModified: Date.now(),
-    };
-    
-    setNotes(prev => {
-      const updated = [newNote, ...prev];
-      localStorage.setItem('ca-user-notes', JSON.stringify(updated));
-      return updated;
-    });
-    setActiveNoteId(newNote.id);
+    const updated = createNote({ tags: tagFilter ? [tagFilter] : undefined });
+    setNotes(updated);
+    setActiveNoteId(updated[0].id);
   };
 
   const handleUpdateNote = (id: string, updates: Partial<Note>) => {
-    setNotes(prev => {
-      const updatedNotes = prev.map(n => 
-        n.id === id ? { ...n, ...updates, lastModified: Date.now() } : n
-      );
-      localStorage.setItem('ca-user-notes', JSON.stringify(updatedNotes));
-      return updatedNotes;
-    });
+    setNotes(updateNote(id, updates));
   };
 
   const handleDeleteNote = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
     e.preventDefault();
     
-    if (window.confirm("Are you sure you want to delete this note?")) {
-      setNotes(prev => {
-        const updated = prev.filter(n => n.id !== id);
-        localStorage.setItem('ca-user-notes', JSON.stringify(updated));
-        return updated;
-      });
+    if (window.confirm(t('notes.confirmDelete'))) {
+      setNotes(deleteNote(id));
       
       if (activeNoteId === id) {
         setActiveNoteId(null);
@@ -203,8 +283,55 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
     }
   };
 
+  // A note needs its lesson in the library to lead back to it, so the lesson is saved too
+  const handleAddLessonNote = (sectionIndex?: number) => {
+    if (!lesson) return;
+    if (!isBookmarked) setSavedLessons(saveLesson(lesson));
+    const section = sectionIndex !== undefined ? lesson.sections[sectionIndex] : undefined;
+    const updated = createNote({
+      title: section ? `${lesson.topic}: ${section.title}` : lesson.topic,
+      source: { type: 'lesson', subject: lesson.subject, topic: lesson.topic, sectionTitle: section?.title },
+    });
+    setNotes(updated);
+    setActiveNoteId(updated[0].id);
+    setActiveTab('notes');
+  };
+
+  const openLesson = (saved: Lesson, sectionIndex?: number) => {
+    loadBookmark(saved);
+    if (sectionIndex !== undefined && sectionIndex >= 0) setScrollToSection(sectionIndex);
+  };
+
+  const handleOpenSource = (source: NoteSource) => {
+    if (source.type === 'question') {
+      onOpenQuestion?.(source);
+      return;
+    }
+    const saved = savedLessons.find(l => l.topic === source.topic && l.subject === source.subject);
+    if (!saved) {
+      alert(t('classes.lessonGone'));
+      return;
+    }
+    openLesson(saved, source.sectionTitle ? saved.sections.findIndex(s => s.title === source.sectionTitle) : undefined);
+  };
+
+  const handleAddTag = (note: Note) => {
+    const tag = normalizeTag(tagDraft);
+    setTagDraft('');
+    if (!tag || note.tags?.includes(tag)) return;
+    handleUpdateNote(note.id, { tags: [...(note.tags ?? []), tag] });
+  };
+
+  const handleRemoveTag = (note: Note, tag: string) => {
+    handleUpdateNote(note.id, { tags: (note.tags ?? []).filter(other => other !== tag) });
+  };
+
   const getActiveNote = () => notes.find(n => n.id === activeNoteId);
 
+  const search = searchLibrary(noteQuery, notes, savedLessons, language);
+  const visibleNotes = search.notes.filter(n => !tagFilter || n.tags?.includes(tagFilter));
+  const noteTags = allTags(notes);
+
   // --- Render Helpers ---
 
   const renderNoteEditor = () => {
@@ -213,12 +340,12 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
       return (
         <div className="h-full flex flex-col items-center justify-center text-gray-400">
            <StickyNote size={64} className="mb-4 text-ca-200" />
-           <p className="text-lg font-medium text-gray-500">Select a note to edit</p>
+           <p className="text-lg font-medium text-gray-500">{t('notes.select')}</p>
            <button 
              onClick={handleCreateNote}
              className="mt-4 px-6 py-2 bg-ca-600 text-white rounded-lg hover:bg-ca-700 transition-colors font-medium"
            >
-             Create New Note
+             {t('notes.create')}
            </button>
         </div>
       );
@@ -231,28 +358,67 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
             type="text"
             value={note.title}
             onChange={(e) => handleUpdateNote(note.id, { title: e.target.value })}
-            placeholder="Note Title..."
+            placeholder={t('notes.titlePlaceholder')}
             className="text-2xl font-bold bg-transparent border-none focus:ring-0 text-gray-800 placeholder-gray-300 w-full"
           />
           <div className="flex items-center gap-3 ml-4">
             <div className="text-xs text-gray-400 flex items-center gap-1 whitespace-nowrap">
               <Clock size={12} />
-              <span className="hidden sm:inline">Saved</span> {new Date(note.lastModified).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              <span className="hidden sm:inline">{t('notes.saved')}</span> {formatDate(note.lastModified, { hour: '2-digit', minute: '2-digit' })}
             </div>
             <button 
               onClick={(e) => handleDeleteNote(e, note.id)}
               className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
-              title="Delete Note"
+              title={t('notes.delete')}
             >
               <Trash2 size={20} />
             </button>
           </div>
         </div>
+        <div className="px-6 py-3 border-b border-gray-100 flex flex-wrap items-center gap-2">
+          {note.source && (
+            <button
+              onClick={() => handleOpenSource(note.source)}
+              className="flex items-center gap-1.5 text-ca-700 bg-ca-50 hover:bg-ca-100 px-2.5 py-1 rounded-md text-xs font-medium max-w-full"
+              title={note.source.type === 'lesson' ? t('notes.openLesson') : t('notes.openQuestion')}
+            >
+              <Link2 size={14} className="flex-shrink-0" />
+              <span className="truncate">
+                {describeSource(note.source, language)}
+              </span>
+            </button>
+          )}
+          {(note.tags ?? []).map(tag => (
+            <span key={tag} className="flex items-center gap-1 bg-amber-50 text-amber-700 border border-amber-100 px-2 py-0.5 rounded-md text-xs">
+              #{tag}
+              <button onClick={() => handleRemoveTag(note, tag)} className="hover:text-amber-900" title={t('notes.removeTag')}>
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+          <div className="flex items-center gap-1 text-gray-400">
+            <Tag size={14} />
+            <input
+              type="text"
+              value={tagDraft}
+              onChange={(e) => setTagDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ',') {
+                  e.preventDefault();
+                  handleAddTag(note);
+                }
+              }}
+              onBlur={() => tagDraft.trim() && handleAddTag(note)}
+              placeholder={t('notes.addTag')}
+              className="bg-transparent border-none focus:ring-0 outline-none text-xs text-gray-600 w-24 p-0"
+            />
+          </div>
+        </div>
         <div className="flex-1 p-0">
           <textarea
             value={note.content}
             onChange={(e) => handleUpdateNote(note.id, { content: e.target.value })}
-            placeholder="Start typing your notes here..."
+            placeholder={t('notes.contentPlaceholder')}
             className="w-full h-full p-6 resize-none focus:ring-0 border-none text-gray-600 leading-relaxed text-lg"
           />
         </div>
@@ -271,9 +437,9 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
             <BrainCircuit className="text-ca-600" />
             CA Mastermind AI
           </h2>
-          <p className="text-sm text-gray-500 mt-1">Your personal expert tutor.</p>
+          <p className="text-sm text-gray-500 mt-1">{t('classes.subtitle')}</p>
           <div className="mt-2 inline-flex items-center px-2 py-1 bg-ca-50 text-ca-700 text-xs rounded-md font-medium">
-            Language: {language}
+            {t('common.language')}: {LANGUAGES[language].nativeName}
           </div>
         </div>
 
@@ -286,7 +452,7 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
             }`}
           >
             <Plus size={16} />
-            Class
+            {t('classes.tabClass')}
             {activeTab === 'generate' && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-ca-600 rounded-t-full"></div>}
           </button>
           <button
@@ -296,7 +462,7 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
             }`}
           >
             <Library size={16} />
-            Library
+            {t('classes.tabLibrary')}
             {activeTab === 'saved' && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-ca-600 rounded-t-full"></div>}
           </button>
           <button
@@ -306,7 +472,7 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
             }`}
           >
             <StickyNote size={16} />
-            Notes
+            {t('classes.tabNotes')}
             {activeTab === 'notes' && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-ca-600 rounded-t-full"></div>}
           </button>
         </div>
@@ -316,60 +482,54 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
           {activeTab === 'generate' && (
             <form onSubmit={handleStartClass} className="space-y-6">
               <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-2">Target Level</label>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">{t('classes.targetLevel')}</label>
                 <div className="grid grid-cols-1 gap-2">
                   {Object.values(DifficultyLevel).map((l) => (
                     <button
                       key={l}
                       type="button"
-                      onClick={() => setLevel(l)}
+                      onClick={() => { setLevel(l); setSelection({ paperId: papersFor(l)[0].id }); }}
                       className={`text-left px-4 py-3 rounded-lg border transition-all flex items-center justify-between ${
                         level === l
                           ? 'bg-ca-50 border-ca-500 text-ca-700 font-medium'
                           : 'border-gray-200 hover:bg-gray-50 text-gray-600'
                       }`}
                     >
-                      {l}
+                      {t(`level.${l}`)}
                       {level === l && <div className="w-2 h-2 rounded-full bg-ca-500" />}
                     </button>
                   ))}
                 </div>
               </div>
 
-              <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-2">Subject</label>
-                <select
-                  value={subject}
-                  onChange={(e) => setSubject(e.target.value as Subject)}
-                  className="w-full p-3 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-ca-500 focus:border-ca-500 outline-none text-sm"
-                >
-                  {Object.values(Subject).map((s) => (
-                    <option key={s} value={s}>{s}</option>
-                  ))}
-                </select>
-              </div>
+              <SyllabusPicker
+                level={level}
+                value={selection}
+                onChange={handleSelectionChange}
+                wholePaperLabel={t('classes.anyChapter')}
+              />
 
               <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-2">Teaching Style</label>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">{t('classes.style')}</label>
                 <select
                   value={style}
                   onChange={(e) => setStyle(e.target.value as LearningStyle)}
                   className="w-full p-3 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-ca-500 focus:border-ca-500 outline-none text-sm"
                 >
                   {Object.values(LearningStyle).map((s) => (
-                    <option key={s} value={s}>{s}</option>
+                    <option key={s} value={s}>{t(STYLE_LABELS[s])}</option>
                   ))}
                 </select>
               </div>
 
               <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-2">Topic to Master</label>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">{t('classes.topic')}</label>
                 <div className="relative">
                   <input
                     type="text"
                     value={topic}
                     onChange={(e) => setTopic(e.target.value)}
-                    placeholder="e.g. GST Input Tax Credit..."
+                    placeholder={t('classes.topicPlaceholder')}
                     className="w-full pl-10 pr-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-ca-500 focus:border-ca-500 outline-none"
                     required
                   />
@@ -389,11 +549,11 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
                 {isGenerating ? (
                   <>
                     <Sparkles className="animate-spin" size={18} />
-                    Streaming...
+                    {t('classes.streaming')}
                   </>
                 ) : (
                   <>
-                    Teach Me
+                    {t('classes.teachMe')}
                     <ChevronRight size={18} />
                   </>
                 )}
@@ -403,12 +563,20 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
 
           {activeTab === 'saved' && (
             <div className="space-y-4">
+              {savedLessons.length > 0 && (
+                <button
+                  onClick={() => setExportRequest({ lessons: savedLessons, notes: [] })}
+                  className="w-full py-2 px-4 border border-gray-200 rounded-lg text-gray-600 font-medium hover:bg-gray-50 flex items-center justify-center gap-2 text-sm"
+                >
+                  <Download size={16} /> {t('classes.exportLessons')}
+                </button>
+              )}
               {savedLessons.length === 0 ? (
                 <div className="text-center py-10 text-gray-400">
                   <Library size={48} className="mx-auto mb-3 opacity-20" />
-                  <p className="text-sm">No saved lessons.</p>
+                  <p className="text-sm">{t('classes.noLessons')}</p>
                   <button onClick={() => setActiveTab('generate')} className="mt-2 text-ca-600 text-sm font-medium hover:underline">
-                    Create your first class
+                    {t('classes.firstClass')}
                   </button>
                 </div>
               ) : (
@@ -446,16 +614,50 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
                 onClick={handleCreateNote}
                 className="w-full py-2 px-4 border border-dashed border-ca-300 rounded-lg text-ca-600 font-medium hover:bg-ca-50 flex items-center justify-center gap-2 mb-4"
               >
-                <Plus size={16} /> New Note
+                <Plus size={16} /> {t('notes.new')}
               </button>
+              {notes.length > 0 && (
+                <button
+                  onClick={() => setExportRequest({ lessons: [], notes })}
+                  className="w-full py-2 px-4 border border-gray-200 rounded-lg text-gray-600 font-medium hover:bg-gray-50 flex items-center justify-center gap-2 text-sm mb-4"
+                >
+                  <Download size={16} /> {t('notes.export')}
+                </button>
+              )}
+
+              <div className="relative">
+                <input
+                  type="text"
+                  value={noteQuery}
+                  onChange={(e) => setNoteQuery(e.target.value)}
+                  placeholder={t('notes.search')}
+                  className="w-full pl-9 pr-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-ca-500 focus:border-ca-500 outline-none text-sm"
+                />
+                <Search className="absolute left-3 top-2.5 text-gray-400" size={16} />
+              </div>
+              {noteTags.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {noteTags.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                      className={`text-xs px-2 py-0.5 rounded-md border transition-colors ${
+                        tagFilter === tag ? 'bg-amber-500 border-amber-500 text-white' : 'bg-amber-50 border-amber-100 text-amber-700 hover:bg-amber-100'
+                      }`}
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              )}
               
-              {notes.length === 0 ? (
+              {visibleNotes.length === 0 ? (
                  <div className="text-center py-8 text-gray-400">
                    <StickyNote size={32} className="mx-auto mb-2 opacity-20" />
-                   <p className="text-xs">No notes yet.</p>
+                   <p className="text-xs">{notes.length === 0 ? t('notes.none') : t('notes.noMatches')}</p>
                  </div>
               ) : (
-                notes.map((n) => (
+                visibleNotes.map((n) => (
                   <div 
                     key={n.id}
                     onClick={() => setActiveNoteId(n.id)}
@@ -467,25 +669,46 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
                   >
                     <div className="flex justify-between items-start mb-1">
                       <h3 className={`font-bold text-sm line-clamp-1 ${!n.title ? 'text-gray-400 italic' : 'text-gray-800'}`}>
-                        {n.title || 'Untitled Note'}
+                        {n.title || t('common.untitledNote')}
                       </h3>
                       <button
                         onClick={(e) => handleDeleteNote(e, n.id)}
                         className="text-gray-400 hover:text-red-500 p-2 -mr-2 transition-colors rounded-full hover:bg-red-50"
-                        title="Delete Note"
+                        title={t('notes.delete')}
                       >
                         <Trash2 size={16} />
                       </button>
                     </div>
                     <p className="text-xs text-gray-500 line-clamp-2 mb-2">
-                      {n.content || 'No content...'}
+                      {n.content || t('notes.noContent')}
                     </p>
-                    <div className="text-[10px] text-gray-400">
-                      {new Date(n.lastModified).toLocaleDateString()}
+                    <div className="flex items-center gap-2 text-[10px] text-gray-400">
+                      {formatDate(n.lastModified, { dateStyle: 'short' })}
+                      {n.source && <Link2 size={10} className="text-ca-400" />}
+                      {n.tags?.map(tag => <span key={tag} className="text-amber-600">#{tag}</span>)}
                     </div>
                   </div>
                 ))
               )}
+
+              {search.lessons.length > 0 && (
+                <div className="pt-2">
+                  <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">{t('notes.inLessons')}</div>
+                  <div className="space-y-2">
+                    {search.lessons.map(({ lesson: match, sectionIndex, snippet }) => (
+                      <button
+                        key={`${match.subject}|${match.topic}`}
+                        onClick={() => openLesson(match, sectionIndex)}
+                        className="w-full text-left p-3 rounded-xl border border-gray-200 bg-white hover:border-ca-200 hover:shadow-sm transition-all"
+                      >
+                        <div className="font-bold text-sm text-gray-800 line-clamp-1">{match.topic}</div>
+                        {sectionIndex !== undefined && <div className="text-[11px] text-ca-600 mt-0.5">{match.sections[sectionIndex].title}</div>}
+                        <p className="text-xs text-gray-500 line-clamp-2 mt-1">{snippet}</p>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -501,11 +724,11 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
               <header className="mb-8 border-b border-gray-200 pb-6 flex items-start justify-between">
                 <div>
                   <div className="flex flex-wrap items-center gap-3 text-sm text-ca-600 font-medium mb-3 uppercase tracking-wide">
-                    <span className="bg-ca-100 px-3 py-1 rounded-full">{lesson.level}</span>
+                    <span className="bg-ca-100 px-3 py-1 rounded-full">{t(`level.${lesson.level as DifficultyLevel}`)}</span>
                     <span>•</span>
                     <span>{lesson.subject}</span>
                     <span>•</span>
-                    <span>{language}</span>
+                    <span>{LANGUAGES[language].nativeName}</span>
                   </div>
                   <h1 className="text-3xl md:text-4xl font-bold text-gray-900 leading-tight">
                     {lesson.topic}
@@ -513,35 +736,83 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
                 </div>
                 
                 {!isGenerating && (
-                  <button
-                    onClick={toggleBookmark}
-                    className={`flex-shrink-0 p-3 rounded-full transition-all ${
-                      isBookmarked 
-                        ? 'bg-ca-100 text-ca-600 hover:bg-ca-200' 
-                        : 'bg-gray-100 text-gray-400 hover:bg-gray-200 hover:text-gray-600'
-                    }`}
-                    title={isBookmarked ? "Remove from saved" : "Save this lesson"}
-                  >
-                    {isBookmarked ? <BookmarkCheck size={24} /> : <Bookmark size={24} />}
-                  </button>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => handleAddLessonNote()}
+                      className="p-3 rounded-full bg-gray-100 text-gray-400 hover:bg-amber-100 hover:text-amber-600 transition-all"
+                      title={t('classes.addLessonNote')}
+                    >
+                      <NotebookPen size={24} />
+                    </button>
+                    <button
+                      onClick={() => setExportRequest({ lessons: [lesson], notes: [] })}
+                      className="p-3 rounded-full bg-gray-100 text-gray-400 hover:bg-gray-200 hover:text-gray-600 transition-all"
+                      title={t('classes.exportLesson')}
+                    >
+                      <Download size={24} />
+                    </button>
+                    <button
+                      onClick={toggleBookmark}
+                      className={`flex-shrink-0 p-3 rounded-full transition-all ${
+                        isBookmarked 
+                          ? 'bg-ca-100 text-ca-600 hover:bg-ca-200' 
+                          : 'bg-gray-100 text-gray-400 hover:bg-gray-200 hover:text-gray-600'
+                      }`}
+                      title={isBookmarked ? t('classes.unsave') : t('classes.save')}
+                    >
+                      {isBookmarked ? <BookmarkCheck size={24} /> : <Bookmark size={24} />}
+                    </button>
+                  </div>
                 )}
               </header>
 
               <div className="space-y-8">
                 {lesson.sections.map((section, idx) => (
-                  <section key={idx} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8 transition-all hover:shadow-md">
-                    <h3 className="text-xl font-bold text-gray-800 mb-4 flex items-center gap-3">
-                      <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-ca-100 to-ca-200 text-ca-700 flex items-center justify-center text-sm font-bold shadow-sm">
-                        {idx + 1}
-                      </div>
-                      {section.title}
-                    </h3>
-                    <div className="prose prose-slate max-w-none text-gray-600 leading-relaxed whitespace-pre-wrap font-light">
-                      {section.content}
-                      {isGenerating && idx === lesson.sections.length - 1 && (
-                        <span className="inline-block w-1.5 h-4 ml-1 align-middle bg-ca-500 animate-pulse" />
+                  <section key={idx} id={`lesson-section-${idx}`} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8 transition-all hover:shadow-md">
+                    <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+                      <h3 className="text-xl font-bold text-gray-800 flex items-center gap-3">
+                        <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-ca-100 to-ca-200 text-ca-700 flex items-center justify-center text-sm font-bold shadow-sm">
+                          {idx + 1}
+                        </div>
+                        {section.title}
+                      </h3>
+                      {!isGenerating && (
+                        <div className="flex items-center gap-1">
+                          {SECTION_ACTIONS.map(({ action, label, icon: Icon }) => (
+                            <button
+                              key={action}
+                              onClick={() => handleSectionAction(idx, action)}
+                              disabled={rewritingSection !== null}
+                              className="p-2 rounded-lg text-gray-400 hover:text-ca-600 hover:bg-ca-50 transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-400"
+                              title={t(label)}
+                            >
+                              <Icon size={16} />
+                            </button>
+                          ))}
+                          <button
+                            onClick={() => handleAddLessonNote(idx)}
+                            className="p-2 rounded-lg text-gray-400 hover:text-amber-600 hover:bg-amber-50 transition-colors"
+                            title={t('classes.addSectionNote')}
+                          >
+                            <NotebookPen size={16} />
+                          </button>
+                          {section.history && section.history.length > 0 && (
+                            <button
+                              onClick={() => handleRevertSection(idx)}
+                              disabled={rewritingSection !== null}
+                              className="flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-medium text-gray-500 hover:text-ca-700 hover:bg-ca-50 transition-colors disabled:opacity-40"
+                              title={t('classes.revertHint')}
+                            >
+                              <Undo2 size={14} /> {t('classes.revert', { count: section.history.length })}
+                            </button>
+                          )}
+                        </div>
                       )}
                     </div>
+                    <MarkdownContent
+                      markdown={section.content}
+                      isStreaming={(isGenerating && idx === lesson.sections.length - 1) || rewritingSection === idx}
+                    />
                   </section>
                 ))}
                 
@@ -551,7 +822,7 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
                        <div className="h-12 w-12 bg-ca-100 rounded-full mb-4 flex items-center justify-center">
                           <BrainCircuit className="text-ca-300 animate-spin-slow" size={24} />
                        </div>
-                       <p className="text-ca-600 font-medium text-sm">Initializing Mastermind Protocol...</p>
+                       <p className="text-ca-600 font-medium text-sm">{t('classes.initializing')}</p>
                      </div>
                   </div>
                 )}
@@ -559,26 +830,30 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
 
               {!isGenerating && lesson.sections.length > 0 && (
                 <div className="mt-12 bg-gradient-to-r from-gray-900 to-gray-800 text-white rounded-2xl p-8 text-center shadow-lg flex flex-col items-center animate-fade-in">
-                  <h3 className="text-xl font-bold mb-2">Mastermind Session Complete</h3>
-                  <p className="opacity-80 mb-6">You've just leveled up your understanding. Ready to test this knowledge?</p>
+                  <h3 className="text-xl font-bold mb-2">{t('classes.complete')}</h3>
+                  <p className="opacity-80 mb-6">{t('classes.completeDetail')}</p>
                   <div className="flex gap-4">
                     <button 
                       onClick={toggleBookmark}
                       className="bg-white/10 backdrop-blur-sm border border-white/20 text-white px-6 py-3 rounded-lg font-bold hover:bg-white/20 transition-all flex items-center gap-2"
                     >
                       {isBookmarked ? <BookmarkCheck size={20} /> : <Bookmark size={20} />}
-                      {isBookmarked ? 'Saved to Library' : 'Save for Later'}
+                      {isBookmarked ? t('classes.savedToLibrary') : t('classes.saveForLater')}
                     </button>
                     <button 
                       onClick={handleTakeQuiz}
                       className="bg-white text-gray-900 px-8 py-3 rounded-lg font-bold hover:bg-gray-100 transition-all shadow-lg flex items-center gap-2 transform hover:scale-105"
                     >
                       <PlayCircle size={20} className="text-ca-600" />
-                      Take Practice Quiz
+                      {t('classes.takeQuiz')}
                     </button>
                   </div>
                 </div>
               )}
+
+              {!isGenerating && lesson.sections.length > 0 && (
+                <TutorChat lesson={lesson} style={style} language={language} onChatChange={handleChatChange} />
+              )}
             </div>
           ) : (
             <div className="h-full flex flex-col items-center justify-center text-gray-400 p-8 text-center">
@@ -588,16 +863,16 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
                 </div>
                 <h3 className="text-2xl font-bold text-gray-800 mb-3">CA Mastermind AI</h3>
                 <p className="text-gray-500 leading-relaxed">
-                  I can make you a topper. Whether you are a beginner needing simple concepts or a Final student needing advanced case law analysis, I adapt to you.
+                  {t('classes.intro')}
                 </p>
                 <div className="mt-8 grid grid-cols-2 gap-4 text-left">
                     <div className="p-4 bg-white rounded-xl border border-gray-100 shadow-sm">
-                        <div className="font-bold text-gray-900 mb-1">Simplify</div>
-                        <div className="text-xs text-gray-500">Break down complex jargon into plain English.</div>
+                        <div className="font-bold text-gray-900 mb-1">{t('classes.simplifyCard')}</div>
+                        <div className="text-xs text-gray-500">{t('classes.simplifyCardDetail')}</div>
                     </div>
                     <div className="p-4 bg-white rounded-xl border border-gray-100 shadow-sm">
-                        <div className="font-bold text-gray-900 mb-1">Score High</div>
-                        <div className="text-xs text-gray-500">Learn keywords and presentation tips for exams.</div>
+                        <div className="font-bold text-gray-900 mb-1">{t('classes.scoreHigh')}</div>
+                        <div className="text-xs text-gray-500">{t('classes.scoreHighDetail')}</div>
                     </div>
                 </div>
               </div>
@@ -605,6 +880,17 @@ const ClassesScreen: React.FC<ClassesScreenProps> = ({ onStartQuiz, language })
           )
         )}
       </div>
+
+      {exportRequest && (
+        <ExportDialog
+          // The open lesson can be exported before it is bookmarked
+          lessons={lesson && lesson.sections.length > 0 && !isBookmarked ? [lesson, ...savedLessons] : savedLessons}
+          notes={notes}
+          initialLessons={exportRequest.lessons}
+          initialNotes={exportRequest.notes}
+          onClose={() => setExportRequest(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,39 @@
+import React from 'react';
+import { DescriptiveQuestion } from '../types';
+import { useTranslation } from './LanguageContext';
+import { PenLine } from 'lucide-react';
+
+interface DescriptiveAnswerEditorProps {
+  question: DescriptiveQuestion;
+  value: string;
+  onChange: (value: string) => void;
+  accent?: 'ca' | 'violet';
+}
+
+const countWords = (text: string) => (text.trim() ? text.trim().split(/\s+/).length : 0);
+
+const DescriptiveAnswerEditor: React.FC<DescriptiveAnswerEditorProps> = ({ question, value, onChange, accent = 'ca' }) => {
+  const { t } = useTranslation();
+  const ring = accent === 'violet' ? 'focus:ring-violet-500 focus:border-violet-500' : 'focus:ring-ca-500 focus:border-ca-500';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span className="flex items-center gap-1 font-semibold uppercase tracking-wide">
+          <PenLine size={14} />
+          {t('common.yourAnswer')}
+        </span>
+        <span>{t('descriptive.meta', { marks: question.marks, words: countWords(value) })}</span>
+      </div>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={t('descriptive.placeholder')}
+        rows={12}
+        className={`w-full p-5 rounded-xl border border-gray-200 bg-white text-gray-700 leading-relaxed text-base resize-y outline-none focus:ring-2 ${ring}`}
+      />
+    </div>
+  );
+};
+
+export default DescriptiveAnswerEditor;
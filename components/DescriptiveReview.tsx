@@ -0,0 +1,67 @@
+import React from 'react';
+import { DescriptiveQuestion, DescriptiveGrade } from '../types';
+import { useTranslation } from './LanguageContext';
+import { CheckCircle2, XCircle, CircleDashed, BookOpenCheck } from 'lucide-react';
+
+interface DescriptiveReviewProps {
+  question: DescriptiveQuestion;
+  answer?: string;
+  grade?: DescriptiveGrade;
+}
+
+const DescriptiveReview: React.FC<DescriptiveReviewProps> = ({ question, answer, grade }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold mb-2">{t('common.yourAnswer')}</div>
+        {answer ? (
+          <p className="p-4 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">{answer}</p>
+        ) : (
+          <p className="p-4 rounded-lg border border-dashed border-gray-200 text-sm text-gray-400 italic">{t('descriptive.notAttempted')}</p>
+        )}
+      </div>
+
+      <div>
+        <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold mb-2">{t('descriptive.rubric')}</div>
+        {grade?.error && (
+          <p className="mb-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">{t('descriptive.notGraded')}</p>
+        )}
+        <div className="space-y-2">
+          {question.rubric.map((r, idx) => {
+            const awarded = grade?.points[idx]?.awarded ?? 0;
+            const comment = grade?.points[idx]?.comment;
+            const full = awarded >= r.marks;
+            const icon = !answer ? <CircleDashed size={16} className="text-gray-400" />
+              : full ? <CheckCircle2 size={16} className="text-emerald-600" />
+              : awarded > 0 ? <CheckCircle2 size={16} className="text-amber-500" />
+              : <XCircle size={16} className="text-red-600" />;
+            return (
+              <div key={idx} className={`p-3 rounded-lg border text-sm flex items-start gap-3 ${
+                full ? 'border-emerald-200 bg-emerald-50' : awarded > 0 ? 'border-amber-200 bg-amber-50' : 'border-gray-200 bg-white'
+              }`}>
+                <div className="mt-0.5">{icon}</div>
+                <div className="flex-1">
+                  <div className="text-gray-800">{r.point}</div>
+                  {comment && <div className="text-xs text-gray-500 mt-1">{comment}</div>}
+                </div>
+                <div className="font-bold text-gray-700 whitespace-nowrap">{awarded}/{r.marks}</div>
+              </div>
+            );
+          })}
+        </div>
+        {grade?.feedback && <p className="mt-3 text-sm text-gray-600 italic">{grade.feedback}</p>}
+      </div>
+
+      <div>
+        <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold mb-2 flex items-center gap-1">
+          <BookOpenCheck size={14} /> {t('descriptive.modelAnswer')}
+        </div>
+        <p className="p-4 rounded-lg border border-emerald-200 bg-emerald-50/50 text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">{question.modelAnswer}</p>
+      </div>
+    </div>
+  );
+};
+
+export default DescriptiveReview;
@@ -1,10 +1,17 @@
-import React, { useEffect } from 'react';
-import { ExamState, Question } from '../types';
-import { Flag, ChevronLeft, ChevronRight, Clock, CheckCircle } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Answer, BilingualView, ExamSection, ExamState } from '../types';
+import BilingualText, { BilingualViewToggle } from './BilingualText';
+import DescriptiveAnswerEditor from './DescriptiveAnswerEditor';
+import NumericAnswerInput from './NumericAnswerInput';
+import ScenarioPassage, { scenarioQuestionRange } from './ScenarioPassage';
+import { isNumericAnswer } from '../services/numericAnswer';
+import { sectionInstructions, sectionTitle } from '../services/paperBlueprint';
+import { useTranslation } from './LanguageContext';
+import { Flag, ChevronLeft, ChevronRight, Clock, CheckCircle, Info, AlertTriangle, Loader2 } from 'lucide-react';
 
 interface ExamScreenProps {
   state: ExamState;
-  onAnswer: (questionIndex: number, optionIndex: number) => void;
+  onAnswer: (questionIndex: number, answer: Answer) => void;
   onFlag: (questionIndex: number) => void;
   onNavigate: (questionIndex: number) => void;
   onSubmit: () => void;
@@ -19,11 +26,33 @@ const ExamScreen: React.FC<ExamScreenProps> = ({
   onSubmit,
   title,
 }) => {
+  const { t, language } = useTranslation();
+  const [view, setView] = useState<BilingualView>('side-by-side');
   const currentQuestion = state.questions[state.currentQuestionIndex];
   const isFlagged = state.flagged[state.currentQuestionIndex];
   const selectedOption = state.answers[state.currentQuestionIndex];
-  const isLastQuestion = state.currentQuestionIndex === state.questions.length - 1;
-  const allAnswered = Object.keys(state.answers).length === state.questions.length;
+  const pendingCount = state.pendingCount ?? 0;
+  const totalCount = state.questions.length + pendingCount;
+  // At the last question that has arrived, Next waits for the next one instead of finishing
+  const atLoadedEnd = state.currentQuestionIndex === state.questions.length - 1;
+  const isLastQuestion = atLoadedEnd && pendingCount === 0;
+  const sections = state.sections ?? [];
+  const currentSection = sections.find((s) => state.currentQuestionIndex >= s.start && state.currentQuestionIndex < s.start + s.count);
+
+  const answeredIn = (section: ExamSection) =>
+    Array.from({ length: section.count }, (_, i) => state.answers[section.start + i])
+      .filter((a) => a !== undefined && a !== '').length;
+
+  // With internal choice a section only needs its attemptCount answered; questions still
+  // being generated count as unanswered so submitting early always asks first
+  const unanswered = sections.length > 0
+    ? sections.reduce((sum, s) => sum + Math.max(0, (s.attemptCount ?? s.count) - answeredIn(s)), 0) + pendingCount
+    : totalCount - Object.keys(state.answers).length;
+  const allAnswered = unanswered === 0;
+  const currentScenario = currentQuestion.scenarioId
+    ? state.scenarios?.find((s) => s.id === currentQuestion.scenarioId)
+    : undefined;
+  const isBilingual = state.questions.some((q) => q.english);
 
   // Format seconds into MM:SS
   const formatTime = (seconds: number) => {
@@ -39,19 +68,40 @@ const ExamScreen: React.FC<ExamScreenProps> = ({
     return 'bg-white text-gray-500 border-gray-200';
   };
 
+  const renderPaletteButton = (idx: number) => {
+    const q = state.questions[idx];
+    return (
+      <button
+        key={idx}
+        onClick={() => onNavigate(idx)}
+        title={q.scenarioId ? state.scenarios?.find((s) => s.id === q.scenarioId)?.title : undefined}
+        className={`relative aspect-square rounded-lg flex items-center justify-center text-sm font-semibold border transition-all ${getQuestionStatusClass(idx)}`}
+      >
+        {idx + 1}
+        {q.scenarioId && <div className="absolute bottom-1 left-1/2 -translate-x-1/2 w-3 h-0.5 bg-indigo-400 rounded-full"></div>}
+        {state.flagged[idx] && <div className="absolute top-1 right-1 w-1.5 h-1.5 bg-orange-500 rounded-full"></div>}
+      </button>
+    );
+  };
+
+  const renderPendingSlot = (i: number) => (
+    <div
+      key={`pending-${i}`}
+      title={t('exam.stillGenerating')}
+      className="aspect-square rounded-lg flex items-center justify-center border border-dashed border-gray-200 text-gray-300"
+    >
+      <Loader2 size={14} className="animate-spin" />
+    </div>
+  );
+
   const handleSubmit = () => {
-    const answeredCount = Object.keys(state.answers).length;
-    const totalCount = state.questions.length;
-    const unanswered = totalCount - answeredCount;
-    
     // Direct submit if all questions are answered
     if (unanswered === 0) {
       onSubmit();
       return;
     }
 
-    const message = `You have ${unanswered} unanswered question${unanswered > 1 ? 's' : ''}. Are you sure you want to submit?`;
-    if(window.confirm(message)) {
+    if(window.confirm(t('exam.confirmSubmit', { count: unanswered }))) {
       onSubmit();
     }
   };
@@ -61,7 +111,7 @@ const ExamScreen: React.FC<ExamScreenProps> = ({
       {/* Header */}
       <header className="bg-white border-b border-gray-200 h-16 flex items-center justify-between px-6 flex-shrink-0 z-20 shadow-sm">
         <div className="font-bold text-gray-800 text-lg truncate max-w-md">
-          {title ? `Quiz: ${title}` : "CA Exam Simulator"}
+          {title ? t('exam.quizTitle', { title }) : t('exam.defaultTitle')}
         </div>
         
         <div className={`flex items-center gap-2 font-mono text-xl font-bold px-4 py-2 rounded-lg ${state.timeRemaining < 300 ? 'bg-red-50 text-red-600' : 'bg-gray-100 text-gray-700'}`}>
@@ -78,57 +128,126 @@ const ExamScreen: React.FC<ExamScreenProps> = ({
           }`}
         >
           {allAnswered && <CheckCircle size={18} />}
-          Submit Exam
+          {t('exam.submit')}
         </button>
       </header>
 
+      {/* Section Tabs */}
+      {sections.length > 0 && (
+        <nav className="bg-white border-b border-gray-200 px-6 flex gap-1 overflow-x-auto flex-shrink-0">
+          {sections.map((s) => (
+            <button
+              key={s.id}
+              onClick={() => onNavigate(s.start)}
+              className={`px-4 py-3 text-sm font-medium whitespace-nowrap border-b-2 transition-colors ${
+                s === currentSection
+                  ? 'border-ca-600 text-ca-700'
+                  : 'border-transparent text-gray-500 hover:text-gray-800'
+              }`}
+            >
+              {sectionTitle(s, language)}
+              <span className="ml-2 text-xs font-semibold text-gray-400">
+                {answeredIn(s)}/{s.attemptCount ?? s.count}
+              </span>
+            </button>
+          ))}
+        </nav>
+      )}
+
       <div className="flex flex-1 overflow-hidden">
         {/* Main Question Area */}
         <main className="flex-1 flex flex-col min-w-0 bg-gray-50">
           <div className="flex-1 overflow-y-auto p-6 md:p-10">
-            <div className="max-w-3xl mx-auto pb-8">
+            <div className={`mx-auto pb-8 ${
+              currentScenario ? 'max-w-6xl lg:grid lg:grid-cols-2 lg:gap-8 lg:items-start' : isBilingual && view === 'side-by-side' ? 'max-w-6xl' : 'max-w-3xl'
+            }`}>
+              {/* The case passage stays in view while its questions are answered */}
+              {currentScenario && (
+                <div className="mb-6 lg:mb-0 lg:sticky lg:top-0 lg:max-h-[calc(100vh-14rem)] lg:overflow-y-auto">
+                  <ScenarioPassage
+                    scenario={currentScenario}
+                    questionRange={scenarioQuestionRange(state.questions, currentScenario.id, language)}
+                    view={view}
+                  />
+                </div>
+              )}
+              <div>
+              {currentSection && (
+                <div className="mb-6 space-y-2">
+                  <div className="flex items-start gap-2 p-3 rounded-lg bg-ca-50 border border-ca-100 text-sm text-ca-800">
+                    <Info size={16} className="flex-shrink-0 mt-0.5" />
+                    {sectionInstructions(currentSection, language)}
+                  </div>
+                  {currentSection.attemptCount && answeredIn(currentSection) > currentSection.attemptCount && (
+                    <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                      <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+                      {t('exam.overAnswered', { answered: answeredIn(currentSection), limit: currentSection.attemptCount })}
+                    </div>
+                  )}
+                </div>
+              )}
               <div className="flex items-center justify-between mb-6">
                 <span className="text-sm font-semibold text-gray-500 uppercase tracking-wider">
-                  Question {state.currentQuestionIndex + 1} of {state.questions.length}
+                  {t('common.questionOf', { number: state.currentQuestionIndex + 1, total: totalCount })}
                 </span>
-                <button
-                  onClick={() => onFlag(state.currentQuestionIndex)}
-                  className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
-                    isFlagged 
-                      ? 'bg-orange-100 text-orange-700' 
-                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-                  }`}
-                >
-                  <Flag size={16} fill={isFlagged ? "currentColor" : "none"} />
-                  {isFlagged ? 'Flagged for Review' : 'Flag for Review'}
-                </button>
+                <div className="flex items-center gap-3">
+                  {isBilingual && <BilingualViewToggle view={view} onChange={setView} />}
+                  <button
+                    onClick={() => onFlag(state.currentQuestionIndex)}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                      isFlagged 
+                        ? 'bg-orange-100 text-orange-700' 
+                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                  >
+                    <Flag size={16} fill={isFlagged ? "currentColor" : "none"} />
+                    {isFlagged ? t('exam.flagged') : t('exam.flag')}
+                  </button>
+                </div>
               </div>
 
               <h2 className="text-xl md:text-2xl font-semibold text-gray-800 leading-relaxed mb-8">
-                {currentQuestion.text}
+                <BilingualText text={currentQuestion.text} english={currentQuestion.english?.text} view={view} />
               </h2>
 
-              <div className="space-y-3">
-                {currentQuestion.options.map((option, idx) => (
-                  <button
-                    key={idx}
-                    onClick={() => onAnswer(state.currentQuestionIndex, idx)}
-                    className={`w-full text-left p-5 rounded-xl border transition-all flex items-start gap-4 group ${
-                      selectedOption === idx
-                        ? 'border-ca-500 bg-ca-50 shadow-md ring-1 ring-ca-500'
-                        : 'border-gray-200 bg-white hover:border-ca-300 hover:bg-gray-50'
-                    }`}
-                  >
-                    <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center flex-shrink-0 mt-0.5 transition-colors ${
-                      selectedOption === idx ? 'border-ca-600 bg-ca-600' : 'border-gray-300 group-hover:border-ca-400'
-                    }`}>
-                      {selectedOption === idx && <div className="w-2.5 h-2.5 bg-white rounded-full" />}
-                    </div>
-                    <span className={`text-base ${selectedOption === idx ? 'text-ca-900 font-medium' : 'text-gray-700'}`}>
-                      {option}
-                    </span>
-                  </button>
-                ))}
+              {currentQuestion.kind === 'descriptive' ? (
+                <DescriptiveAnswerEditor
+                  key={state.currentQuestionIndex}
+                  question={currentQuestion}
+                  value={typeof selectedOption === 'string' ? selectedOption : ''}
+                  onChange={(value) => onAnswer(state.currentQuestionIndex, value)}
+                />
+              ) : currentQuestion.kind === 'numeric' ? (
+                <NumericAnswerInput
+                  key={state.currentQuestionIndex}
+                  question={currentQuestion}
+                  value={isNumericAnswer(selectedOption) ? selectedOption : undefined}
+                  onChange={(value) => onAnswer(state.currentQuestionIndex, value)}
+                />
+              ) : (
+                <div className="space-y-3">
+                  {currentQuestion.options.map((option, idx) => (
+                    <button
+                      key={idx}
+                      onClick={() => onAnswer(state.currentQuestionIndex, idx)}
+                      className={`w-full text-left p-5 rounded-xl border transition-all flex items-start gap-4 group ${
+                        selectedOption === idx
+                          ? 'border-ca-500 bg-ca-50 shadow-md ring-1 ring-ca-500'
+                          : 'border-gray-200 bg-white hover:border-ca-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center flex-shrink-0 mt-0.5 transition-colors ${
+                        selectedOption === idx ? 'border-ca-600 bg-ca-600' : 'border-gray-300 group-hover:border-ca-400'
+                      }`}>
+                        {selectedOption === idx && <div className="w-2.5 h-2.5 bg-white rounded-full" />}
+                      </div>
+                      <span className={`flex-1 text-base ${selectedOption === idx ? 'text-ca-900 font-medium' : 'text-gray-700'}`}>
+                        <BilingualText text={option} english={currentQuestion.english?.options?.[idx]} view={view} />
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
               </div>
             </div>
           </div>
@@ -141,7 +260,7 @@ const ExamScreen: React.FC<ExamScreenProps> = ({
               className="flex items-center gap-2 text-gray-600 hover:text-ca-700 disabled:opacity-30 disabled:hover:text-gray-600 font-medium px-4 py-2"
             >
               <ChevronLeft size={20} />
-              Previous
+              {t('common.previous')}
             </button>
             
             {isLastQuestion ? (
@@ -149,15 +268,23 @@ const ExamScreen: React.FC<ExamScreenProps> = ({
                 onClick={handleSubmit}
                 className="flex items-center gap-2 bg-green-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-green-700 shadow-sm transition-colors"
               >
-                Finish Exam
+                {t('exam.finish')}
                 <CheckCircle size={20} />
               </button>
+            ) : atLoadedEnd ? (
+              <button
+                disabled
+                className="flex items-center gap-2 bg-ca-600 text-white px-6 py-2 rounded-lg font-medium shadow-sm opacity-60"
+              >
+                <Loader2 size={18} className="animate-spin" />
+                {t('common.loadingNext')}
+              </button>
             ) : (
               <button
                 onClick={() => onNavigate(state.currentQuestionIndex + 1)}
                 className="flex items-center gap-2 bg-ca-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-ca-700 shadow-sm transition-colors"
               >
-                Next
+                {t('common.next')}
                 <ChevronRight size={20} />
               </button>
             )}
@@ -167,42 +294,60 @@ const ExamScreen: React.FC<ExamScreenProps> = ({
         {/* Sidebar Question Palette */}
         <aside className="w-72 bg-white border-l border-gray-200 flex flex-col hidden md:flex flex-shrink-0">
           <div className="p-5 border-b border-gray-200">
-            <h3 className="font-semibold text-gray-800">Question Palette</h3>
+            <h3 className="font-semibold text-gray-800">{t('exam.palette')}</h3>
             <div className="flex gap-4 mt-4 text-xs text-gray-500">
               <div className="flex items-center gap-1">
-                <div className="w-3 h-3 rounded-full bg-ca-500"></div> Answered
+                <div className="w-3 h-3 rounded-full bg-ca-500"></div> {t('exam.legendAnswered')}
               </div>
               <div className="flex items-center gap-1">
-                <div className="w-3 h-3 rounded-full bg-orange-400"></div> Flagged
+                <div className="w-3 h-3 rounded-full bg-orange-400"></div> {t('exam.legendFlagged')}
               </div>
+              {state.scenarios && state.scenarios.length > 0 && (
+                <div className="flex items-center gap-1">
+                  <div className="w-3 h-3 rounded-full bg-indigo-400"></div> {t('exam.legendCase')}
+                </div>
+              )}
             </div>
           </div>
           
           <div className="flex-1 overflow-y-auto p-5">
-            <div className="grid grid-cols-4 gap-3">
-              {state.questions.map((_, idx) => (
-                <button
-                  key={idx}
-                  onClick={() => onNavigate(idx)}
-                  className={`aspect-square rounded-lg flex items-center justify-center text-sm font-semibold border transition-all ${getQuestionStatusClass(idx)}`}
-                >
-                  {idx + 1}
-                  {state.flagged[idx] && <div className="absolute top-1 right-1 w-1.5 h-1.5 bg-orange-500 rounded-full"></div>}
-                </button>
-              ))}
-            </div>
+            {sections.length > 0 ? (
+              <div className="space-y-5">
+                {sections.map((s) => (
+                  <div key={s.id}>
+                    <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">{sectionTitle(s, language)}</div>
+                    <div className="grid grid-cols-4 gap-3">
+                      {state.questions.slice(s.start, s.start + s.count).map((_, i) => renderPaletteButton(s.start + i))}
+                    </div>
+                  </div>
+                ))}
+                {pendingCount > 0 && (
+                  <div>
+                    <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">{t('exam.generating')}</div>
+                    <div className="grid grid-cols-4 gap-3">
+                      {Array.from({ length: pendingCount }, (_, i) => renderPendingSlot(i))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="grid grid-cols-4 gap-3">
+                {state.questions.map((_, idx) => renderPaletteButton(idx))}
+                {Array.from({ length: pendingCount }, (_, i) => renderPendingSlot(i))}
+              </div>
+            )}
           </div>
           
           <div className="p-5 border-t border-gray-200 bg-gray-50">
-            <div className="text-xs text-gray-500 mb-2">Progress</div>
+            <div className="text-xs text-gray-500 mb-2">{t('exam.progress')}</div>
             <div className="w-full bg-gray-200 rounded-full h-2">
               <div 
                 className="bg-ca-600 h-2 rounded-full transition-all duration-300" 
-                style={{ width: `${(Object.keys(state.answers).length / state.questions.length) * 100}%` }}
+                style={{ width: `${(Object.keys(state.answers).length / totalCount) * 100}%` }}
               ></div>
             </div>
             <div className="mt-2 text-right text-xs font-semibold text-gray-700">
-              {Object.keys(state.answers).length} / {state.questions.length} Answered
+              {t('exam.answeredOf', { answered: Object.keys(state.answers).length, total: totalCount })}
             </div>
           </div>
         </aside>
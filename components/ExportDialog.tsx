@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Lesson, Note } from '../types';
+import { buildFlashcards, exportAnkiCsv, exportHandoutHtml, exportMarkdown } from '../services/lessonExport';
+import { downloadFile } from '../services/download';
+import { useTranslation } from './LanguageContext';
+import { X, Printer, FileText, FileCode, Layers, BookOpen, StickyNote } from 'lucide-react';
+
+interface ExportDialogProps {
+  lessons: Lesson[];
+  notes: Note[];
+  initialLessons: Lesson[]; // Preselected
+  initialNotes: Note[];
+  onClose: () => void;
+}
+
+const lessonKey = (l: Lesson) => `${l.subject}|${l.topic}`;
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ lessons, notes, initialLessons, initialNotes, onClose }) => {
+  const { t } = useTranslation();
+  const [lessonKeys, setLessonKeys] = useState<Set<string>>(() => new Set(initialLessons.map(lessonKey)));
+  const [noteIds, setNoteIds] = useState<Set<string>>(() => new Set(initialNotes.map((n) => n.id)));
+
+  const chosenLessons = lessons.filter((l) => lessonKeys.has(lessonKey(l)));
+  const chosenNotes = notes.filter((n) => noteIds.has(n.id));
+  const flashcardCount = buildFlashcards(chosenLessons, chosenNotes).length;
+  const isEmpty = chosenLessons.length + chosenNotes.length === 0;
+  const baseName = chosenLessons.length === 1 && chosenNotes.length === 0
+    ? `ca-guide-${chosenLessons[0].topic.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-')}`
+    : `ca-guide-${new Date().toISOString().slice(0, 10)}`;
+
+  const toggle = (set: Set<string>, key: string, update: (next: Set<string>) => void) => {
+    const next = new Set(set);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    update(next);
+  };
+
+  // The browser's print dialog saves the handout as a PDF
+  const handlePrint = () => {
+    const win = window.open('', '_blank');
+    if (!win) {
+      alert(t('export.popupBlocked'));
+      return;
+    }
+    win.document.write(exportHandoutHtml(chosenLessons, chosenNotes));
+    win.document.close();
+    win.focus();
+    win.print();
+  };
+
+  const formats = [
+    { label: t('export.print'), detail: t('export.printDetail'), icon: Printer, disabled: isEmpty, onClick: handlePrint },
+    { label: t('export.html'), detail: t('export.htmlDetail'), icon: FileCode, disabled: isEmpty, onClick: () => downloadFile(`${baseName}.html`, exportHandoutHtml(chosenLessons, chosenNotes), 'text/html') },
+    { label: t('export.markdown'), detail: t('export.markdownDetail'), icon: FileText, disabled: isEmpty, onClick: () => downloadFile(`${baseName}.md`, exportMarkdown(chosenLessons, chosenNotes), 'text/markdown') },
+    {
+      label: t('export.anki'),
+      detail: t('export.ankiDetail', { count: flashcardCount }),
+      icon: Layers,
+      disabled: flashcardCount === 0,
+      onClick: () => downloadFile(`${baseName}-anki.csv`, exportAnkiCsv(buildFlashcards(chosenLessons, chosenNotes)), 'text/csv'),
+    },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">{t('export.title')}</h2>
+            <p className="text-sm text-gray-500 mt-1">{t('export.detail')}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100" title={t('common.close')}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {lessons.length > 0 && (
+            <div>
+              <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2 flex items-center gap-1"><BookOpen size={14} /> {t('export.lessons')}</div>
+              <div className="space-y-1">
+                {lessons.map((l) => (
+                  <label key={lessonKey(l)} className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-50 cursor-pointer text-sm">
+                    <input
+                      type="checkbox"
+                      checked={lessonKeys.has(lessonKey(l))}
+                      onChange={() => toggle(lessonKeys, lessonKey(l), setLessonKeys)}
+                      className="rounded text-ca-600 focus:ring-ca-500"
+                    />
+                    <span className="text-gray-800 flex-1">{l.topic}</span>
+                    <span className="text-xs text-gray-400">{l.subject}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          {notes.length > 0 && (
+            <div>
+              <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2 flex items-center gap-1"><StickyNote size={14} /> {t('export.notes')}</div>
+              <div className="space-y-1">
+                {notes.map((n) => (
+                  <label key={n.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-50 cursor-pointer text-sm">
+                    <input
+                      type="checkbox"
+                      checked={noteIds.has(n.id)}
+                      onChange={() => toggle(noteIds, n.id, setNoteIds)}
+                      className="rounded text-ca-600 focus:ring-ca-500"
+                    />
+                    <span className={`flex-1 ${n.title ? 'text-gray-800' : 'text-gray-400 italic'}`}>{n.title || t('common.untitledNote')}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-100 grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {formats.map(({ label, detail, icon: Icon, disabled, onClick }) => (
+            <button
+              key={label}
+              onClick={onClick}
+              disabled={disabled}
+              className="flex items-start gap-3 p-4 rounded-xl border border-gray-200 text-left hover:border-ca-300 hover:bg-ca-50 transition-colors disabled:opacity-40 disabled:hover:bg-white disabled:hover:border-gray-200"
+            >
+              <Icon size={20} className="text-ca-600 flex-shrink-0 mt-0.5" />
+              <div>
+                <div className="font-semibold text-gray-800 text-sm">{label}</div>
+                <div className="text-xs text-gray-500 mt-0.5">{detail}</div>
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { ExamAttempt, Subject, DifficultyLevel } from '../types';
+import { scoreExam } from '../services/marking';
+import { findPaper, paperLabel } from '../services/syllabus';
+import { LANGUAGES } from '../services/languages';
+import SyllabusCoverage from './SyllabusCoverage';
+import { useTranslation } from './LanguageContext';
+import { History, Trash2, Clock, TrendingUp, Award, ChevronRight, BrainCircuit, ScrollText } from 'lucide-react';
+
+interface HistoryScreenProps {
+  attempts: ExamAttempt[];
+  onOpen: (attempt: ExamAttempt) => void;
+  onDelete: (id: string) => void;
+}
+
+const percentageOf = (attempt: ExamAttempt) => scoreExam(attempt.state, attempt.config).percentage;
+
+const HistoryScreen: React.FC<HistoryScreenProps> = ({ attempts, onOpen, onDelete }) => {
+  const { t, formatDate, formatDuration } = useTranslation();
+  const [subjectFilter, setSubjectFilter] = useState<Subject | 'ALL'>('ALL');
+  const [levelFilter, setLevelFilter] = useState<DifficultyLevel | 'ALL'>('ALL');
+
+  const filtered = useMemo(() => attempts.filter((a) =>
+    (subjectFilter === 'ALL' || a.config.subject === subjectFilter) &&
+    (levelFilter === 'ALL' || a.config.level === levelFilter)
+  ), [attempts, subjectFilter, levelFilter]);
+
+  const average = filtered.length
+    ? Math.round(filtered.reduce((sum, a) => sum + percentageOf(a), 0) / filtered.length)
+    : 0;
+  const best = filtered.reduce((max, a) => Math.max(max, percentageOf(a)), 0);
+  // Coverage is per level: the filtered level, else the level last practised
+  const coverageLevel = levelFilter !== 'ALL' ? levelFilter : attempts[0]?.config.level ?? DifficultyLevel.FOUNDATION;
+  // Attempts are stored newest first; compare the latest score against the earliest in view.
+  const trend = filtered.length > 1 ? percentageOf(filtered[0]) - percentageOf(filtered[filtered.length - 1]) : 0;
+
+  const handleDelete = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    e.preventDefault();
+    if (window.confirm(t('history.confirmDelete'))) {
+      onDelete(id);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 p-6 md:p-12">
+      <div className="max-w-5xl mx-auto space-y-8">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <History className="text-ca-600" />
+              {t('history.title')}
+            </h1>
+            <p className="text-sm text-gray-500 mt-1">{t('history.detail')}</p>
+          </div>
+          <div className="flex gap-3">
+            <select
+              value={subjectFilter}
+              onChange={(e) => setSubjectFilter(e.target.value as Subject | 'ALL')}
+              className="p-2.5 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-ca-500 focus:border-ca-500 outline-none text-sm"
+            >
+              <option value="ALL">{t('common.allSubjects')}</option>
+              {Object.values(Subject).map((s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+            <select
+              value={levelFilter}
+              onChange={(e) => setLevelFilter(e.target.value as DifficultyLevel | 'ALL')}
+              className="p-2.5 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-ca-500 focus:border-ca-500 outline-none text-sm"
+            >
+              <option value="ALL">{t('common.allLevels')}</option>
+              {Object.values(DifficultyLevel).map((l) => (
+                <option key={l} value={l}>{t(`level.${l}`)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="bg-white rounded-xl border border-gray-200 p-5 shadow-sm">
+            <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold">{t('history.attempts')}</div>
+            <div className="text-3xl font-bold text-gray-900 mt-1">{filtered.length}</div>
+          </div>
+          <div className="bg-white rounded-xl border border-gray-200 p-5 shadow-sm">
+            <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold flex items-center gap-1">
+              <Award size={12} /> {t('history.averageBest')}
+            </div>
+            <div className="text-3xl font-bold text-gray-900 mt-1">{average}% <span className="text-lg text-gray-400">/ {best}%</span></div>
+          </div>
+          <div className="bg-white rounded-xl border border-gray-200 p-5 shadow-sm">
+            <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold flex items-center gap-1">
+              <TrendingUp size={12} /> {t('history.progress')}
+            </div>
+            <div className={`text-3xl font-bold mt-1 ${trend > 0 ? 'text-emerald-600' : trend < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+              {trend > 0 ? '+' : ''}{trend}%
+            </div>
+          </div>
+        </div>
+
+        <SyllabusCoverage attempts={attempts} level={coverageLevel} />
+
+        {filtered.length === 0 ? (
+          <div className="text-center py-16 text-gray-400 bg-white rounded-2xl border border-gray-100">
+            <History size={48} className="mx-auto mb-3 opacity-20" />
+            <p className="text-sm">{t('history.empty')}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {filtered.map((attempt) => {
+              const result = scoreExam(attempt.state, attempt.config);
+              const percentage = result.percentage;
+              const paper = findPaper(attempt.config.paperId);
+              return (
+                <div
+                  key={attempt.id}
+                  onClick={() => onOpen(attempt)}
+                  className="group bg-white rounded-xl border border-gray-200 p-5 flex items-center gap-5 cursor-pointer transition-all hover:shadow-md hover:border-ca-200"
+                >
+                  <div className={`w-14 h-14 rounded-xl flex items-center justify-center font-bold flex-shrink-0 ${
+                    result.isPass ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'
+                  }`}>
+                    {percentage}%
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-bold text-gray-800 truncate">{attempt.config.topic || attempt.config.subject}</h3>
+                      {attempt.mode === 'PRACTICE' && (
+                        <span className="inline-flex items-center gap-1 text-[10px] uppercase font-bold tracking-wide bg-violet-100 text-violet-700 px-2 py-0.5 rounded">
+                          <BrainCircuit size={10} /> {t('history.practice')}
+                        </span>
+                      )}
+                      {attempt.config.format === 'full-paper' && (
+                        <span className="inline-flex items-center gap-1 text-[10px] uppercase font-bold tracking-wide bg-ca-100 text-ca-700 px-2 py-0.5 rounded">
+                          <ScrollText size={10} /> {t('setup.fullPaper')}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-2 text-xs text-gray-500 mt-1">
+                      <span className="bg-gray-100 px-2 py-0.5 rounded">
+                        {paper ? paperLabel(paper) : attempt.config.subject}
+                      </span>
+                      <span className="bg-gray-100 px-2 py-0.5 rounded">{t(`level.${attempt.config.level}`)}</span>
+                      <span className="bg-gray-100 px-2 py-0.5 rounded">{LANGUAGES[attempt.config.language].nativeName}</span>
+                      <span className="flex items-center gap-1"><Clock size={12} /> {formatDuration(attempt.durationSeconds)}</span>
+                      <span>{formatDate(attempt.finishedAt)}</span>
+                    </div>
+                  </div>
+                  <div className="text-sm font-semibold text-gray-700 whitespace-nowrap">
+                    {result.netMarks}/{result.maxMarks}
+                  </div>
+                  <button
+                    onClick={(e) => handleDelete(e, attempt.id)}
+                    className="text-gray-300 hover:text-red-500 p-2 transition-colors rounded-full hover:bg-red-50"
+                    title={t('history.delete')}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                  <ChevronRight size={20} className="text-gray-300 group-hover:text-ca-600" />
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryScreen;
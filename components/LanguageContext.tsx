@@ -0,0 +1,17 @@
+import { createContext, useContext } from 'react';
+import { Language } from '../types';
+import { MessageKey, MessageParams, formatDate, formatDuration, formatNumber, translate } from '../services/i18n';
+
+// The profile's language, provided once by App so every screen's labels follow it
+export const LanguageContext = createContext<Language>(Language.ENGLISH);
+
+export const useTranslation = () => {
+  const language = useContext(LanguageContext);
+  return {
+    language,
+    t: (key: MessageKey, params?: MessageParams) => translate(language, key, params),
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(language, value, options),
+    formatDate: (timestamp: number, options?: Intl.DateTimeFormatOptions) => formatDate(language, timestamp, options),
+    formatDuration: (seconds: number) => formatDuration(language, seconds),
+  };
+};
@@ -0,0 +1,102 @@
+import React from 'react';
+import { MarkdownBlock, MarkdownInline, parseInline, parseMarkdown } from '../services/markdown';
+
+interface MarkdownContentProps {
+  markdown: string;
+  isStreaming?: boolean; // Shows a cursor after the last block
+}
+
+const HEADING_CLASSES = ['text-2xl', 'text-xl', 'text-lg', 'text-base', 'text-base', 'text-sm'];
+const ALIGN_CLASSES = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+const Cursor = () => <span className="inline-block w-1.5 h-4 ml-1 align-middle bg-ca-500 animate-pulse" />;
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, idx) => {
+    switch (node.type) {
+      case 'text': return <React.Fragment key={idx}>{node.text}</React.Fragment>;
+      case 'break': return <br key={idx} />;
+      case 'strong': return <strong key={idx} className="font-semibold text-gray-800">{renderInline(node.children)}</strong>;
+      case 'em': return <em key={idx}>{renderInline(node.children)}</em>;
+      case 'strike': return <s key={idx}>{renderInline(node.children)}</s>;
+      case 'code': return <code key={idx} className="font-mono text-[0.9em] bg-slate-100 text-slate-800 px-1.5 py-0.5 rounded">{node.text}</code>;
+      case 'link': return (
+        <a key={idx} href={node.href} target="_blank" rel="noopener noreferrer" className="text-ca-600 underline hover:text-ca-700">
+          {renderInline(node.children)}
+        </a>
+      );
+    }
+  });
+
+const inline = (text: string, cursor?: React.ReactNode) => <>{renderInline(parseInline(text))}{cursor}</>;
+
+const renderBlock = (block: MarkdownBlock, idx: number, cursor?: React.ReactNode) => {
+  switch (block.type) {
+    case 'heading': {
+      const Tag = `h${Math.min(block.level + 1, 6)}` as 'h2';
+      return <Tag key={idx} className={`${HEADING_CLASSES[block.level - 1]} font-bold text-gray-800 mt-6 mb-2`}>{inline(block.text, cursor)}</Tag>;
+    }
+    case 'paragraph':
+      return <p key={idx} className="my-3">{inline(block.text, cursor)}</p>;
+    case 'quote':
+      return <blockquote key={idx} className="my-4 border-l-4 border-ca-200 bg-ca-50/50 pl-4 py-2 italic text-gray-700">{inline(block.text, cursor)}</blockquote>;
+    case 'rule':
+      return <hr key={idx} className="my-6 border-gray-200" />;
+    case 'code':
+      // Journal entries and statement formats rely on their spacing
+      return (
+        <pre key={idx} className="my-4 bg-slate-50 border border-slate-200 rounded-lg p-4 overflow-x-auto text-sm font-mono text-slate-800 whitespace-pre">
+          {block.text}{cursor}
+        </pre>
+      );
+    case 'list': {
+      const Tag = block.ordered ? 'ol' : 'ul';
+      return (
+        <Tag key={idx} start={block.ordered ? block.start : undefined} className={`my-3 space-y-1.5 pl-6 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+          {block.items.map((item, i) => (
+            <li key={i} style={{ marginLeft: `${item.depth * 1.5}rem` }} className="pl-1">
+              {inline(item.text, i === block.items.length - 1 ? cursor : undefined)}
+            </li>
+          ))}
+        </Tag>
+      );
+    }
+    case 'table':
+      return (
+        <div key={idx} className="my-4 overflow-x-auto rounded-lg border border-gray-200">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {block.header.map((cell, c) => (
+                  <th key={c} className={`px-4 py-2 font-semibold text-gray-700 border-b border-gray-200 ${ALIGN_CLASSES[block.align[c] ?? 'left']}`}>{inline(cell)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {block.rows.map((row, r) => (
+                <tr key={r}>
+                  {row.map((cell, c) => (
+                    <td key={c} className={`px-4 py-2 align-top ${ALIGN_CLASSES[block.align[c] ?? 'left']}`}>{inline(cell)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {cursor}
+        </div>
+      );
+  }
+};
+
+/** Renders lesson Markdown as React elements; raw HTML in the text is shown as text, never parsed. */
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ markdown, isStreaming }) => {
+  const blocks = parseMarkdown(markdown);
+  return (
+    <div className="text-gray-600 leading-relaxed break-words">
+      {blocks.map((block, idx) => renderBlock(block, idx, isStreaming && idx === blocks.length - 1 ? <Cursor /> : undefined))}
+      {isStreaming && blocks.length === 0 && <Cursor />}
+    </div>
+  );
+};
+
+export default MarkdownContent;
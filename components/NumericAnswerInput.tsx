@@ -0,0 +1,52 @@
+import React from 'react';
+import { NumericAnswer, NumericQuestion } from '../types';
+import { describeTolerance, parseNumericInput } from '../services/numericAnswer';
+import { useTranslation } from './LanguageContext';
+import { Calculator } from 'lucide-react';
+
+interface NumericAnswerInputProps {
+  question: NumericQuestion;
+  value?: NumericAnswer;
+  onChange: (value: NumericAnswer) => void;
+  accent?: 'ca' | 'violet';
+}
+
+const NumericAnswerInput: React.FC<NumericAnswerInputProps> = ({ question, value, onChange, accent = 'ca' }) => {
+  const { t, language } = useTranslation();
+  const ring = accent === 'violet' ? 'focus:ring-violet-500 focus:border-violet-500' : 'focus:ring-ca-500 focus:border-ca-500';
+  const typed = value?.value ?? '';
+  const unreadable = typed.trim() !== '' && Number.isNaN(parseNumericInput(typed));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1 text-xs text-gray-500 font-semibold uppercase tracking-wide">
+        <Calculator size={14} />
+        {t('common.yourAnswer')}
+      </div>
+      <div className="flex gap-3">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={typed}
+          onChange={(e) => onChange({ value: e.target.value, unit: value?.unit })}
+          placeholder={t('numeric.placeholder')}
+          className={`flex-1 p-4 rounded-xl border bg-white text-lg font-mono outline-none focus:ring-2 ${ring} ${unreadable ? 'border-red-300' : 'border-gray-200'}`}
+        />
+        <input
+          type="text"
+          value={value?.unit ?? ''}
+          onChange={(e) => onChange({ value: typed, unit: e.target.value })}
+          placeholder={question.unit || t('numeric.unit')}
+          className={`w-32 p-4 rounded-xl border border-gray-200 bg-white text-lg outline-none focus:ring-2 ${ring}`}
+        />
+      </div>
+      <div className="text-xs text-gray-500">
+        {unreadable
+          ? <span className="text-red-600">{t('numeric.unreadable')}</span>
+          : <>{t('numeric.answerIn', { unit: question.unit || t('numeric.askedUnit') })} {describeTolerance(question.tolerance, question.unit, language)}.</>}
+      </div>
+    </div>
+  );
+};
+
+export default NumericAnswerInput;
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Profile } from '../types';
+import { checkPin } from '../services/profiles';
+import { useTranslation } from './LanguageContext';
+import { Lock } from 'lucide-react';
+
+interface PinPromptProps {
+  profile: Profile;
+  message: string;
+  onUnlock: () => void;
+  onCancel?: () => void; // Left out when there is nothing to go back to, e.g. on startup
+}
+
+const PinPrompt: React.FC<PinPromptProps> = ({ profile, message, onUnlock, onCancel }) => {
+  const { t } = useTranslation();
+  const [pin, setPin] = useState('');
+  const [isWrong, setIsWrong] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (checkPin(profile, pin)) {
+      onUnlock();
+    } else {
+      setIsWrong(true);
+      setPin('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-xl border border-gray-100 w-full max-w-sm p-8 text-center">
+      <div className="w-14 h-14 rounded-full bg-ca-100 text-ca-600 flex items-center justify-center mx-auto mb-4">
+        <Lock size={24} />
+      </div>
+      <h2 className="text-xl font-bold text-gray-900">{profile.name}</h2>
+      <p className="text-sm text-gray-500 mt-1 mb-6">{message}</p>
+      <input
+        type="password"
+        inputMode="numeric"
+        autoComplete="off"
+        autoFocus
+        value={pin}
+        onChange={(e) => { setPin(e.target.value.replace(/\D/g, '')); setIsWrong(false); }}
+        maxLength={8}
+        placeholder={t('profiles.pin')}
+        className={`w-full text-center tracking-[0.5em] text-lg p-3 rounded-lg border outline-none focus:ring-2 ${isWrong ? 'border-red-300 focus:ring-red-400' : 'border-gray-300 focus:ring-ca-500'}`}
+      />
+      {isWrong && <p className="text-sm text-red-600 mt-2">{t('pin.wrong')}</p>}
+      <div className="flex gap-3 mt-6">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="flex-1 py-2.5 rounded-lg border border-gray-200 text-gray-600 font-medium hover:bg-gray-50">
+            {t('common.cancel')}
+          </button>
+        )}
+        <button type="submit" disabled={!pin} className="flex-1 py-2.5 rounded-lg bg-ca-600 text-white font-medium hover:bg-ca-700 disabled:opacity-50">
+          {t('pin.unlock')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default PinPrompt;
@@ -1,14 +1,21 @@
-import React from 'react';
-import { ExamState } from '../types';
-import { ChevronLeft, ChevronRight, Clock, CheckCircle, X, BrainCircuit, HelpCircle } from 'lucide-react';
+import React, { useState } from 'react';
+import { Answer, BilingualView, ExamState } from '../types';
+import BilingualText, { BilingualViewToggle } from './BilingualText';
+import DescriptiveAnswerEditor from './DescriptiveAnswerEditor';
+import NumericAnswerInput from './NumericAnswerInput';
+import ScenarioPassage, { scenarioQuestionRange } from './ScenarioPassage';
+import { isNumericAnswer } from '../services/numericAnswer';
+import { useTranslation } from './LanguageContext';
+import { ChevronLeft, ChevronRight, Clock, CheckCircle, X, BrainCircuit, HelpCircle, Loader2 } from 'lucide-react';
 
 interface PracticeQuizScreenProps {
   state: ExamState;
-  onAnswer: (questionIndex: number, optionIndex: number) => void;
+  onAnswer: (questionIndex: number, answer: Answer) => void;
   onNavigate: (questionIndex: number) => void;
   onSubmit: () => void;
   onExit: () => void;
   title?: string;
+  heading?: string;
 }
 
 const PracticeQuizScreen: React.FC<PracticeQuizScreenProps> = ({
@@ -18,11 +25,21 @@ const PracticeQuizScreen: React.FC<PracticeQuizScreenProps> = ({
   onSubmit,
   onExit,
   title,
+  heading,
 }) => {
+  const { t, language } = useTranslation();
+  const [view, setView] = useState<BilingualView>('side-by-side');
   const currentQuestion = state.questions[state.currentQuestionIndex];
+  const currentScenario = currentQuestion.scenarioId
+    ? state.scenarios?.find((s) => s.id === currentQuestion.scenarioId)
+    : undefined;
   const selectedOption = state.answers[state.currentQuestionIndex];
-  const isLastQuestion = state.currentQuestionIndex === state.questions.length - 1;
-  const allAnswered = Object.keys(state.answers).length === state.questions.length;
+  const pendingCount = state.pendingCount ?? 0;
+  const totalCount = state.questions.length + pendingCount;
+  const atLoadedEnd = state.currentQuestionIndex === state.questions.length - 1;
+  const isLastQuestion = atLoadedEnd && pendingCount === 0;
+  const allAnswered = Object.keys(state.answers).length === totalCount;
+  const isBilingual = state.questions.some((q) => q.english);
 
   // Format seconds into MM:SS
   const formatTime = (seconds: number) => {
@@ -33,7 +50,6 @@ const PracticeQuizScreen: React.FC<PracticeQuizScreenProps> = ({
 
   const handleSubmit = () => {
     const answeredCount = Object.keys(state.answers).length;
-    const totalCount = state.questions.length;
     const unanswered = totalCount - answeredCount;
     
     if (unanswered === 0) {
@@ -41,7 +57,7 @@ const PracticeQuizScreen: React.FC<PracticeQuizScreenProps> = ({
       return;
     }
 
-    if(window.confirm(`You have ${unanswered} unanswered questions. Submit anyway?`)) {
+    if(window.confirm(t('practice.confirmSubmit', { count: unanswered }))) {
       onSubmit();
     }
   };
@@ -56,7 +72,7 @@ const PracticeQuizScreen: React.FC<PracticeQuizScreenProps> = ({
           </div>
           <div>
             <div className="font-bold text-gray-800 text-sm md:text-base leading-tight">
-              Practice Session
+              {heading ?? t('practice.heading')}
             </div>
             {title && (
               <div className="text-xs text-violet-600 font-medium truncate max-w-[200px] md:max-w-md">
@@ -75,7 +91,7 @@ const PracticeQuizScreen: React.FC<PracticeQuizScreenProps> = ({
           <button 
             onClick={onExit}
             className="text-gray-400 hover:text-gray-600 p-2 rounded-full hover:bg-gray-100 transition-colors"
-            title="Exit Practice"
+            title={t('practice.exit')}
           >
             <X size={24} />
           </button>
@@ -89,47 +105,76 @@ const PracticeQuizScreen: React.FC<PracticeQuizScreenProps> = ({
           <div className="h-1.5 bg-violet-100 w-full">
             <div 
               className="h-full bg-violet-500 transition-all duration-300 ease-out"
-              style={{ width: `${((state.currentQuestionIndex + 1) / state.questions.length) * 100}%` }}
+              style={{ width: `${((state.currentQuestionIndex + 1) / totalCount) * 100}%` }}
             ></div>
           </div>
 
           <div className="flex-1 overflow-y-auto p-6 md:p-8 lg:p-12">
-            <div className="max-w-4xl mx-auto">
+            <div className={`${isBilingual && view === 'side-by-side' ? 'max-w-6xl' : 'max-w-4xl'} mx-auto`}>
               <div className="mb-8 flex justify-between items-end">
                 <span className="text-sm font-bold text-violet-400 uppercase tracking-widest">
-                  Question {state.currentQuestionIndex + 1} <span className="text-gray-300">/ {state.questions.length}</span>
+                  {t('common.questionNumber', { number: state.currentQuestionIndex + 1 })} <span className="text-gray-300">/ {totalCount}</span>
                 </span>
+                {isBilingual && <BilingualViewToggle view={view} onChange={setView} />}
               </div>
 
+              {currentScenario && (
+                <div className="mb-6">
+                  <ScenarioPassage
+                    scenario={currentScenario}
+                    questionRange={scenarioQuestionRange(state.questions, currentScenario.id, language)}
+                    view={view}
+                  />
+                </div>
+              )}
+
               <div className="bg-white rounded-2xl shadow-sm border border-violet-100 p-6 md:p-10 mb-8">
                 <h2 className="text-xl md:text-2xl font-medium text-gray-800 leading-relaxed mb-8">
-                  {currentQuestion.text}
+                  <BilingualText text={currentQuestion.text} english={currentQuestion.english?.text} view={view} />
                 </h2>
 
-                <div className="grid grid-cols-1 gap-4">
-                  {currentQuestion.options.map((option, idx) => (
-                    <button
-                      key={idx}
-                      onClick={() => onAnswer(state.currentQuestionIndex, idx)}
-                      className={`w-full text-left p-4 md:p-5 rounded-xl border-2 transition-all flex items-center gap-4 group ${
-                        selectedOption === idx
-                          ? 'border-violet-500 bg-violet-50 shadow-sm'
-                          : 'border-transparent bg-gray-50 hover:bg-violet-50/50 hover:border-violet-200'
-                      }`}
-                    >
-                      <div className={`w-8 h-8 rounded-full border-2 flex items-center justify-center flex-shrink-0 transition-colors ${
-                        selectedOption === idx 
-                          ? 'border-violet-500 bg-violet-500 text-white' 
-                          : 'border-gray-300 text-gray-400 group-hover:border-violet-300 group-hover:text-violet-300'
-                      }`}>
-                        {selectedOption === idx ? <CheckCircle size={16} /> : <span className="text-xs font-bold">{String.fromCharCode(65 + idx)}</span>}
-                      </div>
-                      <span className={`text-base md:text-lg ${selectedOption === idx ? 'text-violet-900 font-medium' : 'text-gray-700'}`}>
-                        {option}
-                      </span>
-                    </button>
-                  ))}
-                </div>
+                {currentQuestion.kind === 'descriptive' ? (
+                  <DescriptiveAnswerEditor
+                    key={state.currentQuestionIndex}
+                    question={currentQuestion}
+                    value={typeof selectedOption === 'string' ? selectedOption : ''}
+                    onChange={(value) => onAnswer(state.currentQuestionIndex, value)}
+                    accent="violet"
+                  />
+                ) : currentQuestion.kind === 'numeric' ? (
+                  <NumericAnswerInput
+                    key={state.currentQuestionIndex}
+                    question={currentQuestion}
+                    value={isNumericAnswer(selectedOption) ? selectedOption : undefined}
+                    onChange={(value) => onAnswer(state.currentQuestionIndex, value)}
+                    accent="violet"
+                  />
+                ) : (
+                  <div className="grid grid-cols-1 gap-4">
+                    {currentQuestion.options.map((option, idx) => (
+                      <button
+                        key={idx}
+                        onClick={() => onAnswer(state.currentQuestionIndex, idx)}
+                        className={`w-full text-left p-4 md:p-5 rounded-xl border-2 transition-all flex items-center gap-4 group ${
+                          selectedOption === idx
+                            ? 'border-violet-500 bg-violet-50 shadow-sm'
+                            : 'border-transparent bg-gray-50 hover:bg-violet-50/50 hover:border-violet-200'
+                        }`}
+                      >
+                        <div className={`w-8 h-8 rounded-full border-2 flex items-center justify-center flex-shrink-0 transition-colors ${
+                          selectedOption === idx 
+                            ? 'border-violet-500 bg-violet-500 text-white' 
+                            : 'border-gray-300 text-gray-400 group-hover:border-violet-300 group-hover:text-violet-300'
+                        }`}>
+                          {selectedOption === idx ? <CheckCircle size={16} /> : <span className="text-xs font-bold">{String.fromCharCode(65 + idx)}</span>}
+                        </div>
+                        <span className={`flex-1 text-base md:text-lg ${selectedOption === idx ? 'text-violet-900 font-medium' : 'text-gray-700'}`}>
+                          <BilingualText text={option} english={currentQuestion.english?.options?.[idx]} view={view} />
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
 
               <div className="flex items-center justify-between pt-4">
@@ -139,7 +184,7 @@ const PracticeQuizScreen: React.FC<PracticeQuizScreenProps> = ({
                   className="flex items-center gap-2 text-gray-500 hover:text-violet-600 disabled:opacity-30 disabled:hover:text-gray-500 font-medium px-4 py-2 transition-colors"
                 >
                   <ChevronLeft size={20} />
-                  Previous
+                  {t('common.previous')}
                 </button>
                 
                 {isLastQuestion ? (
@@ -147,15 +192,23 @@ const PracticeQuizScreen: React.FC<PracticeQuizScreenProps> = ({
                     onClick={handleSubmit}
                     className="flex items-center gap-2 bg-gray-900 text-white px-8 py-3 rounded-xl font-bold hover:bg-black shadow-lg shadow-violet-200 transition-all transform hover:-translate-y-0.5"
                   >
-                    Finish Practice
+                    {t('practice.finish')}
                     <CheckCircle size={20} />
                   </button>
+                ) : atLoadedEnd ? (
+                  <button
+                    disabled
+                    className="flex items-center gap-2 bg-violet-600 text-white px-8 py-3 rounded-xl font-bold shadow-lg shadow-violet-200 opacity-60"
+                  >
+                    <Loader2 size={20} className="animate-spin" />
+                    {t('common.loadingNext')}
+                  </button>
                 ) : (
                   <button
                     onClick={() => onNavigate(state.currentQuestionIndex + 1)}
                     className="flex items-center gap-2 bg-violet-600 text-white px-8 py-3 rounded-xl font-bold hover:bg-violet-700 shadow-lg shadow-violet-200 transition-all transform hover:-translate-y-0.5"
                   >
-                    Next Question
+                    {t('practice.next')}
                     <ChevronRight size={20} />
                   </button>
                 )}
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { AppSettings, DifficultyLevel, Language, Profile } from '../types';
+import { isValidPin } from '../services/profiles';
+import { LANGUAGES } from '../services/languages';
+import { useTranslation } from './LanguageContext';
+import { X } from 'lucide-react';
+
+export interface ProfileFormValues extends AppSettings {
+  name: string;
+  pin?: string | null; // A new PIN, or null to remove the lock; left out to keep it as it is
+}
+
+interface ProfileDialogProps {
+  profile?: Profile; // Edited profile; a new one is created when left out
+  settings: AppSettings;
+  onSave: (values: ProfileFormValues) => void;
+  onClose: () => void;
+}
+
+const ProfileDialog: React.FC<ProfileDialogProps> = ({ profile, settings, onSave, onClose }) => {
+  const { t } = useTranslation();
+  const [name, setName] = useState(profile?.name ?? '');
+  const [language, setLanguage] = useState<Language>(settings.language);
+  const [level, setLevel] = useState<DifficultyLevel>(settings.level);
+  const [pin, setPin] = useState('');
+  const [removePin, setRemovePin] = useState(false);
+
+  const hasPin = !!profile?.pinHash;
+  const pinError = pin && !isValidPin(pin) ? t('profiles.pinError') : '';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || pinError) return;
+    onSave({ name: name.trim(), language, level, pin: removePin ? null : pin || undefined });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-xl w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-900">{profile ? t('profiles.editTitle') : t('profiles.new')}</h2>
+          <button type="button" onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100" title={t('common.close')}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-1">{t('profiles.name')}</span>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+              maxLength={40}
+              placeholder={t('profiles.namePlaceholder')}
+              className="w-full p-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-ca-500 focus:border-ca-500 outline-none"
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">{t('common.language')}</span>
+              <select
+                value={language}
+                onChange={(e) => setLanguage(e.target.value as Language)}
+                className="w-full p-2.5 rounded-lg border border-gray-300 bg-white outline-none focus:ring-2 focus:ring-ca-500"
+              >
+                {Object.values(Language).map((lang) => <option key={lang} value={lang}>{LANGUAGES[lang].nativeName}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">{t('profiles.defaultLevel')}</span>
+              <select
+                value={level}
+                onChange={(e) => setLevel(e.target.value as DifficultyLevel)}
+                className="w-full p-2.5 rounded-lg border border-gray-300 bg-white outline-none focus:ring-2 focus:ring-ca-500"
+              >
+                {Object.values(DifficultyLevel).map((lvl) => <option key={lvl} value={lvl}>{t(`level.${lvl}`)}</option>)}
+              </select>
+            </label>
+          </div>
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-1">
+              {hasPin ? t('profiles.newPin') : t('profiles.pin')} <span className="text-gray-400 font-normal">{t('common.optional')}</span>
+            </span>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              disabled={removePin}
+              maxLength={8}
+              placeholder={hasPin ? t('profiles.keepPin') : t('profiles.pinDigits')}
+              className="w-full p-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-ca-500 focus:border-ca-500 outline-none disabled:bg-gray-50"
+            />
+            {pinError && <span className="block text-xs text-red-600 mt-1">{pinError}</span>}
+            <span className="block text-xs text-gray-400 mt-1">{t('profiles.pinNote')}</span>
+          </label>
+          {hasPin && (
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input type="checkbox" checked={removePin} onChange={(e) => setRemovePin(e.target.checked)} className="rounded text-ca-600 focus:ring-ca-500" />
+              {t('profiles.removePin')}
+            </label>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-100 flex justify-end gap-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg border border-gray-200 text-gray-600 font-medium hover:bg-gray-50">
+            {t('common.cancel')}
+          </button>
+          <button type="submit" disabled={!name.trim() || !!pinError} className="px-4 py-2 rounded-lg bg-ca-600 text-white font-medium hover:bg-ca-700 disabled:opacity-50">
+            {profile ? t('common.save') : t('profiles.create')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ProfileDialog;
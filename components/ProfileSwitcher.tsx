@@ -0,0 +1,90 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Profile } from '../types';
+import { useTranslation } from './LanguageContext';
+import { UserRound, ChevronDown, Check, Lock, UserPlus, Pencil, Trash2 } from 'lucide-react';
+
+interface ProfileSwitcherProps {
+  profiles: Profile[];
+  active: Profile;
+  onSelect: (profile: Profile) => void;
+  onCreate: () => void;
+  onEdit: () => void; // Edits the active profile
+  onDelete: (profile: Profile) => void;
+  canEdit: boolean; // False while the active profile is locked
+}
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, active, onSelect, onCreate, onEdit, onDelete, canEdit }) => {
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Closes the menu on a click anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const choose = (action: () => void) => {
+    setIsOpen(false);
+    action();
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors"
+        title={t('profiles.switch')}
+      >
+        <span className="w-7 h-7 rounded-full bg-ca-100 text-ca-700 flex items-center justify-center">
+          <UserRound size={16} />
+        </span>
+        <span className="hidden md:inline max-w-[8rem] truncate">{active.name}</span>
+        <ChevronDown size={14} className="text-gray-400" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-white rounded-xl shadow-lg border border-gray-100 py-2 z-50">
+          <div className="px-4 pb-2 text-xs font-semibold text-gray-500 uppercase tracking-wider">{t('profiles.title')}</div>
+          {profiles.map((profile) => (
+            <div key={profile.id} className="group flex items-center hover:bg-gray-50">
+              <button
+                onClick={() => choose(() => onSelect(profile))}
+                className="flex-1 flex items-center gap-2 px-4 py-2 text-sm text-left text-gray-700 min-w-0"
+              >
+                {profile.id === active.id ? <Check size={14} className="text-ca-600 flex-shrink-0" /> : <span className="w-3.5 flex-shrink-0" />}
+                <span className={`truncate ${profile.id === active.id ? 'font-semibold text-gray-900' : ''}`}>{profile.name}</span>
+                {profile.pinHash && <Lock size={12} className="text-gray-400 flex-shrink-0" />}
+              </button>
+              {profile.id !== active.id && (
+                <button
+                  onClick={() => choose(() => onDelete(profile))}
+                  className="p-2 mr-2 text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title={t('profiles.delete', { name: profile.name })}
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+          ))}
+          <div className="border-t border-gray-100 mt-2 pt-2">
+            {canEdit && (
+              <button onClick={() => choose(onEdit)} className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-600 hover:bg-gray-50">
+                <Pencil size={14} /> {t('profiles.edit', { name: active.name })}
+              </button>
+            )}
+            <button onClick={() => choose(onCreate)} className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-600 hover:bg-gray-50">
+              <UserPlus size={14} /> {t('profiles.new')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
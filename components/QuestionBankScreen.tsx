@@ -0,0 +1,152 @@
+import React, { useRef, useState } from 'react';
+import { BankQuestion, DifficultyLevel, Subject } from '../types';
+import { exportBankCsv, exportBankJson } from '../services/questionBank';
+import { downloadFile } from '../services/download';
+import { LANGUAGES } from '../services/languages';
+import { useTranslation } from './LanguageContext';
+import { Database, Upload, Download, Trash2, FileJson, FileSpreadsheet, Layers } from 'lucide-react';
+
+interface QuestionBankScreenProps {
+  bank: BankQuestion[];
+  onImport: (fileName: string, text: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const KIND_LABELS = { mcq: 'kind.mcqShort', numeric: 'kind.numeric', descriptive: 'kind.descriptive' } as const;
+
+const QuestionBankScreen: React.FC<QuestionBankScreenProps> = ({ bank, onImport, onRemove }) => {
+  const { t } = useTranslation();
+  const [subjectFilter, setSubjectFilter] = useState<Subject | 'ALL'>('ALL');
+  const [levelFilter, setLevelFilter] = useState<DifficultyLevel | 'ALL'>('ALL');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const inView = bank.filter((b) =>
+    (subjectFilter === 'ALL' || b.subject === subjectFilter) &&
+    (levelFilter === 'ALL' || b.level === levelFilter)
+  );
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Lets the same file be picked again after fixing it
+    if (!file) return;
+    onImport(file.name, await file.text());
+  };
+
+  // Exports what is in view, so a filtered bank can be shared as one paper's set
+  const handleExport = (format: 'json' | 'csv') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadFile(`ca-question-bank-${stamp}.json`, exportBankJson(inView), 'application/json');
+    } else {
+      downloadFile(`ca-question-bank-${stamp}.csv`, exportBankCsv(inView), 'text/csv');
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    if (window.confirm(t('bank.confirmRemove'))) {
+      onRemove(id);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 p-6 md:p-12">
+      <div className="max-w-5xl mx-auto space-y-8">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <Database className="text-ca-600" />
+              {t('nav.bank')}
+            </h1>
+            <p className="text-sm text-gray-500 mt-1">{t('bank.detail')}</p>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={subjectFilter}
+              onChange={(e) => setSubjectFilter(e.target.value as Subject | 'ALL')}
+              className="p-2.5 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-ca-500 focus:border-ca-500 outline-none text-sm"
+            >
+              <option value="ALL">{t('common.allSubjects')}</option>
+              {Object.values(Subject).map((s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+            <select
+              value={levelFilter}
+              onChange={(e) => setLevelFilter(e.target.value as DifficultyLevel | 'ALL')}
+              className="p-2.5 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-ca-500 focus:border-ca-500 outline-none text-sm"
+            >
+              <option value="ALL">{t('common.allLevels')}</option>
+              {Object.values(DifficultyLevel).map((l) => (
+                <option key={l} value={l}>{t(`level.${l}`)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <div className="text-3xl font-bold text-gray-900">{inView.length} <span className="text-base font-medium text-gray-500">{t('common.questionWord', { count: inView.length })}</span></div>
+            <div className="text-xs text-gray-500 mt-1">{t('bank.total', { count: bank.length })}</div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <input ref={fileInputRef} type="file" accept=".json,.csv" onChange={handleFile} className="hidden" />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-2 bg-ca-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-ca-700 transition-colors text-sm"
+            >
+              <Upload size={16} /> {t('bank.import')}
+            </button>
+            <button
+              onClick={() => handleExport('json')}
+              disabled={inView.length === 0}
+              className="flex items-center gap-2 bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg font-medium hover:bg-gray-50 transition-colors text-sm disabled:opacity-50"
+            >
+              <FileJson size={16} /> <Download size={14} /> JSON
+            </button>
+            <button
+              onClick={() => handleExport('csv')}
+              disabled={inView.length === 0}
+              className="flex items-center gap-2 bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg font-medium hover:bg-gray-50 transition-colors text-sm disabled:opacity-50"
+            >
+              <FileSpreadsheet size={16} /> <Download size={14} /> CSV
+            </button>
+          </div>
+        </div>
+
+        {inView.length === 0 ? (
+          <div className="text-center py-16 text-gray-400 bg-white rounded-2xl border border-gray-100">
+            <Layers size={48} className="mx-auto mb-3 opacity-20" />
+            <p className="text-sm">{t('bank.empty', { action: t('results.saveToBank') })}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {inView.map((entry) => (
+              <div key={entry.id} className="bg-white rounded-xl border border-gray-200 p-5 flex items-center gap-5">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-800 line-clamp-2">{entry.question.text}</p>
+                  <div className="flex flex-wrap gap-2 text-xs text-gray-500 mt-2">
+                    <span className="bg-gray-100 px-2 py-0.5 rounded">{t(KIND_LABELS[entry.question.kind ?? 'mcq'])}</span>
+                    <span className="bg-gray-100 px-2 py-0.5 rounded">{entry.subject}</span>
+                    <span className="bg-gray-100 px-2 py-0.5 rounded">{t(`level.${entry.level}`)}</span>
+                    {entry.question.chapter && <span className="bg-gray-100 px-2 py-0.5 rounded">{entry.question.chapter}</span>}
+                    {entry.scenario && <span className="bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded">{entry.scenario.title}</span>}
+                    <span>{entry.source === 'imported' ? t('bank.imported') : t('bank.savedFromExam')} · {LANGUAGES[entry.language].nativeName}</span>
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRemove(entry.id)}
+                  className="text-gray-300 hover:text-red-500 p-2 transition-colors rounded-full hover:bg-red-50"
+                  title={t('bank.remove')}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionBankScreen;
@@ -1,18 +1,48 @@
-import React from 'react';
-import { ExamState, ExamConfig } from '../types';
-import { CheckCircle2, XCircle, RotateCcw, Award, AlertCircle } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { BilingualView, ExamState, ExamConfig } from '../types';
+import BilingualText, { BilingualViewToggle } from './BilingualText';
+import { scoreExam, scoreSection, countedQuestions, getMarkingScheme, marksForAnswer, maxMarksFor } from '../services/marking';
+import DescriptiveReview from './DescriptiveReview';
+import ScenarioPassage, { scenarioQuestionRange } from './ScenarioPassage';
+import TopicBreakdown from './TopicBreakdown';
+import { hasTopicTags, topicBreakdown } from '../services/topicAnalysis';
+import { describeTolerance, isNumericAnswer } from '../services/numericAnswer';
+import { sectionTitle } from '../services/paperBlueprint';
+import { useTranslation } from './LanguageContext';
+import { CheckCircle2, XCircle, RotateCcw, Award, AlertCircle, ScrollText, Database, NotebookPen, Check } from 'lucide-react';
 
 interface ResultsProps {
   state: ExamState;
   config: ExamConfig;
   onRestart: () => void;
+  restartLabel?: string;
+  onStudyTopic?: (topic: string) => void; // Opens a CA Classes lesson on a weak topic
+  onSaveToBank?: () => void;
+  onAddNote?: (questionIndex: number) => void;
+  focusQuestion?: number; // Scrolled into view on open, e.g. when coming from a note
 }
 
-const ResultsScreen: React.FC<ResultsProps> = ({ state, config, onRestart }) => {
-  const totalQuestions = state.questions.length;
-  const correctCount = state.score;
-  const percentage = Math.round((correctCount / totalQuestions) * 100);
-  const isPass = percentage >= 50; // CA Standard usually 40% per subject, 50% agg, let's use 50% for single subject test.
+const ResultsScreen: React.FC<ResultsProps> = ({ state, config, onRestart, restartLabel, onStudyTopic, onSaveToBank, onAddNote, focusQuestion }) => {
+  const { t, language, formatNumber } = useTranslation();
+  const scheme = getMarkingScheme(config);
+  const result = scoreExam(state, config);
+  const { percentage, isPass } = result;
+  const report = state.generationReport;
+  const fixedCount = report ? report.issues.filter((i) => i.action !== 'flagged').length : 0;
+  const counted = new Set(countedQuestions(state));
+  const [noted, setNoted] = useState<Set<number>>(() => new Set());
+  const [view, setView] = useState<BilingualView>('side-by-side');
+  const isBilingual = state.questions.some((q) => q.english);
+
+  useEffect(() => {
+    if (focusQuestion === undefined) return;
+    document.getElementById(`question-${focusQuestion}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusQuestion]);
+
+  const handleAddNote = (index: number) => {
+    onAddNote(index);
+    setNoted((prev) => new Set(prev).add(index));
+  };
 
   return (
     <div className="min-h-screen bg-slate-50 p-6 md:p-12">
@@ -22,93 +52,244 @@ const ResultsScreen: React.FC<ResultsProps> = ({ state, config, onRestart }) =>
         <div className="bg-white rounded-2xl shadow-xl overflow-hidden">
           <div className={`p-8 text-white flex flex-col md:flex-row items-center justify-between ${isPass ? 'bg-gradient-to-r from-emerald-600 to-teal-600' : 'bg-gradient-to-r from-red-600 to-pink-600'}`}>
             <div>
-              <h1 className="text-3xl font-bold mb-2">{isPass ? 'Congratulations!' : 'Keep Practicing'}</h1>
+              <h1 className="text-3xl font-bold mb-2">{isPass ? t('results.passTitle') : t('results.failTitle')}</h1>
               <p className="opacity-90">
-                {isPass 
-                  ? 'You have successfully cleared this simulation. Great preparation!' 
-                  : 'You fell short of the passing criteria. Review your answers below.'}
+                {isPass ? t('results.passDetail') : t('results.failDetail')}
               </p>
             </div>
             <div className="mt-6 md:mt-0 flex items-center gap-6">
               <div className="text-center">
                 <div className="text-4xl font-bold">{percentage}%</div>
-                <div className="text-sm opacity-80">Score</div>
+                <div className="text-sm opacity-80">{t('common.score')}</div>
               </div>
               <div className="h-12 w-px bg-white/30"></div>
               <div className="text-center">
-                <div className="text-4xl font-bold">{correctCount}/{totalQuestions}</div>
-                <div className="text-sm opacity-80">Correct</div>
+                <div className="text-4xl font-bold">{formatNumber(result.netMarks)}/{formatNumber(result.maxMarks)}</div>
+                <div className="text-sm opacity-80">{t('common.marks')}</div>
               </div>
             </div>
           </div>
 
+          <div className="px-6 md:px-8 py-4 grid grid-cols-2 md:grid-cols-4 gap-4 border-b border-gray-100 bg-gray-50">
+            <div>
+              <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold">{t('results.gained')}</div>
+              <div className="font-bold text-emerald-700">+{formatNumber(result.marksGained)} <span className="text-xs font-medium text-gray-500">({t('results.correctCount', { count: result.correct })}{result.partial > 0 && `, ${t('results.partialCount', { count: result.partial })}`})</span></div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold">{t('results.lost')}</div>
+              <div className="font-bold text-red-700">−{formatNumber(result.marksLost)} <span className="text-xs font-medium text-gray-500">({t('results.wrongCount', { count: result.wrong })})</span></div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold">{t('results.skipped')}</div>
+              <div className="font-bold text-gray-700">{result.skipped} <span className="text-xs font-medium text-gray-500">({t('results.zeroMarks')})</span></div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold">{t('results.passMark')}</div>
+              <div className="font-bold text-gray-700">{result.passPercentage}% <span className="text-xs font-medium text-gray-500">{scheme.name}</span></div>
+            </div>
+          </div>
+
           <div className="p-6 md:p-8 flex items-center justify-between bg-white">
             <div className="flex gap-8">
               <div>
-                <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold">Subject</div>
+                <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold">{t('common.subject')}</div>
                 <div className="font-medium text-gray-900">{config.subject}</div>
               </div>
               <div>
-                <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold">Level</div>
-                <div className="font-medium text-gray-900">{config.level}</div>
+                <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold">{t('common.level')}</div>
+                <div className="font-medium text-gray-900">{t(`level.${config.level}`)}</div>
               </div>
+              {report && (fixedCount > 0 || report.delivered < report.requested) && (
+                <div>
+                  <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold">{t('results.qualityCheck')}</div>
+                  <div className="font-medium text-amber-700 text-sm" title={report.issues.map((i) => `#${i.position + 1} ${i.action}: ${i.reason}`).join('\n')}>
+                    {t('results.fixes', { count: fixedCount })}
+                    {report.delivered < report.requested && ` · ${t('results.delivered', { delivered: report.delivered, requested: report.requested })}`}
+                  </div>
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-3">
+              {onSaveToBank && (
+                <button
+                  onClick={onSaveToBank}
+                  className="flex items-center gap-2 bg-white border border-gray-300 text-gray-700 px-4 py-2.5 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+                >
+                  <Database size={18} />
+                  {t('results.saveToBank')}
+                </button>
+              )}
+              <button
+                onClick={onRestart}
+                className="flex items-center gap-2 bg-gray-900 text-white px-6 py-2.5 rounded-lg hover:bg-gray-800 transition-colors font-medium shadow-lg shadow-gray-200"
+              >
+                <RotateCcw size={18} />
+                {restartLabel ?? t('results.newExam')}
+              </button>
             </div>
-            <button
-              onClick={onRestart}
-              className="flex items-center gap-2 bg-gray-900 text-white px-6 py-2.5 rounded-lg hover:bg-gray-800 transition-colors font-medium shadow-lg shadow-gray-200"
-            >
-              <RotateCcw size={18} />
-              Take New Exam
-            </button>
           </div>
         </div>
 
+        {/* Section-wise Scores (full papers) */}
+        {state.sections && state.sections.length > 0 && (
+          <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+            <div className="p-5 border-b border-gray-100">
+              <h2 className="font-bold text-gray-800 flex items-center gap-2">
+                <ScrollText size={18} className="text-ca-600" />
+                {t('results.sectionScores')}
+              </h2>
+            </div>
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-xs text-gray-500 uppercase tracking-wide">
+                <tr>
+                  <th className="text-left font-semibold px-5 py-3">{t('results.section')}</th>
+                  <th className="text-right font-semibold px-5 py-3">{t('results.attempted')}</th>
+                  <th className="text-right font-semibold px-5 py-3">{t('common.marks')}</th>
+                  <th className="text-right font-semibold px-5 py-3">{t('common.score')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {state.sections.map((section) => {
+                  const sectionResult = scoreSection(state, section, config);
+                  const required = section.attemptCount ?? section.count;
+                  return (
+                    <tr key={section.id}>
+                      <td className="px-5 py-3 font-medium text-gray-800">
+                        {sectionTitle(section, language)}
+                        {section.attemptCount && (
+                          <span className="ml-2 text-xs font-normal text-gray-500">{t('common.anyOf', { attempt: section.attemptCount, total: section.count })}</span>
+                        )}
+                      </td>
+                      <td className="px-5 py-3 text-right text-gray-600">{required - sectionResult.skipped}/{required}</td>
+                      <td className="px-5 py-3 text-right font-semibold text-gray-800">{formatNumber(sectionResult.netMarks)}/{formatNumber(sectionResult.maxMarks)}</td>
+                      <td className={`px-5 py-3 text-right font-semibold ${sectionResult.isPass ? 'text-emerald-700' : 'text-red-700'}`}>
+                        {sectionResult.percentage}%
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Topic Diagnosis (attempts saved before tagging have no chapters) */}
+        {hasTopicTags(state.questions) && (
+          <TopicBreakdown results={topicBreakdown(state, config)} onStudyTopic={onStudyTopic} />
+        )}
+
         {/* Detailed Review */}
         <div>
-          <h2 className="text-xl font-bold text-gray-800 mb-6 flex items-center gap-2">
-            <Award className="text-ca-600" />
-            Detailed Performance Review
-          </h2>
+          <div className="flex items-center justify-between gap-4 mb-6">
+            <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <Award className="text-ca-600" />
+              {t('results.detailedReview')}
+            </h2>
+            {isBilingual && <BilingualViewToggle view={view} onChange={setView} />}
+          </div>
           
           <div className="space-y-6">
             {state.questions.map((question, index) => {
-              const userAnswerIndex = state.answers[index];
-              const isCorrect = userAnswerIndex === question.correctOptionIndex;
-              const isSkipped = userAnswerIndex === undefined;
+              const userAnswer = state.answers[index];
+              const isSkipped = userAnswer === undefined;
+              const marks = marksForAnswer(question, userAnswer, scheme, state.grades?.[index]);
+              const isCorrect = !isSkipped && marks >= maxMarksFor(question, scheme);
+              const isPartial = !isSkipped && !isCorrect && marks > 0;
+              // Answers beyond a section's internal choice are shown but not marked
+              const isCounted = counted.has(index);
+              // Show a case passage once, ahead of the first question that belongs to it
+              const scenario = question.scenarioId && question.scenarioId !== state.questions[index - 1]?.scenarioId
+                ? state.scenarios?.find((s) => s.id === question.scenarioId)
+                : undefined;
 
               return (
-                <div key={question.id} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <React.Fragment key={question.id}>
+                {scenario && (
+                  <ScenarioPassage scenario={scenario} questionRange={scenarioQuestionRange(state.questions, scenario.id, language)} view={view} />
+                )}
+                <div
+                  id={`question-${index}`}
+                  className={`bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden ${question.scenarioId ? 'border-l-4 border-l-indigo-300' : ''} ${index === focusQuestion ? 'ring-2 ring-amber-300' : ''}`}
+                >
                   <div className="p-6 border-b border-gray-100">
                     <div className="flex items-start gap-4">
                       <span className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm ${
-                        isCorrect ? 'bg-emerald-100 text-emerald-700' : isSkipped ? 'bg-gray-100 text-gray-600' : 'bg-red-100 text-red-700'
+                        isCorrect ? 'bg-emerald-100 text-emerald-700' : isPartial ? 'bg-amber-100 text-amber-700' : isSkipped ? 'bg-gray-100 text-gray-600' : 'bg-red-100 text-red-700'
                       }`}>
                         {index + 1}
                       </span>
                       <div className="flex-1">
-                        <p className="text-lg font-medium text-gray-800 mb-4">{question.text}</p>
-                        
-                        <div className="space-y-2">
-                          {question.options.map((option, optIdx) => {
-                            let optionClass = "border-gray-200 bg-white text-gray-600";
-                            let icon = null;
-
-                            if (optIdx === question.correctOptionIndex) {
-                              optionClass = "border-emerald-500 bg-emerald-50 text-emerald-800 ring-1 ring-emerald-500";
-                              icon = <CheckCircle2 size={16} className="text-emerald-600" />;
-                            } else if (optIdx === userAnswerIndex) {
-                              optionClass = "border-red-500 bg-red-50 text-red-800 ring-1 ring-red-500";
-                              icon = <XCircle size={16} className="text-red-600" />;
-                            }
-
-                            return (
-                              <div key={optIdx} className={`p-3 rounded-lg border text-sm flex items-center justify-between ${optionClass}`}>
-                                <span>{option}</span>
-                                {icon}
-                              </div>
-                            );
-                          })}
+                        <div className="flex items-start justify-between gap-4 mb-4">
+                          <div>
+                            <p className="text-lg font-medium text-gray-800">
+                              <BilingualText text={question.text} english={question.english?.text} view={view} />
+                            </p>
+                            {question.chapter && (
+                              <span className="inline-block mt-2 text-[11px] font-medium text-gray-500 bg-gray-100 px-2 py-0.5 rounded">
+                                {question.chapter}{question.concept && ` · ${question.concept}`}
+                              </span>
+                            )}
+                          </div>
+                          {isCounted ? (
+                            <span className={`flex-shrink-0 text-xs font-bold px-2 py-1 rounded ${
+                              marks > 0 ? 'bg-emerald-50 text-emerald-700' : marks < 0 ? 'bg-red-50 text-red-700' : 'bg-gray-100 text-gray-500'
+                            }`}>
+                              {marks > 0 ? `+${formatNumber(marks)}` : marks < 0 ? `−${formatNumber(-marks)}` : formatNumber(0)}
+                              {question.kind === 'descriptive' && ` / ${formatNumber(maxMarksFor(question, scheme))}`}
+                            </span>
+                          ) : (
+                            <span className="flex-shrink-0 text-xs font-bold px-2 py-1 rounded bg-gray-100 text-gray-500" title={t('results.notCountedHint')}>
+                              {t('results.notCounted')}
+                            </span>
+                          )}
                         </div>
+                        
+                        {question.kind === 'descriptive' ? (
+                          <DescriptiveReview
+                            question={question}
+                            answer={typeof userAnswer === 'string' ? userAnswer : undefined}
+                            grade={state.grades?.[index]}
+                          />
+                        ) : question.kind === 'numeric' ? (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+                            <div className={`p-3 rounded-lg border flex items-center justify-between ${
+                              isSkipped ? 'border-gray-200 bg-white text-gray-400 italic' : isCorrect ? 'border-emerald-500 bg-emerald-50 text-emerald-800' : 'border-red-500 bg-red-50 text-red-800'
+                            }`}>
+                              <span>
+                                {t('results.yourAnswer', { answer: isNumericAnswer(userAnswer) ? `${userAnswer.value} ${userAnswer.unit || question.unit || ''}` : t('results.notAttempted') })}
+                              </span>
+                              {!isSkipped && (isCorrect ? <CheckCircle2 size={16} className="text-emerald-600" /> : <XCircle size={16} className="text-red-600" />)}
+                            </div>
+                            <div className="p-3 rounded-lg border border-emerald-500 bg-emerald-50 text-emerald-800 ring-1 ring-emerald-500">
+                              {t('results.correctAnswer', { answer: `${formatNumber(question.correctValue)} ${question.unit ?? ''}` })}
+                              <div className="text-xs text-emerald-700 mt-0.5">{describeTolerance(question.tolerance, question.unit, language)}</div>
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="space-y-2">
+                            {question.options.map((option, optIdx) => {
+                              let optionClass = "border-gray-200 bg-white text-gray-600";
+                              let icon = null;
+  
+                              if (optIdx === question.correctOptionIndex) {
+                                optionClass = "border-emerald-500 bg-emerald-50 text-emerald-800 ring-1 ring-emerald-500";
+                                icon = <CheckCircle2 size={16} className="text-emerald-600" />;
+                              } else if (optIdx === userAnswer) {
+                                optionClass = "border-red-500 bg-red-50 text-red-800 ring-1 ring-red-500";
+                                icon = <XCircle size={16} className="text-red-600" />;
+                              }
+  
+                              return (
+                                <div key={optIdx} className={`p-3 rounded-lg border text-sm flex items-center justify-between ${optionClass}`}>
+                                  <span className="flex-1">
+                                    <BilingualText text={option} english={question.english?.options?.[optIdx]} view={view} />
+                                  </span>
+                                  {icon}
+                                </div>
+                              );
+                            })}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -117,12 +298,25 @@ const ResultsScreen: React.FC<ResultsProps> = ({ state, config, onRestart }) =>
                     <div className="flex-shrink-0 mt-1">
                       <AlertCircle size={20} className="text-ca-600" />
                     </div>
-                    <div>
-                      <h4 className="text-sm font-bold text-gray-900 mb-1">Examiner's Note & Logic</h4>
-                      <p className="text-sm text-gray-600 leading-relaxed">{question.explanation}</p>
+                    <div className="flex-1">
+                      <h4 className="text-sm font-bold text-gray-900 mb-1">{t('results.examinerNote')}</h4>
+                      <p className="text-sm text-gray-600 leading-relaxed">
+                        <BilingualText text={question.explanation} english={question.english?.explanation} view={view} />
+                      </p>
                     </div>
+                    {onAddNote && (
+                      <button
+                        onClick={() => handleAddNote(index)}
+                        disabled={noted.has(index)}
+                        className="self-start flex-shrink-0 flex items-center gap-1.5 text-xs font-medium px-3 py-1.5 rounded-lg border border-gray-200 bg-white text-gray-600 hover:border-amber-300 hover:text-amber-700 transition-colors disabled:border-amber-200 disabled:text-amber-700 disabled:bg-amber-50"
+                      >
+                        {noted.has(index) ? <Check size={14} /> : <NotebookPen size={14} />}
+                        {noted.has(index) ? t('results.noteAdded') : t('results.addNote')}
+                      </button>
+                    )}
                   </div>
                 </div>
+                </React.Fragment>
               );
             })}
           </div>
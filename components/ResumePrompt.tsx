@@ -0,0 +1,79 @@
+import React from 'react';
+import { ExamCheckpoint } from '../types';
+import { secondsUntil } from '../services/checkpoint';
+import { useTranslation } from './LanguageContext';
+import { RotateCcw, Send, Trash2, Clock } from 'lucide-react';
+
+interface ResumePromptProps {
+  checkpoint: ExamCheckpoint;
+  onResume: () => void;
+  onSubmit: () => void;
+  onDiscard: () => void;
+}
+
+const ResumePrompt: React.FC<ResumePromptProps> = ({ checkpoint, onResume, onSubmit, onDiscard }) => {
+  const { t, formatDuration } = useTranslation();
+  const remaining = secondsUntil(checkpoint.deadline);
+  const expired = remaining === 0;
+  const answered = Object.keys(checkpoint.state.answers).length;
+  const total = checkpoint.state.questions.length;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full overflow-hidden">
+        <div className="p-6 border-b border-gray-100">
+          <h2 className="text-xl font-bold text-gray-900">
+            {expired ? t('resume.expired') : t('resume.title')}
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            {checkpoint.mode === 'PRACTICE' ? t('resume.practice') : t('nav.exam')} · {checkpoint.config.topic || checkpoint.config.subject} · {t(`level.${checkpoint.config.level}`)}
+          </p>
+        </div>
+
+        <div className="p-6 grid grid-cols-2 gap-4">
+          <div>
+            <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold">{t('common.answered')}</div>
+            <div className="text-2xl font-bold text-gray-900">{answered}/{total}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold flex items-center gap-1">
+              <Clock size={12} /> {t('resume.timeLeft')}
+            </div>
+            <div className={`text-2xl font-bold ${expired ? 'text-red-600' : 'text-gray-900'}`}>
+              {formatDuration(remaining)}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 pt-0 flex flex-col gap-3">
+          {expired ? (
+            <button
+              onClick={onSubmit}
+              className="w-full flex items-center justify-center gap-2 bg-green-600 text-white px-6 py-3 rounded-lg font-bold hover:bg-green-700 transition-colors"
+            >
+              <Send size={18} />
+              {t('resume.submit')}
+            </button>
+          ) : (
+            <button
+              onClick={onResume}
+              className="w-full flex items-center justify-center gap-2 bg-ca-600 text-white px-6 py-3 rounded-lg font-bold hover:bg-ca-700 transition-colors"
+            >
+              <RotateCcw size={18} />
+              {t('resume.resume')}
+            </button>
+          )}
+          <button
+            onClick={onDiscard}
+            className="w-full flex items-center justify-center gap-2 text-gray-500 hover:text-red-600 px-6 py-2 rounded-lg font-medium transition-colors"
+          >
+            <Trash2 size={16} />
+            {t('resume.discard')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResumePrompt;
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { ReviewCard, Subject } from '../types';
+import { dueCards, DAILY_REVIEW_LIMIT } from '../services/reviewDeck';
+import { useTranslation } from './LanguageContext';
+import { Repeat, Trash2, CalendarClock, Layers, PlayCircle, CheckCircle2 } from 'lucide-react';
+
+interface ReviewScreenProps {
+  deck: ReviewCard[];
+  onStartReview: (cards: ReviewCard[]) => void;
+  onRemove: (id: string) => void;
+}
+
+// Counted in calendar days, matching how cards fall due
+const daysUntil = (dueAt: number) => {
+  const today = new Date();
+  today.setHours(23, 59, 59, 999);
+  return Math.ceil((dueAt - today.getTime()) / (24 * 60 * 60 * 1000));
+};
+
+const ReviewScreen: React.FC<ReviewScreenProps> = ({ deck, onStartReview, onRemove }) => {
+  const { t } = useTranslation();
+  const [subjectFilter, setSubjectFilter] = useState<Subject | 'ALL'>('ALL');
+
+  const inView = deck.filter((c) => subjectFilter === 'ALL' || c.subject === subjectFilter);
+  const due = dueCards(inView);
+  const session = due.slice(0, DAILY_REVIEW_LIMIT);
+  const upcoming = [...inView].sort((a, b) => a.dueAt - b.dueAt);
+
+  const formatDue = (dueAt: number) => {
+    const days = daysUntil(dueAt);
+    if (days <= 0) return t('review.dueToday');
+    return days === 1 ? t('review.dueTomorrow') : t('review.dueIn', { count: days });
+  };
+
+  const handleRemove = (id: string) => {
+    if (window.confirm(t('review.confirmRemove'))) {
+      onRemove(id);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 p-6 md:p-12">
+      <div className="max-w-5xl mx-auto space-y-8">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <Repeat className="text-violet-600" />
+              {t('review.title')}
+            </h1>
+            <p className="text-sm text-gray-500 mt-1">{t('review.detail')}</p>
+          </div>
+          <select
+            value={subjectFilter}
+            onChange={(e) => setSubjectFilter(e.target.value as Subject | 'ALL')}
+            className="p-2.5 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-violet-500 focus:border-violet-500 outline-none text-sm"
+          >
+            <option value="ALL">{t('common.allSubjects')}</option>
+            {Object.values(Subject).map((s) => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Due for Review */}
+        <div className="bg-gradient-to-r from-violet-600 to-indigo-600 rounded-2xl shadow-xl p-8 text-white flex flex-col md:flex-row items-center justify-between gap-6">
+          <div>
+            <div className="text-sm uppercase tracking-wide font-semibold opacity-80 flex items-center gap-2">
+              <CalendarClock size={16} /> {t('review.due')}
+            </div>
+            <div className="text-4xl font-bold mt-2">{due.length} <span className="text-lg font-medium opacity-80">{t('common.questionWord', { count: due.length })}</span></div>
+            <p className="text-sm opacity-80 mt-1">
+              {due.length > DAILY_REVIEW_LIMIT
+                ? t('review.sessionLimit', { count: DAILY_REVIEW_LIMIT })
+                : t('review.cardsInDeck', { count: inView.length })}
+            </p>
+          </div>
+          <button
+            onClick={() => onStartReview(session)}
+            disabled={session.length === 0}
+            className="flex items-center gap-2 bg-white text-violet-700 px-6 py-3 rounded-xl font-bold shadow-lg hover:bg-violet-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {session.length > 0 ? <PlayCircle size={20} /> : <CheckCircle2 size={20} />}
+            {session.length > 0 ? t('review.start', { count: session.length }) : t('review.caughtUp')}
+          </button>
+        </div>
+
+        {upcoming.length === 0 ? (
+          <div className="text-center py-16 text-gray-400 bg-white rounded-2xl border border-gray-100">
+            <Layers size={48} className="mx-auto mb-3 opacity-20" />
+            <p className="text-sm">{t('review.empty')}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {upcoming.map((card) => (
+              <div key={card.id} className="bg-white rounded-xl border border-gray-200 p-5 flex items-center gap-5">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-800 line-clamp-2">{card.question.text}</p>
+                  <div className="flex flex-wrap gap-2 text-xs text-gray-500 mt-2">
+                    <span className="bg-gray-100 px-2 py-0.5 rounded">{card.subject}</span>
+                    {card.question.chapter && <span className="bg-gray-100 px-2 py-0.5 rounded">{card.question.chapter}</span>}
+                    <span>{t('review.interval', { days: card.intervalDays })}</span>
+                    {card.lapses > 0 && <span className="text-red-500">{t('review.missed', { count: card.lapses })}</span>}
+                  </div>
+                </div>
+                <div className={`text-sm font-semibold whitespace-nowrap ${due.includes(card) ? 'text-violet-700' : 'text-gray-500'}`}>
+                  {formatDue(card.dueAt)}
+                </div>
+                <button
+                  onClick={() => handleRemove(card.id)}
+                  className="text-gray-300 hover:text-red-500 p-2 transition-colors rounded-full hover:bg-red-50"
+                  title={t('review.remove')}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewScreen;
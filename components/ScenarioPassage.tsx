@@ -0,0 +1,45 @@
+import React from 'react';
+import { BilingualView, Language, Scenario } from '../types';
+import { translate } from '../services/i18n';
+import BilingualText from './BilingualText';
+import { FileText } from 'lucide-react';
+
+interface ScenarioPassageProps {
+  scenario: Scenario;
+  questionRange?: string; // e.g. "Questions 6–10"
+  view?: BilingualView; // Defaults to side by side when the scenario has an English original
+}
+
+const ScenarioPassage: React.FC<ScenarioPassageProps> = ({ scenario, questionRange, view = 'side-by-side' }) => (
+  <div className="bg-indigo-50/60 border border-indigo-100 rounded-xl p-5">
+    <div className="flex items-center justify-between gap-3 mb-3">
+      <h3 className="font-bold text-indigo-900 flex items-center gap-2">
+        <FileText size={18} className="text-indigo-500" />
+        {scenario.title}
+        {scenario.english && view === 'side-by-side' && (
+          <span lang="en" className="font-medium text-indigo-700/70">· {scenario.english.title}</span>
+        )}
+      </h3>
+      {questionRange && (
+        <span className="text-[10px] uppercase font-bold tracking-wide text-indigo-600 bg-white px-2 py-0.5 rounded border border-indigo-100 whitespace-nowrap">
+          {questionRange}
+        </span>
+      )}
+    </div>
+    <p className="text-sm text-gray-700 leading-relaxed whitespace-pre-line">
+      <BilingualText text={scenario.passage} english={scenario.english?.passage} view={view} />
+    </p>
+  </div>
+);
+
+/** Describes the 1-based question numbers that belong to a scenario, e.g. "Questions 6–10". */
+export const scenarioQuestionRange = (questions: { scenarioId?: string }[], scenarioId: string, language: Language) => {
+  const first = questions.findIndex((q) => q.scenarioId === scenarioId);
+  let last = first;
+  while (questions[last + 1]?.scenarioId === scenarioId) last++;
+  return first === last
+    ? translate(language, 'common.questionNumber', { number: first + 1 })
+    : translate(language, 'scenario.questionRange', { first: first + 1, last: last + 1 });
+};
+
+export default ScenarioPassage;
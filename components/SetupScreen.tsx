@@ -1,30 +1,131 @@
-import React, { useState } from 'react';
-import { ExamConfig, DifficultyLevel, Subject, Language } from '../types';
-import { BookOpen, GraduationCap, Clock, CheckCircle2 } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { BankQuestion, ExamConfig, DifficultyLevel, Language, QuestionKind, QuestionSource } from '../types';
+import { MARKING_SCHEMES, DEFAULT_MARKING_SCHEME } from '../services/marking';
+import { planQuestionMix, QUESTIONS_PER_SCENARIO } from '../services/gemini';
+import { papersFor } from '../services/syllabus';
+import { bankQuestionsFor } from '../services/questionBank';
+import { cachedQuestionCount } from '../services/questionCache';
+import { blueprintFor, blueprintQuestionCount, blueprintTotalMarks, FULL_PAPER_MINUTES } from '../services/paperBlueprint';
+import { LANGUAGES } from '../services/languages';
+import { MessageKey } from '../services/i18n';
+import SyllabusPicker, { SyllabusSelection } from './SyllabusPicker';
+import { useTranslation } from './LanguageContext';
+import { BookOpen, GraduationCap, Clock, CheckCircle2, ListChecks, PenLine, Calculator, FileText, SlidersHorizontal, ScrollText, Sparkles, Database, Shuffle, Zap, Languages } from 'lucide-react';
+
+// Minutes allowed per question of each kind (descriptive: ~1.8 minutes per mark, ICAI norm)
+const MINUTES_PER_QUESTION: Record<QuestionKind, number> = {
+  mcq: 1.5,
+  numeric: 3,
+  descriptive: 9,
+};
+
+// Extra minutes to read each case scenario's passage; its questions are timed as MCQs
+const MINUTES_PER_SCENARIO_PASSAGE = 3;
+
+const QUESTION_KIND_OPTIONS: { kind: QuestionKind; label: MessageKey; icon: React.ReactNode }[] = [
+  { kind: 'mcq', label: 'kind.mcq', icon: <ListChecks size={16} /> },
+  { kind: 'numeric', label: 'kind.numeric', icon: <Calculator size={16} /> },
+  { kind: 'descriptive', label: 'kind.descriptive', icon: <PenLine size={16} /> },
+];
+
+const QUESTION_SOURCE_OPTIONS: { source: QuestionSource; label: MessageKey; icon: React.ReactNode }[] = [
+  { source: 'ai', label: 'source.ai', icon: <Sparkles size={16} /> },
+  { source: 'mixed', label: 'source.mixed', icon: <Shuffle size={16} /> },
+  { source: 'bank', label: 'source.bank', icon: <Database size={16} /> },
+];
 
 interface SetupScreenProps {
   onStartExam: (config: ExamConfig) => void;
   isLoading: boolean;
   language: Language;
+  defaultLevel: DifficultyLevel; // The profile's level, preselected
+  bank: BankQuestion[];
+  onPregenerate: (config: ExamConfig) => void;
+  isPregenerating: boolean;
+  bilingual: boolean; // The profile's choice, kept across exams
+  onBilingualChange: (bilingual: boolean) => void;
 }
 
-const SetupScreen: React.FC<SetupScreenProps> = ({ onStartExam, isLoading, language }) => {
-  const [subject, setSubject] = useState<Subject>(Subject.ACCOUNTING);
-  const [level, setLevel] = useState<DifficultyLevel>(DifficultyLevel.FOUNDATION);
+const SetupScreen: React.FC<SetupScreenProps> = ({ onStartExam, isLoading, language, defaultLevel, bank, onPregenerate, isPregenerating, bilingual, onBilingualChange }) => {
+  const { t } = useTranslation();
+  const [format, setFormat] = useState<ExamConfig['format']>('custom');
+  const [level, setLevel] = useState<DifficultyLevel>(defaultLevel);
+  const [selection, setSelection] = useState<SyllabusSelection>({ paperId: papersFor(defaultLevel)[0].id });
+  const paper = papersFor(level).find((p) => p.id === selection.paperId) ?? papersFor(level)[0];
   const [questionCount, setQuestionCount] = useState<number>(10);
+  const [schemeId, setSchemeId] = useState<string>(DEFAULT_MARKING_SCHEME.id);
+  const [questionKinds, setQuestionKinds] = useState<QuestionKind[]>(['mcq']);
+  const [scenarioCount, setScenarioCount] = useState<number>(0);
+  const [questionSource, setQuestionSource] = useState<QuestionSource>('ai');
+  const bankMatches = bankQuestionsFor(bank, { subject: paper.subject, level, language, paperId: paper.id, questionKinds }).length;
+  const isBankOnly = questionSource === 'bank';
+  // Re-read after a background pre-generation finishes
+  const cachedCount = useMemo(
+    () => cachedQuestionCount({ subject: paper.subject, level, paperId: paper.id, chapterId: selection.chapterId, topic: selection.unit, language, bilingual }),
+    [paper.subject, level, paper.id, selection.chapterId, selection.unit, language, bilingual, isPregenerating]
+  );
+  const markingScheme = MARKING_SCHEMES.find((m) => m.id === schemeId) ?? DEFAULT_MARKING_SCHEME;
+  const maxScenarios = Math.floor(questionCount / QUESTIONS_PER_SCENARIO);
+  const scenarios = isBankOnly ? 0 : Math.min(scenarioCount, maxScenarios); // A bank-only exam uses the bank's own case passages
+  const scenarioQuestions = scenarios * QUESTIONS_PER_SCENARIO;
+  // Estimate time per question kind for a realistic simulation
+  const durationMinutes = Math.ceil(planQuestionMix(questionCount - scenarioQuestions, questionKinds)
+    .reduce((sum, [kind, count]) => sum + count * MINUTES_PER_QUESTION[kind], 0)
+    + scenarioQuestions * MINUTES_PER_QUESTION.mcq + scenarios * MINUTES_PER_SCENARIO_PASSAGE);
 
-  const handleStart = () => {
-    // Estimate 1.5 minutes per question for a realistic simulation
-    const durationMinutes = Math.ceil(questionCount * 1.5);
-    onStartExam({ 
-      subject, 
-      level, 
-      questionCount, 
-      durationMinutes,
-      language // Pass the current language preference
+  const blueprint = blueprintFor(level, paper.id);
+  const isFullPaper = format === 'full-paper';
+  const canStart = isFullPaper || !isBankOnly || bankMatches > 0;
+
+  const toggleKind = (kind: QuestionKind) => {
+    setQuestionKinds((prev) => {
+      if (!prev.includes(kind)) return [...prev, kind];
+      return prev.length > 1 ? prev.filter((k) => k !== kind) : prev;
     });
   };
 
+  const handleLevelChange = (l: DifficultyLevel) => {
+    setLevel(l);
+    setSelection({ paperId: papersFor(l)[0].id });
+  };
+
+  const customConfig = (): ExamConfig => ({
+    subject: paper.subject, 
+    level, 
+    paperId: paper.id,
+    chapterId: selection.chapterId,
+    topic: selection.unit,
+    questionCount, 
+    durationMinutes,
+    language, // Pass the current language preference
+    markingScheme,
+    questionKinds,
+    scenarioCount: scenarios,
+    format: 'custom',
+    questionSource,
+    bilingual,
+  });
+
+  const handleStart = () => {
+    if (isFullPaper) {
+      // The blueprint fixes the question mix, marks and duration; the whole paper is examined
+      onStartExam({
+        subject: paper.subject,
+        level,
+        paperId: paper.id,
+        questionCount: blueprintQuestionCount(blueprint),
+        durationMinutes: FULL_PAPER_MINUTES,
+        language,
+        markingScheme: MARKING_SCHEMES.find((m) => m.id === blueprint.markingSchemeId) ?? DEFAULT_MARKING_SCHEME,
+        questionKinds: [...new Set(blueprint.sections.map((s) => s.kind))],
+        format: 'full-paper',
+        bilingual,
+      });
+      return;
+    }
+    onStartExam(customConfig());
+  };
+
   return (
     <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
       <div className="max-w-4xl w-full bg-white rounded-2xl shadow-xl overflow-hidden flex flex-col md:flex-row">
@@ -36,27 +137,26 @@ const SetupScreen: React.FC<SetupScreenProps> = ({ onStartExam, isLoading, langu
               <h1 className="text-2xl font-bold tracking-tight">CA Guide</h1>
             </div>
             <p className="text-ca-100 mb-8 leading-relaxed">
-              Master your Chartered Accountancy exams with our AI-powered simulation engine. 
-              Practice with high-quality, scenario-based questions tailored to your level.
+              {t('setup.tagline')}
             </p>
             
             <div className="space-y-4">
               <div className="flex items-center gap-3">
                 <CheckCircle2 className="text-ca-400" size={20} />
-                <span className="text-sm font-medium text-ca-50">Real-time Performance Analysis</span>
+                <span className="text-sm font-medium text-ca-50">{t('setup.featureAnalysis')}</span>
               </div>
               <div className="flex items-center gap-3">
                 <CheckCircle2 className="text-ca-400" size={20} />
-                <span className="text-sm font-medium text-ca-50">Detailed Explanations</span>
+                <span className="text-sm font-medium text-ca-50">{t('setup.featureExplanations')}</span>
               </div>
               <div className="flex items-center gap-3">
                 <CheckCircle2 className="text-ca-400" size={20} />
-                <span className="text-sm font-medium text-ca-50">Customizable Difficulty</span>
+                <span className="text-sm font-medium text-ca-50">{t('setup.featureDifficulty')}</span>
               </div>
             </div>
             
             <div className="mt-8 pt-6 border-t border-ca-800 text-xs text-ca-300">
-              Current Language: <span className="text-white font-medium">{language}</span>
+              {t('setup.currentLanguage')}: <span className="text-white font-medium">{LANGUAGES[language].nativeName}</span>
             </div>
           </div>
           
@@ -66,16 +166,39 @@ const SetupScreen: React.FC<SetupScreenProps> = ({ onStartExam, isLoading, langu
 
         {/* Right Side: Form */}
         <div className="md:w-7/12 p-8 md:p-12">
-          <h2 className="text-2xl font-bold text-gray-800 mb-6">Configure Examination</h2>
+          <h2 className="text-2xl font-bold text-gray-800 mb-6">{t('setup.title')}</h2>
           
           <div className="space-y-6">
             <div>
-              <label className="block text-sm font-semibold text-gray-700 mb-2">Difficulty Level</label>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">{t('setup.format')}</label>
+              <div className="grid grid-cols-2 gap-3">
+                {([
+                  { id: 'custom', label: 'setup.customExam', icon: <SlidersHorizontal size={16} /> },
+                  { id: 'full-paper', label: 'setup.fullPaper', icon: <ScrollText size={16} /> },
+                ] as const).map(({ id, label, icon }) => (
+                  <button
+                    key={id}
+                    onClick={() => setFormat(id)}
+                    className={`flex items-center justify-center gap-2 p-3 rounded-lg border-2 text-sm font-medium transition-all ${
+                      format === id
+                        ? 'border-ca-600 bg-ca-50 text-ca-700'
+                        : 'border-gray-200 hover:border-ca-300 text-gray-600'
+                    }`}
+                  >
+                    {icon}
+                    {t(label)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">{t('setup.level')}</label>
               <div className="grid grid-cols-3 gap-3">
                 {Object.values(DifficultyLevel).map((l) => (
                   <button
                     key={l}
-                    onClick={() => setLevel(l)}
+                    onClick={() => handleLevelChange(l)}
                     className={`flex flex-col items-center justify-center p-3 rounded-lg border-2 transition-all ${
                       level === l 
                         ? 'border-ca-600 bg-ca-50 text-ca-700' 
@@ -83,50 +206,194 @@ const SetupScreen: React.FC<SetupScreenProps> = ({ onStartExam, isLoading, langu
                     }`}
                   >
                     <GraduationCap size={20} className={`mb-1 ${level === l ? 'text-ca-600' : 'text-gray-400'}`} />
-                    <span className="text-xs font-medium">{l}</span>
+                    <span className="text-xs font-medium">{t(`level.${l}`)}</span>
                   </button>
                 ))}
               </div>
             </div>
 
-            <div>
-              <label className="block text-sm font-semibold text-gray-700 mb-2">Subject</label>
-              <select
-                value={subject}
-                onChange={(e) => setSubject(e.target.value as Subject)}
-                className="w-full p-3 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-ca-500 focus:border-ca-500 outline-none transition-shadow"
-              >
-                {Object.values(Subject).map((s) => (
-                  <option key={s} value={s}>{s}</option>
-                ))}
-              </select>
-            </div>
+            <SyllabusPicker
+              level={level}
+              value={selection}
+              onChange={setSelection}
+              wholePaperLabel={t('setup.wholePaper')}
+              paperOnly={isFullPaper}
+            />
 
-            <div>
-              <label className="block text-sm font-semibold text-gray-700 mb-2">Number of Questions</label>
-              <div className="flex items-center gap-4">
+            {isFullPaper ? (
+              <div className="rounded-xl border border-gray-200 bg-gray-50 p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <span className="text-sm font-semibold text-gray-700">{t('setup.paperPattern')}</span>
+                  <span className="text-xs font-semibold text-gray-600 flex items-center gap-1">
+                    <Clock size={12} />
+                    {t('setup.paperLength', { hours: FULL_PAPER_MINUTES / 60, marks: blueprintTotalMarks(blueprint) })}
+                  </span>
+                </div>
+                <ul className="space-y-2">
+                  {blueprint.sections.map((s) => (
+                    <li key={s.id} className="text-xs text-gray-600">
+                      <span className="font-semibold text-gray-800">{t(s.title, s.titleParams)}</span>
+                      {' · '}
+                      {s.attemptCount ? t('common.anyOf', { attempt: s.attemptCount, total: s.questionCount }) : t('common.questions', { count: s.questionCount })}
+                      {' × '}{t('common.marks', { count: s.marksPerQuestion })}
+                    </li>
+                  ))}
+                </ul>
+                <div className="mt-3 text-xs text-gray-500">
+                  {t('setup.passMark', { percent: MARKING_SCHEMES.find((m) => m.id === blueprint.markingSchemeId)?.passPercentage[level] })}
+                </div>
+              </div>
+            ) : (
+              <>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('setup.source')}</label>
+                  <div className="grid grid-cols-3 gap-3">
+                    {QUESTION_SOURCE_OPTIONS.map(({ source, label, icon }) => (
+                      <button
+                        key={source}
+                        onClick={() => setQuestionSource(source)}
+                        className={`flex items-center justify-center gap-2 p-3 rounded-lg border-2 text-sm font-medium transition-all ${
+                          questionSource === source
+                            ? 'border-ca-600 bg-ca-50 text-ca-700'
+                            : 'border-gray-200 hover:border-ca-300 text-gray-600'
+                        }`}
+                      >
+                        {icon}
+                        {t(label)}
+                      </button>
+                    ))}
+                  </div>
+                  {questionSource !== 'ai' && (
+                    <div className={`mt-2 text-xs ${bankMatches === 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                      {t('setup.bankMatches', { count: bankMatches })}
+                      {isBankOnly && bankMatches > 0 && bankMatches < questionCount && t('setup.bankOnlyCount', { count: bankMatches })}
+                      {questionSource === 'mixed' && t('setup.bankMixed')}
+                    </div>
+                  )}
+                </div>
+
+
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('setup.kinds')}</label>
+                  <div className="grid grid-cols-3 gap-3">
+                    {QUESTION_KIND_OPTIONS.map(({ kind, label, icon }) => (
+                      <button
+                        key={kind}
+                        onClick={() => toggleKind(kind)}
+                        className={`flex items-center justify-center gap-2 p-3 rounded-lg border-2 text-sm font-medium transition-all ${
+                          questionKinds.includes(kind)
+                            ? 'border-ca-600 bg-ca-50 text-ca-700'
+                            : 'border-gray-200 hover:border-ca-300 text-gray-600'
+                        }`}
+                      >
+                        {icon}
+                        {t(label)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('setup.scheme')}</label>
+                  <select
+                    value={schemeId}
+                    onChange={(e) => setSchemeId(e.target.value)}
+                    className="w-full p-3 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-ca-500 focus:border-ca-500 outline-none transition-shadow"
+                  >
+                    {MARKING_SCHEMES.map((m) => (
+                      <option key={m.id} value={m.id}>{m.name}</option>
+                    ))}
+                  </select>
+                  <div className="mt-2 text-xs text-gray-500">
+                    {t('setup.passMarkAtLevel', { level: t(`level.${level}`), percent: markingScheme.passPercentage[level] })}
+                    {markingScheme.negativeMarks > 0 && t('setup.negativeMarks', { marks: markingScheme.negativeMarks })}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('setup.questionCount')}</label>
+                  <div className="flex items-center gap-4">
+                    <input
+                      type="range"
+                      min="5"
+                      max="50"
+                      step="5"
+                      value={questionCount}
+                      onChange={(e) => setQuestionCount(parseInt(e.target.value))}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-ca-600"
+                    />
+                    <span className="w-12 text-center font-bold text-ca-700">{questionCount}</span>
+                  </div>
+                  <div className="mt-2 flex items-center text-xs text-gray-500 gap-1">
+                    <Clock size={12} />
+                    <span>{t('setup.estimatedTime', { minutes: durationMinutes })}</span>
+                  </div>
+                </div>
+
+                {!isBankOnly && (
+                  <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-gray-50 border border-gray-200">
+                    <div className="flex items-center gap-2 text-xs text-gray-600">
+                      <Zap size={14} className={cachedCount > 0 ? 'text-amber-500' : 'text-gray-400'} />
+                      {cachedCount > 0 ? t('setup.cachedReady', { count: cachedCount }) : t('setup.noCached')}
+                    </div>
+                    <button
+                      onClick={() => onPregenerate(customConfig())}
+                      disabled={isPregenerating}
+                      className="text-xs font-semibold text-ca-700 hover:text-ca-800 disabled:text-gray-400 whitespace-nowrap"
+                    >
+                      {isPregenerating ? t('setup.preparing') : t('setup.pregenerate')}
+                    </button>
+                  </div>
+                )}
+
+                {!isBankOnly && (
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2 flex items-center gap-2">
+                      <FileText size={16} className="text-gray-400" />
+                      {t('setup.scenarios')}
+                    </label>
+                    <select
+                      value={scenarios}
+                      onChange={(e) => setScenarioCount(parseInt(e.target.value))}
+                      className="w-full p-3 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-ca-500 focus:border-ca-500 outline-none transition-shadow"
+                    >
+                      {Array.from({ length: maxScenarios + 1 }, (_, n) => (
+                        <option key={n} value={n}>
+                          {n === 0 ? t('setup.noScenarios') : t('setup.scenarioOption', { count: n, questions: n * QUESTIONS_PER_SCENARIO })}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="mt-2 text-xs text-gray-500">
+                      {t('setup.scenarioHint', { count: QUESTIONS_PER_SCENARIO })}
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+
+            {language !== Language.ENGLISH && (
+              <label className="flex items-start gap-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:border-ca-300">
                 <input
-                  type="range"
-                  min="5"
-                  max="50"
-                  step="5"
-                  value={questionCount}
-                  onChange={(e) => setQuestionCount(parseInt(e.target.value))}
-                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-ca-600"
+                  type="checkbox"
+                  checked={bilingual}
+                  onChange={(e) => onBilingualChange(e.target.checked)}
+                  className="mt-0.5 rounded text-ca-600 focus:ring-ca-500"
                 />
-                <span className="w-12 text-center font-bold text-ca-700">{questionCount}</span>
-              </div>
-              <div className="mt-2 flex items-center text-xs text-gray-500 gap-1">
-                <Clock size={12} />
-                <span>Estimated time: {Math.ceil(questionCount * 1.5)} minutes</span>
-              </div>
-            </div>
+                <span>
+                  <span className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+                    <Languages size={16} className="text-gray-400" />
+                    {t('setup.bilingual', { language: LANGUAGES[language].nativeName })}
+                  </span>
+                  <span className="block mt-1 text-xs text-gray-500">{t('setup.bilingualHint')}</span>
+                </span>
+              </label>
+            )}
 
             <button
               onClick={handleStart}
-              disabled={isLoading}
+              disabled={isLoading || !canStart}
               className={`w-full py-4 px-6 rounded-xl font-bold text-white shadow-lg transition-all transform hover:scale-[1.02] active:scale-[0.98] ${
-                isLoading 
+                isLoading || !canStart
                   ? 'bg-gray-400 cursor-not-allowed' 
                   : 'bg-gradient-to-r from-ca-600 to-ca-500 hover:shadow-ca-500/25'
               }`}
@@ -137,10 +404,10 @@ const SetupScreen: React.FC<SetupScreenProps> = ({ onStartExam, isLoading, langu
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                   </svg>
-                  Generating Exam ({language})...
+                  {t('setup.generating', { language: LANGUAGES[language].nativeName })}
                 </span>
               ) : (
-                `Start Examination (${language})`
+                t('setup.start', { language: LANGUAGES[language].nativeName })
               )}
             </button>
           </div>
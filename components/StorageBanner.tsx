@@ -0,0 +1,39 @@
+import React, { useEffect, useState } from 'react';
+import { StorageIssue, storageUsage } from '../services/storage';
+import { useTranslation } from './LanguageContext';
+import { AlertTriangle, X } from 'lucide-react';
+
+interface StorageBannerProps {
+  issue: StorageIssue;
+  onDismiss: () => void;
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const StorageBanner: React.FC<StorageBannerProps> = ({ issue, onDismiss }) => {
+  const { t } = useTranslation();
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+
+  useEffect(() => {
+    if (issue.kind === 'quota') storageUsage().then(setUsage);
+  }, [issue]);
+
+  return (
+    <div className={`border-b px-4 py-3 ${issue.kind === 'quota' || issue.kind === 'failed' ? 'bg-red-50 border-red-200 text-red-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+      <div className="max-w-7xl mx-auto flex items-start gap-3 text-sm">
+        <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+        <div className="flex-1">
+          <p>{issue.message}</p>
+          {usage && (
+            <p className="text-xs mt-1 opacity-80">{t('storage.usage', { used: formatMegabytes(usage.usage), quota: formatMegabytes(usage.quota) })}</p>
+          )}
+        </div>
+        <button onClick={onDismiss} className="p-1 rounded hover:bg-black/5" title={t('common.dismiss')}>
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StorageBanner;
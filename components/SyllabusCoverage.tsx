@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { DifficultyLevel, ExamAttempt } from '../types';
+import { syllabusCoverage, paperLabel } from '../services/syllabus';
+import { useTranslation } from './LanguageContext';
+import { Map as MapIcon, ChevronDown, ChevronRight, CheckCircle2, Circle } from 'lucide-react';
+
+interface SyllabusCoverageProps {
+  attempts: ExamAttempt[];
+  level: DifficultyLevel;
+}
+
+const SyllabusCoverage: React.FC<SyllabusCoverageProps> = ({ attempts, level }) => {
+  const { t } = useTranslation();
+  const [openPaperId, setOpenPaperId] = useState<string | null>(null);
+  const coverage = syllabusCoverage(level, attempts);
+  const totalChapters = coverage.reduce((sum, c) => sum + c.paper.chapters.length, 0);
+  const coveredChapters = coverage.reduce((sum, c) => sum + c.covered.size, 0);
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+      <div className="p-5 border-b border-gray-100 flex items-center justify-between">
+        <h2 className="font-bold text-gray-800 flex items-center gap-2">
+          <MapIcon size={18} className="text-ca-600" />
+          {t('coverage.title', { level: t(`level.${level}`) })}
+        </h2>
+        <span className="text-sm font-semibold text-gray-600">
+          {t('coverage.practised', { covered: coveredChapters, total: totalChapters })}
+        </span>
+      </div>
+      <div className="divide-y divide-gray-100">
+        {coverage.map(({ paper, covered }) => {
+          const isOpen = openPaperId === paper.id;
+          const percent = Math.round((covered.size / paper.chapters.length) * 100);
+          return (
+            <div key={paper.id}>
+              <button
+                onClick={() => setOpenPaperId(isOpen ? null : paper.id)}
+                className="w-full px-5 py-3 flex items-center gap-4 hover:bg-gray-50 transition-colors text-left"
+              >
+                {isOpen ? <ChevronDown size={16} className="text-gray-400" /> : <ChevronRight size={16} className="text-gray-400" />}
+                <span className="w-1/2 text-sm font-medium text-gray-800 truncate">{paperLabel(paper)}</span>
+                <div className="flex-1 bg-gray-100 rounded-full h-2">
+                  <div className="bg-ca-500 h-2 rounded-full" style={{ width: `${percent}%` }}></div>
+                </div>
+                <span className="w-16 text-right text-xs font-semibold text-gray-600">{covered.size}/{paper.chapters.length}</span>
+              </button>
+              {isOpen && (
+                <ul className="px-12 pb-4 grid md:grid-cols-2 gap-x-6 gap-y-1.5">
+                  {paper.chapters.map((chapter) => (
+                    <li key={chapter.id} className={`flex items-start gap-2 text-xs ${covered.has(chapter.id) ? 'text-gray-800' : 'text-gray-400'}`}>
+                      {covered.has(chapter.id)
+                        ? <CheckCircle2 size={14} className="text-emerald-500 flex-shrink-0 mt-px" />
+                        : <Circle size={14} className="flex-shrink-0 mt-px" />}
+                      {chapter.name}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SyllabusCoverage;
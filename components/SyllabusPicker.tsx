@@ -0,0 +1,79 @@
+import React from 'react';
+import { DifficultyLevel } from '../types';
+import { papersFor, paperLabel } from '../services/syllabus';
+import { useTranslation } from './LanguageContext';
+
+export interface SyllabusSelection {
+  paperId: string;
+  chapterId?: string;
+  unit?: string;
+}
+
+interface SyllabusPickerProps {
+  level: DifficultyLevel;
+  value: SyllabusSelection;
+  onChange: (value: SyllabusSelection) => void;
+  wholePaperLabel?: string; // When set, the chapter may be left blank
+  paperOnly?: boolean; // Hides the chapter and unit pickers
+}
+
+const selectClass = "w-full p-3 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-ca-500 focus:border-ca-500 outline-none text-sm transition-shadow";
+
+// Cascading paper → chapter → unit pickers; only papers of the chosen level are offered.
+const SyllabusPicker: React.FC<SyllabusPickerProps> = ({ level, value, onChange, wholePaperLabel, paperOnly }) => {
+  const { t } = useTranslation();
+  const papers = papersFor(level);
+  const paper = papers.find((p) => p.id === value.paperId) ?? papers[0];
+  const chapter = paper.chapters.find((c) => c.id === value.chapterId);
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-2">{t('syllabus.paper')}</label>
+        <select
+          value={paper.id}
+          onChange={(e) => onChange({ paperId: e.target.value })}
+          className={selectClass}
+        >
+          {papers.map((p) => (
+            <option key={p.id} value={p.id}>{paperLabel(p)}</option>
+          ))}
+        </select>
+      </div>
+
+      {!paperOnly && (
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">{t('syllabus.chapter')}</label>
+          <select
+            value={chapter?.id ?? ''}
+            onChange={(e) => onChange({ paperId: paper.id, chapterId: e.target.value || undefined })}
+            className={selectClass}
+          >
+            <option value="" disabled={!wholePaperLabel}>{wholePaperLabel ?? t('syllabus.selectChapter')}</option>
+            {paper.chapters.map((c, idx) => (
+              <option key={c.id} value={c.id}>{idx + 1}. {c.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {!paperOnly && chapter && chapter.units.length > 0 && (
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">{t('syllabus.unit')}</label>
+          <select
+            value={value.unit ?? ''}
+            onChange={(e) => onChange({ ...value, paperId: paper.id, unit: e.target.value || undefined })}
+            className={selectClass}
+          >
+            <option value="">{t('syllabus.wholeChapter')}</option>
+            {chapter.units.map((u) => (
+              <option key={u} value={u}>{u}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyllabusPicker;
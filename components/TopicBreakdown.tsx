@@ -0,0 +1,81 @@
+import React from 'react';
+import { TopicResult, weakestTopics } from '../services/topicAnalysis';
+import { useTranslation } from './LanguageContext';
+import { Target, BookOpen, AlertTriangle } from 'lucide-react';
+
+interface TopicBreakdownProps {
+  results: TopicResult[];
+  onStudyTopic?: (topic: string) => void;
+}
+
+const barColor = (result: TopicResult) =>
+  result.isPass ? 'bg-emerald-500' : result.percentage >= result.passPercentage / 2 ? 'bg-amber-500' : 'bg-red-500';
+
+const TopicBreakdown: React.FC<TopicBreakdownProps> = ({ results, onStudyTopic }) => {
+  const { t } = useTranslation();
+  const weak = weakestTopics(results);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-6 border-b border-gray-100">
+        <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+          <Target className="text-ca-600" />
+          {t('topics.title')}
+        </h2>
+        <p className="text-sm text-gray-500 mt-1">{t('topics.detail')}</p>
+      </div>
+
+      {weak.length > 0 && (
+        <div className="p-6 bg-red-50/50 border-b border-red-100 space-y-3">
+          <div className="text-xs uppercase tracking-wide font-bold text-red-700 flex items-center gap-1">
+            <AlertTriangle size={12} /> {t('topics.weakest')}
+          </div>
+          {weak.map((topic) => (
+            <div key={topic.chapter} className="flex items-center justify-between gap-4 bg-white rounded-xl border border-red-100 p-4">
+              <div className="min-w-0">
+                <div className="font-bold text-gray-800">{topic.chapter} <span className="text-red-600 font-semibold">· {topic.percentage}%</span></div>
+                {topic.missedConcepts.length > 0 && (
+                  <div className="text-xs text-gray-500 mt-1 truncate">{t('topics.revise', { concepts: topic.missedConcepts.join(', ') })}</div>
+                )}
+              </div>
+              {onStudyTopic && (
+                <button
+                  onClick={() => onStudyTopic(topic.chapter)}
+                  className="flex-shrink-0 flex items-center gap-2 text-sm font-medium text-ca-700 bg-ca-50 hover:bg-ca-100 px-4 py-2 rounded-lg transition-colors"
+                >
+                  <BookOpen size={16} />
+                  {t('topics.study')}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="divide-y divide-gray-100">
+        {results.map((topic) => (
+          <div key={topic.chapter} className="px-6 py-4 flex items-center gap-4">
+            <div className="w-1/3 min-w-0">
+              <div className="font-medium text-gray-800 truncate">{topic.chapter}</div>
+              <div className="text-xs text-gray-500">
+                {t('topics.correct', { correct: topic.correct, total: topic.questionCount })}{topic.partial > 0 && `, ${t('results.partialCount', { count: topic.partial })}`}
+                {topic.skipped > 0 && ` · ${t('topics.skipped', { count: topic.skipped })}`}
+              </div>
+            </div>
+            <div className="flex-1 bg-gray-100 rounded-full h-2.5 relative">
+              <div className={`h-2.5 rounded-full ${barColor(topic)}`} style={{ width: `${Math.max(topic.percentage, 0)}%` }}></div>
+              {/* Pass mark tick */}
+              <div className="absolute -top-1 w-px h-4 bg-gray-400" style={{ left: `${topic.passPercentage}%` }}></div>
+            </div>
+            <div className="w-24 text-right text-sm font-semibold text-gray-700">
+              {topic.netMarks}/{topic.maxMarks}
+              <span className="text-xs text-gray-400 ml-1">({topic.percentage}%)</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TopicBreakdown;
@@ -0,0 +1,123 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Language, LearningStyle, Lesson, TutorMessage } from '../types';
+import { askTutorStream } from '../services/gemini';
+import { MessageKey } from '../services/i18n';
+import MarkdownContent from './MarkdownContent';
+import { useTranslation } from './LanguageContext';
+import { MessageCircleQuestion, Send, User, BrainCircuit } from 'lucide-react';
+
+interface TutorChatProps {
+  lesson: Lesson;
+  style: LearningStyle;
+  language: Language;
+  onChatChange: (chat: TutorMessage[]) => void;
+}
+
+const SUGGESTIONS: MessageKey[] = ['tutor.suggestionExample', 'tutor.suggestionFigures', 'tutor.suggestionExam'];
+
+const TutorChat: React.FC<TutorChatProps> = ({ lesson, style, language, onChatChange }) => {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState('');
+  const [reply, setReply] = useState<string | null>(null); // The tutor's answer while it streams
+  const endRef = useRef<HTMLDivElement>(null);
+  const chat = lesson.chat ?? [];
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [chat.length, reply]);
+
+  const ask = async (question: string) => {
+    if (!question.trim() || reply !== null) return;
+    const messages: TutorMessage[] = [...chat, { role: 'student', text: question.trim(), sentAt: Date.now() }];
+    onChatChange(messages);
+    setDraft('');
+    setReply('');
+
+    let text = '';
+    try {
+      for await (const chunk of askTutorStream(lesson, messages, style, language)) {
+        text += chunk;
+        setReply(text);
+      }
+      onChatChange([...messages, { role: 'tutor', text, sentAt: Date.now() }]);
+    } catch (error) {
+      console.error("Tutor reply failed", error);
+      // A partial answer is kept; the question stays so it can be asked again
+      if (text) onChatChange([...messages, { role: 'tutor', text, sentAt: Date.now() }]);
+      alert(t('common.connectionInterrupted'));
+    } finally {
+      setReply(null);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    ask(draft);
+  };
+
+  const renderMessage = (message: Pick<TutorMessage, 'role' | 'text'>, key: React.Key, isStreaming = false) => (
+    <div key={key} className={`flex gap-3 ${message.role === 'student' ? 'flex-row-reverse' : ''}`}>
+      <div className={`w-8 h-8 rounded-full flex-shrink-0 flex items-center justify-center ${message.role === 'student' ? 'bg-gray-100 text-gray-500' : 'bg-ca-100 text-ca-600'}`}>
+        {message.role === 'student' ? <User size={16} /> : <BrainCircuit size={16} />}
+      </div>
+      {message.role === 'student' ? (
+        <div className="bg-ca-600 text-white rounded-2xl rounded-tr-sm px-4 py-2.5 max-w-[80%] whitespace-pre-wrap text-sm">{message.text}</div>
+      ) : (
+        <div className="bg-gray-50 border border-gray-100 rounded-2xl rounded-tl-sm px-4 py-1 max-w-[85%] text-sm">
+          <MarkdownContent markdown={message.text} isStreaming={isStreaming} />
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <section className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 md:p-8">
+      <h3 className="text-xl font-bold text-gray-800 mb-1 flex items-center gap-2">
+        <MessageCircleQuestion className="text-ca-600" size={22} />
+        {t('tutor.title')}
+      </h3>
+      <p className="text-sm text-gray-500 mb-6">{t('tutor.detail')}</p>
+
+      {chat.length === 0 && reply === null ? (
+        <div className="flex flex-wrap gap-2 mb-6">
+          {SUGGESTIONS.map((key) => t(key)).map((s) => (
+            <button
+              key={s}
+              onClick={() => ask(s)}
+              className="text-xs bg-ca-50 text-ca-700 border border-ca-100 px-3 py-1.5 rounded-full hover:bg-ca-100 transition-colors"
+            >
+              {s}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-4 mb-6 max-h-[32rem] overflow-y-auto pr-1">
+          {chat.map((m, idx) => renderMessage(m, idx))}
+          {reply !== null && renderMessage({ role: 'tutor', text: reply }, 'reply', true)}
+          <div ref={endRef} />
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={t('tutor.placeholder')}
+          disabled={reply !== null}
+          className="flex-1 p-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-ca-500 focus:border-ca-500 outline-none text-sm disabled:bg-gray-50"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim() || reply !== null}
+          className="bg-ca-600 text-white px-4 rounded-lg hover:bg-ca-700 transition-colors disabled:opacity-50"
+          title={t('tutor.send')}
+        >
+          <Send size={18} />
+        </button>
+      </form>
+    </section>
+  );
+};
+
+export default TutorChat;
@@ -0,0 +1,75 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DifficultyLevel, Language, Note } from '../types';
+import { BACKUP_FILE_FORMAT, createBackup, parseBackup, restoreBackup } from './backup';
+import { SCHEMA_VERSION, initStorage, read, write } from './storage';
+
+const note = (id: string, lastModified: number, title = id): Note => ({ id, title, content: '', lastModified });
+
+const backupFile = (data: Record<string, unknown>, version = SCHEMA_VERSION) =>
+  JSON.stringify({ format: BACKUP_FILE_FORMAT, version, exportedAt: 1, data });
+
+beforeAll(async () => {
+  // Without IndexedDB the store falls back to localStorage
+  const stored = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => stored.set(key, value),
+    removeItem: (key: string) => stored.delete(key),
+  });
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  await initStorage();
+});
+
+beforeEach(() => {
+  write('notes', []);
+  write('settings', { language: Language.ENGLISH, level: DifficultyLevel.FOUNDATION });
+});
+
+describe('parseBackup', () => {
+  it('rejects files that are not a usable backup', () => {
+    expect(() => parseBackup('not json')).toThrow('The file is not valid JSON.');
+    expect(() => parseBackup(JSON.stringify({ format: 'other' }))).toThrow('The file is not a CA Guide backup.');
+    expect(() => parseBackup(backupFile({}, SCHEMA_VERSION + 1))).toThrow(/newer version/);
+    expect(() => parseBackup(backupFile({ notes: {} }))).toThrow('"notes" in the backup is not a list.');
+  });
+
+  it('skips records without an id or of the wrong shape', () => {
+    const { archive, skipped } = parseBackup(backupFile({
+      notes: [note('n1', 5), { title: 'No id', content: '', lastModified: 1 }, { id: 'n3', title: 7, content: '', lastModified: 1 }],
+    }));
+    expect(archive.data.notes.map((n) => n.id)).toEqual(['n1']);
+    expect(skipped).toBe(2);
+  });
+
+  it('keeps this device\'s settings for values it does not know', () => {
+    write('settings', { language: Language.HINDI, level: DifficultyLevel.FINAL });
+    const { archive, skipped } = parseBackup(backupFile({ settings: { language: 'Klingon', level: DifficultyLevel.INTERMEDIATE, bilingual: true } }));
+    expect(archive.data.settings).toEqual({ language: Language.HINDI, level: DifficultyLevel.INTERMEDIATE, bilingual: true });
+    expect(skipped).toBe(1);
+  });
+});
+
+describe('restoreBackup', () => {
+  it('merges by id, taking the newer copy', () => {
+    write('notes', [note('n1', 10, 'Local'), note('n2', 20, 'Local newer')]);
+    const { archive } = parseBackup(backupFile({ notes: [note('n1', 30, 'Archive newer'), note('n2', 5, 'Archive older'), note('n3', 1)] }));
+    const counts = restoreBackup(archive, 'merge');
+    expect(counts.notes).toEqual({ added: 1, updated: 1, kept: 1 });
+    expect(read('notes').map((n) => n.title)).toEqual(['Archive newer', 'Local newer', 'n3']);
+  });
+
+  it('replaces this device\'s data and settings', () => {
+    write('notes', [note('n1', 10)]);
+    const { archive } = parseBackup(backupFile({ notes: [note('n9', 1)], settings: { language: Language.TAMIL, level: DifficultyLevel.FINAL } }));
+    restoreBackup(archive, 'replace');
+    expect(read('notes').map((n) => n.id)).toEqual(['n9']);
+    expect(read('settings')).toMatchObject({ language: Language.TAMIL, level: DifficultyLevel.FINAL });
+  });
+
+  it('round-trips its own backup', () => {
+    write('notes', [note('n1', 10)]);
+    const { archive, skipped } = parseBackup(JSON.stringify(createBackup()));
+    expect(skipped).toBe(0);
+    expect(restoreBackup(archive, 'merge').notes).toEqual({ added: 0, updated: 0, kept: 1 });
+  });
+});
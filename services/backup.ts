@@ -0,0 +1,198 @@
+import { AppSettings, BankQuestion, DifficultyLevel, ExamAttempt, Language, Lesson, Note, ReviewCard, Subject } from '../types';
+import { MessageKey } from './i18n';
+import { Collections, SCHEMA_VERSION, SavedCollections, read, upgradeCollections, write } from './storage';
+
+export const BACKUP_FILE_FORMAT = 'ca-guide-backup';
+
+// What a student builds up. The question cache and an unfinished exam are left out.
+export type BackedUpCollection = 'lessons' | 'notes' | 'attempts' | 'questionBank' | 'reviewDeck' | 'settings';
+type BackedUpList = Exclude<BackedUpCollection, 'settings'>;
+
+export interface BackupArchive {
+  format: typeof BACKUP_FILE_FORMAT;
+  version: number; // The schema version the data was saved under
+  exportedAt: number;
+  data: Pick<Collections, BackedUpCollection>;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreCounts {
+  added: number;
+  updated: number; // Merge only: the archive's copy was newer
+  kept: number; // Merge only: this device's copy was the same age or newer
+}
+
+export type RestoreResult = Record<BackedUpList, RestoreCounts>;
+
+interface Identified {
+  id: string;
+}
+
+// How records of each list are matched up: a newer copy wins, and lists keep their usual order
+interface MergeRule<T extends Identified> {
+  modifiedAt: (record: T) => number;
+  orderKey: (record: T) => number; // Ascending
+}
+
+const MERGE_RULES: { [K in BackedUpList]: MergeRule<Collections[K][number]> } = {
+  lessons: { modifiedAt: (l: Lesson) => l.lastModified, orderKey: (l: Lesson) => -l.lastModified },
+  notes: { modifiedAt: (n: Note) => n.lastModified, orderKey: (n: Note) => -n.lastModified },
+  attempts: { modifiedAt: (a: ExamAttempt) => a.finishedAt, orderKey: (a: ExamAttempt) => -a.startedAt },
+  questionBank: { modifiedAt: (b: BankQuestion) => b.addedAt, orderKey: (b: BankQuestion) => b.addedAt },
+  reviewDeck: { modifiedAt: (c: ReviewCard) => c.lastReviewedAt ?? c.addedAt, orderKey: (c: ReviewCard) => c.addedAt },
+};
+
+const LISTS = Object.keys(MERGE_RULES) as BackedUpList[];
+
+export const LIST_LABELS: Record<BackedUpList, MessageKey> = {
+  lessons: 'backup.list.lessons',
+  notes: 'backup.list.notes',
+  attempts: 'backup.list.attempts',
+  questionBank: 'backup.list.questionBank',
+  reviewDeck: 'backup.list.reviewDeck',
+};
+
+export const createBackup = (): BackupArchive => ({
+  format: BACKUP_FILE_FORMAT,
+  version: SCHEMA_VERSION,
+  exportedAt: Date.now(),
+  data: {
+    lessons: read('lessons'),
+    notes: read('notes'),
+    attempts: read('attempts'),
+    questionBank: read('questionBank'),
+    reviewDeck: read('reviewDeck'),
+    settings: read('settings'),
+  },
+});
+
+export const backupFileName = (archive: BackupArchive) =>
+  `ca-guide-backup-${new Date(archive.exportedAt).toISOString().slice(0, 10)}.json`;
+
+const isIdentified = (record: unknown): record is Identified =>
+  !!record && typeof record === 'object' && typeof (record as Identified).id === 'string' && (record as Identified).id !== '';
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => !!value && typeof value === 'object' && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOneOf = (values: Record<string, string>, value: unknown) => Object.values(values).includes(value as string);
+const isListOf = (value: unknown, check: (item: unknown) => boolean) => Array.isArray(value) && value.every(check);
+
+// Enough of a question for the screens that show it: its text and the answer key of its kind
+const isQuestion = (value: unknown) => {
+  if (!isObject(value) || !isString(value.text)) return false;
+  switch (value.kind) {
+    case 'numeric': return isNumber(value.correctValue);
+    case 'descriptive': return isString(value.modelAnswer) && isListOf(value.rubric, (r) => isObject(r) && isNumber(r.marks));
+    default: return isListOf(value.options, isString) && isNumber(value.correctOptionIndex);
+  }
+};
+
+const isScenario = (value: unknown) => value === undefined || (isObject(value) && isString(value.id) && isString(value.passage));
+
+// What each list's records need so the app can show them; records failing a check are skipped
+const RECORD_CHECKS: Record<BackedUpList, (record: Fields) => boolean> = {
+  lessons: (l) => isString(l.topic) && isString(l.subject) && isString(l.level) && isNumber(l.lastModified)
+    && isListOf(l.sections, (s) => isObject(s) && isString(s.title) && isString(s.content))
+    && (l.language === undefined || isOneOf(Language, l.language))
+    && (l.chat === undefined || isListOf(l.chat, (m) => isObject(m) && isString(m.text))),
+  notes: (n) => isString(n.title) && isString(n.content) && isNumber(n.lastModified)
+    && (n.tags === undefined || isListOf(n.tags, isString)) && (n.source === undefined || isObject(n.source)),
+  attempts: (a) => (a.mode === 'EXAM' || a.mode === 'PRACTICE') && isNumber(a.startedAt) && isNumber(a.finishedAt)
+    && isObject(a.config) && isOneOf(Subject, a.config.subject) && isOneOf(DifficultyLevel, a.config.level) && isOneOf(Language, a.config.language)
+    && isObject(a.state) && isListOf(a.state.questions, isQuestion) && isObject(a.state.answers),
+  questionBank: (b) => isQuestion(b.question) && isScenario(b.scenario) && isNumber(b.addedAt)
+    && isOneOf(Subject, b.subject) && isOneOf(DifficultyLevel, b.level) && isOneOf(Language, b.language),
+  reviewDeck: (c) => isQuestion(c.question) && isScenario(c.scenario)
+    && isOneOf(Subject, c.subject) && isOneOf(DifficultyLevel, c.level) && isOneOf(Language, c.language)
+    && [c.addedAt, c.dueAt, c.intervalDays, c.easeFactor, c.repetitions, c.lapses].every(isNumber),
+};
+
+const SETTING_CHECKS: { [K in keyof AppSettings]-?: (value: unknown) => boolean } = {
+  language: (value) => isOneOf(Language, value),
+  level: (value) => isOneOf(DifficultyLevel, value),
+  bilingual: (value) => typeof value === 'boolean',
+};
+
+/**
+ * Reads and checks a backup file, upgrading data from older versions of the app. Throws with
+ * a readable message when the file is not a usable backup. Records without an id or of the
+ * wrong shape are dropped and counted in `skipped`, as are settings with unknown values.
+ */
+export const parseBackup = (text: string): { archive: BackupArchive; skipped: number } => {
+  let parsed: Partial<BackupArchive>;
+  try {
+    parsed = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (parsed?.format !== BACKUP_FILE_FORMAT) throw new Error('The file is not a CA Guide backup.');
+  if (!Number.isInteger(parsed.version) || parsed.version < 1) throw new Error('The backup has no valid version.');
+  if (parsed.version > SCHEMA_VERSION) throw new Error('The backup was made by a newer version of CA Guide. Update the app and try again.');
+  if (!parsed.data || typeof parsed.data !== 'object') throw new Error('The backup holds no data.');
+
+  const data = upgradeCollections(parsed.data as SavedCollections, parsed.version);
+  let skipped = 0;
+  const lists = Object.fromEntries(LISTS.map((name) => {
+    const value = data[name] ?? [];
+    if (!Array.isArray(value)) throw new Error(`"${name}" in the backup is not a list.`);
+    const valid = value.filter((record) => isIdentified(record) && RECORD_CHECKS[name](record as unknown as Fields));
+    skipped += value.length - valid.length;
+    return [name, valid];
+  })) as Omit<BackupArchive['data'], 'settings'>;
+  // Settings missing from older backups, or with values this app does not know, keep this device's values
+  const saved: Fields = isObject(data.settings) ? data.settings : {};
+  const settings: AppSettings = { ...read('settings') };
+  Object.entries(SETTING_CHECKS).forEach(([key, check]) => {
+    if (saved[key] === undefined) return;
+    if (check(saved[key])) Object.assign(settings, { [key]: saved[key] });
+    else skipped++;
+  });
+
+  return {
+    archive: { format: BACKUP_FILE_FORMAT, version: SCHEMA_VERSION, exportedAt: Number(parsed.exportedAt) || 0, data: { ...lists, settings } },
+    skipped,
+  };
+};
+
+const mergeList = <T extends Identified>(local: T[], incoming: T[], rule: MergeRule<T>): { merged: T[]; counts: RestoreCounts } => {
+  const counts: RestoreCounts = { added: 0, updated: 0, kept: 0 };
+  const byId = new Map(local.map((record) => [record.id, record]));
+  incoming.forEach((record) => {
+    const existing = byId.get(record.id);
+    if (!existing) counts.added++;
+    else if (rule.modifiedAt(record) > rule.modifiedAt(existing)) counts.updated++;
+    else {
+      counts.kept++;
+      return;
+    }
+    byId.set(record.id, record);
+  });
+  const merged = Array.from(byId.values()).sort((a, b) => rule.orderKey(a) - rule.orderKey(b));
+  return { merged, counts };
+};
+
+/**
+ * Restores an archive. "merge" keeps everything on this device and adds the archive's
+ * records, taking the newer copy when both have the same id; "replace" swaps this device's
+ * data for the archive's. Settings only change on replace.
+ */
+export const restoreBackup = (archive: BackupArchive, mode: RestoreMode): RestoreResult => {
+  const counts = {} as RestoreResult;
+  LISTS.forEach(<K extends BackedUpList>(name: K) => {
+    const incoming = archive.data[name] as Collections[K];
+    if (mode === 'replace') {
+      write(name, incoming);
+      counts[name] = { added: incoming.length, updated: 0, kept: 0 };
+      return;
+    }
+    const { merged, counts: listCounts } = mergeList(read(name) as Identified[], incoming as Identified[], MERGE_RULES[name] as MergeRule<Identified>);
+    write(name, merged as Collections[K]);
+    counts[name] = listCounts;
+  });
+  if (mode === 'replace') write('settings', archive.data.settings);
+  return counts;
+};
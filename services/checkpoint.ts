@@ -0,0 +1,15 @@
+import { ExamCheckpoint } from '../types';
+import { read, write } from './storage';
+
+export const loadCheckpoint = (): ExamCheckpoint | null => {
+  const checkpoint = read('activeExam');
+  return checkpoint?.state?.questions?.length ? checkpoint : null;
+};
+
+export const saveCheckpoint = (checkpoint: ExamCheckpoint) => write('activeExam', checkpoint);
+
+export const clearCheckpoint = () => write('activeExam', null);
+
+// Seconds left before the deadline, never negative.
+export const secondsUntil = (deadline: number, now: number = Date.now()) =>
+  Math.max(0, Math.ceil((deadline - now) / 1000));
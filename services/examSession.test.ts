@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { DifficultyLevel, ExamConfig, ExamState, Language, McqQuestion, Question, Subject } from '../types';
+import { finishExam, finishGrading, tickClock, withExamProgress, withGeneratedExam } from './examSession';
+
+const config: ExamConfig = {
+  subject: Subject.ACCOUNTING,
+  level: DifficultyLevel.FOUNDATION,
+  questionCount: 4,
+  durationMinutes: 10,
+  language: Language.ENGLISH,
+};
+
+const mcq = (id: string): McqQuestion => ({
+  kind: 'mcq',
+  id,
+  text: `Question ${id}`,
+  options: ['a', 'b', 'c', 'd'],
+  correctOptionIndex: 1,
+  explanation: '',
+});
+
+const activeExam = (fields: Partial<ExamState> = {}): ExamState => ({
+  status: 'active',
+  questions: [mcq('q1'), mcq('q2')],
+  currentQuestionIndex: 0,
+  answers: {},
+  flagged: {},
+  startTime: 1,
+  timeRemaining: 60,
+  score: 0,
+  ...fields,
+});
+
+const report = { requested: 4, delivered: 4, topUpRounds: 0, issues: [] };
+
+describe('tickClock', () => {
+  it('counts down one second', () => {
+    expect(tickClock(activeExam(), config).timeRemaining).toBe(59);
+  });
+
+  it('waits while every question so far is answered and more are on the way', () => {
+    const state = activeExam({ answers: { 0: 1, 1: 0 }, pendingCount: 2 });
+    expect(tickClock(state, config)).toBe(state);
+  });
+
+  it('submits and scores the exam when time runs out', () => {
+    const finished = tickClock(activeExam({ timeRemaining: 1, answers: { 0: 1, 1: 0 } }), config);
+    expect(finished).toMatchObject({ status: 'finished', timeRemaining: 0, score: 1 });
+  });
+});
+
+describe('a paper still streaming when time runs out', () => {
+  const submitted = tickClock(activeExam({ timeRemaining: 1, answers: { 0: 1 }, pendingCount: 2 }), config);
+  const late: Question[] = [mcq('q1'), mcq('q2'), mcq('q3'), mcq('q4')];
+
+  it('is submitted with the questions that had arrived', () => {
+    expect(submitted.status).toBe('finished');
+    expect(submitted.questions).toHaveLength(2);
+  });
+
+  it('ignores the finished paper arriving afterwards', () => {
+    expect(withGeneratedExam(submitted, { questions: late, scenarios: [], report })).toBe(submitted);
+  });
+
+  it('ignores progress arriving afterwards', () => {
+    expect(withExamProgress(submitted, { questions: late.slice(0, 3), scenarios: [], expected: 4 })).toBe(submitted);
+  });
+
+  it('still fills in an exam being sat', () => {
+    const state = activeExam({ pendingCount: 2 });
+    expect(withExamProgress(state, { questions: late.slice(0, 3), scenarios: [], expected: 4 })).toMatchObject({ pendingCount: 1 });
+    expect(withGeneratedExam(state, { questions: late, scenarios: [], report })).toMatchObject({ pendingCount: 0, generationReport: report });
+  });
+});
+
+describe('finishExam', () => {
+  const written: Question = { kind: 'descriptive', id: 'd1', text: 'Explain.', explanation: '', modelAnswer: 'x', rubric: [{ point: 'p', marks: 4 }], marks: 4 };
+
+  it('sends written answers for grading first', () => {
+    expect(finishExam(activeExam({ questions: [written], answers: { 0: 'My answer' } }), config).status).toBe('grading');
+  });
+
+  it('scores the graded answers once grading is done', () => {
+    const grading = finishExam(activeExam({ questions: [written, mcq('q2')], answers: { 0: 'My answer', 1: 1 } }), config);
+    const grade = { points: [{ awarded: 3, comment: '' }], awarded: 3, feedback: '' };
+    expect(finishGrading(grading, { 0: grade }, config)).toMatchObject({ status: 'finished', score: 4 });
+  });
+});
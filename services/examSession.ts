@@ -0,0 +1,36 @@
+import { DescriptiveGrade, ExamConfig, ExamState } from '../types';
+import type { ExamProgress, GeneratedExam } from './gemini';
+import { scoreExam } from './marking';
+
+const calculateScore = (state: ExamState, config: ExamConfig | null): number =>
+  config ? scoreExam(state, config).netMarks : 0;
+
+// Written answers go through rubric grading before the attempt counts as finished
+export const finishExam = (state: ExamState, config: ExamConfig | null): ExamState => {
+  const needsGrading = state.questions.some((q, idx) => q.kind === 'descriptive' && typeof state.answers[idx] === 'string');
+  return needsGrading
+    ? { ...state, status: 'grading' }
+    : { ...state, status: 'finished', score: calculateScore(state, config) };
+};
+
+export const finishGrading = (state: ExamState, grades: Record<number, DescriptiveGrade>, config: ExamConfig | null): ExamState => {
+  const graded = { ...state, grades };
+  return { ...graded, status: 'finished', score: calculateScore(graded, config) };
+};
+
+/**
+ * One second of the exam clock, submitting the exam when time runs out. The clock waits
+ * while every question so far is answered and more are on the way.
+ */
+export const tickClock = (state: ExamState, config: ExamConfig | null): ExamState => {
+  if (state.pendingCount && Object.keys(state.answers).length >= state.questions.length) return state;
+  if (state.timeRemaining <= 1) return finishExam({ ...state, timeRemaining: 0 }, config);
+  return { ...state, timeRemaining: state.timeRemaining - 1 };
+};
+
+// Streamed questions only update an exam still being sat; a submitted one keeps what it was scored on
+export const withExamProgress = (state: ExamState, { questions, scenarios, sections, expected }: ExamProgress): ExamState =>
+  state.status === 'active' ? { ...state, questions, scenarios, sections, pendingCount: expected - questions.length } : state;
+
+export const withGeneratedExam = (state: ExamState, { questions, scenarios, sections, report }: GeneratedExam): ExamState =>
+  state.status === 'active' ? { ...state, questions, scenarios, sections, pendingCount: 0, generationReport: report } : state;
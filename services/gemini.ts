@@ -1,143 +1,451 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { DifficultyLevel, Subject, Question, Lesson, LearningStyle, Language } from '../types';
+import {
+  DifficultyLevel,
+  Subject,
+  Question,
+  QuestionKind,
+  LearningStyle,
+  Language,
+  ExamConfig,
+  ExamState,
+  DescriptiveGrade,
+  DescriptiveQuestion,
+  ExamSection,
+  Scenario,
+  ScenarioGroup,
+  ValidationIssue,
+  ValidationReport,
+  Lesson,
+  SectionAction,
+  TutorMessage,
+} from '../types';
+import { getProvider, QuestionRequest, SyllabusContext } from './providers';
+import { findPaper, paperLabel } from './syllabus';
+import { blueprintFor, blueprintQuestionCount, SectionBlueprint } from './paperBlueprint';
+import { drawFromBank } from './questionBank';
+import { addToCache, createFreshnessCheck, takeCachedQuestions, takeCachedScenarios } from './questionCache';
+import { loadAttempts } from './history';
+import { countedQuestions } from './marking';
+import { createValidationContext, validateQuestion, validateQuestionBatch, validateScenarioGroup, validateGrade, ValidationContext } from './questionValidation';
+import { isBilingual } from './languages';
 
-// Ensure API key is present
-const apiKey = process.env.API_KEY || '';
+// Facade over the active AI provider (see services/providers). Screens import from here
+// so that switching between Gemini, a local endpoint or the mock needs no UI changes.
 
-const ai = new GoogleGenAI({ apiKey });
+const MAX_TOP_UP_ROUNDS = 3;
 
-export const generateExamQuestions = async (
-  subject: Subject,
-  level: DifficultyLevel,
-  count: number,
-  language: Language,
-  topic?: string
-): Promise<Question[]> => {
-  if (!apiKey) {
-    throw new Error("API Key is missing. Please check your environment configuration.");
+export const QUESTIONS_PER_SCENARIO = 5;
+
+// Resolves catalog ids to the names the prompts use.
+const syllabusContext = ({ paperId, chapterId }: Pick<ExamConfig, 'paperId' | 'chapterId'>): SyllabusContext | undefined => {
+  const paper = findPaper(paperId);
+  if (!paper) return undefined;
+  return {
+    paper: paperLabel(paper),
+    chapter: paper.chapters.find((c) => c.id === chapterId)?.name,
+    chapters: paper.chapters.map((c) => c.name),
+  };
+};
+
+// Largest batch asked of the provider at once; long sections are generated in chunks.
+const MAX_QUESTIONS_PER_REQUEST = 25;
+
+// The exam so far while it is generated, and how many questions to expect in total.
+export interface ExamProgress {
+  questions: Question[];
+  scenarios: Scenario[];
+  sections?: ExamSection[];
+  expected: number;
+}
+
+export interface GeneratedExam {
+  questions: Question[];
+  scenarios: Scenario[];
+  sections?: ExamSection[];
+  report: ValidationReport;
+}
+
+// Splits the question count across the selected kinds, MCQs first as in the printed paper.
+export const planQuestionMix = (count: number, kinds: QuestionKind[] = ['mcq']): [QuestionKind, number][] => {
+  const ordered = (['mcq', 'numeric', 'descriptive'] as QuestionKind[]).filter((k) => kinds.includes(k));
+  const selected = ordered.length ? ordered : (['mcq'] as QuestionKind[]);
+  const base = Math.floor(count / selected.length);
+  return selected.map((kind, idx) => [kind, base + (idx < count % selected.length ? 1 : 0)]);
+};
+
+// Calls `fetchValid` for the missing number of items until `target` is met or top-ups run out.
+const fillWithTopUps = async <T>(target: number, fetchValid: (missing: number) => Promise<T[]>) => {
+  const items: T[] = [];
+  let rounds = -1; // The first request is not a top-up
+  while (items.length < target && rounds < MAX_TOP_UP_ROUNDS) {
+    rounds++;
+    items.push(...await fetchValid(target - items.length));
   }
+  return { items: items.slice(0, target), topUps: Math.max(rounds, 0) };
+};
 
-  const model = "gemini-3-flash-preview";
-  
-  const prompt = `
-    You are a strict examiner for the Institute of Chartered Accountants. 
-    Create a simulated exam for the subject "${subject}" at the "${level}" level.
-    ${topic ? `Focus specifically on the topic: "${topic}".` : ''}
-    Generate ${count} multiple-choice questions.
-    
-    IMPORTANT LANGUAGE INSTRUCTION:
-    Generate the content (Question text, Options, and Explanation) in **${language}**.
-    If Malayalam is selected, use Malayalam script.
-    However, keep the JSON keys (id, text, options, correctOptionIndex, explanation) strictly in English.
-
-    Guidelines:
-    1. Questions should be scenario-based or conceptual, matching the high standards of CA exams.
-    2. Provide 4 distinct options for each question.
-    3. Clearly mark the correct option index (0-3).
-    4. Provide a detailed explanation for the correct answer, citing relevant sections of law or accounting standards if applicable.
-    
-    Return the response strictly as a JSON array.
-  `;
-
-  const response = await ai.models.generateContent({
-    model: model,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            id: { type: Type.STRING, description: "Unique identifier for the question" },
-            text: { type: Type.STRING, description: "The question text in the requested language." },
-            options: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING },
-              description: "A list of exactly 4 possible answers in the requested language."
-            },
-            correctOptionIndex: { type: Type.INTEGER, description: "The zero-based index of the correct option." },
-            explanation: { type: Type.STRING, description: "Detailed reasoning in the requested language." }
-          },
-          required: ["id", "text", "options", "correctOptionIndex", "explanation"],
-        },
-      },
-    },
-  });
+// Streaming counterpart of fillWithTopUps: yields each item as it arrives, calling `onTopUp` per extra request.
+const streamWithTopUps = async function* <T>(
+  target: number,
+  streamValid: (missing: number) => AsyncGenerator<T>,
+  onTopUp: () => void
+): AsyncGenerator<T> {
+  let delivered = 0;
+  for (let round = 0; delivered < target && round <= MAX_TOP_UP_ROUNDS; round++) {
+    if (round > 0) onTopUp();
+    for await (const item of streamValid(target - delivered)) {
+      yield item;
+      if (++delivered >= target) break;
+    }
+  }
+};
+
+// Validates questions one by one as the provider streams them.
+const streamValidQuestions = async function* (
+  request: QuestionRequest,
+  context: ValidationContext,
+  issues: ValidationIssue[],
+  keep: (question: Question) => boolean = () => true
+): AsyncGenerator<Question> {
+  let position = 0;
+  for await (const raw of getProvider().streamQuestions(request)) {
+    const question = validateQuestion(raw, request.kind, position++, context, issues);
+    if (question && keep(question)) yield question;
+  }
+};
 
-  const text = response.text;
-  if (!text) {
-    throw new Error("No response received from AI.");
+// Runs an exam stream to the end for callers that only want the finished exam.
+const finishStream = async (stream: AsyncGenerator<ExamProgress, GeneratedExam>): Promise<GeneratedExam> => {
+  let step = await stream.next();
+  while (!step.done) step = await stream.next();
+  return step.value as GeneratedExam;
+};
+
+// Rubric points are scaled in half marks so a descriptive question carries exactly `marks`.
+const withMarks = (question: Question, marks: number): Question => {
+  if (question.kind !== 'descriptive' || question.marks === marks) return { ...question, marks };
+  const factor = marks / question.marks;
+  const rubric = question.rubric.map((r) => ({ ...r, marks: Math.max(0.5, Math.round(r.marks * factor * 2) / 2) }));
+  const largest = rubric.reduce((best, r, idx) => (r.marks > rubric[best].marks ? idx : best), 0);
+  rubric[largest].marks += marks - rubric.reduce((sum, r) => sum + r.marks, 0);
+  return { ...question, marks, rubric };
+};
+
+const sectionText = ({ id, title, titleParams, instructions, instructionParams }: SectionBlueprint) =>
+  ({ id, title, titleParams, instructions, instructionParams });
+
+/**
+ * Builds a full paper from the blueprint for the config's level and paper: each section's
+ * questions are generated and validated like a custom exam, then given the section's marks.
+ */
+const streamFullPaper = async function* (config: ExamConfig): AsyncGenerator<ExamProgress, GeneratedExam> {
+  const issues: ValidationIssue[] = [];
+  const context = createValidationContext(config);
+  const blueprint = blueprintFor(config.level, config.paperId);
+  const syllabus = syllabusContext(config);
+  const questions: Question[] = [];
+  const sections: ExamSection[] = [];
+  const requested = blueprintQuestionCount(blueprint);
+  let pending = requested;
+  let topUpRounds = 0;
+
+  for (const section of blueprint.sections) {
+    const start = questions.length;
+    // The section in progress is listed with the questions it has so far
+    const current = (): ExamSection[] => questions.length > start
+      ? [...sections, { ...sectionText(section), start, count: questions.length - start, attemptCount: section.attemptCount }]
+      : sections;
+
+    for (let done = 0; done < section.questionCount; done += MAX_QUESTIONS_PER_REQUEST) {
+      const target = Math.min(MAX_QUESTIONS_PER_REQUEST, section.questionCount - done);
+      const stream = streamWithTopUps(target, (missing) => streamValidQuestions({
+        subject: config.subject,
+        level: config.level,
+        language: config.language,
+        bilingual: isBilingual(config),
+        syllabus,
+        count: missing,
+        kind: section.kind,
+        marksPerQuestion: section.marksPerQuestion,
+      }, context, issues), () => topUpRounds++);
+      let delivered = 0;
+      for await (const question of stream) {
+        questions.push(withMarks(question, section.marksPerQuestion));
+        delivered++;
+        pending--;
+        yield { questions: [...questions], scenarios: [], sections: current(), expected: questions.length + pending };
+      }
+      pending -= target - delivered;
+    }
+    const count = questions.length - start;
+    if (count === 0) continue;
+    sections.push({
+      ...sectionText(section),
+      start,
+      count,
+      // A short section cannot demand more answers than it has questions
+      attemptCount: section.attemptCount ? Math.min(section.attemptCount, count) : undefined,
+    });
   }
 
-  try {
-    const questions = JSON.parse(text) as Question[];
-    return questions;
-  } catch (e) {
-    console.error("Failed to parse AI response", e);
+  if (questions.length === 0) {
     throw new Error("Failed to generate valid exam questions.");
   }
+  if (issues.length > 0 || questions.length < requested) {
+    console.warn(`Question validation: ${issues.length} issue(s), ${questions.length}/${requested} delivered`, issues);
+  }
+  return {
+    questions,
+    scenarios: [],
+    sections,
+    report: { requested, delivered: questions.length, topUpRounds, issues },
+  };
 };
 
-export const generateLessonStream = async function* (
-  subject: Subject,
-  level: DifficultyLevel,
-  topic: string,
-  style: LearningStyle,
-  language: Language
-) {
-  if (!apiKey) {
-    throw new Error("API Key is missing.");
+// Bank questions are vetted already, so a bank-only exam needs no AI calls.
+const bankOnlyExam = (config: ExamConfig, fromBank: Pick<GeneratedExam, 'questions' | 'scenarios'>): GeneratedExam => {
+  if (fromBank.questions.length === 0) {
+    throw new Error("No questions in the bank match this exam.");
   }
+  const order: (QuestionKind | 'scenario')[] = ['mcq', 'scenario', 'numeric', 'descriptive'];
+  const rank = (q: Question) => order.indexOf(q.scenarioId ? 'scenario' : q.kind ?? 'mcq');
+  return {
+    questions: [...fromBank.questions].sort((a, b) => rank(a) - rank(b)),
+    scenarios: fromBank.scenarios,
+    report: { requested: config.questionCount, delivered: fromBank.questions.length, topUpRounds: 0, issues: [] },
+  };
+};
 
-  const model = "gemini-3-flash-preview";
+/**
+ * Generates questions for a config in paper order — standalone MCQs, case scenarios, numerical,
+ * then descriptive questions — yielding the exam so far each time a question is ready.
+ * Every item is validated, and the provider is asked for replacements until each kind's share
+ * is met or MAX_TOP_UP_ROUNDS is exhausted. A mixed exam draws up to half its questions from
+ * the bank. Unless `useCache` is false, pre-generated questions are served before new ones
+ * are requested, and questions rewording one answered in an earlier attempt are left out.
+ */
+export const generateExamStream = async function* (config: ExamConfig, useCache = true): AsyncGenerator<ExamProgress, GeneratedExam> {
+  if (config.format === 'full-paper') {
+    return yield* streamFullPaper(config);
+  }
+  const source = config.questionSource ?? 'ai';
+  const fromBank = source === 'ai'
+    ? { questions: [], scenarios: [] }
+    : drawFromBank(config, source === 'bank' ? config.questionCount : Math.floor(config.questionCount / 2));
+  if (source === 'bank') {
+    return bankOnlyExam(config, fromBank);
+  }
 
-  const prompt = `
-    You are the "CA Mastermind AI", the world's most effective Chartered Accountancy tutor.
-    Your goal is to ensure the student not only understands the topic but can score high marks in the real exam.
-    
-    Prepare a lesson on: "${topic}"
-    Subject: "${subject}"
-    Level: "${level}"
-    Teaching Style: "${style}"
+  const isFresh = createFreshnessCheck(loadAttempts());
+  const issues: ValidationIssue[] = [];
+  // Seeded with the bank questions so generated ones never repeat them
+  const context = createValidationContext(config, fromBank.questions);
+  const base = {
+    subject: config.subject,
+    level: config.level,
+    language: config.language,
+    bilingual: isBilingual(config),
+    topic: config.topic,
+    syllabus: syllabusContext(config),
+  };
+  const questions: Question[] = [];
+  const scenarios: Scenario[] = [];
+  const toGenerate = config.questionCount - fromBank.questions.length;
+  const scenarioCount = Math.min(config.scenarioCount ?? 0, Math.floor(toGenerate / QUESTIONS_PER_SCENARIO));
+  const shares = new Map(planQuestionMix(toGenerate - scenarioCount * QUESTIONS_PER_SCENARIO, config.questionKinds));
+  let pending = toGenerate;
+  let topUpRounds = 0;
+  let fromCache = 0;
+  const progress = (): ExamProgress => ({ questions: [...questions], scenarios: [...scenarios], expected: questions.length + pending });
 
-    IMPORTANT LANGUAGE INSTRUCTION:
-    Teach in **${language}**.
-    If Malayalam is selected, use Malayalam script.
+  // A generated question that rewords one already answered is dropped and topped up
+  const keepFresh = (question: Question) => {
+    if (isFresh(question.text)) return true;
+    issues.push({ position: questions.length, questionId: question.id, action: 'dropped', reason: 'Too similar to a question answered in an earlier attempt.' });
+    return false;
+  };
+  const bankQuestions = (key: QuestionKind | 'scenario') =>
+    fromBank.questions.filter((q) => (q.scenarioId ? 'scenario' : q.kind ?? 'mcq') === key);
 
-    Style Guidelines:
-    - If style is "Simplify for Beginners": Use analogies, break down complex legal/accounting jargon into plain English (or simple Malayalam), and focus on "why" things happen.
-    - If style is "Exam Oriented": Focus strictly on keywords, specific sections/standards that fetch marks, presentation tips, and common student mistakes.
-    - If style is "Master Class": Provide a deep comprehensive analysis, including exceptions, relevant case laws, and cross-references to other subjects.
+  // Bank questions lead each kind, then cached ones, then whatever the provider streams
+  const fillKind = async function* (kind: QuestionKind, share: number, banked = bankQuestions(kind)): AsyncGenerator<ExamProgress> {
+    const cached = useCache ? validateQuestionBatch(takeCachedQuestions(config, kind, share, isFresh), kind, context, issues) : [];
+    questions.push(...banked, ...cached);
+    fromCache += cached.length;
+    pending -= cached.length;
+    if (banked.length + cached.length > 0) yield progress();
+    if (cached.length >= share) return;
 
-    OUTPUT FORMAT:
-    Do NOT return JSON. Return formatted Markdown text.
-    Structure the lesson strictly into these 5 sections using Markdown Level 2 Headers (##):
-    
-    ## Mastermind Overview
-    (A powerful, high-impact summary of what this topic is and why it matters.)
+    const target = share - cached.length;
+    const stream = streamWithTopUps(target, (missing) => streamValidQuestions({ ...base, count: missing, kind }, context, issues, keepFresh), () => topUpRounds++);
+    let delivered = 0;
+    for await (const question of stream) {
+      questions.push(question);
+      delivered++;
+      pending--;
+      yield progress();
+    }
+    pending -= target - delivered;
+  };
 
-    ## Core Concept Decoded
-    (The main explanation, tailored to the selected style.)
+  // A kind with no generated share still gets its bank questions
+  const hasKind = (kind: QuestionKind) => shares.has(kind) || bankQuestions(kind).length > 0;
 
-    ## The "Examiner's Favorite" Points
-    (Specific areas that are frequently asked in exams.)
+  if (hasKind('mcq')) yield* fillKind('mcq', shares.get('mcq') ?? 0);
 
-    ## Practical Application / Case Study
-    (A real-world scenario or calculation.)
+  questions.push(...bankQuestions('scenario'));
+  scenarios.push(...fromBank.scenarios);
+  const groups = useCache ? takeCachedScenarios(config, scenarioCount, isFresh) : [];
+  fromCache += groups.reduce((sum, g) => sum + g.questions.length, 0);
+  if (scenarioCount > groups.length) {
+    const { items, topUps } = await fillWithTopUps(scenarioCount - groups.length, async (missing) => {
+      const batch = await getProvider().generateScenarios({ ...base, count: missing, questionsPerScenario: QUESTIONS_PER_SCENARIO });
+      return (Array.isArray(batch) ? batch : [])
+        .map((raw, position) => validateScenarioGroup(raw, position, QUESTIONS_PER_SCENARIO, context, issues))
+        .filter((group): group is ScenarioGroup => group !== null && group.questions.every((q) => keepFresh(q)));
+    });
+    topUpRounds += topUps;
+    groups.push(...items);
+  }
+  groups.forEach(({ questions: children, ...scenario }) => {
+    scenarios.push(scenario);
+    questions.push(...children);
+  });
+  const scenarioQuestions = groups.reduce((sum, g) => sum + g.questions.length, 0);
+  pending -= scenarioQuestions;
+  if (scenarioQuestions > 0) yield progress();
+
+  // Questions the scenarios fell short by go to the last kind still to come, or to extra MCQs
+  const shortfall = scenarioCount * QUESTIONS_PER_SCENARIO - scenarioQuestions;
+  const lastKind = (['descriptive', 'numeric'] as QuestionKind[]).find((k) => shares.has(k));
+  if (shortfall > 0) {
+    if (lastKind) shares.set(lastKind, shares.get(lastKind) + shortfall);
+    else yield* fillKind('mcq', shortfall, []);
+  }
+  if (hasKind('numeric')) yield* fillKind('numeric', shares.get('numeric') ?? 0);
+  if (hasKind('descriptive')) yield* fillKind('descriptive', shares.get('descriptive') ?? 0);
+
+  if (questions.length === 0) {
+    throw new Error("Failed to generate valid exam questions.");
+  }
+  if (issues.length > 0 || questions.length < config.questionCount) {
+    console.warn(`Question validation: ${issues.length} issue(s), ${questions.length}/${config.questionCount} delivered`, issues);
+  }
+  return {
+    questions,
+    scenarios,
+    report: {
+      requested: config.questionCount,
+      delivered: questions.length,
+      topUpRounds,
+      issues,
+      fromCache,
+    },
+  };
+};
 
-    ## Mastermind Memory Hook
-    (A mnemonic or trick to remember this concept forever.)
+export const generateExam = (config: ExamConfig, useCache = true): Promise<GeneratedExam> =>
+  finishStream(generateExamStream(config, useCache));
 
-    Make the content inspiring, professional, and authoritative. Start directly with the first header.
-  `;
+/**
+ * Generates a full set for a custom exam config in advance and adds it to the cache,
+ * so the next exam with the same selection starts without waiting for the provider.
+ */
+export const pregenerateExam = async (config: ExamConfig): Promise<number> => {
+  const { questions, scenarios } = await generateExam({ ...config, questionSource: 'ai', format: 'custom' }, false);
+  addToCache(config, questions, scenarios);
+  return questions.length;
+};
 
-  const responseStream = await ai.models.generateContentStream({
-    model: model,
-    contents: prompt,
+// Zero marks with an error note, for an answer the grader could not mark
+const ungradedAnswer = (question: DescriptiveQuestion): DescriptiveGrade => ({
+  points: question.rubric.map(() => ({ awarded: 0, comment: '' })),
+  awarded: 0,
+  feedback: '',
+  error: "This answer could not be graded automatically.",
+});
+
+/** Marks every written answer as not graded, for when grading could not run at all. */
+export const ungradedAnswers = (state: Pick<ExamState, 'questions' | 'answers'>): Record<number, DescriptiveGrade> => {
+  const grades: Record<number, DescriptiveGrade> = {};
+  state.questions.forEach((question, idx) => {
+    if (question.kind === 'descriptive' && typeof state.answers[idx] === 'string') grades[idx] = ungradedAnswer(question);
   });
+  return grades;
+};
 
-  for await (const chunk of responseStream) {
-    yield chunk.text;
-  }
-};
\ No newline at end of file
+/**
+ * Grades every answered descriptive question against its rubric. A failed call
+ * records an error grade with zero marks instead of failing the whole attempt.
+ */
+export const gradeDescriptiveAnswers = async (
+  state: Pick<ExamState, 'questions' | 'answers' | 'sections'>,
+  config: Pick<ExamConfig, 'level' | 'language'>
+): Promise<Record<number, DescriptiveGrade>> => {
+  const provider = getProvider();
+  const grades: Record<number, DescriptiveGrade> = {};
+
+  // Answers beyond an internal choice are not marked, so they are not sent for grading
+  await Promise.all(countedQuestions(state).map(async (idx) => {
+    const question = state.questions[idx];
+    const answer = state.answers[idx];
+    if (question.kind !== 'descriptive' || typeof answer !== 'string' || !answer.trim()) return;
+    try {
+      const raw = await provider.gradeAnswer({ question, answer, level: config.level, language: config.language });
+      grades[idx] = validateGrade(raw, question);
+    } catch (e) {
+      console.error("Failed to grade answer", e);
+      grades[idx] = ungradedAnswer(question);
+    }
+  }));
+
+  return grades;
+};
+
+export const generateLessonStream = async function* (
+  subject: Subject,
+  level: DifficultyLevel,
+  topic: string,
+  style: LearningStyle,
+  language: Language,
+  syllabusRef: Pick<ExamConfig, 'paperId' | 'chapterId'> = {}
+) {
+  yield* getProvider().streamLesson({ subject, level, topic, style, language, syllabus: syllabusContext(syllabusRef) });
+};
+
+// Streams new Markdown for one section: a replacement, or for 'example' a block to append.
+export const rewriteSectionStream = async function* (
+  lesson: Lesson,
+  sectionIndex: number,
+  action: SectionAction,
+  style: LearningStyle,
+  language: Language
+) {
+  yield* getProvider().streamSection({
+    subject: lesson.subject,
+    level: lesson.level,
+    topic: lesson.topic,
+    style: lesson.style ?? style,
+    language: lesson.language ?? language,
+    sections: lesson.sections,
+    sectionIndex,
+    action,
+  });
+};
+
+// Streams the tutor's reply to the last message of `messages`, with the lesson as context.
+export const askTutorStream = async function* (
+  lesson: Lesson,
+  messages: TutorMessage[],
+  style: LearningStyle,
+  language: Language
+) {
+  yield* getProvider().streamTutorReply({
+    subject: lesson.subject,
+    level: lesson.level,
+    topic: lesson.topic,
+    style: lesson.style ?? style,
+    language: lesson.language ?? language,
+    sections: lesson.sections,
+    messages,
+  });
+};
@@ -0,0 +1,19 @@
+import { ExamAttempt } from '../types';
+import { read, write } from './storage';
+
+export const loadAttempts = (): ExamAttempt[] => read('attempts');
+
+const writeAttempts = (attempts: ExamAttempt[]) => write('attempts', attempts);
+
+// Newest first, matching how the History screen lists them.
+export const saveAttempt = (attempt: ExamAttempt): ExamAttempt[] => {
+  const attempts = [attempt, ...loadAttempts().filter((a) => a.id !== attempt.id)];
+  writeAttempts(attempts);
+  return attempts;
+};
+
+export const deleteAttempt = (id: string): ExamAttempt[] => {
+  const attempts = loadAttempts().filter((a) => a.id !== id);
+  writeAttempts(attempts);
+  return attempts;
+};
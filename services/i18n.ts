@@ -0,0 +1,40 @@
+import { Language } from '../types';
+import { LANGUAGES } from './languages';
+import { MESSAGES, TRANSLATIONS } from './translations';
+
+type MessageId = keyof typeof MESSAGES;
+// Counted messages have `_one` and `_other` forms and are looked up by their shared stem
+type PluralStem<K> = K extends `${infer Stem}_one` ? Stem : never;
+export type MessageKey = Exclude<MessageId, `${string}_one` | `${string}_other`> | PluralStem<MessageId>;
+export type MessageParams = Record<string, string | number>;
+
+export const formatNumber = (language: Language, value: number, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(LANGUAGES[language].locale, options).format(value);
+
+export const formatDate = (language: Language, timestamp: number, options?: Intl.DateTimeFormatOptions): string =>
+  new Date(timestamp).toLocaleString(LANGUAGES[language].locale, options ?? { dateStyle: 'medium', timeStyle: 'short' });
+
+/** Minutes and seconds, or just seconds under a minute. */
+export const formatDuration = (language: Language, seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0
+    ? translate(language, 'common.duration', { minutes, seconds: seconds % 60 })
+    : translate(language, 'common.durationSeconds', { seconds });
+};
+
+/**
+ * Looks a message up in the language's catalog, falling back to English. `{name}` placeholders
+ * are filled from params, numbers formatted for the language; a numeric `count` picks the plural form.
+ */
+export const translate = (language: Language, key: MessageKey, params: MessageParams = {}): string => {
+  let id = key as string;
+  if (typeof params.count === 'number' && `${key}_one` in MESSAGES) {
+    id = `${key}_${new Intl.PluralRules(LANGUAGES[language].locale).select(params.count) === 'one' ? 'one' : 'other'}`;
+  }
+  const template: string = TRANSLATIONS[language]?.[id as MessageId] ?? MESSAGES[id as MessageId] ?? key;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? formatNumber(language, value) : value;
+  });
+};
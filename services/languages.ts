@@ -0,0 +1,27 @@
+import { ExamConfig, Language } from '../types';
+
+interface LanguageInfo {
+  nativeName: string; // Shown in language pickers
+  locale: string; // For number and date formatting
+  script: string;
+  scriptPattern?: RegExp; // Matches a letter of the script; English has none to check
+}
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+  [Language.ENGLISH]: { nativeName: 'English', locale: 'en-IN', script: 'Latin' },
+  [Language.MALAYALAM]: { nativeName: 'മലയാളം', locale: 'ml-IN', script: 'Malayalam', scriptPattern: /[ഀ-ൿ]/ },
+  [Language.HINDI]: { nativeName: 'हिन्दी', locale: 'hi-IN', script: 'Devanagari', scriptPattern: /[ऀ-ॿ]/ },
+  [Language.TAMIL]: { nativeName: 'தமிழ்', locale: 'ta-IN', script: 'Tamil', scriptPattern: /[஀-௿]/ },
+};
+
+/** The prompt line telling the model which script to write in. */
+export const scriptInstruction = (language: Language): string =>
+  language === Language.ENGLISH ? '' : `Use ${LANGUAGES[language].script} script, not transliteration.`;
+
+/** True when the text has at least one letter of the language's script. */
+export const isInScript = (language: Language, text: string): boolean =>
+  !LANGUAGES[language].scriptPattern || LANGUAGES[language].scriptPattern.test(text);
+
+/** True when the config asks for English alongside another language; an English exam is never bilingual. */
+export const isBilingual = (config: Pick<ExamConfig, 'language' | 'bilingual'>): boolean =>
+  !!config.bilingual && config.language !== Language.ENGLISH;
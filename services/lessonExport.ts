@@ -0,0 +1,108 @@
+import { Lesson, Note } from '../types';
+import { escapeHtml, markdownToHtml } from './markdown';
+
+export interface Flashcard {
+  front: string; // HTML
+  back: string; // HTML
+  tags: string[];
+}
+
+// Sections that already read like revision cards
+const FLASHCARD_SECTIONS: { match: RegExp; front: (topic: string) => string }[] = [
+  { match: /memory hook/i, front: (topic) => `How do you remember <b>${escapeHtml(topic)}</b>?` },
+  { match: /examiner/i, front: (topic) => `What does the examiner look for in <b>${escapeHtml(topic)}</b>?` },
+];
+
+const tagOf = (text: string) => text.trim().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_|_$/g, '');
+
+const lessonToMarkdown = (lesson: Lesson) => [
+  `# ${lesson.topic}`,
+  `_${lesson.subject} · ${lesson.level}_`,
+  ...lesson.sections.map((s) => `## ${s.title}\n\n${s.content}`),
+].join('\n\n');
+
+const noteToMarkdown = (note: Note) => [
+  `# ${note.title || 'Untitled Note'}`,
+  `_Note · ${new Date(note.lastModified).toLocaleDateString()}_`,
+  note.content,
+].join('\n\n');
+
+export const exportMarkdown = (lessons: Lesson[], notes: Note[]): string =>
+  [...lessons.map(lessonToMarkdown), ...notes.map(noteToMarkdown)].join('\n\n---\n\n') + '\n';
+
+// Notes are plain text, so their line breaks are kept as written
+const noteToHtml = (note: Note) => `
+  <article>
+    <h1>${escapeHtml(note.title || 'Untitled Note')}</h1>
+    <p class="meta">Note · ${escapeHtml(new Date(note.lastModified).toLocaleDateString())}</p>
+    <div class="note">${escapeHtml(note.content)}</div>
+  </article>`;
+
+const lessonToHtml = (lesson: Lesson) => `
+  <article>
+    <h1>${escapeHtml(lesson.topic)}</h1>
+    <p class="meta">${escapeHtml(`${lesson.subject} · ${lesson.level}`)}</p>
+    ${lesson.sections.map((s) => `<section><h2>${escapeHtml(s.title)}</h2>\n${markdownToHtml(s.content, 1)}</section>`).join('\n')}
+  </article>`;
+
+/** A self-contained, print-ready handout: each lesson or note starts on a new page. */
+export const exportHandoutHtml = (lessons: Lesson[], notes: Note[], title = 'CA Guide Handout'): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)}</title>
+<link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;600;700&family=Noto+Sans+Malayalam:wght@400;600;700&family=Noto+Sans+Devanagari:wght@400;600;700&family=Noto+Sans+Tamil:wght@400;600;700&display=swap" rel="stylesheet">
+<style>
+  body { font-family: 'Inter', 'Noto Sans Malayalam', 'Noto Sans Devanagari', 'Noto Sans Tamil', system-ui, sans-serif; color: #1f2937; line-height: 1.6; max-width: 48rem; margin: 2rem auto; padding: 0 1.5rem; }
+  h1 { font-size: 1.75rem; margin: 0 0 0.25rem; color: #0c4a6e; }
+  h2 { font-size: 1.25rem; margin: 1.75rem 0 0.5rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; }
+  h3, h4, h5, h6 { margin: 1.25rem 0 0.5rem; }
+  .meta { color: #6b7280; font-size: 0.875rem; margin: 0 0 1.5rem; }
+  .note { white-space: pre-wrap; }
+  table { border-collapse: collapse; width: 100%; margin: 1rem 0; font-size: 0.9rem; }
+  th, td { border: 1px solid #d1d5db; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  pre { background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 0.5rem; padding: 0.75rem; white-space: pre-wrap; font-size: 0.85rem; }
+  code { font-family: ui-monospace, monospace; }
+  blockquote { border-left: 4px solid #bae6fd; margin: 1rem 0; padding: 0.25rem 1rem; color: #374151; }
+  article + article { break-before: page; margin-top: 3rem; }
+  section, table, pre { break-inside: avoid; }
+  @media print { body { margin: 0; max-width: none; } }
+</style>
+</head>
+<body>
+${[...lessons.map(lessonToHtml), ...notes.map(noteToHtml)].join('\n')}
+</body>
+</html>
+`;
+
+/**
+ * Builds revision cards: one per memory-hook or examiner's-points section of each lesson,
+ * and one per titled note.
+ */
+export const buildFlashcards = (lessons: Lesson[], notes: Note[]): Flashcard[] => [
+  ...lessons.flatMap((lesson) =>
+    lesson.sections.flatMap((section) => {
+      const kind = FLASHCARD_SECTIONS.find((f) => f.match.test(section.title));
+      if (!kind || !section.content.trim()) return [];
+      return [{ front: kind.front(lesson.topic), back: markdownToHtml(section.content, 2), tags: ['CA_Guide', tagOf(lesson.subject), tagOf(lesson.topic)] }];
+    })
+  ),
+  ...notes
+    .filter((note) => note.title.trim() && note.content.trim())
+    .map((note) => ({
+      front: escapeHtml(note.title),
+      back: escapeHtml(note.content).replace(/\n/g, '<br>'),
+      tags: ['CA_Guide', 'note'],
+    })),
+];
+
+const csvCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+// Anki's text import reads these header lines, so the file imports without changing any options
+export const exportAnkiCsv = (cards: Flashcard[]): string => [
+  '#separator:Comma',
+  '#html:true',
+  '#tags column:3',
+  ...cards.map((c) => [c.front, c.back, c.tags.join(' ')].map(csvCell).join(',')),
+].join('\n') + '\n';
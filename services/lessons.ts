@@ -0,0 +1,34 @@
+import { Lesson } from '../types';
+import { read, write } from './storage';
+
+export const loadLessons = (): Lesson[] => read('lessons');
+
+const writeLessons = (lessons: Lesson[]) => write('lessons', lessons);
+
+export const lessonId = (subject: string, topic: string) => `${subject}|${topic}`;
+
+// A subject has one saved lesson per topic
+export const isSameLesson = (a: Pick<Lesson, 'subject' | 'topic'>, b: Pick<Lesson, 'subject' | 'topic'>) =>
+  a.subject === b.subject && a.topic === b.topic;
+
+// Newest first, matching how the Library lists them.
+export const saveLesson = (lesson: Lesson): Lesson[] => {
+  const lessons = [{ ...lesson, lastModified: Date.now() }, ...loadLessons().filter((l) => !isSameLesson(l, lesson))];
+  writeLessons(lessons);
+  return lessons;
+};
+
+export const removeLesson = (lesson: Pick<Lesson, 'subject' | 'topic'>): Lesson[] => {
+  const lessons = loadLessons().filter((l) => !isSameLesson(l, lesson));
+  writeLessons(lessons);
+  return lessons;
+};
+
+/** Applies changes to the saved copy of a lesson; lessons that are not saved are left alone. */
+export const updateLesson = (lesson: Pick<Lesson, 'subject' | 'topic'>, changes: Partial<Lesson>): Lesson[] => {
+  const lessons = loadLessons();
+  if (!lessons.some((l) => isSameLesson(l, lesson))) return lessons;
+  const updated = lessons.map((l) => (isSameLesson(l, lesson) ? { ...l, ...changes, lastModified: Date.now() } : l));
+  writeLessons(updated);
+  return updated;
+};
@@ -0,0 +1,292 @@
+// A small Markdown parser for AI lessons. It produces plain data that components turn into
+// elements (or exports into escaped HTML), so no model output is ever injected as HTML.
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: { text: string; depth: number }[] }
+  | { type: 'table'; header: string[]; align: TableAlign[]; rows: string[][] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'quote'; text: string }
+  | { type: 'rule' };
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'strike'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|(\d+)[.)])\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+// A separator row so far, e.g. "| --- | :-: |" or a prefix of one still streaming in
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-*:?\s*(\|\s*:?-*:?\s*)*\|?\s*$/;
+
+const splitRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  // Escaped pipes stay inside their cell
+  return row.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const alignOf = (cell: string): TableAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+};
+
+const isTableRow = (line: string) => line.trim().startsWith('|') || (line.includes('|') && line.trim().length > 1);
+
+// A header row opens a table once the separator follows, or while the separator is still streaming
+const opensTable = (lines: string[], i: number) => {
+  if (!isTableRow(lines[i])) return false;
+  const next = lines[i + 1];
+  if (next === undefined) return lines[i].trim().startsWith('|') && i === lines.length - 1;
+  return next.includes('-') && TABLE_SEPARATOR.test(next) && (next.includes('|') || lines[i].trim().startsWith('|'));
+};
+
+const startsBlock = (lines: string[], i: number) =>
+  FENCE.test(lines[i]) || HEADING.test(lines[i]) || RULE.test(lines[i]) || LIST_ITEM.test(lines[i]) ||
+  QUOTE.test(lines[i]) || opensTable(lines, i);
+
+/**
+ * Splits Markdown into blocks. Anything cut off mid-stream still parses: an unclosed code
+ * fence runs to the end, and a table shows its header before the separator row arrives.
+ */
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++; // Closing fence
+      blocks.push({ type: 'code', lang: fence[2], text: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (opensTable(lines, i)) {
+      const header = splitRow(line);
+      const separator = lines[i + 1] !== undefined ? splitRow(lines[i + 1]) : [];
+      const align = header.map((_, c) => alignOf(separator[c] ?? ''));
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && isTableRow(lines[i])) {
+        const cells = splitRow(lines[i++]);
+        rows.push(header.map((_, c) => cells[c] ?? ''));
+      }
+      blocks.push({ type: 'table', header, align, rows });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const first = line.match(LIST_ITEM);
+      const ordered = first[3] !== undefined;
+      const baseIndent = first[1].length;
+      const items: { text: string; depth: number }[] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (item) {
+          // A different kind of marker at the top level starts a new list
+          if (item[1].length <= baseIndent && (item[3] !== undefined) !== ordered) break;
+          items.push({ text: item[4], depth: Math.max(0, Math.floor((item[1].length - baseIndent) / 2)) });
+          i++;
+        } else if (lines[i].trim() && /^\s+/.test(lines[i]) && items.length > 0) {
+          // An indented line continues the item above
+          items[items.length - 1].text += '\n' + lines[i++].trim();
+        } else {
+          break;
+        }
+      }
+      blocks.push({ type: 'list', ordered, start: ordered ? Number(first[3]) : 1, items });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) body.push(lines[i++].match(QUOTE)[1]);
+      blocks.push({ type: 'quote', text: body.join('\n') });
+      continue;
+    }
+
+    const body: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) body.push(lines[i++].trim());
+    blocks.push({ type: 'paragraph', text: body.join('\n') });
+  }
+
+  return blocks;
+};
+
+// Letters, digits and combining marks, so Malayalam, Hindi and Tamil vowel signs count as part of a word
+const WORD_CHAR = /[\p{L}\p{N}\p{M}]/u;
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+const DELIMITERS: { marker: string; type: 'strong' | 'em' | 'strike' }[] = [
+  { marker: '**', type: 'strong' },
+  { marker: '__', type: 'strong' },
+  { marker: '~~', type: 'strike' },
+  { marker: '*', type: 'em' },
+  { marker: '_', type: 'em' },
+];
+
+/**
+ * Splits a block's text into emphasis, code spans, links and line breaks. An unclosed `**`
+ * or backtick runs to the end of the text, which keeps a half-streamed phrase formatted.
+ */
+export const parseInline = (text: string): MarkdownInline[] => {
+  const out: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) out.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+
+    if (text[i] === '\\' && /[\\`*_~|[\]#>-]/.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (text[i] === '\n' || /^<br\s*\/?>/i.test(rest)) {
+      flush();
+      out.push({ type: 'break' });
+      i += text[i] === '\n' ? 1 : rest.match(/^<br\s*\/?>/i)[0].length;
+      continue;
+    }
+
+    if (text[i] === '`') {
+      const end = text.indexOf('`', i + 1);
+      flush();
+      out.push({ type: 'code', text: end === -1 ? text.slice(i + 1) : text.slice(i + 1, end) });
+      i = end === -1 ? text.length : end + 1;
+      continue;
+    }
+
+    const link = rest.match(/^\[([^\]]+)\]\(([^)\s]+)\)/);
+    if (link) {
+      flush();
+      out.push(SAFE_URL.test(link[2])
+        ? { type: 'link', href: link[2], children: parseInline(link[1]) }
+        : { type: 'text', text: link[1] });
+      i += link[0].length;
+      continue;
+    }
+
+    const delimiter = DELIMITERS.find((d) => rest.startsWith(d.marker));
+    if (delimiter) {
+      const { marker, type } = delimiter;
+      const before = text[i - 1] ?? ' ';
+      const after = text[i + marker.length] ?? '';
+      // Opening markers hug the following word; "_" inside a word (snake_case) is literal
+      const canOpen = after !== '' && !/\s/.test(after) && !(marker[0] === '_' && WORD_CHAR.test(before));
+      let close = -1;
+      for (let from = i + marker.length + 1; canOpen && from <= text.length - marker.length; from++) {
+        if (!text.startsWith(marker, from) || /\s/.test(text[from - 1])) continue;
+        if (marker === '*' && text[from + 1] === '*') { from++; continue; } // Part of a "**" pair
+        if (marker[0] === '_' && WORD_CHAR.test(text[from + marker.length] ?? '')) continue;
+        close = from;
+        break;
+      }
+      if (close !== -1) {
+        flush();
+        out.push({ type, children: parseInline(text.slice(i + marker.length, close)) });
+        i = close + marker.length;
+        continue;
+      }
+      if (canOpen && marker.length === 2 && !text.includes(marker, i + 2)) {
+        flush();
+        out.push({ type, children: parseInline(text.slice(i + 2)) });
+        i = text.length;
+        continue;
+      }
+    }
+
+    buffer += text[i];
+    i++;
+  }
+  flush();
+  return out;
+};
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const inlineToHtml = (nodes: MarkdownInline[]): string =>
+  nodes.map((node) => {
+    switch (node.type) {
+      case 'text': return escapeHtml(node.text);
+      case 'break': return '<br>';
+      case 'strong': return `<strong>${inlineToHtml(node.children)}</strong>`;
+      case 'em': return `<em>${inlineToHtml(node.children)}</em>`;
+      case 'strike': return `<s>${inlineToHtml(node.children)}</s>`;
+      case 'code': return `<code>${escapeHtml(node.text)}</code>`;
+      case 'link': return `<a href="${escapeHtml(node.href)}">${inlineToHtml(node.children)}</a>`;
+    }
+  }).join('');
+
+const inlineHtml = (text: string) => inlineToHtml(parseInline(text));
+
+/**
+ * Serializes Markdown to HTML for exports, from the same parse the app renders. Every piece
+ * of text is escaped, so the result is safe to open or print. Headings move down by
+ * `headingOffset` levels to sit under the export's own titles.
+ */
+export const markdownToHtml = (markdown: string, headingOffset = 0): string =>
+  parseMarkdown(markdown).map((block) => {
+    switch (block.type) {
+      case 'heading': {
+        const level = Math.min(block.level + headingOffset, 6);
+        return `<h${level}>${inlineHtml(block.text)}</h${level}>`;
+      }
+      case 'paragraph': return `<p>${inlineHtml(block.text)}</p>`;
+      case 'quote': return `<blockquote>${inlineHtml(block.text)}</blockquote>`;
+      case 'rule': return '<hr>';
+      case 'code': return `<pre>${escapeHtml(block.text)}</pre>`;
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+        const items = block.items.map((item) => `<li style="margin-left:${item.depth * 1.5}em">${inlineHtml(item.text)}</li>`).join('');
+        return `<${tag}${start}>${items}</${tag}>`;
+      }
+      case 'table': {
+        const align = (c: number) => (block.align[c] ? ` style="text-align:${block.align[c]}"` : '');
+        const head = block.header.map((cell, c) => `<th${align(c)}>${inlineHtml(cell)}</th>`).join('');
+        const rows = block.rows.map((row) => `<tr>${row.map((cell, c) => `<td${align(c)}>${inlineHtml(cell)}</td>`).join('')}</tr>`).join('');
+        return `<table><thead><tr>${head}</tr></thead><tbody>${rows}</tbody></table>`;
+      }
+    }
+  }).join('\n');
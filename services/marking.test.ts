@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { DifficultyLevel, ExamSection, McqQuestion, NumericQuestion, Question } from '../types';
+import { MARKING_SCHEMES, countedInSection, marksForAnswer, scoreExam } from './marking';
+
+const [standard, icaiFoundation, icaiMcq] = MARKING_SCHEMES;
+
+const mcq = (id: string): McqQuestion => ({ kind: 'mcq', id, text: id, options: ['a', 'b', 'c', 'd'], correctOptionIndex: 2, explanation: '' });
+const numeric: NumericQuestion = { kind: 'numeric', id: 'n1', text: 'n1', correctValue: 250000, unit: '₹', explanation: '' };
+
+describe('marksForAnswer', () => {
+  it('awards, penalises and skips MCQs by the scheme', () => {
+    expect(marksForAnswer(mcq('q1'), 2, icaiFoundation)).toBe(1);
+    expect(marksForAnswer(mcq('q1'), 0, icaiFoundation)).toBe(-0.25);
+    expect(marksForAnswer(mcq('q1'), undefined, icaiFoundation)).toBe(0);
+    expect(marksForAnswer(mcq('q1'), 2, icaiMcq)).toBe(2);
+  });
+
+  it('never takes marks off a wrong numeric answer', () => {
+    expect(marksForAnswer(numeric, { value: '2.5 lakh' }, icaiFoundation)).toBe(1);
+    expect(marksForAnswer(numeric, { value: '3 lakh' }, icaiFoundation)).toBe(0);
+  });
+});
+
+describe('scoreExam', () => {
+  const questions: Question[] = [mcq('q1'), mcq('q2'), mcq('q3'), mcq('q4')];
+
+  it('nets out negative marks and rounds them', () => {
+    const score = scoreExam(
+      { questions, answers: { 0: 2, 1: 2, 2: 0 } },
+      { level: DifficultyLevel.FOUNDATION, markingScheme: icaiFoundation }
+    );
+    expect(score).toMatchObject({ correct: 2, wrong: 1, skipped: 1, netMarks: 1.75, maxMarks: 4, percentage: 44, isPass: true });
+  });
+
+  it('uses the pass mark for the exam level', () => {
+    const state = { questions, answers: { 0: 2, 1: 2 } };
+    expect(scoreExam(state, { level: DifficultyLevel.FOUNDATION, markingScheme: standard })).toMatchObject({ passPercentage: 50, isPass: true });
+    expect(scoreExam(state, { level: DifficultyLevel.FINAL, markingScheme: standard })).toMatchObject({ passPercentage: 60, isPass: false });
+  });
+
+  it('marks only the first answers of an internal choice', () => {
+    const section: ExamSection = { id: 's1', title: 'paper.answerAny', instructions: '', start: 0, count: 4, attemptCount: 2 };
+    expect(countedInSection(section, { 1: 2, 2: 2, 3: 2 })).toEqual([1, 2]);
+    expect(countedInSection(section, { 3: 2 })).toEqual([0, 3]);
+    const score = scoreExam({ questions, answers: { 1: 2, 2: 0, 3: 2 }, sections: [section] }, { level: DifficultyLevel.FOUNDATION });
+    expect(score).toMatchObject({ correct: 1, wrong: 1, maxMarks: 2 });
+  });
+});
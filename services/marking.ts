@@ -0,0 +1,159 @@
+import { isNumericAnswer, isNumericAnswerCorrect } from './numericAnswer';
+import { Answer, DescriptiveGrade, DifficultyLevel, ExamConfig, ExamSection, ExamState, MarkingScheme, Question, ScoreBreakdown } from '../types';
+
+export const MARKING_SCHEMES: MarkingScheme[] = [
+  {
+    id: 'standard',
+    name: 'Standard (1 mark, no negative)',
+    marksPerQuestion: 1,
+    negativeMarks: 0,
+    // Practice target that rises with the level, above ICAI's 40% so a pass here leaves a margin
+    passPercentage: {
+      [DifficultyLevel.FOUNDATION]: 50,
+      [DifficultyLevel.INTERMEDIATE]: 55,
+      [DifficultyLevel.FINAL]: 60,
+    },
+  },
+  {
+    id: 'icai-foundation-mcq',
+    name: 'ICAI Foundation MCQ (1 mark, −0.25)',
+    marksPerQuestion: 1,
+    negativeMarks: 0.25,
+    // Only Foundation papers are marked this way; ICAI's 40% per paper is kept at the other levels
+    passPercentage: {
+      [DifficultyLevel.FOUNDATION]: 40,
+      [DifficultyLevel.INTERMEDIATE]: 40,
+      [DifficultyLevel.FINAL]: 40,
+    },
+  },
+  {
+    id: 'icai-mcq',
+    name: 'ICAI Inter / Final MCQ (2 marks, no negative)',
+    marksPerQuestion: 2,
+    negativeMarks: 0,
+    // ICAI requires 40% in each paper at Intermediate and Final, as at Foundation
+    passPercentage: {
+      [DifficultyLevel.FOUNDATION]: 40,
+      [DifficultyLevel.INTERMEDIATE]: 40,
+      [DifficultyLevel.FINAL]: 40,
+    },
+  },
+];
+
+export const DEFAULT_MARKING_SCHEME = MARKING_SCHEMES[0];
+
+export const getMarkingScheme = (config: Pick<ExamConfig, 'markingScheme'>): MarkingScheme =>
+  config.markingScheme ?? DEFAULT_MARKING_SCHEME;
+
+// Marks available for a question; descriptive questions carry their rubric total.
+export const maxMarksFor = (question: Question, scheme: MarkingScheme): number => {
+  if (question.marks !== undefined) return question.marks;
+  if (question.kind === 'descriptive') return question.rubric.reduce((sum, r) => sum + r.marks, 0);
+  return scheme.marksPerQuestion;
+};
+
+/**
+ * Marks for a single question: positive if correct, negative if a wrong MCQ, zero if skipped.
+ * Numeric answers are all-or-nothing within tolerance; descriptive answers earn whatever the
+ * rubric grading awarded. Negative marking applies to MCQs only, as in ICAI papers.
+ */
+export const marksForAnswer = (
+  question: Question,
+  answer: Answer | undefined,
+  scheme: MarkingScheme,
+  grade?: DescriptiveGrade
+): number => {
+  if (answer === undefined || answer === '') return 0;
+  if (question.kind === 'descriptive') return grade?.awarded ?? 0;
+  if (question.kind === 'numeric') {
+    return isNumericAnswer(answer) && isNumericAnswerCorrect(question, answer) ? maxMarksFor(question, scheme) : 0;
+  }
+  return answer === question.correctOptionIndex ? maxMarksFor(question, scheme) : -scheme.negativeMarks;
+};
+
+// Rounded to two decimals so fractional penalties (e.g. 0.25) display cleanly.
+const round = (value: number) => Math.round(value * 100) / 100;
+
+type ScoredState = Pick<ExamState, 'questions' | 'answers' | 'grades' | 'sections'>;
+
+const isAnswered = (answer: Answer | undefined) => answer !== undefined && answer !== '';
+
+/**
+ * Question indices a section marks. With internal choice ("any 4 of 5") only the first
+ * `attemptCount` answers count, as an ICAI examiner marks them in order; if fewer were
+ * answered, the first unanswered questions make up the rest as skipped.
+ */
+export const countedInSection = (section: ExamSection, answers: ExamState['answers']): number[] => {
+  const indices = Array.from({ length: section.count }, (_, i) => section.start + i);
+  if (!section.attemptCount || section.attemptCount >= section.count) return indices;
+  const answered = indices.filter((idx) => isAnswered(answers[idx])).slice(0, section.attemptCount);
+  const fillers = indices.filter((idx) => !isAnswered(answers[idx])).slice(0, section.attemptCount - answered.length);
+  return [...answered, ...fillers].sort((a, b) => a - b);
+};
+
+// Every question index that contributes to the score.
+export const countedQuestions = (state: Pick<ExamState, 'questions' | 'answers' | 'sections'>): number[] =>
+  state.sections?.length
+    ? state.sections.flatMap((section) => countedInSection(section, state.answers))
+    : state.questions.map((_, idx) => idx);
+
+const tally = (
+  state: ScoredState,
+  indices: number[],
+  config: Pick<ExamConfig, 'level' | 'markingScheme'>
+): ScoreBreakdown => {
+  const scheme = getMarkingScheme(config);
+  let correct = 0;
+  let partial = 0;
+  let wrong = 0;
+  let skipped = 0;
+  let marksGained = 0;
+  let marksLost = 0;
+  let maxMarks = 0;
+
+  indices.forEach((idx) => {
+    const q = state.questions[idx];
+    const available = maxMarksFor(q, scheme);
+    const answer = state.answers[idx];
+    const marks = marksForAnswer(q, answer, scheme, state.grades?.[idx]);
+    maxMarks += available;
+    if (!isAnswered(answer)) {
+      skipped++;
+    } else if (marks >= available) {
+      correct++;
+      marksGained += marks;
+    } else if (marks > 0) {
+      partial++;
+      marksGained += marks;
+    } else {
+      wrong++;
+      marksLost -= marks;
+    }
+  });
+
+  const netMarks = round(marksGained - marksLost);
+  const percentage = maxMarks === 0 ? 0 : Math.round((netMarks / maxMarks) * 100);
+  const passPercentage = scheme.passPercentage[config.level] ?? 50;
+  return {
+    correct,
+    partial,
+    wrong,
+    skipped,
+    marksGained: round(marksGained),
+    marksLost: round(marksLost),
+    netMarks,
+    maxMarks: round(maxMarks),
+    percentage,
+    passPercentage,
+    isPass: percentage >= passPercentage,
+  };
+};
+
+export const scoreExam = (state: ScoredState, config: Pick<ExamConfig, 'level' | 'markingScheme'>): ScoreBreakdown =>
+  tally(state, countedQuestions(state), config);
+
+export const scoreSection = (
+  state: ScoredState,
+  section: ExamSection,
+  config: Pick<ExamConfig, 'level' | 'markingScheme'>
+): ScoreBreakdown => tally(state, countedInSection(section, state.answers), config);
@@ -0,0 +1,87 @@
+import { Language, Lesson, Note, NoteSource } from '../types';
+import { translate } from './i18n';
+import { read, write } from './storage';
+
+export const loadNotes = (): Note[] => read('notes');
+
+const writeNotes = (notes: Note[]) => write('notes', notes);
+
+/** Adds a note at the top of the list and returns the list with the new note first. */
+export const createNote = (fields: Partial<Pick<Note, 'title' | 'content' | 'tags' | 'source'>> = {}): Note[] => {
+  const now = Date.now();
+  const note: Note = { id: now.toString(), title: '', content: '', lastModified: now, ...fields };
+  const notes = [note, ...loadNotes()];
+  writeNotes(notes);
+  return notes;
+};
+
+export const updateNote = (id: string, updates: Partial<Note>): Note[] => {
+  const notes = loadNotes().map((n) => (n.id === id ? { ...n, ...updates, lastModified: Date.now() } : n));
+  writeNotes(notes);
+  return notes;
+};
+
+export const deleteNote = (id: string): Note[] => {
+  const notes = loadNotes().filter((n) => n.id !== id);
+  writeNotes(notes);
+  return notes;
+};
+
+// Tags are compared lowercased, without a leading "#"
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase();
+
+export const allTags = (notes: Note[]): string[] =>
+  Array.from(new Set(notes.flatMap((n) => n.tags ?? []))).sort();
+
+export const describeSource = (source: NoteSource, language = Language.ENGLISH): string =>
+  source.type === 'lesson'
+    ? `${source.topic}${source.sectionTitle ? ` › ${source.sectionTitle}` : ''}`
+    : translate(language, 'notes.questionSource', { number: source.questionIndex + 1, text: source.questionText });
+
+const terms = (query: string) => query.normalize('NFC').toLocaleLowerCase().split(/\s+/).filter(Boolean);
+
+const matchesAll = (text: string, words: string[]) => {
+  const haystack = text.normalize('NFC').toLocaleLowerCase();
+  return words.every((w) => haystack.includes(w));
+};
+
+// A short excerpt around the first match, for search results
+const snippetFor = (text: string, word: string) => {
+  const at = text.normalize('NFC').toLocaleLowerCase().indexOf(word);
+  if (at === -1) return text.slice(0, 120);
+  const start = Math.max(0, at - 50);
+  return `${start > 0 ? '…' : ''}${text.slice(start, at + 70).replace(/\s+/g, ' ')}${at + 70 < text.length ? '…' : ''}`;
+};
+
+export interface LessonMatch {
+  lesson: Lesson;
+  sectionIndex?: number; // The first section containing the query, when it is not just the title
+  snippet: string;
+}
+
+/**
+ * Full-text search over notes (title, text, tags and source) and saved lessons (topic,
+ * subject and sections). Every word of the query must appear; case is ignored.
+ */
+export const searchLibrary = (
+  query: string,
+  notes: Note[],
+  lessons: Lesson[],
+  language = Language.ENGLISH
+): { notes: Note[]; lessons: LessonMatch[] } => {
+  const words = terms(query);
+  if (words.length === 0) return { notes, lessons: [] };
+
+  const noteMatches = notes.filter((n) =>
+    matchesAll([n.title, n.content, ...(n.tags ?? []), n.source ? describeSource(n.source, language) : ''].join('\n'), words)
+  );
+  const lessonMatches = lessons
+    .filter((l) => matchesAll([l.topic, l.subject, ...l.sections.map((s) => `${s.title}\n${s.content}`)].join('\n'), words))
+    .map((lesson): LessonMatch => {
+      const sectionIndex = lesson.sections.findIndex((s) => matchesAll(`${s.title}\n${s.content}`, words.slice(0, 1)));
+      return sectionIndex === -1
+        ? { lesson, snippet: lesson.subject }
+        : { lesson, sectionIndex, snippet: snippetFor(lesson.sections[sectionIndex].content, words[0]) };
+    });
+  return { notes: noteMatches, lessons: lessonMatches };
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { NumericQuestion } from '../types';
+import { answerValueInQuestionUnit, isWithinTolerance, parseNumericInput } from './numericAnswer';
+
+describe('parseNumericInput', () => {
+  it.each([
+    ['1,04,000', 104000],
+    ['₹ 2.5', 2.5],
+    ['Rs. 1,200', 1200],
+    ['(3,000)', -3000],
+    ['-500', -500],
+    ['₹ -500', -500],
+    ['12.2%', 12.2],
+    ['.5', 0.5],
+    ['2.5 lakh', 2.5],
+    ['10 rupees', 10],
+  ])('reads %s', (input, expected) => {
+    expect(parseNumericInput(input)).toBe(expected);
+  });
+
+  it.each(['', 'abc', '1e5', '12abc3', '1.2.3', '--5', '5 apples', '₹'])('rejects %j', (input) => {
+    expect(parseNumericInput(input)).toBeNaN();
+  });
+});
+
+describe('answerValueInQuestionUnit', () => {
+  const inRupees: NumericQuestion = { kind: 'numeric', id: 'n1', text: '', explanation: '', correctValue: 250000, unit: '₹' };
+  const inLakhs: NumericQuestion = { ...inRupees, correctValue: 2.5, unit: '₹ lakh' };
+
+  it('scales a figure typed with a scale word', () => {
+    expect(answerValueInQuestionUnit(inRupees, { value: '2.5 lakh' })).toBe(250000);
+    expect(answerValueInQuestionUnit(inLakhs, { value: '250000', unit: '₹' })).toBe(2.5);
+  });
+
+  it('reads a bare figure in the question unit', () => {
+    expect(answerValueInQuestionUnit(inLakhs, { value: '2.5' })).toBe(2.5);
+  });
+});
+
+describe('isWithinTolerance', () => {
+  it('applies each kind of tolerance', () => {
+    expect(isWithinTolerance(100.4, 100)).toBe(true);
+    expect(isWithinTolerance(101, 100)).toBe(false);
+    expect(isWithinTolerance(99, 100, { type: 'absolute', value: 1 })).toBe(true);
+    expect(isWithinTolerance(12.34, 12.3, { type: 'decimals', value: 1 })).toBe(true);
+    expect(isWithinTolerance(12.36, 12.3, { type: 'decimals', value: 1 })).toBe(false);
+    expect(isWithinTolerance(NaN, 0, { type: 'absolute', value: 1 })).toBe(false);
+  });
+});
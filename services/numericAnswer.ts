@@ -0,0 +1,96 @@
+import { Language, NumericAnswer, NumericQuestion, NumericTolerance } from '../types';
+import { translate } from './i18n';
+
+export const DEFAULT_TOLERANCE: NumericTolerance = { type: 'percent', value: 0.5 };
+
+// Scale words students commonly type after a figure; ₹, Rs. and % are cosmetic.
+const UNIT_SCALES: Record<string, number> = {
+  thousand: 1e3,
+  thousands: 1e3,
+  k: 1e3,
+  lakh: 1e5,
+  lakhs: 1e5,
+  lac: 1e5,
+  lacs: 1e5,
+  million: 1e6,
+  millions: 1e6,
+  crore: 1e7,
+  crores: 1e7,
+  cr: 1e7,
+};
+
+const scaleOf = (unit?: string): number => {
+  if (!unit) return 1;
+  const words = unit.toLowerCase().replace(/[^a-z\s]/g, ' ').split(/\s+/).filter(Boolean);
+  return words.reduce((scale, word) => scale * (UNIT_SCALES[word] ?? 1), 1);
+};
+
+// Currency marks allowed before or after the figure; they carry no scale.
+const CURRENCY_WORDS = new Set(['rs', 'rupees', 'inr']);
+
+// Sign, optional currency, the figure with comma grouping, then an optional % and trailing words
+const FIGURE = /^([-−+]?)\s*(?:₹|rs\.?|inr)?\s*([-−+]?)\s*(\d[\d,]*(?:\.\d*)?|\.\d+)\s*%?\s*([a-z.\s]*)$/;
+
+/**
+ * Parses a typed figure such as "1,04,000", "₹ 2.5", "(3,000)", "12.2%" or "2.5 lakh".
+ * Returns NaN for anything else, so a typo is never read as a different number.
+ */
+export const parseNumericInput = (input: string): number => {
+  let text = input.trim().toLowerCase();
+  const bracketed = /^\(.*\)$/.test(text);
+  if (bracketed) text = text.slice(1, -1).trim();
+  const match = FIGURE.exec(text);
+  if (!match) return NaN;
+  const [, leadingSign, currencySign, figure, words] = match;
+  if (leadingSign && currencySign) return NaN;
+  const unknownWord = words.split(/[\s.]+/).filter(Boolean).some((word) => !(word in UNIT_SCALES) && !CURRENCY_WORDS.has(word));
+  if (unknownWord) return NaN;
+  const value = Number(figure.replace(/,/g, ''));
+  const negative = bracketed || /[-−]/.test(leadingSign + currencySign);
+  return negative ? -value : value;
+};
+
+// Value in the question's own unit, so "2.5 lakh" compares equal to 250000 in ₹.
+// An explicitly typed unit wins; otherwise a scale word in the figure itself;
+// otherwise the figure is taken to be in the question's unit.
+export const answerValueInQuestionUnit = (question: NumericQuestion, answer: NumericAnswer): number => {
+  const raw = parseNumericInput(answer.value);
+  const questionScale = scaleOf(question.unit);
+  const typedScale = answer.unit?.trim()
+    ? scaleOf(answer.unit)
+    : scaleOf(answer.value) !== 1 ? scaleOf(answer.value) : questionScale;
+  return (raw * typedScale) / questionScale;
+};
+
+export const isWithinTolerance = (actual: number, expected: number, tolerance: NumericTolerance = DEFAULT_TOLERANCE): boolean => {
+  if (!Number.isFinite(actual)) return false;
+  switch (tolerance.type) {
+    case 'absolute':
+      return Math.abs(actual - expected) <= tolerance.value;
+    case 'decimals': {
+      const factor = 10 ** tolerance.value;
+      return Math.round(actual * factor) === Math.round(expected * factor);
+    }
+    case 'percent':
+    default:
+      return Math.abs(actual - expected) <= Math.abs(expected) * (tolerance.value / 100);
+  }
+};
+
+export const isNumericAnswerCorrect = (question: NumericQuestion, answer: NumericAnswer): boolean =>
+  isWithinTolerance(answerValueInQuestionUnit(question, answer), question.correctValue, question.tolerance);
+
+export const describeTolerance = ({ type, value }: NumericTolerance = DEFAULT_TOLERANCE, unit?: string, language = Language.ENGLISH): string => {
+  switch (type) {
+    case 'absolute':
+      return translate(language, 'tolerance.absolute', { value, unit: unit ? ` ${unit}` : '' });
+    case 'decimals':
+      return value === 0 ? translate(language, 'tolerance.wholeNumber') : translate(language, 'tolerance.decimals', { count: value });
+    case 'percent':
+    default:
+      return translate(language, 'tolerance.percent', { value });
+  }
+};
+
+export const isNumericAnswer = (answer: unknown): answer is NumericAnswer =>
+  typeof answer === 'object' && answer !== null && typeof (answer as NumericAnswer).value === 'string';
@@ -0,0 +1,129 @@
+import { DifficultyLevel, ExamSection, Language, QuestionKind } from '../types';
+import { MessageKey, MessageParams, translate } from './i18n';
+import { papersFor } from './syllabus';
+
+export const FULL_PAPER_MINUTES = 180;
+
+export interface SectionBlueprint {
+  id: string;
+  title: MessageKey;
+  titleParams?: MessageParams;
+  kind: QuestionKind;
+  questionCount: number;
+  attemptCount?: number; // Internal choice, e.g. answer any 4 of 5
+  marksPerQuestion: number;
+  instructions: MessageKey;
+  instructionParams?: MessageParams;
+}
+
+export interface PaperBlueprint {
+  markingSchemeId: string; // Decides negative marking and the pass mark
+  sections: SectionBlueprint[];
+}
+
+// Inter and Final papers: 30 marks of MCQs, then Question 1 compulsory and any four of the rest.
+const MCQ_AND_DESCRIPTIVE: PaperBlueprint = {
+  markingSchemeId: 'icai-mcq',
+  sections: [
+    {
+      id: 'A',
+      title: 'paper.partAMcq',
+      kind: 'mcq',
+      questionCount: 15,
+      marksPerQuestion: 2,
+      instructions: 'paper.allCompulsory',
+      instructionParams: { total: 15, marks: 2 },
+    },
+    {
+      id: 'B1',
+      title: 'paper.partBQuestion',
+      titleParams: { number: 1 },
+      kind: 'descriptive',
+      questionCount: 1,
+      marksPerQuestion: 14,
+      instructions: 'paper.questionCompulsory',
+      instructionParams: { number: 1 },
+    },
+    {
+      id: 'B2',
+      title: 'paper.partBQuestions',
+      titleParams: { first: 2, last: 6 },
+      kind: 'descriptive',
+      questionCount: 5,
+      attemptCount: 4,
+      marksPerQuestion: 14,
+      instructions: 'paper.answerAny',
+      instructionParams: { attempt: 4, total: 5 },
+    },
+  ],
+};
+
+// Foundation Papers 1 and 2 are fully descriptive.
+const DESCRIPTIVE_ONLY: PaperBlueprint = {
+  markingSchemeId: 'icai-mcq',
+  sections: [
+    {
+      id: 'Q1',
+      title: 'common.questionNumber',
+      titleParams: { number: 1 },
+      kind: 'descriptive',
+      questionCount: 1,
+      marksPerQuestion: 20,
+      instructions: 'paper.questionCompulsory',
+      instructionParams: { number: 1 },
+    },
+    {
+      id: 'Q2',
+      title: 'paper.questions',
+      titleParams: { first: 2, last: 6 },
+      kind: 'descriptive',
+      questionCount: 5,
+      attemptCount: 4,
+      marksPerQuestion: 20,
+      instructions: 'paper.answerAny',
+      instructionParams: { attempt: 4, total: 5 },
+    },
+  ],
+};
+
+// Foundation Papers 3 and 4 are objective, with negative marking.
+const OBJECTIVE_ONLY: PaperBlueprint = {
+  markingSchemeId: 'icai-foundation-mcq',
+  sections: [
+    {
+      id: 'A',
+      title: 'paper.mcq',
+      kind: 'mcq',
+      questionCount: 100,
+      marksPerQuestion: 1,
+      instructions: 'paper.allCompulsoryNegative',
+      instructionParams: { total: 100, marks: 1, deduction: 0.25 },
+    },
+  ],
+};
+
+const BLUEPRINTS_BY_PAPER: Record<string, PaperBlueprint> = {
+  'foundation-1': DESCRIPTIVE_ONLY,
+  'foundation-2': DESCRIPTIVE_ONLY,
+  'foundation-3': OBJECTIVE_ONLY,
+  'foundation-4': OBJECTIVE_ONLY,
+};
+
+export const blueprintFor = (level: DifficultyLevel, paperId?: string): PaperBlueprint => {
+  const id = paperId ?? papersFor(level)[0].id;
+  return BLUEPRINTS_BY_PAPER[id] ?? MCQ_AND_DESCRIPTIVE;
+};
+
+export const blueprintQuestionCount = (blueprint: PaperBlueprint) =>
+  blueprint.sections.reduce((sum, s) => sum + s.questionCount, 0);
+
+// Marks the paper is out of: every compulsory question plus the attempted share of each choice.
+export const blueprintTotalMarks = (blueprint: PaperBlueprint) =>
+  blueprint.sections.reduce((sum, s) => sum + (s.attemptCount ?? s.questionCount) * s.marksPerQuestion, 0);
+
+/** A section's heading in the language; text saved by older attempts is shown as it is. */
+export const sectionTitle = (section: Pick<ExamSection, 'title' | 'titleParams'>, language: Language) =>
+  translate(language, section.title as MessageKey, section.titleParams);
+
+export const sectionInstructions = (section: Pick<ExamSection, 'instructions' | 'instructionParams'>, language: Language) =>
+  translate(language, section.instructions as MessageKey, section.instructionParams);
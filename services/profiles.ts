@@ -0,0 +1,57 @@
+import { Profile } from '../types';
+import { deleteProfileData, readRegistry, writeRegistry } from './storage';
+
+export const loadProfiles = (): Profile[] => readRegistry().profiles;
+
+export const activeProfile = (): Profile => {
+  const { profiles, activeId } = readRegistry();
+  return profiles.find((p) => p.id === activeId) ?? profiles[0];
+};
+
+// The PIN only keeps students out of each other's data on a shared machine. It is not
+// encryption: anyone with access to the browser's storage can still read the data.
+export const hashPin = (profileId: string, pin: string): string => {
+  let hash = 0x811c9dc5; // FNV-1a, salted with the profile id
+  for (const char of `${profileId}:${pin}`) {
+    hash ^= char.codePointAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+export const checkPin = (profile: Profile, pin: string) => !profile.pinHash || hashPin(profile.id, pin) === profile.pinHash;
+
+export const isValidPin = (pin: string) => /^\d{4,8}$/.test(pin);
+
+/** Registers a profile; it becomes active only once switched to. */
+export const createProfile = (name: string, pin?: string): Profile => {
+  const id = `profile-${Date.now()}`;
+  const profile: Profile = { id, name: name.trim(), createdAt: Date.now(), ...(pin ? { pinHash: hashPin(id, pin) } : {}) };
+  const registry = readRegistry();
+  writeRegistry({ ...registry, profiles: [...registry.profiles, profile] });
+  return profile;
+};
+
+/** Renames a profile or changes its PIN; a `pin` of null removes the lock. */
+export const updateProfile = (id: string, changes: { name?: string; pin?: string | null }): Profile[] => {
+  const registry = readRegistry();
+  const profiles = registry.profiles.map((p) => {
+    if (p.id !== id) return p;
+    const updated: Profile = { ...p, name: changes.name?.trim() || p.name };
+    if (changes.pin === null) delete updated.pinHash;
+    else if (changes.pin) updated.pinHash = hashPin(id, changes.pin);
+    return updated;
+  });
+  writeRegistry({ ...registry, profiles });
+  return profiles;
+};
+
+/** Deletes a profile other than the active one, with all its saved data. */
+export const deleteProfile = async (id: string): Promise<Profile[]> => {
+  const registry = readRegistry();
+  if (id === registry.activeId) throw new Error("The profile in use cannot be deleted.");
+  await deleteProfileData(id);
+  const profiles = registry.profiles.filter((p) => p.id !== id);
+  writeRegistry({ ...registry, profiles });
+  return profiles;
+};
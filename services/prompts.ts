@@ -0,0 +1,203 @@
+import { QuestionKind, SectionAction } from '../types';
+import { QuestionRequest, ScenarioRequest, LessonRequest, SectionRequest, TutorRequest, GradingRequest, SyllabusContext } from './providers/types';
+import { scriptInstruction } from './languages';
+
+const KIND_INSTRUCTIONS: Record<QuestionKind, { label: string; keys: string; guidelines: string }> = {
+  mcq: {
+    label: 'multiple-choice questions',
+    keys: 'id, text, options, correctOptionIndex, explanation, chapter, concept',
+    guidelines: `
+    1. Questions should be scenario-based or conceptual, matching the high standards of CA exams.
+    2. Provide 4 distinct options for each question.
+    3. Clearly mark the correct option index (0-3).
+    4. Provide a detailed explanation for the correct answer, citing relevant sections of law or accounting standards if applicable.`,
+  },
+  numeric: {
+    label: 'numerical (computed-answer) questions',
+    keys: 'id, text, correctValue, unit, toleranceType, toleranceValue, explanation, chapter, concept',
+    guidelines: `
+    1. Each question must ask for a single computed figure (e.g. profit, WACC, tax payable, depreciation, ratio).
+    2. Give all data needed for the computation in the question text and state the unit the answer should be in.
+    3. Set correctValue to the exact figure as a plain number, with no commas or currency symbols.
+    4. Set unit to the answer's unit (e.g. "₹", "%", "₹ lakh", "times").
+    5. Set toleranceType to "percent", "absolute" or "decimals" and toleranceValue accordingly, reflecting how ICAI would accept rounding differences.
+    6. Use the explanation for step-by-step working notes.`,
+  },
+  descriptive: {
+    label: 'descriptive (written-answer) questions',
+    keys: 'id, text, marks, modelAnswer, rubric, point, explanation, chapter, concept',
+    guidelines: `
+    1. Frame each question the way ICAI sets descriptive questions: a short fact pattern followed by a specific requirement.
+    2. Allot between 4 and 8 marks per question.
+    3. Write a complete model answer in the ICAI suggested-answer style.
+    4. Provide a marking rubric of 3 to 6 points; each point names what must appear in the answer and its marks, and the rubric marks must add up to the question's marks.
+    5. Use the explanation for examiner's comments on common mistakes.`,
+  },
+};
+
+// Every question is tagged so results can be broken down by topic; with a known paper
+// the chapter tag must come from the syllabus catalog so coverage can be tracked.
+const topicTagging = (syllabus?: SyllabusContext) => `Tag every question with "chapter" (the ICAI study material chapter it tests, named exactly as in the study material) and "concept" (the specific concept within that chapter, in a few words). Write both tags in English so they can be grouped across attempts.${
+  syllabus ? `\n    The chapter tag must be one of: ${syllabus.chapters.map((c) => `"${c}"`).join(', ')}.` : ''}`;
+
+// Bilingual mode: every item also carries an "english" object, so the two versions share one id.
+const englishOriginal = (bilingual: boolean | undefined, language: string, target: string) => bilingual
+  ? `Also give the English original of ${target}. Word it as the ICAI English study material would and say exactly what the ${language} version says.`
+  : '';
+
+const syllabusScope = (syllabus?: SyllabusContext) => syllabus
+  ? `This is ICAI ${syllabus.paper}.${syllabus.chapter ? ` Cover only the chapter "${syllabus.chapter}".` : ''}`
+  : '';
+
+export const buildQuestionPrompt = ({ subject, level, count, language, kind, topic, syllabus, marksPerQuestion, bilingual }: QuestionRequest): string => {
+  const instructions = KIND_INSTRUCTIONS[kind];
+  return `
+    You are a strict examiner for the Institute of Chartered Accountants. 
+    Create a simulated exam for the subject "${subject}" at the "${level}" level.
+    ${syllabusScope(syllabus)}
+    ${topic ? `Focus specifically on the topic: "${topic}".` : ''}
+    Generate ${count} ${instructions.label}.
+    
+    IMPORTANT LANGUAGE INSTRUCTION:
+    Generate the content in **${language}**.
+    ${scriptInstruction(language)}
+    However, keep the JSON keys (${instructions.keys}${bilingual ? ', english' : ''}) strictly in English.
+    ${englishOriginal(bilingual, language, `every question in an "english" object with the keys ${kind === 'mcq' ? 'text, options (in the same order) and explanation' : 'text and explanation'}`)}
+
+    Guidelines:${instructions.guidelines}
+    ${kind === 'descriptive' && marksPerQuestion ? `Each question carries exactly ${marksPerQuestion} marks (this overrides the range above); it may be split into sub-parts (a), (b) and (c).` : ''}
+
+    ${topicTagging(syllabus)}
+    
+    Return the response strictly as a JSON array.
+  `;
+};
+
+export const buildScenarioPrompt = ({ subject, level, count, questionsPerScenario, language, topic, syllabus, bilingual }: ScenarioRequest): string => `
+    You are a strict examiner for the Institute of Chartered Accountants. 
+    Create ${count} integrated case scenario${count === 1 ? '' : 's'} for the subject "${subject}" at the "${level}" level,
+    in the style of the case-scenario based MCQs in current ICAI papers.
+    ${syllabusScope(syllabus)}
+    ${topic ? `Focus specifically on the topic: "${topic}".` : ''}
+
+    IMPORTANT LANGUAGE INSTRUCTION:
+    Generate the content in **${language}**.
+    ${scriptInstruction(language)}
+    However, keep the JSON keys (id, title, passage, questions, text, options, correctOptionIndex, explanation, chapter, concept${bilingual ? ', english' : ''}) strictly in English.
+    ${englishOriginal(bilingual, language, 'every scenario in an "english" object with the keys title and passage, and of every question in an "english" object with the keys text, options (in the same order) and explanation')}
+
+    Guidelines:
+    1. Each scenario has a short title and a passage of 150 to 300 words: a realistic fact pattern with names, dates and figures.
+    2. Follow each passage with ${questionsPerScenario} multiple-choice questions that can only be answered from its facts.
+    3. Do not repeat the facts inside the questions; refer to "the scenario" instead.
+    4. Provide 4 distinct options per question, the zero-based correct option index, and a detailed explanation.
+
+    ${topicTagging(syllabus)}
+
+    Return the response strictly as a JSON array of scenarios.
+  `;
+
+export const buildGradingPrompt = ({ question, answer, level, language }: GradingRequest): string => `
+    You are an ICAI examiner marking a CA ${level} answer script.
+    Mark the student's answer strictly against the rubric below. Award partial marks per rubric point
+    (in steps of 0.5) for each point the answer covers, and never more than that point's marks.
+
+    Question: ${question.text}
+
+    Model answer:
+    ${question.modelAnswer}
+
+    Rubric:
+    ${question.rubric.map((r, i) => `${i + 1}. [${r.marks} marks] ${r.point}`).join('\n    ')}
+
+    Student's answer:
+    """
+    ${answer}
+    """
+
+    Write the comments and feedback in **${language}**. ${scriptInstruction(language)} Keep the JSON keys in English.
+    Return a JSON object: { "points": [{ "awarded": number, "comment": string }] (one entry per rubric point, in order), "feedback": string }.
+  `;
+
+export const buildLessonPrompt = ({ subject, level, topic, style, language, syllabus }: LessonRequest): string => `
+    You are the "CA Mastermind AI", the world's most effective Chartered Accountancy tutor.
+    Your goal is to ensure the student not only understands the topic but can score high marks in the real exam.
+    
+    Prepare a lesson on: "${topic}"
+    Subject: "${subject}"
+    Level: "${level}"
+    Teaching Style: "${style}"
+    ${syllabusScope(syllabus)}
+
+    IMPORTANT LANGUAGE INSTRUCTION:
+    Teach in **${language}**.
+    ${scriptInstruction(language)}
+
+    Style Guidelines:
+    - If style is "Simplify for Beginners": Use analogies, break down complex legal/accounting jargon into plain everyday ${language}, and focus on "why" things happen.
+    - If style is "Exam Oriented": Focus strictly on keywords, specific sections/standards that fetch marks, presentation tips, and common student mistakes.
+    - If style is "Master Class": Provide a deep comprehensive analysis, including exceptions, relevant case laws, and cross-references to other subjects.
+
+    OUTPUT FORMAT:
+    Do NOT return JSON. Return formatted Markdown text.
+    Structure the lesson strictly into these 5 sections using Markdown Level 2 Headers (##):
+    
+    ## Mastermind Overview
+    (A powerful, high-impact summary of what this topic is and why it matters.)
+
+    ## Core Concept Decoded
+    (The main explanation, tailored to the selected style.)
+
+    ## The "Examiner's Favorite" Points
+    (Specific areas that are frequently asked in exams.)
+
+    ## Practical Application / Case Study
+    (A real-world scenario or calculation.)
+
+    ## Mastermind Memory Hook
+    (A mnemonic or trick to remember this concept forever.)
+
+    Make the content inspiring, professional, and authoritative. Start directly with the first header.
+  `;
+
+const SECTION_ACTION_INSTRUCTIONS: Record<SectionAction, string> = {
+  simplify: 'Rewrite this section more simply: shorter sentences, everyday analogies and no unexplained jargon. Keep every point that fetches marks.',
+  deepen: 'Rewrite this section in more depth: add exceptions, the relevant sections of law or standards, and links to related topics.',
+  example: 'Write ONE more worked example for this section, different from those already given, with figures and the journal entry or computation where relevant. Start it with a bold "Another Example" label. Return only the new example.',
+  regenerate: 'Write this section again from scratch, covering the same ground in a fresh way.',
+};
+
+export const buildSectionPrompt = ({ subject, level, topic, style, language, sections, sectionIndex, action }: SectionRequest): string => `
+    You are the "CA Mastermind AI". You wrote the lesson below on "${topic}" (${subject}, ${level}, style: "${style}").
+
+    THE LESSON:
+    ${sections.map((s) => `## ${s.title}\n${s.content}`).join('\n\n')}
+
+    TASK for the section "${sections[sectionIndex].title}":
+    ${SECTION_ACTION_INSTRUCTIONS[action]}
+
+    Write in **${language}**. ${scriptInstruction(language)}
+    Return Markdown for this section only. Do NOT repeat the "## ${sections[sectionIndex].title}" header or any other section.
+  `;
+
+// System instruction for the ask-a-doubt chat; the conversation itself is sent as separate turns.
+export const buildTutorPrompt = ({ subject, level, topic, style, language, sections }: TutorRequest): string => `
+    You are the "CA Mastermind AI" tutor. The student has just studied the lesson below and is asking follow-up doubts.
+
+    Lesson topic: "${topic}"
+    Subject: "${subject}"
+    Level: "${level}"
+    Teaching Style: "${style}"
+
+    THE LESSON:
+    ${sections.map((s) => `## ${s.title}\n${s.content}`).join('\n\n')}
+
+    HOW TO ANSWER:
+    - Answer the student's latest question directly, building on the lesson rather than repeating it.
+    - For "what if" questions, explain how the treatment, provision or figure changes and why.
+    - When a point comes from the lesson, quote the relevant line as a Markdown blockquote (> ...) and name its section in bold.
+    - If the doubt goes beyond the lesson, answer it anyway, citing the relevant section of law or standard.
+    - Keep answers short and exam-focused. Use Markdown lists or tables where they help.
+
+    Reply in **${language}**. ${scriptInstruction(language)}
+  `;
@@ -0,0 +1,622 @@
+import { McqQuestion, NumericQuestion, DescriptiveQuestion, Scenario, Subject } from '../../types';
+
+type FixtureQuestion = Omit<McqQuestion, 'id'>;
+type FixtureNumeric = Omit<NumericQuestion, 'id'>;
+type FixtureDescriptive = Omit<DescriptiveQuestion, 'id'>;
+type FixtureScenario = Omit<Scenario, 'id'> & { questions: FixtureQuestion[] };
+
+// A small, hand-checked bank used by the mock provider for offline demos and tests.
+export const FIXTURE_QUESTIONS: Record<Subject, FixtureQuestion[]> = {
+  [Subject.ACCOUNTING]: [
+    {
+      text: "A firm purchased machinery for ₹5,00,000 and spent ₹20,000 on installation. Under the straight-line method with a useful life of 5 years and no residual value, what is the annual depreciation?",
+      chapter: "Property, Plant and Equipment",
+      concept: "Depreciation base",
+      options: ["₹1,00,000", "₹1,04,000", "₹96,000", "₹1,20,000"],
+      correctOptionIndex: 1,
+      explanation: "Installation costs are directly attributable to bringing the asset to working condition and are capitalised (AS 10). Depreciable amount = ₹5,20,000 ÷ 5 = ₹1,04,000.",
+    },
+    {
+      text: "Which accounting concept requires that revenue be recognised when it is earned, irrespective of when cash is received?",
+      chapter: "Theoretical Framework",
+      concept: "Accrual concept",
+      options: ["Going concern", "Consistency", "Accrual", "Materiality"],
+      correctOptionIndex: 2,
+      explanation: "The accrual concept records revenues and expenses in the period in which they are earned or incurred, not when cash changes hands.",
+    },
+  ],
+  [Subject.LAW]: [
+    {
+      text: "Under the Indian Contract Act, 1872, an agreement made with a minor is:",
+      chapter: "Indian Contract Act, 1872",
+      concept: "Minor's agreement",
+      options: ["Voidable at the option of the minor", "Valid", "Void ab initio", "Illegal"],
+      correctOptionIndex: 2,
+      explanation: "Following Mohori Bibee v. Dharmodas Ghose, an agreement with a minor is void ab initio under Section 11 read with Section 10.",
+    },
+    {
+      text: "Under the Companies Act, 2013, what is the minimum number of directors required for a public company?",
+      chapter: "Companies Act, 2013",
+      concept: "Board composition",
+      options: ["One", "Two", "Three", "Seven"],
+      correctOptionIndex: 2,
+      explanation: "Section 149(1) requires a minimum of three directors for a public company, two for a private company and one for a One Person Company.",
+    },
+  ],
+  [Subject.TAXATION]: [
+    {
+      text: "Under GST, which of the following is NOT eligible for input tax credit under Section 17(5) of the CGST Act?",
+      chapter: "Input Tax Credit",
+      concept: "Blocked credits",
+      options: ["Raw materials used in manufacture", "Food and beverages for employees (not obligatory under law)", "Capital goods used in business", "Input services for taxable supplies"],
+      correctOptionIndex: 1,
+      explanation: "Section 17(5)(b) blocks credit on food and beverages unless provision is obligatory for an employer under any law in force.",
+    },
+    {
+      text: "An individual is resident in India for a previous year if he is in India for at least how many days in that year (basic condition)?",
+      chapter: "Residence and Scope of Total Income",
+      concept: "Residential status",
+      options: ["120 days", "150 days", "182 days", "365 days"],
+      correctOptionIndex: 2,
+      explanation: "Section 6(1)(a) of the Income-tax Act: presence of 182 days or more in the previous year makes an individual resident.",
+    },
+  ],
+  [Subject.AUDITING]: [
+    {
+      text: "Which Standard on Auditing deals with the auditor's responsibilities relating to fraud in an audit of financial statements?",
+      chapter: "Standards on Auditing",
+      concept: "Fraud",
+      options: ["SA 200", "SA 240", "SA 315", "SA 700"],
+      correctOptionIndex: 1,
+      explanation: "SA 240 deals with the auditor's responsibilities relating to fraud, including identifying and assessing risks of material misstatement due to fraud.",
+    },
+    {
+      text: "Audit evidence obtained directly by the auditor is generally considered:",
+      chapter: "Audit Evidence",
+      concept: "Reliability of evidence",
+      options: ["Less reliable than evidence obtained indirectly", "Equally reliable as oral representations", "More reliable than evidence obtained indirectly", "Irrelevant for forming an opinion"],
+      correctOptionIndex: 2,
+      explanation: "SA 500 states that evidence obtained directly by the auditor (e.g. observation) is more reliable than evidence obtained indirectly or by inference.",
+    },
+  ],
+  [Subject.FINANCIAL_MANAGEMENT]: [
+    {
+      text: "A company's cost of equity is 15%, post-tax cost of debt is 8%, and it is financed 60% by equity and 40% by debt. What is its WACC?",
+      chapter: "Cost of Capital",
+      concept: "WACC",
+      options: ["11.5%", "12.2%", "11.8%", "12.8%"],
+      correctOptionIndex: 1,
+      explanation: "WACC = (0.60 × 15%) + (0.40 × 8%) = 9% + 3.2% = 12.2%.",
+    },
+    {
+      text: "Which capital budgeting technique ignores the time value of money?",
+      chapter: "Investment Decisions",
+      concept: "Payback period",
+      options: ["Net Present Value", "Internal Rate of Return", "Traditional Payback Period", "Profitability Index"],
+      correctOptionIndex: 2,
+      explanation: "The traditional payback period simply counts years to recover the initial outlay and does not discount cash flows.",
+    },
+  ],
+  [Subject.IT_SM]: [
+    {
+      text: "In Porter's Five Forces model, which force is strengthened when switching costs for buyers are low?",
+      chapter: "Strategic Analysis",
+      concept: "Porter's Five Forces",
+      options: ["Threat of new entrants", "Bargaining power of buyers", "Bargaining power of suppliers", "Intensity of rivalry only"],
+      correctOptionIndex: 1,
+      explanation: "Low switching costs let buyers move between sellers easily, increasing their bargaining power.",
+    },
+    {
+      text: "Which of the following is a preventive control in an information system?",
+      chapter: "Information Systems Controls",
+      concept: "Preventive controls",
+      options: ["Audit trail review", "Access control with passwords", "Exception reports", "Backup restoration"],
+      correctOptionIndex: 1,
+      explanation: "Preventive controls stop errors or irregularities before they occur; access controls prevent unauthorised use. Audit trails and exception reports are detective.",
+    },
+  ],
+  [Subject.ADVANCED_ACCOUNTING]: [
+    {
+      text: "Under AS 14, in an amalgamation in the nature of merger, the assets and liabilities of the transferor company are recorded at:",
+      chapter: "Amalgamation of Companies",
+      concept: "Pooling of interests method",
+      options: ["Fair values", "Book values", "Realisable values", "Replacement costs"],
+      correctOptionIndex: 1,
+      explanation: "The pooling of interests method applies to amalgamations in the nature of merger and records assets and liabilities at their existing carrying amounts.",
+    },
+    {
+      text: "Under AS 7 (Construction Contracts), when the outcome of a contract cannot be estimated reliably, revenue is recognised:",
+      chapter: "Construction Contracts",
+      concept: "Revenue recognition",
+      options: ["In full on signing the contract", "Only to the extent of contract costs incurred that are probable of recovery", "On a straight-line basis", "Only on completion"],
+      correctOptionIndex: 1,
+      explanation: "AS 7 para 31: revenue is recognised only to the extent of contract costs incurred that it is probable will be recoverable; costs are expensed as incurred.",
+    },
+  ],
+  [Subject.QUANTITATIVE_APTITUDE]: [
+    {
+      text: "₹10,000 is invested at 10% per annum compound interest, compounded annually. What is the amount after 2 years?",
+      chapter: "Mathematics of Finance",
+      concept: "Compound interest",
+      options: ["₹12,000", "₹12,100", "₹12,200", "₹11,000"],
+      correctOptionIndex: 1,
+      explanation: "A = P(1 + r)^n = 10,000 × 1.1² = ₹12,100.",
+    },
+    {
+      text: "The arithmetic mean of 5, 8, 11, 14 and 17 is:",
+      chapter: "Measures of Central Tendency and Dispersion",
+      concept: "Arithmetic mean",
+      options: ["10", "11", "12", "55"],
+      correctOptionIndex: 1,
+      explanation: "Sum = 55 over 5 observations, so the mean is 11.",
+    },
+  ],
+  [Subject.ECONOMICS]: [
+    {
+      text: "If the price of a good rises by 10% and its quantity demanded falls by 20%, the price elasticity of demand is:",
+      chapter: "Theory of Demand and Supply",
+      concept: "Price elasticity of demand",
+      options: ["0.5", "1", "2", "20"],
+      correctOptionIndex: 2,
+      explanation: "Elasticity = % change in quantity ÷ % change in price = 20 ÷ 10 = 2 (ignoring the sign), so demand is elastic.",
+    },
+    {
+      text: "Under perfect competition, a firm in short-run equilibrium produces where:",
+      chapter: "Price Determination in Different Markets",
+      concept: "Perfect competition equilibrium",
+      options: ["AR = AC", "MR = MC and MC is rising", "Price is above MR", "TR is maximised"],
+      correctOptionIndex: 1,
+      explanation: "Profit is maximised where MR = MC with MC cutting MR from below; under perfect competition MR equals price.",
+    },
+  ],
+  [Subject.COSTING]: [
+    {
+      text: "Annual demand is 8,000 units, ordering cost ₹100 per order and carrying cost ₹4 per unit per annum. The Economic Order Quantity is:",
+      chapter: "Material Cost",
+      concept: "Economic order quantity",
+      options: ["400 units", "632 units", "800 units", "2,000 units"],
+      correctOptionIndex: 1,
+      explanation: "EOQ = √(2 × 8,000 × 100 ÷ 4) = √4,00,000 ≈ 632 units.",
+    },
+    {
+      text: "Under marginal costing, fixed production overheads are:",
+      chapter: "Marginal Costing",
+      concept: "Treatment of fixed costs",
+      options: ["Included in inventory valuation", "Charged to the period as period costs", "Apportioned to products", "Ignored altogether"],
+      correctOptionIndex: 1,
+      explanation: "Marginal costing treats fixed overheads as period costs written off against contribution; inventory is valued at variable cost.",
+    },
+  ],
+  [Subject.FINANCIAL_REPORTING]: [
+    {
+      text: "Under Ind AS 115, revenue is recognised when (or as) the entity:",
+      chapter: "Ind AS 115 Revenue from Contracts with Customers",
+      concept: "Satisfaction of performance obligations",
+      options: ["Receives cash", "Signs the contract", "Satisfies a performance obligation by transferring control", "Issues an invoice"],
+      correctOptionIndex: 2,
+      explanation: "Step 5 of the Ind AS 115 model: revenue is recognised as each performance obligation is satisfied by transferring control of the promised good or service.",
+    },
+    {
+      text: "Which Ind AS deals with the recognition of right-of-use assets by lessees?",
+      chapter: "Ind AS on Assets of the Financial Statements",
+      concept: "Ind AS 116 Leases",
+      options: ["Ind AS 16", "Ind AS 38", "Ind AS 109", "Ind AS 116"],
+      correctOptionIndex: 3,
+      explanation: "Ind AS 116 requires lessees to recognise a right-of-use asset and a lease liability for almost all leases.",
+    },
+  ],
+};
+
+export const FIXTURE_NUMERIC: Record<Subject, FixtureNumeric[]> = {
+  [Subject.ACCOUNTING]: [
+    {
+      kind: 'numeric',
+      text: "Opening stock ₹40,000, purchases ₹2,60,000, closing stock ₹50,000 and sales ₹3,00,000. Compute the gross profit in ₹.",
+      chapter: "Final Accounts",
+      concept: "Gross profit",
+      correctValue: 50000,
+      unit: '₹',
+      tolerance: { type: 'absolute', value: 0 },
+      explanation: "Cost of goods sold = 40,000 + 2,60,000 − 50,000 = ₹2,50,000. Gross profit = 3,00,000 − 2,50,000 = ₹50,000.",
+    },
+  ],
+  [Subject.LAW]: [
+    {
+      kind: 'numeric',
+      text: "Under Section 3 of the Companies Act, 2013, what is the minimum number of members required to form a public company?",
+      chapter: "Companies Act, 2013",
+      concept: "Incorporation",
+      correctValue: 7,
+      unit: 'members',
+      tolerance: { type: 'absolute', value: 0 },
+      explanation: "A public company may be formed by seven or more persons; a private company by two or more.",
+    },
+  ],
+  [Subject.TAXATION]: [
+    {
+      kind: 'numeric',
+      text: "A supplier makes an intra-state taxable supply of ₹1,20,000 attracting GST at 18%. Compute the CGST payable in ₹.",
+      chapter: "Levy and Collection of GST",
+      concept: "Intra-state supply",
+      correctValue: 10800,
+      unit: '₹',
+      tolerance: { type: 'absolute', value: 1 },
+      explanation: "GST at 18% is split equally between CGST (9%) and SGST (9%). CGST = 1,20,000 × 9% = ₹10,800.",
+    },
+  ],
+  [Subject.AUDITING]: [
+    {
+      kind: 'numeric',
+      text: "Overall materiality is set at ₹8,00,000 and performance materiality at 75% of overall materiality. Compute performance materiality in ₹ lakh.",
+      chapter: "Audit Planning",
+      concept: "Performance materiality",
+      correctValue: 6,
+      unit: '₹ lakh',
+      tolerance: { type: 'decimals', value: 2 },
+      explanation: "Performance materiality = 8,00,000 × 75% = ₹6,00,000 = ₹6 lakh (SA 320).",
+    },
+  ],
+  [Subject.FINANCIAL_MANAGEMENT]: [
+    {
+      kind: 'numeric',
+      text: "Cost of equity 15%, post-tax cost of debt 8%, equity 60% and debt 40% of capital. Compute the WACC in %.",
+      chapter: "Cost of Capital",
+      concept: "WACC",
+      correctValue: 12.2,
+      unit: '%',
+      tolerance: { type: 'decimals', value: 1 },
+      explanation: "WACC = (0.60 × 15%) + (0.40 × 8%) = 9% + 3.2% = 12.2%.",
+    },
+  ],
+  [Subject.IT_SM]: [
+    {
+      kind: 'numeric',
+      text: "A business unit has a market share of ₹30 crore against its largest competitor's ₹20 crore. Compute its relative market share (times) for the BCG matrix.",
+      chapter: "Strategic Analysis",
+      concept: "BCG matrix",
+      correctValue: 1.5,
+      unit: 'times',
+      tolerance: { type: 'decimals', value: 2 },
+      explanation: "Relative market share = own share ÷ largest competitor's share = 30 ÷ 20 = 1.5 times.",
+    },
+  ],
+  [Subject.ADVANCED_ACCOUNTING]: [
+    {
+      kind: 'numeric',
+      text: "Purchase consideration is ₹12,00,000 and the fair value of net assets taken over is ₹10,50,000. Compute the goodwill in ₹.",
+      chapter: "Amalgamation of Companies",
+      concept: "Goodwill",
+      correctValue: 150000,
+      unit: '₹',
+      tolerance: { type: 'absolute', value: 0 },
+      explanation: "Goodwill = purchase consideration − net assets = 12,00,000 − 10,50,000 = ₹1,50,000.",
+    },
+  ],
+  [Subject.QUANTITATIVE_APTITUDE]: [
+    {
+      kind: 'numeric',
+      text: "₹50,000 is borrowed at 12% per annum simple interest. Compute the interest payable for 3 years in ₹.",
+      chapter: "Mathematics of Finance",
+      concept: "Simple interest",
+      correctValue: 18000,
+      unit: '₹',
+      tolerance: { type: 'absolute', value: 0 },
+      explanation: "SI = P × R × T ÷ 100 = 50,000 × 12 × 3 ÷ 100 = ₹18,000.",
+    },
+  ],
+  [Subject.ECONOMICS]: [
+    {
+      kind: 'numeric',
+      text: "The marginal propensity to consume is 0.8. Compute the investment multiplier.",
+      chapter: "Determination of National Income",
+      concept: "Investment multiplier",
+      correctValue: 5,
+      unit: 'times',
+      tolerance: { type: 'decimals', value: 2 },
+      explanation: "Multiplier = 1 ÷ (1 − MPC) = 1 ÷ 0.2 = 5.",
+    },
+  ],
+  [Subject.COSTING]: [
+    {
+      kind: 'numeric',
+      text: "Fixed costs are ₹2,40,000, selling price ₹50 per unit and variable cost ₹30 per unit. Compute the break-even point in units.",
+      chapter: "Marginal Costing",
+      concept: "Break-even point",
+      correctValue: 12000,
+      unit: 'units',
+      tolerance: { type: 'absolute', value: 0 },
+      explanation: "BEP = fixed costs ÷ contribution per unit = 2,40,000 ÷ 20 = 12,000 units.",
+    },
+  ],
+  [Subject.FINANCIAL_REPORTING]: [
+    {
+      kind: 'numeric',
+      text: "Profit attributable to equity holders is ₹45,00,000 and the weighted average number of equity shares is 9,00,000. Compute basic EPS in ₹ under Ind AS 33.",
+      chapter: "Ind AS on Disclosures in the Financial Statements",
+      concept: "Basic EPS",
+      correctValue: 5,
+      unit: '₹',
+      tolerance: { type: 'decimals', value: 2 },
+      explanation: "Basic EPS = 45,00,000 ÷ 9,00,000 = ₹5 per share.",
+    },
+  ],
+};
+
+export const FIXTURE_DESCRIPTIVE: Record<Subject, FixtureDescriptive[]> = {
+  [Subject.ACCOUNTING]: [
+    {
+      kind: 'descriptive',
+      text: "Distinguish between capital expenditure and revenue expenditure, giving one example of each.",
+      chapter: "Capital and Revenue Expenditure",
+      concept: "Classification",
+      marks: 4,
+      modelAnswer: "Capital expenditure creates or improves a long-term asset and its benefit extends beyond one accounting period, e.g. purchase of machinery. Revenue expenditure maintains the earning capacity of existing assets and its benefit is consumed within the period, e.g. repairs and wages. Capital expenditure is shown in the balance sheet; revenue expenditure is charged to the profit and loss account.",
+      rubric: [
+        { point: "Capital expenditure: long-term benefit, acquires or improves an asset", marks: 1.5 },
+        { point: "Revenue expenditure: benefit consumed within the period, maintains assets", marks: 1.5 },
+        { point: "Correct examples and treatment in balance sheet versus profit and loss", marks: 1 },
+      ],
+      explanation: "Students often give examples without stating the benefit-period test that drives the classification.",
+    },
+  ],
+  [Subject.LAW]: [
+    {
+      kind: 'descriptive',
+      text: "A, aged 17, borrowed ₹50,000 from B by misrepresenting his age. Can B recover the amount? Explain with reference to the Indian Contract Act, 1872.",
+      chapter: "Indian Contract Act, 1872",
+      concept: "Minor's agreement",
+      marks: 4,
+      modelAnswer: "An agreement with a minor is void ab initio (Mohori Bibee v. Dharmodas Ghose). The rule of estoppel does not apply against a minor, so misrepresentation of age does not make the contract enforceable. B cannot recover the loan as a debt, though equity may order restitution of the specific money if traceable.",
+      rubric: [
+        { point: "Agreement with minor is void ab initio, citing Mohori Bibee", marks: 2 },
+        { point: "Estoppel does not apply against a minor who misrepresents age", marks: 1 },
+        { point: "Conclusion that B cannot recover, with restitution exception", marks: 1 },
+      ],
+      explanation: "Many students wrongly apply estoppel; the examiner expects the case law and a clear conclusion.",
+    },
+  ],
+  [Subject.TAXATION]: [
+    {
+      kind: 'descriptive',
+      text: "Explain the conditions that must be satisfied to claim input tax credit under Section 16(2) of the CGST Act, 2017.",
+      chapter: "Input Tax Credit",
+      concept: "Eligibility conditions",
+      marks: 5,
+      modelAnswer: "A registered person can claim ITC only if: (a) he possesses a tax invoice or debit note; (b) he has received the goods or services; (c) the details are furnished by the supplier and reflected in GSTR-2B; (d) the tax charged has actually been paid to the Government by the supplier; and (e) he has furnished his return under Section 39.",
+      rubric: [
+        { point: "Possession of tax invoice or debit note", marks: 1 },
+        { point: "Receipt of goods or services", marks: 1 },
+        { point: "Supplier details reflected in GSTR-2B", marks: 1 },
+        { point: "Tax actually paid to Government by the supplier", marks: 1 },
+        { point: "Recipient has furnished return under Section 39", marks: 1 },
+      ],
+      explanation: "Each condition carries a mark; listing fewer than all five caps the score.",
+    },
+  ],
+  [Subject.AUDITING]: [
+    {
+      kind: 'descriptive',
+      text: "Explain the concept of professional skepticism and why it is important in an audit.",
+      chapter: "Basic Concepts in Auditing",
+      concept: "Professional skepticism",
+      marks: 4,
+      modelAnswer: "Professional skepticism (SA 200) is an attitude that includes a questioning mind, being alert to conditions that may indicate misstatement due to error or fraud, and a critical assessment of audit evidence. It reduces the risk of overlooking unusual circumstances, over-generalising from observations and using inappropriate assumptions.",
+      rubric: [
+        { point: "Definition: questioning mind and critical assessment of evidence, citing SA 200", marks: 2 },
+        { point: "Importance: alertness to fraud and error, avoiding inappropriate assumptions", marks: 2 },
+      ],
+      explanation: "Quote SA 200 and link skepticism to fraud risk for full marks.",
+    },
+  ],
+  [Subject.FINANCIAL_MANAGEMENT]: [
+    {
+      kind: 'descriptive',
+      text: "State any four limitations of the Internal Rate of Return method of capital budgeting.",
+      chapter: "Investment Decisions",
+      concept: "IRR",
+      marks: 4,
+      modelAnswer: "IRR assumes reinvestment of cash flows at the IRR itself; it may give multiple IRRs for non-conventional cash flows; it can conflict with NPV when ranking mutually exclusive projects of different scale or timing; and it is tedious to compute manually by trial and error.",
+      rubric: [
+        { point: "Unrealistic reinvestment assumption at the IRR", marks: 1 },
+        { point: "Multiple IRRs for non-conventional cash flows", marks: 1 },
+        { point: "Conflict with NPV for mutually exclusive projects", marks: 1 },
+        { point: "Computational complexity or trial and error", marks: 1 },
+      ],
+      explanation: "One mark per valid limitation.",
+    },
+  ],
+  [Subject.IT_SM]: [
+    {
+      kind: 'descriptive',
+      text: "What is a SWOT analysis? Explain its significance in strategic management.",
+      chapter: "Strategic Analysis",
+      concept: "SWOT analysis",
+      marks: 4,
+      modelAnswer: "SWOT analysis evaluates an organisation's internal Strengths and Weaknesses and external Opportunities and Threats. It helps in matching internal capabilities with the external environment, identifying competitive advantage and formulating strategies that build on strengths and counter threats.",
+      rubric: [
+        { point: "Meaning: internal strengths and weaknesses, external opportunities and threats", marks: 2 },
+        { point: "Significance: matching capabilities with environment, strategy formulation", marks: 2 },
+      ],
+      explanation: "State both the internal and external dimensions before discussing significance.",
+    },
+  ],
+  [Subject.ADVANCED_ACCOUNTING]: [
+    {
+      kind: 'descriptive',
+      text: "Explain the treatment of goodwill arising on amalgamation in the nature of purchase under AS 14.",
+      chapter: "Amalgamation of Companies",
+      concept: "Goodwill",
+      marks: 4,
+      modelAnswer: "Where consideration exceeds the net assets acquired, the excess is recognised as goodwill. AS 14 requires goodwill to be amortised on a systematic basis over its useful life, normally not exceeding five years unless a longer period is justified. Any deficiency is credited to capital reserve.",
+      rubric: [
+        { point: "Excess of consideration over net assets recognised as goodwill", marks: 1.5 },
+        { point: "Amortisation over useful life, normally within five years", marks: 1.5 },
+        { point: "Deficiency credited to capital reserve", marks: 1 },
+      ],
+      explanation: "Both the amortisation period and the capital reserve treatment are commonly tested.",
+    },
+  ],
+  [Subject.QUANTITATIVE_APTITUDE]: [
+    {
+      kind: 'descriptive',
+      text: "Distinguish between permutations and combinations, with one example of each.",
+      chapter: "Basic Concepts of Permutations and Combinations",
+      concept: "Permutations vs combinations",
+      marks: 4,
+      modelAnswer: "A permutation is an arrangement in which order matters, e.g. the ways 3 students can occupy 3 ranked positions (3! = 6). A combination is a selection in which order does not matter, e.g. choosing 2 members from 4 for a committee (4C2 = 6). nPr = n!/(n−r)! while nCr = n!/[r!(n−r)!].",
+      rubric: [
+        { point: "Permutation defined as an ordered arrangement", marks: 1 },
+        { point: "Combination defined as an unordered selection", marks: 1 },
+        { point: "Correct example of each", marks: 1 },
+        { point: "Formulae for nPr and nCr", marks: 1 },
+      ],
+      explanation: "Examples must show clearly why order matters in one and not the other.",
+    },
+  ],
+  [Subject.ECONOMICS]: [
+    {
+      kind: 'descriptive',
+      text: "Explain any four features of monopolistic competition.",
+      chapter: "Price Determination in Different Markets",
+      concept: "Monopolistic competition",
+      marks: 4,
+      modelAnswer: "Monopolistic competition has a large number of sellers, each with a small share; products are differentiated by brand, quality or design; firms have some control over price and face a downward-sloping demand curve; entry and exit are relatively free; and firms spend heavily on selling costs such as advertising.",
+      rubric: [
+        { point: "Large number of sellers", marks: 1 },
+        { point: "Product differentiation", marks: 1 },
+        { point: "Freedom of entry and exit", marks: 1 },
+        { point: "Selling costs or some control over price", marks: 1 },
+      ],
+      explanation: "Each feature should be explained in a line, not just listed.",
+    },
+  ],
+  [Subject.COSTING]: [
+    {
+      kind: 'descriptive',
+      text: "Explain the essentials of a good budgetary control system.",
+      chapter: "Budgets and Budgetary Control",
+      concept: "Essentials of budgetary control",
+      marks: 4,
+      modelAnswer: "A sound budgetary control system needs a clear organisation chart fixing responsibility, a budget committee and budget manual, a defined budget period, identification of the key (limiting) factor, realistic and participative budget setting, and regular comparison of actuals with budget so that variances are reported and acted upon.",
+      rubric: [
+        { point: "Organisation with defined responsibility, budget committee and manual", marks: 1.5 },
+        { point: "Budget period and key factor identified", marks: 1 },
+        { point: "Regular comparison of actual with budget and follow-up of variances", marks: 1.5 },
+      ],
+      explanation: "Students often describe types of budgets instead of the control system; stay on the requirement.",
+    },
+  ],
+  [Subject.FINANCIAL_REPORTING]: [
+    {
+      kind: 'descriptive',
+      text: "Explain the five-step model for revenue recognition under Ind AS 115.",
+      chapter: "Ind AS 115 Revenue from Contracts with Customers",
+      concept: "Five-step model",
+      marks: 5,
+      modelAnswer: "Ind AS 115 recognises revenue through five steps: (1) identify the contract with the customer; (2) identify the separate performance obligations; (3) determine the transaction price, including variable consideration; (4) allocate the transaction price to the performance obligations on a relative stand-alone selling price basis; and (5) recognise revenue when (or as) each performance obligation is satisfied.",
+      rubric: [
+        { point: "Identify the contract", marks: 1 },
+        { point: "Identify performance obligations", marks: 1 },
+        { point: "Determine the transaction price", marks: 1 },
+        { point: "Allocate the price on stand-alone selling prices", marks: 1 },
+        { point: "Recognise revenue on satisfaction of obligations", marks: 1 },
+      ],
+      explanation: "The steps must be in order; each carries one mark.",
+    },
+  ],
+};
+
+// Subjects without a hand-written scenario fall back to a generic passage over their MCQ bank.
+export const FIXTURE_SCENARIOS: Partial<Record<Subject, FixtureScenario[]>> = {
+  [Subject.ACCOUNTING]: [
+    {
+      title: "Sharma Traders: Year-end Adjustments",
+      passage: "Sharma Traders closes its books on 31 March. During the year it bought a delivery van for ₹6,00,000 on 1 April and paid ₹30,000 for its registration and ₹12,000 for the first year's insurance. The van is depreciated at 20% per annum on the straight-line method. On 31 March, rent of ₹15,000 for March was outstanding, and ₹24,000 had been paid on 1 January as advance rent for the following twelve months. Closing stock was valued at cost ₹1,80,000; its net realisable value was ₹1,65,000.",
+      questions: [
+        {
+          text: "What is the cost of the van to be capitalised in the scenario?",
+          chapter: "Property, Plant and Equipment",
+          concept: "Cost of acquisition",
+          options: ["₹6,00,000", "₹6,30,000", "₹6,42,000", "₹6,12,000"],
+          correctOptionIndex: 1,
+          explanation: "Registration is directly attributable and capitalised; insurance is a revenue expense of the period. Cost = 6,00,000 + 30,000 = ₹6,30,000.",
+        },
+        {
+          text: "What is the depreciation on the van for the year?",
+          chapter: "Property, Plant and Equipment",
+          concept: "Depreciation",
+          options: ["₹1,20,000", "₹1,26,000", "₹1,28,400", "₹1,32,000"],
+          correctOptionIndex: 1,
+          explanation: "Depreciation = 20% × ₹6,30,000 = ₹1,26,000 for a full year.",
+        },
+        {
+          text: "At what amount should closing stock appear in the balance sheet?",
+          chapter: "Inventories",
+          concept: "Valuation at lower of cost and NRV",
+          options: ["₹1,80,000", "₹1,65,000", "₹1,72,500", "₹15,000"],
+          correctOptionIndex: 1,
+          explanation: "Inventories are valued at the lower of cost and net realisable value (AS 2): ₹1,65,000.",
+        },
+      ],
+    },
+  ],
+  [Subject.TAXATION]: [
+    {
+      title: "Mehta Enterprises: GST Compliance",
+      passage: "Mehta Enterprises, registered in Maharashtra, supplied goods worth ₹5,00,000 to a dealer in Pune and ₹3,00,000 to a dealer in Bengaluru during July. GST on the goods is 18%. It purchased raw materials from a Mumbai supplier for ₹2,00,000 plus GST, and spent ₹20,000 plus GST on a staff picnic. All invoices are in its possession and reflected in GSTR-2B.",
+      questions: [
+        {
+          text: "Which tax applies to the supply made to the Bengaluru dealer?",
+          chapter: "Levy and Collection of GST",
+          concept: "Place of supply",
+          options: ["CGST and SGST", "IGST", "UTGST", "No GST"],
+          correctOptionIndex: 1,
+          explanation: "A supply where the supplier and place of supply are in different States is inter-State and attracts IGST.",
+        },
+        {
+          text: "How much CGST is payable on the Pune supply before input tax credit?",
+          chapter: "Levy and Collection of GST",
+          concept: "Intra-state supply",
+          options: ["₹45,000", "₹90,000", "₹27,000", "₹54,000"],
+          correctOptionIndex: 0,
+          explanation: "Intra-State supply: CGST at 9% of ₹5,00,000 = ₹45,000.",
+        },
+        {
+          text: "Is input tax credit available on the GST paid for the staff picnic?",
+          chapter: "Input Tax Credit",
+          concept: "Blocked credits",
+          options: ["Yes, in full", "Yes, 50%", "No, it is blocked under Section 17(5)", "Only if paid in cash"],
+          correctOptionIndex: 2,
+          explanation: "Section 17(5)(b) blocks credit on outdoor catering and leisure for employees unless obligatory under law.",
+        },
+      ],
+    },
+  ],
+};
+
+export const buildFixtureLesson = (topic: string, subject: Subject, level: string): string => `## Mastermind Overview
+This is an offline demo lesson on **${topic}** for ${level} students of ${subject}. It is served by the mock AI provider, so the content is a fixed template rather than a generated class.
+
+## Core Concept Decoded
+Start from the governing provision or standard, identify the conditions it sets out, and then apply them to the facts one at a time.
+
+- Identify the rule.
+- List its conditions.
+- Apply each condition to the facts.
+- Conclude.
+
+## The "Examiner's Favorite" Points
+1. Quote the exact section or standard number.
+2. State exceptions separately from the main rule.
+3. Show working notes for every figure.
+
+## Practical Application / Case Study
+| Step | Treatment |
+| --- | --- |
+| Facts | Read the scenario twice and underline figures |
+| Rule | Map each fact to the relevant provision |
+| Answer | Conclude with a clear one-line answer |
+
+## Mastermind Memory Hook
+**R-C-A-C**: Rule, Conditions, Apply, Conclude.
+`;
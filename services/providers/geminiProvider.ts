@@ -0,0 +1,237 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { QuestionKind } from '../../types';
+import { AIProvider } from './types';
+import { buildQuestionPrompt, buildScenarioPrompt, buildLessonPrompt, buildSectionPrompt, buildTutorPrompt, buildGradingPrompt } from '../prompts';
+import { parseQuestionArray, parseJsonObject, createArrayItemReader } from './json';
+
+const MODEL = "gemini-3-flash-preview";
+
+// Topic tags shared by every question kind, used for the topic-wise results breakdown.
+const TOPIC_PROPERTIES: Record<string, Schema> = {
+  chapter: { type: Type.STRING, description: "The syllabus chapter the question tests, e.g. \"Depreciation Accounting\"." },
+  concept: { type: Type.STRING, description: "The specific concept within the chapter, e.g. \"Change in method\"." },
+};
+
+const QUESTION_SCHEMAS: Record<QuestionKind, Schema> = {
+  mcq: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING, description: "Unique identifier for the question" },
+      text: { type: Type.STRING, description: "The question text in the requested language." },
+      options: { 
+        type: Type.ARRAY, 
+        items: { type: Type.STRING },
+        description: "A list of exactly 4 possible answers in the requested language."
+      },
+      correctOptionIndex: { type: Type.INTEGER, description: "The zero-based index of the correct option." },
+      explanation: { type: Type.STRING, description: "Detailed reasoning in the requested language." },
+      ...TOPIC_PROPERTIES,
+    },
+    required: ["id", "text", "options", "correctOptionIndex", "explanation", "chapter", "concept"],
+  },
+  numeric: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING, description: "Unique identifier for the question" },
+      text: { type: Type.STRING, description: "The question with all data needed, in the requested language." },
+      correctValue: { type: Type.NUMBER, description: "The exact correct figure as a plain number." },
+      unit: { type: Type.STRING, description: "Unit of the answer, e.g. ₹, %, ₹ lakh." },
+      toleranceType: { type: Type.STRING, enum: ["percent", "absolute", "decimals"], description: "How rounding differences are accepted." },
+      toleranceValue: { type: Type.NUMBER, description: "Percent, absolute amount or number of decimals for the tolerance." },
+      explanation: { type: Type.STRING, description: "Step-by-step working notes in the requested language." },
+      ...TOPIC_PROPERTIES,
+    },
+    required: ["id", "text", "correctValue", "unit", "explanation", "chapter", "concept"],
+  },
+  descriptive: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING, description: "Unique identifier for the question" },
+      text: { type: Type.STRING, description: "The question, including its fact pattern, in the requested language." },
+      marks: { type: Type.NUMBER, description: "Total marks for the question." },
+      modelAnswer: { type: Type.STRING, description: "A complete suggested answer in the requested language." },
+      rubric: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            point: { type: Type.STRING, description: "What the answer must contain to earn these marks." },
+            marks: { type: Type.NUMBER, description: "Marks for this point." },
+          },
+          required: ["point", "marks"],
+        },
+        description: "Marking rubric whose marks add up to the question's marks."
+      },
+      explanation: { type: Type.STRING, description: "Examiner's comments in the requested language." },
+      ...TOPIC_PROPERTIES,
+    },
+    required: ["id", "text", "marks", "modelAnswer", "rubric", "explanation", "chapter", "concept"],
+  },
+};
+
+// Bilingual requests add a required "english" object holding the English original.
+const withEnglish = (schema: Schema, properties: Record<string, Schema>): Schema => ({
+  ...schema,
+  properties: {
+    ...schema.properties,
+    english: { type: Type.OBJECT, description: "The same content in English.", properties, required: Object.keys(properties) },
+  },
+  required: [...schema.required, "english"],
+});
+
+const ENGLISH_QUESTION_PROPERTIES: Record<string, Schema> = {
+  text: { type: Type.STRING, description: "The question text in English." },
+  explanation: { type: Type.STRING, description: "The explanation in English." },
+};
+
+const questionSchema = (kind: QuestionKind, bilingual?: boolean): Schema => {
+  if (!bilingual) return QUESTION_SCHEMAS[kind];
+  return withEnglish(QUESTION_SCHEMAS[kind], kind === 'mcq'
+    ? { ...ENGLISH_QUESTION_PROPERTIES, options: { type: Type.ARRAY, items: { type: Type.STRING }, description: "The options in English, in the same order." } }
+    : ENGLISH_QUESTION_PROPERTIES);
+};
+
+const scenarioSchema = (bilingual?: boolean): Schema => {
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING, description: "Unique identifier for the scenario" },
+      title: { type: Type.STRING, description: "A short title for the case scenario." },
+      passage: { type: Type.STRING, description: "The shared fact pattern in the requested language." },
+      questions: { type: Type.ARRAY, items: questionSchema('mcq', bilingual) },
+    },
+    required: ["id", "title", "passage", "questions"],
+  };
+  return bilingual
+    ? withEnglish(schema, {
+      title: { type: Type.STRING, description: "The scenario title in English." },
+      passage: { type: Type.STRING, description: "The passage in English." },
+    })
+    : schema;
+};
+
+const GRADING_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    points: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          awarded: { type: Type.NUMBER, description: "Marks awarded for this rubric point." },
+          comment: { type: Type.STRING, description: "What the answer covered or missed for this point." },
+        },
+        required: ["awarded", "comment"],
+      },
+    },
+    feedback: { type: Type.STRING, description: "Overall feedback for the student." },
+  },
+  required: ["points", "feedback"],
+};
+
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  let client: GoogleGenAI | null = null;
+
+  // Created on first use so the app can load (and run other providers) without a key.
+  const getClient = () => {
+    if (!apiKey) {
+      throw new Error("API Key is missing. Please check your environment configuration.");
+    }
+    if (!client) {
+      client = new GoogleGenAI({ apiKey });
+    }
+    return client;
+  };
+
+  const generateJson = async (prompt: string, responseSchema: Schema) => {
+    const response = await getClient().models.generateContent({
+      model: MODEL,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema,
+      },
+    });
+
+    const text = response.text;
+    if (!text) {
+      throw new Error("No response received from AI.");
+    }
+    return text;
+  };
+
+  return {
+    id: 'gemini',
+
+    generateQuestions: async (request) => {
+      const text = await generateJson(buildQuestionPrompt(request), {
+        type: Type.ARRAY,
+        items: questionSchema(request.kind, request.bilingual),
+      });
+      return parseQuestionArray(text);
+    },
+
+    streamQuestions: async function* (request) {
+      const responseStream = await getClient().models.generateContentStream({
+        model: MODEL,
+        contents: buildQuestionPrompt(request),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: { type: Type.ARRAY, items: questionSchema(request.kind, request.bilingual) },
+        },
+      });
+
+      const reader = createArrayItemReader();
+      for await (const chunk of responseStream) {
+        if (chunk.text) yield* reader.push(chunk.text);
+      }
+    },
+
+    generateScenarios: async (request) => {
+      const text = await generateJson(buildScenarioPrompt(request), {
+        type: Type.ARRAY,
+        items: scenarioSchema(request.bilingual),
+      });
+      return parseQuestionArray(text);
+    },
+
+    streamLesson: async function* (request) {
+      const responseStream = await getClient().models.generateContentStream({
+        model: MODEL,
+        contents: buildLessonPrompt(request),
+      });
+
+      for await (const chunk of responseStream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+
+    streamSection: async function* (request) {
+      const responseStream = await getClient().models.generateContentStream({
+        model: MODEL,
+        contents: buildSectionPrompt(request),
+      });
+
+      for await (const chunk of responseStream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+
+    streamTutorReply: async function* (request) {
+      const responseStream = await getClient().models.generateContentStream({
+        model: MODEL,
+        contents: request.messages.map((m) => ({ role: m.role === 'student' ? 'user' : 'model', parts: [{ text: m.text }] })),
+        config: { systemInstruction: buildTutorPrompt(request) },
+      });
+
+      for await (const chunk of responseStream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+
+    gradeAnswer: async (request) => {
+      const text = await generateJson(buildGradingPrompt(request), GRADING_SCHEMA);
+      return parseJsonObject(text);
+    },
+  };
+};
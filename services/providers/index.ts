@@ -0,0 +1,37 @@
+import { AIProvider, ProviderId } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createMockProvider } from './mockProvider';
+
+export type { AIProvider, ProviderId, QuestionRequest, ScenarioRequest, LessonRequest, SectionRequest, TutorRequest, GradingRequest, SyllabusContext } from './types';
+
+const createProvider = (id: ProviderId): AIProvider => {
+  switch (id) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.LOCAL_AI_BASE_URL || '',
+        model: process.env.LOCAL_AI_MODEL || 'llama3.1',
+        apiKey: process.env.LOCAL_AI_API_KEY || undefined,
+      });
+    case 'gemini':
+    default:
+      return createGeminiProvider(process.env.API_KEY || '');
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+// Resolved from AI_PROVIDER on first use; defaults to Gemini.
+export const getProvider = (): AIProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider((process.env.AI_PROVIDER || 'gemini') as ProviderId);
+  }
+  return activeProvider;
+};
+
+// Swap the backend at runtime, e.g. to force the mock provider in a demo build or a test.
+export const setProvider = (provider: AIProvider | ProviderId) => {
+  activeProvider = typeof provider === 'string' ? createProvider(provider) : provider;
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createArrayItemReader, extractJson, parseQuestionArray } from './json';
+
+describe('createArrayItemReader', () => {
+  it('yields each item once it is complete, across chunk boundaries', () => {
+    const reader = createArrayItemReader();
+    expect(reader.push('```json\n[{"id": "q1", "opt')).toEqual([]);
+    expect(reader.push('ions": ["a", "b"]}, {"id"')).toEqual([{ id: 'q1', options: ['a', 'b'] }]);
+    expect(reader.push(': "q2"}]\n```')).toEqual([{ id: 'q2' }]);
+  });
+
+  it('ignores brackets and quotes inside strings', () => {
+    const reader = createArrayItemReader();
+    expect(reader.push('[{"text": "Is {x} in [a, b]? Say \\"yes\\""}]')).toEqual([{ text: 'Is {x} in [a, b]? Say "yes"' }]);
+  });
+
+  it('reads the array inside a wrapping object', () => {
+    const reader = createArrayItemReader();
+    expect(reader.push('{"questions": [{"id": "q1"}, {"id": "q2"}]}')).toEqual([{ id: 'q1' }, { id: 'q2' }]);
+  });
+
+  it('skips a malformed item and goes on', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const reader = createArrayItemReader();
+    expect(reader.push('[{"id": q1}, {"id": "q2"}]')).toEqual([{ id: 'q2' }]);
+  });
+});
+
+describe('parseQuestionArray', () => {
+  it('accepts a bare, fenced or wrapped array', () => {
+    expect(parseQuestionArray('[{"id": "q1"}]')).toEqual([{ id: 'q1' }]);
+    expect(parseQuestionArray('Here you go:\n```json\n{"scenarios": [1, 2]}\n```')).toEqual([1, 2]);
+    expect(extractJson('Sure! {"a": 1} Hope this helps')).toBe('{"a": 1}');
+  });
+
+  it('throws a readable error when there is no array', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(() => parseQuestionArray('{"a": 1}')).toThrow('Failed to generate valid exam questions.');
+  });
+});
@@ -0,0 +1,84 @@
+// Models that are not schema-constrained often wrap JSON in ```json fences or add a preamble.
+export const extractJson = (text: string): string => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = (fenced ? fenced[1] : text).trim();
+  const start = body.search(/[[{]/);
+  if (start === -1) return body;
+  const closing = body[start] === '[' ? ']' : '}';
+  const end = body.lastIndexOf(closing);
+  return end > start ? body.slice(start, end + 1) : body.slice(start);
+};
+
+export const parseQuestionArray = (text: string): unknown[] => {
+  try {
+    const parsed = JSON.parse(extractJson(text));
+    // Some models wrap the array in an object such as { "questions": [...] } or { "scenarios": [...] }
+    const questions = Array.isArray(parsed)
+      ? parsed
+      : Object.values(parsed && typeof parsed === 'object' ? parsed : {}).find(Array.isArray);
+    if (!Array.isArray(questions)) {
+      throw new Error("Response is not a JSON array.");
+    }
+    return questions;
+  } catch (e) {
+    console.error("Failed to parse AI response", e);
+    throw new Error("Failed to generate valid exam questions.");
+  }
+};
+
+export const parseJsonObject = (text: string): unknown => {
+  try {
+    return JSON.parse(extractJson(text));
+  } catch (e) {
+    console.error("Failed to parse AI response", e);
+    throw new Error("Failed to read the AI response.");
+  }
+};
+
+/**
+ * Incremental reader for a streamed JSON array of objects: each `push` returns the items
+ * completed by that chunk. The array may be fenced or wrapped in an object, as above.
+ */
+export const createArrayItemReader = () => {
+  let buffer = '';
+  let scanned = 0;
+  let depth = 0;
+  let arrayDepth = -1; // Depth just inside the first '[', once found
+  let itemStart = -1;
+  let inString = false;
+  let escaped = false;
+
+  return {
+    push: (chunk: string): unknown[] => {
+      buffer += chunk;
+      const items: unknown[] = [];
+      for (; scanned < buffer.length; scanned++) {
+        const ch = buffer[scanned];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (ch === '\\') escaped = true;
+          else if (ch === '"') inString = false;
+          continue;
+        }
+        if (ch === '"') {
+          inString = depth > 0;
+        } else if (ch === '[' || ch === '{') {
+          if (ch === '[' && arrayDepth === -1) arrayDepth = depth + 1;
+          else if (ch === '{' && depth === arrayDepth) itemStart = scanned;
+          depth++;
+        } else if (ch === ']' || ch === '}') {
+          depth--;
+          if (ch === '}' && depth === arrayDepth && itemStart !== -1) {
+            try {
+              items.push(JSON.parse(buffer.slice(itemStart, scanned + 1)));
+            } catch (e) {
+              console.error("Skipping malformed streamed item", e);
+            }
+            itemStart = -1;
+          }
+        }
+      }
+      return items;
+    },
+  };
+};
@@ -0,0 +1,137 @@
+import { AIProvider, QuestionRequest } from './types';
+import { QuestionKind, Subject } from '../../types';
+import { FIXTURE_QUESTIONS, FIXTURE_NUMERIC, FIXTURE_DESCRIPTIVE, FIXTURE_SCENARIOS, buildFixtureLesson } from './fixtures';
+
+const STREAM_CHUNK_SIZE = 48;
+const STREAM_DELAY_MS = 20;
+const QUESTION_STREAM_DELAY_MS = 400;
+
+// Stable string hash so the same request always produces the same exam.
+const hash = (value: string) => {
+  let h = 0;
+  for (let i = 0; i < value.length; i++) {
+    h = (h * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const keywords = (text: string) =>
+  Array.from(new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((w) => w.length > 4)));
+
+const FIXTURE_BANKS: Record<QuestionKind, Record<Subject, { text: string; explanation: string }[]>> = {
+  mcq: FIXTURE_QUESTIONS,
+  numeric: FIXTURE_NUMERIC,
+  descriptive: FIXTURE_DESCRIPTIVE,
+};
+
+// The fixtures are English already, so in bilingual mode they are their own English original.
+const withEnglish = <T extends { text: string; explanation: string; options?: string[] }>(question: T, bilingual?: boolean) =>
+  bilingual ? { ...question, english: { text: question.text, explanation: question.explanation, options: question.options } } : question;
+
+const fixtureQuestions = ({ subject, level, count, kind, topic, bilingual }: QuestionRequest) => {
+  const bank = FIXTURE_BANKS[kind][subject];
+  const offset = hash(`${subject}|${level}|${topic ?? ''}`) % bank.length;
+  return Array.from({ length: count }, (_, i) => {
+    const fixture = bank[(offset + i) % bank.length];
+    const round = Math.floor(i / bank.length);
+    return withEnglish({
+      ...structuredClone(fixture),
+      id: `mock-${kind}-${offset}-${i + 1}`,
+      text: round > 0 ? `${fixture.text} (Variant ${round + 1})` : fixture.text,
+    }, bilingual);
+  });
+};
+
+// Deterministic, network-free provider for demos and offline testing of the exam and class flows.
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+
+  generateQuestions: async (request) => fixtureQuestions(request),
+
+  // Paced like a real stream so the exam's pending questions can be seen filling in
+  streamQuestions: async function* (request) {
+    for (const question of fixtureQuestions(request)) {
+      await sleep(QUESTION_STREAM_DELAY_MS);
+      yield question;
+    }
+  },
+
+  generateScenarios: async ({ subject, level, count, questionsPerScenario, topic, bilingual }) => {
+    const bank = FIXTURE_SCENARIOS[subject] ?? [{
+      title: `${subject}: Offline Demo Case`,
+      passage: `This is an offline demo case scenario for ${level} ${subject}, served by the mock AI provider. Answer the questions that follow using your knowledge of the subject.`,
+      questions: FIXTURE_QUESTIONS[subject],
+    }];
+    const offset = hash(`${subject}|${level}|${topic ?? ''}|scenario`) % bank.length;
+    return Array.from({ length: count }, (_, i) => {
+      const fixture = bank[(offset + i) % bank.length];
+      const round = Math.floor(i / bank.length);
+      const title = round > 0 ? `${fixture.title} (Variant ${round + 1})` : fixture.title;
+      return {
+        id: `mock-scenario-${offset}-${i + 1}`,
+        title,
+        passage: fixture.passage,
+        ...(bilingual ? { english: { title, passage: fixture.passage } } : {}),
+        questions: fixture.questions.slice(0, questionsPerScenario).map((q, qIdx) => withEnglish({
+          ...structuredClone(q),
+          id: `mock-scenario-${offset}-${i + 1}-${qIdx + 1}`,
+          text: round > 0 ? `${q.text} (Variant ${round + 1})` : q.text,
+        }, bilingual)),
+      };
+    });
+  },
+
+  streamLesson: async function* ({ subject, level, topic }) {
+    const markdown = buildFixtureLesson(topic, subject, level);
+    for (let i = 0; i < markdown.length; i += STREAM_CHUNK_SIZE) {
+      await sleep(STREAM_DELAY_MS);
+      yield markdown.slice(i, i + STREAM_CHUNK_SIZE);
+    }
+  },
+
+  streamSection: async function* ({ sections, sectionIndex, action }) {
+    const { content } = sections[sectionIndex];
+    const markdown = action === 'example'
+      ? '**Another Example:** This is an offline demo example from the mock AI provider.'
+      : `_Offline demo rewrite (${action}) from the mock AI provider._\n\n${content}`;
+    for (let i = 0; i < markdown.length; i += STREAM_CHUNK_SIZE) {
+      await sleep(STREAM_DELAY_MS);
+      yield markdown.slice(i, i + STREAM_CHUNK_SIZE);
+    }
+  },
+
+  // Quotes the lesson line sharing the most keywords with the question.
+  streamTutorReply: async function* ({ sections, messages }) {
+    const asked = new Set(keywords(messages[messages.length - 1]?.text ?? ''));
+    const lines = sections.flatMap((s) => s.content.split('\n').filter((l) => l.trim()).map((line) => ({ section: s.title, line: line.trim() })));
+    const best = lines.reduce<{ section: string; line: string; hits: number } | null>((top, l) => {
+      const hits = keywords(l.line).filter((w) => asked.has(w)).length;
+      return !top || hits > top.hits ? { ...l, hits } : top;
+    }, null);
+    const reply = best
+      ? `From **${best.section}**:\n\n> ${best.line}\n\nThis is an offline demo reply from the mock AI provider. Connect a real provider for a full answer to your doubt.`
+      : 'This is an offline demo reply from the mock AI provider.';
+    for (let i = 0; i < reply.length; i += STREAM_CHUNK_SIZE) {
+      await sleep(STREAM_DELAY_MS);
+      yield reply.slice(i, i + STREAM_CHUNK_SIZE);
+    }
+  },
+
+  // Awards each rubric point in proportion to how many of its keywords the answer mentions.
+  gradeAnswer: async ({ question, answer }) => {
+    const written = new Set(keywords(answer));
+    const points = question.rubric.map((r) => {
+      const expected = keywords(r.point);
+      const hits = expected.filter((w) => written.has(w)).length;
+      const share = expected.length === 0 ? 0 : hits / expected.length;
+      const awarded = Math.round(share * r.marks * 2) / 2;
+      return {
+        awarded,
+        comment: hits === 0 ? 'Not addressed.' : `Covered ${hits} of ${expected.length} key terms.`,
+      };
+    });
+    return { points, feedback: 'Graded offline by keyword coverage (mock provider).' };
+  },
+});
@@ -0,0 +1,116 @@
+import { AIProvider } from './types';
+import { buildQuestionPrompt, buildScenarioPrompt, buildLessonPrompt, buildSectionPrompt, buildTutorPrompt, buildGradingPrompt } from '../prompts';
+import { parseQuestionArray, parseJsonObject, createArrayItemReader } from './json';
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama, http://localhost:1234/v1 for LM Studio
+  model: string;
+  apiKey?: string;
+}
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Talks to any server implementing the OpenAI /chat/completions API (Ollama, LM Studio, vLLM, llama.cpp).
+export const createOpenAICompatibleProvider = ({ baseUrl, model, apiKey }: OpenAICompatibleOptions): AIProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (messages: ChatMessage[], stream: boolean) => {
+    if (!baseUrl) {
+      throw new Error("Local AI endpoint is missing. Please set LOCAL_AI_BASE_URL.");
+    }
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model, messages, stream }),
+    });
+    if (!response.ok) {
+      throw new Error(`Local AI endpoint responded with ${response.status} ${response.statusText}`);
+    }
+    return response;
+  };
+
+  // Server-sent events: one "data: {json}" line per delta, terminated by "data: [DONE]".
+  const streamDeltas = async function* (messages: ChatMessage[]): AsyncGenerator<string> {
+    const response = await post(messages, true);
+    if (!response.body) {
+      throw new Error("No response received from AI.");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const payload = line.trim();
+        if (!payload.startsWith('data:')) continue;
+        const data = payload.slice(5).trim();
+        if (data === '[DONE]') return;
+        try {
+          const delta: string | undefined = JSON.parse(data)?.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        } catch (e) {
+          console.error("Skipping malformed stream event", e);
+        }
+      }
+    }
+  };
+
+  const complete = async (prompt: string) => {
+    const response = await post([
+      { role: 'system', content: 'Reply with JSON only, using exactly the keys named in the request.' },
+      { role: 'user', content: prompt },
+    ], false);
+    const data = await response.json();
+    const text: string | undefined = data?.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error("No response received from AI.");
+    }
+    return text;
+  };
+
+  return {
+    id: 'openai-compatible',
+
+    generateQuestions: async (request) => parseQuestionArray(await complete(buildQuestionPrompt(request))),
+
+    generateScenarios: async (request) => parseQuestionArray(await complete(buildScenarioPrompt(request))),
+
+    gradeAnswer: async (request) => parseJsonObject(await complete(buildGradingPrompt(request))),
+
+    streamQuestions: async function* (request) {
+      const reader = createArrayItemReader();
+      for await (const delta of streamDeltas([
+        { role: 'system', content: 'Reply with JSON only, using exactly the keys named in the request.' },
+        { role: 'user', content: buildQuestionPrompt(request) },
+      ])) {
+        yield* reader.push(delta);
+      }
+    },
+
+    streamLesson: async function* (request) {
+      yield* streamDeltas([{ role: 'user', content: buildLessonPrompt(request) }]);
+    },
+
+    streamSection: async function* (request) {
+      yield* streamDeltas([{ role: 'user', content: buildSectionPrompt(request) }]);
+    },
+
+    streamTutorReply: async function* (request) {
+      yield* streamDeltas([
+        { role: 'system', content: buildTutorPrompt(request) },
+        ...request.messages.map((m): ChatMessage => ({ role: m.role === 'student' ? 'user' : 'assistant', content: m.text })),
+      ]);
+    },
+  };
+};
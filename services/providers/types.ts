@@ -0,0 +1,83 @@
+import { DifficultyLevel, Subject, LearningStyle, Language, QuestionKind, DescriptiveQuestion, LessonSection, SectionAction, TutorMessage } from '../../types';
+
+// Where the request sits in the syllabus catalog, by name, for the prompt
+export interface SyllabusContext {
+  paper: string; // e.g. "Paper 3: Taxation"
+  chapter?: string;
+  chapters: string[]; // All chapters of the paper, for tagging questions
+}
+
+export interface QuestionRequest {
+  subject: Subject;
+  level: DifficultyLevel;
+  count: number;
+  language: Language;
+  kind: QuestionKind;
+  topic?: string;
+  syllabus?: SyllabusContext;
+  marksPerQuestion?: number; // Fixed by a paper blueprint; descriptive prompts otherwise pick 4–8
+  bilingual?: boolean; // Each question also carries its English original under "english"
+}
+
+export interface ScenarioRequest {
+  subject: Subject;
+  level: DifficultyLevel;
+  count: number; // Number of scenarios
+  questionsPerScenario: number;
+  language: Language;
+  topic?: string;
+  syllabus?: SyllabusContext;
+  bilingual?: boolean; // Each scenario and question also carries its English original under "english"
+}
+
+export interface LessonRequest {
+  subject: Subject;
+  level: DifficultyLevel;
+  topic: string;
+  style: LearningStyle;
+  language: Language;
+  syllabus?: SyllabusContext;
+}
+
+export interface SectionRequest {
+  subject: string;
+  level: string;
+  topic: string;
+  style: LearningStyle;
+  language: Language;
+  sections: LessonSection[]; // The whole lesson, so the rewrite fits around the other sections
+  sectionIndex: number;
+  action: SectionAction;
+}
+
+export interface TutorRequest {
+  subject: string;
+  level: string;
+  topic: string;
+  style: LearningStyle;
+  language: Language;
+  sections: LessonSection[]; // The lesson the student is asking about
+  messages: TutorMessage[]; // The conversation so far, ending with the student's question
+}
+
+export interface GradingRequest {
+  question: DescriptiveQuestion;
+  answer: string;
+  level: DifficultyLevel;
+  language: Language;
+}
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// Every AI backend implements this contract; screens only ever talk to services/gemini.ts.
+// Structured results are returned raw and validated by the caller.
+export interface AIProvider {
+  id: ProviderId;
+  generateQuestions: (request: QuestionRequest) => Promise<unknown[]>;
+  streamQuestions: (request: QuestionRequest) => AsyncGenerator<unknown>; // Yields each raw item once complete
+  generateScenarios: (request: ScenarioRequest) => Promise<unknown[]>;
+  streamLesson: (request: LessonRequest) => AsyncGenerator<string>;
+  streamSection: (request: SectionRequest) => AsyncGenerator<string>;
+  streamTutorReply: (request: TutorRequest) => AsyncGenerator<string>;
+  gradeAnswer: (request: GradingRequest) => Promise<unknown>;
+}
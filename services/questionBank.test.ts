@@ -0,0 +1,96 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DifficultyLevel, Language, McqQuestion, NumericQuestion, Subject } from '../types';
+import { drawFromBank, exportBankCsv, importBank, loadBank } from './questionBank';
+import { initStorage, write } from './storage';
+
+const HEADER = 'kind,subject,level,text,optionA,optionB,optionC,optionD,correctOption,correctValue,unit,explanation,chapter,scenarioTitle,scenarioPassage';
+
+const config = { subject: Subject.ACCOUNTING, level: DifficultyLevel.FOUNDATION, language: Language.ENGLISH };
+
+beforeAll(async () => {
+  // Without IndexedDB the store falls back to localStorage
+  const stored = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => stored.set(key, value),
+    removeItem: (key: string) => stored.delete(key),
+  });
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  await initStorage();
+});
+
+beforeEach(() => write('questionBank', []));
+
+describe('importBank', () => {
+  it('imports MCQ and numeric rows from CSV, with the kind in any case', () => {
+    const csv = [
+      HEADER,
+      'MCQ,Accounting,Foundation,Which ratio measures liquidity?,Current,Debt-equity,Gross profit,Stock turnover,A,,,Liquidity.,Ratios,,',
+      ' Numeric ,ACCOUNTING,FOUNDATION,"Sales ₹ 1,00,000 at 20% margin; gross profit?",,,,,,20000,₹,20% of sales.,Ratios,,',
+      ',Accounting,Foundation,Which is a current asset?,Debtors,Land,Goodwill,Patents,a,,,Realised within a year.,Assets,,',
+    ].join('\n');
+    const result = importBank(csv, 'bank.csv');
+    expect(result).toMatchObject({ added: 3, duplicates: 0, errors: [] });
+    const [first, second, third] = result.bank.map((b) => b.question);
+    expect(first).toMatchObject({ options: ['Current', 'Debt-equity', 'Gross profit', 'Stock turnover'], correctOptionIndex: 0 });
+    expect(second).toMatchObject({ kind: 'numeric', correctValue: 20000 });
+    expect((third as McqQuestion).correctOptionIndex).toBe(0);
+  });
+
+  it('reports an unknown kind instead of reading the row as an MCQ', () => {
+    const result = importBank(`${HEADER}\nEssay,Accounting,Foundation,Explain accruals.,,,,,,,,x,Basics,,`, 'bank.csv');
+    expect(result.added).toBe(0);
+    expect(result.errors).toEqual(['Row 1: unknown kind "Essay".']);
+  });
+
+  it('reports rows with an unknown subject or a broken question', () => {
+    const result = importBank(JSON.stringify([
+      { subject: 'Astronomy', level: 'Foundation', text: 'x', options: ['a', 'b', 'c', 'd'], correctOptionIndex: 0 },
+      { subject: 'Accounting', level: 'Foundation', text: 'y', options: ['a', 'b'], correctOptionIndex: 0 },
+    ]), 'bank.json');
+    expect(result.errors).toEqual(['Row 1: unknown subject "Astronomy".', 'Row 2: Only 2 distinct options; 4 required.']);
+  });
+
+  it('skips questions already in the bank', () => {
+    const json = JSON.stringify({ questions: [{ subject: 'Accounting', level: 'Foundation', text: 'Same?', options: ['a', 'b', 'c', 'd'], correctOptionIndex: 1 }] });
+    importBank(json, 'bank.json');
+    expect(importBank(json, 'bank.json')).toMatchObject({ added: 0, duplicates: 1 });
+    expect(loadBank()).toHaveLength(1);
+  });
+
+  it('reads back its own CSV export', () => {
+    const csv = `${HEADER}\nnumeric,Accounting,Foundation,Gross profit?,,,,,,20000,₹,x,Ratios,,`;
+    const exported = exportBankCsv(importBank(csv, 'bank.csv').bank);
+    write('questionBank', []);
+    const [entry] = importBank(exported, 'export.csv').bank;
+    expect(entry.question as NumericQuestion).toMatchObject({ kind: 'numeric', correctValue: 20000, unit: '₹' });
+  });
+});
+
+describe('drawFromBank', () => {
+  const scenarioRow = (n: number) => `mcq,Accounting,Foundation,Case question ${n}?,a${n},b${n},c${n},d${n},A,,,x,Cases,Sharma Traders,"Sharma Traders sold goods on credit."`;
+  const singleRow = (n: number) => `mcq,Accounting,Foundation,Single question ${n}?,a${n},b${n},c${n},d${n},A,,,x,Basics,,`;
+
+  beforeEach(() => {
+    importBank([HEADER, scenarioRow(1), singleRow(1), scenarioRow(2), scenarioRow(3), singleRow(2)].join('\n'), 'bank.csv');
+  });
+
+  it('draws a case scenario whole, with its passage, or not at all', () => {
+    for (let round = 0; round < 20; round++) {
+      const { questions, scenarios } = drawFromBank(config, 4);
+      const inCase = questions.filter((q) => q.scenarioId);
+      expect(inCase.length === 0 || inCase.length === 3).toBe(true);
+      expect(scenarios).toHaveLength(inCase.length ? 1 : 0);
+      if (inCase.length) {
+        expect(inCase.map((q) => q.text)).toEqual(['Case question 1?', 'Case question 2?', 'Case question 3?']);
+        expect(scenarios[0].passage).toBe('Sharma Traders sold goods on credit.');
+      }
+    }
+  });
+
+  it('leaves out a scenario too big for the space left', () => {
+    const { questions, scenarios } = drawFromBank(config, 2);
+    expect(questions.map((q) => q.text).sort()).toEqual(['Single question 1?', 'Single question 2?']);
+    expect(scenarios).toEqual([]);
+  });
+});
@@ -0,0 +1,336 @@
+import { BankQuestion, DifficultyLevel, ExamConfig, ExamState, Language, Question, QuestionKind, Scenario, Subject, ValidationIssue } from '../types';
+import { createValidationContext, validateQuestion } from './questionValidation';
+import { read, write } from './storage';
+
+export const BANK_FILE_FORMAT = 'ca-guide-question-bank';
+
+// Column order of the CSV format; see the README for what each column holds.
+export const BANK_CSV_COLUMNS = [
+  'kind', 'subject', 'level', 'paperId', 'topic', 'language', 'chapter', 'concept', 'text',
+  'optionA', 'optionB', 'optionC', 'optionD', 'correctOption',
+  'correctValue', 'unit', 'toleranceType', 'toleranceValue',
+  'modelAnswer', 'rubric', 'marks', 'explanation', 'scenarioTitle', 'scenarioPassage',
+] as const;
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D'];
+const KINDS: QuestionKind[] = ['mcq', 'numeric', 'descriptive'];
+
+type RawRecord = Record<string, unknown>;
+
+export interface ImportResult {
+  bank: BankQuestion[];
+  added: number;
+  duplicates: number;
+  errors: string[]; // One line per rejected row, for the import summary
+}
+
+export const loadBank = (): BankQuestion[] => read('questionBank');
+
+const writeBank = (bank: BankQuestion[]) => write('questionBank', bank);
+
+const textKey = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const newBankId = (addedAt: number, idx: number) => `bank-${addedAt}-${idx}`;
+
+/** Adds a finished exam's questions to the bank; questions already banked are skipped. */
+export const saveExamToBank = (
+  state: Pick<ExamState, 'questions' | 'scenarios'>,
+  config: Pick<ExamConfig, 'subject' | 'level' | 'paperId' | 'topic' | 'language'>
+): { bank: BankQuestion[]; added: number } => {
+  const bank = loadBank();
+  const known = new Set(bank.map((b) => textKey(b.question.text)));
+  const addedAt = Date.now();
+  // Scenario ids are only unique within one exam
+  const scenarios = new Map((state.scenarios ?? []).map((s) => [s.id, { ...s, id: `bank-scenario-${addedAt}-${s.id}` }]));
+  let added = 0;
+  state.questions.forEach((question, idx) => {
+    if (known.has(textKey(question.text))) return;
+    known.add(textKey(question.text));
+    const scenario = question.scenarioId ? scenarios.get(question.scenarioId) : undefined;
+    bank.push({
+      id: newBankId(addedAt, idx),
+      question: { ...question, scenarioId: scenario?.id },
+      scenario,
+      subject: config.subject,
+      level: config.level,
+      paperId: config.paperId,
+      topic: config.topic,
+      language: config.language,
+      source: 'generated',
+      addedAt,
+    });
+    added++;
+  });
+  writeBank(bank);
+  return { bank, added };
+};
+
+export const removeFromBank = (id: string): BankQuestion[] => {
+  const bank = loadBank().filter((b) => b.id !== id);
+  writeBank(bank);
+  return bank;
+};
+
+// --- Export -----------------------------------------------------------------
+
+// One flat record per question: the Question fields plus its bank metadata.
+const toRecord = ({ question, scenario, subject, level, paperId, topic, language }: BankQuestion): RawRecord => {
+  const { id, scenarioId, ...fields } = question;
+  return {
+    subject,
+    level,
+    paperId,
+    topic,
+    language,
+    ...fields,
+    kind: question.kind ?? 'mcq',
+    scenario: scenario ? { title: scenario.title, passage: scenario.passage } : undefined,
+  };
+};
+
+export const exportBankJson = (bank: BankQuestion[]): string =>
+  JSON.stringify({ format: BANK_FILE_FORMAT, version: 1, questions: bank.map(toRecord) }, null, 2);
+
+const csvCell = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportBankCsv = (bank: BankQuestion[]): string => {
+  const rows = bank.map(({ question: q, scenario, subject, level, paperId, topic, language }) => {
+    const row: Record<typeof BANK_CSV_COLUMNS[number], unknown> = {
+      kind: q.kind ?? 'mcq',
+      subject,
+      level,
+      paperId,
+      topic,
+      language,
+      chapter: q.chapter,
+      concept: q.concept,
+      text: q.text,
+      optionA: undefined, optionB: undefined, optionC: undefined, optionD: undefined,
+      correctOption: undefined,
+      correctValue: undefined, unit: undefined, toleranceType: undefined, toleranceValue: undefined,
+      modelAnswer: undefined, rubric: undefined,
+      marks: q.marks,
+      explanation: q.explanation,
+      scenarioTitle: scenario?.title,
+      scenarioPassage: scenario?.passage,
+    };
+    if (q.kind === 'numeric') {
+      Object.assign(row, { correctValue: q.correctValue, unit: q.unit, toleranceType: q.tolerance?.type, toleranceValue: q.tolerance?.value });
+    } else if (q.kind === 'descriptive') {
+      Object.assign(row, { modelAnswer: q.modelAnswer, rubric: q.rubric.map((r) => `${r.point} [${r.marks}]`).join('; ') });
+    } else {
+      q.options.forEach((option, idx) => { row[`option${OPTION_LETTERS[idx]}` as 'optionA'] = option; });
+      row.correctOption = OPTION_LETTERS[q.correctOptionIndex];
+    }
+    return BANK_CSV_COLUMNS.map((column) => csvCell(row[column])).join(',');
+  });
+  return [BANK_CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+// --- Import -----------------------------------------------------------------
+
+// RFC 4180: quoted cells may contain commas, doubled quotes and line breaks.
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim()));
+};
+
+// "Point one [2]; Point two [3]" → rubric points
+const parseRubric = (value: string) =>
+  value.split(';').map((part) => part.trim()).filter(Boolean).map((part) => {
+    const match = part.match(/^(.*)\[\s*([\d.]+)\s*\]$/);
+    return match ? { point: match[1].trim(), marks: Number(match[2]) } : { point: part, marks: NaN };
+  });
+
+// Rebuilds the nested fields the validator expects from a flat CSV row.
+const csvRowToRecord = (header: string[], cells: string[]): RawRecord => {
+  const row: Record<string, string> = {};
+  header.forEach((column, idx) => { row[column] = (cells[idx] ?? '').trim(); });
+  const record: RawRecord = { ...row };
+  const options = OPTION_LETTERS.map((letter) => row[`option${letter}`]).filter((o) => o !== undefined && o !== '');
+  if (options.length > 0) record.options = options;
+  if (row.correctOption) {
+    const letter = OPTION_LETTERS.indexOf(row.correctOption.toUpperCase());
+    record.correctOptionIndex = letter >= 0 ? letter : Number(row.correctOption) - 1;
+  }
+  if (row.rubric) record.rubric = parseRubric(row.rubric);
+  if (row.scenarioPassage) record.scenario = { title: row.scenarioTitle, passage: row.scenarioPassage };
+  return record;
+};
+
+// Accepts either the enum value ("Foundation") or its key ("FOUNDATION").
+const enumValue = <T extends string>(values: Record<string, T>, raw: unknown): T | undefined => {
+  if (typeof raw !== 'string') return undefined;
+  const wanted = raw.trim().toLowerCase();
+  return Object.entries(values).find(([key, value]) => key.toLowerCase() === wanted || value.toLowerCase() === wanted)?.[1];
+};
+
+const parseRecords = (text: string, fileName: string): RawRecord[] => {
+  const content = text.replace(/^\uFEFF/, '');
+  if (fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(content)) {
+    const parsed = JSON.parse(content);
+    const records = Array.isArray(parsed) ? parsed : parsed?.questions;
+    if (!Array.isArray(records)) throw new Error('Expected an array of questions or an object with a "questions" array.');
+    return records;
+  }
+  const [header, ...rows] = parseCsv(content);
+  if (!header || !header.map((h) => h.trim()).includes('text')) {
+    throw new Error(`The CSV header must include a "text" column (${BANK_CSV_COLUMNS.join(', ')}).`);
+  }
+  return rows.map((cells) => csvRowToRecord(header.map((h) => h.trim()), cells));
+};
+
+/**
+ * Imports a JSON or CSV file into the bank. Each row goes through the same validation as
+ * generated questions; rows that cannot be repaired are reported, duplicates are skipped.
+ */
+export const importBank = (text: string, fileName: string): ImportResult => {
+  const records = parseRecords(text, fileName);
+  const bank = loadBank();
+  const issues: ValidationIssue[] = [];
+  const context = createValidationContext({ language: Language.ENGLISH }, bank.map((b) => b.question));
+  const scenarios = new Map<string, Scenario>(); // Rows sharing a passage share one scenario
+  const addedAt = Date.now();
+  const errors: string[] = [];
+  let added = 0;
+  let duplicates = 0;
+
+  records.forEach((raw, idx) => {
+    const record = (raw && typeof raw === 'object' ? raw : {}) as RawRecord;
+    const rowLabel = `Row ${idx + 1}`;
+    // A blank kind means an MCQ; any other value must name a known kind, in any case
+    const kindText = String(record.kind ?? '').trim().toLowerCase();
+    const kind = (kindText || 'mcq') as QuestionKind;
+    if (!KINDS.includes(kind)) {
+      errors.push(`${rowLabel}: unknown kind "${String(record.kind).trim()}".`);
+      return;
+    }
+    const subject = enumValue(Subject, record.subject);
+    const level = enumValue(DifficultyLevel, record.level);
+    if (!subject || !level) {
+      errors.push(`${rowLabel}: ${!subject ? `unknown subject "${record.subject ?? ''}"` : `unknown level "${record.level ?? ''}"`}.`);
+      return;
+    }
+
+    const before = issues.length;
+    const question = validateQuestion(record, kind, idx, context, issues);
+    if (!question) {
+      const reason = issues.slice(before).find((i) => i.action === 'dropped')?.reason ?? 'Invalid question.';
+      if (reason.startsWith('Duplicate')) duplicates++;
+      else errors.push(`${rowLabel}: ${reason}`);
+      return;
+    }
+    const marks = Number(record.marks);
+    const withMarks: Question = kind !== 'descriptive' && marks > 0 ? { ...question, marks } : question;
+
+    let scenario: Scenario | undefined;
+    const rawScenario = (record.scenario && typeof record.scenario === 'object' ? record.scenario : {}) as RawRecord;
+    const passage = typeof rawScenario.passage === 'string' ? rawScenario.passage.trim() : '';
+    if (kind === 'mcq' && passage) {
+      scenario = scenarios.get(passage) ?? {
+        id: `bank-scenario-${addedAt}-${scenarios.size + 1}`,
+        title: typeof rawScenario.title === 'string' && rawScenario.title.trim() ? rawScenario.title.trim() : `Case Scenario ${scenarios.size + 1}`,
+        passage,
+      };
+      scenarios.set(passage, scenario);
+    }
+
+    bank.push({
+      id: newBankId(addedAt, idx),
+      question: { ...withMarks, scenarioId: scenario?.id },
+      scenario,
+      subject,
+      level,
+      paperId: typeof record.paperId === 'string' && record.paperId ? record.paperId : undefined,
+      topic: typeof record.topic === 'string' && record.topic ? record.topic : undefined,
+      language: enumValue(Language, record.language) ?? Language.ENGLISH,
+      source: 'imported',
+      addedAt,
+    });
+    added++;
+  });
+
+  writeBank(bank);
+  return { bank, added, duplicates, errors };
+};
+
+// --- Exams from the bank ----------------------------------------------------
+
+/** Bank questions usable for a config: same subject, level and language, an allowed kind and, when both name one, the same paper. */
+export const bankQuestionsFor = (
+  bank: BankQuestion[],
+  config: Pick<ExamConfig, 'subject' | 'level' | 'language' | 'paperId' | 'questionKinds'>
+): BankQuestion[] => {
+  const kinds = config.questionKinds ?? ['mcq'];
+  return bank.filter((b) =>
+    b.subject === config.subject &&
+    b.level === config.level &&
+    b.language === config.language &&
+    kinds.includes(b.question.kind ?? 'mcq') &&
+    (!config.paperId || !b.paperId || b.paperId === config.paperId)
+  );
+};
+
+/**
+ * Draws up to `count` random bank questions for an exam. Ids are re-keyed to the bank entry
+ * so they never collide with generated questions. A case scenario is drawn whole, with its
+ * passage, or not at all, and its questions stay together in bank order.
+ */
+export const drawFromBank = (
+  config: Pick<ExamConfig, 'subject' | 'level' | 'language' | 'paperId' | 'questionKinds'>,
+  count: number
+): { questions: Question[]; scenarios: Scenario[] } => {
+  const units = new Map<string, BankQuestion[]>();
+  bankQuestionsFor(loadBank(), config).forEach((b) => {
+    const key = b.scenario ? `scenario:${b.scenario.id}` : b.id;
+    units.set(key, [...(units.get(key) ?? []), b]);
+  });
+  const pool = [...units.values()];
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  // A scenario too big for the space left is passed over for smaller units
+  const picked: BankQuestion[] = [];
+  pool.forEach((unit) => {
+    if (picked.length + unit.length <= count) picked.push(...unit);
+  });
+  picked.sort((a, b) => (a.scenario?.id ?? '').localeCompare(b.scenario?.id ?? ''));
+  const scenarios = new Map<string, Scenario>();
+  picked.forEach((b) => { if (b.scenario) scenarios.set(b.scenario.id, b.scenario); });
+  return {
+    questions: picked.map((b) => ({ ...b.question, id: b.id, scenarioId: b.scenario?.id })),
+    scenarios: [...scenarios.values()],
+  };
+};
@@ -0,0 +1,114 @@
+import { ExamAttempt, ExamConfig, Question, QuestionCacheEntry, QuestionKind, ScenarioGroup } from '../types';
+import { isBilingual } from './languages';
+import { read, write } from './storage';
+
+// Keeps the cache small: a pool per selection, and only the most recent selections.
+const MAX_CACHED_PER_SELECTION = 120;
+const MAX_CACHED_SCENARIOS = 24;
+const MAX_SELECTIONS = 12;
+
+// Token overlap (Jaccard) at or above which two questions count as the same question reworded.
+export const SIMILARITY_THRESHOLD = 0.8;
+
+type CacheConfig = Pick<ExamConfig, 'subject' | 'level' | 'paperId' | 'chapterId' | 'topic' | 'language' | 'bilingual'>;
+
+// Question kinds and counts are drawn per exam, so they are not part of the key.
+// Bilingual questions are pooled apart, with the marker appended so older keys still match.
+export const cacheKey = (config: CacheConfig): string =>
+  [config.subject, config.level, config.paperId ?? '', config.chapterId ?? '', config.topic?.trim().toLowerCase() ?? '', config.language,
+    ...(isBilingual(config) ? ['bilingual'] : [])].join('|');
+
+const loadCache = (): QuestionCacheEntry[] => read('questionCache');
+
+const writeCache = (cache: QuestionCacheEntry[]) => write('questionCache', cache);
+
+const textKey = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const tokens = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+
+export const similarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach((t) => { if (b.has(t)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+/**
+ * Returns a check that is false for text matching (or closely rewording) a question the
+ * student has already answered in a past attempt. Unanswered questions do not count as seen.
+ */
+export const createFreshnessCheck = (attempts: ExamAttempt[]): ((text: string) => boolean) => {
+  const answered = attempts.flatMap((a) =>
+    a.state.questions.filter((_, idx) => a.state.answers[idx] !== undefined).map((q) => tokens(q.text))
+  );
+  return (text: string) => {
+    const candidate = tokens(text);
+    return !answered.some((seen) => similarity(candidate, seen) >= SIMILARITY_THRESHOLD);
+  };
+};
+
+// Cached ids are re-keyed so they cannot collide with the ids of freshly generated questions.
+let cacheCounter = 0;
+const cacheId = () => `cached-${Date.now()}-${++cacheCounter}`;
+
+/** Adds generated questions to the selection's pool, grouping case questions with their passage. */
+export const addToCache = (config: CacheConfig, questions: Question[], scenarios: { id: string; title: string; passage: string }[] = []) => {
+  const key = cacheKey(config);
+  const cache = loadCache();
+  const entry = cache.find((e) => e.key === key) ?? { key, questions: [], groups: [], updatedAt: 0 };
+  // Separate pre-generated sets can repeat a question
+  const known = new Set([...entry.questions, ...entry.groups.flatMap((g) => g.questions)].map((q) => textKey(q.text)));
+  const isNew = (q: Question) => !known.has(textKey(q.text)) && !!known.add(textKey(q.text));
+
+  const groups: ScenarioGroup[] = scenarios.map((s) => {
+    const id = cacheId();
+    return {
+      ...s,
+      id,
+      questions: questions.filter((q) => q.scenarioId === s.id && isNew(q)).map((q) => ({ ...q, id: cacheId(), scenarioId: id })),
+    };
+  }).filter((g) => g.questions.length > 0);
+  const standalone = questions.filter((q) => !q.scenarioId && isNew(q)).map((q) => ({ ...q, id: cacheId() }));
+
+  entry.questions = [...entry.questions, ...standalone].slice(-MAX_CACHED_PER_SELECTION);
+  entry.groups = [...entry.groups, ...groups].slice(-MAX_CACHED_SCENARIOS);
+  entry.updatedAt = Date.now();
+  const others = cache.filter((e) => e.key !== key).sort((a, b) => b.updatedAt - a.updatedAt).slice(0, MAX_SELECTIONS - 1);
+  writeCache([entry, ...others]);
+};
+
+/**
+ * Takes up to `count` cached questions of a kind, oldest first. Taken questions leave the pool,
+ * and so do any the student has answered since they were cached.
+ */
+export const takeCachedQuestions = (config: CacheConfig, kind: QuestionKind, count: number, isFresh: (text: string) => boolean): Question[] => {
+  const cache = loadCache();
+  const entry = cache.find((e) => e.key === cacheKey(config));
+  if (!entry || count <= 0) return [];
+  const taken: Question[] = [];
+  entry.questions = entry.questions.filter((q) => {
+    if (!isFresh(q.text)) return false;
+    if ((q.kind ?? 'mcq') !== kind || taken.length >= count) return true;
+    taken.push(q);
+    return false;
+  });
+  writeCache(cache);
+  return taken;
+};
+
+export const takeCachedScenarios = (config: CacheConfig, count: number, isFresh: (text: string) => boolean): ScenarioGroup[] => {
+  const cache = loadCache();
+  const entry = cache.find((e) => e.key === cacheKey(config));
+  if (!entry || count <= 0) return [];
+  const usable = entry.groups.filter((g) => g.questions.every((q) => isFresh(q.text)));
+  const taken = usable.slice(0, count);
+  entry.groups = usable.slice(count);
+  writeCache(cache);
+  return taken;
+};
+
+// Unserved questions ready for a selection, counting each case question.
+export const cachedQuestionCount = (config: CacheConfig): number => {
+  const entry = loadCache().find((e) => e.key === cacheKey(config));
+  return entry ? entry.questions.length + entry.groups.reduce((sum, g) => sum + g.questions.length, 0) : 0;
+};
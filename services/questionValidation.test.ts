@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { Language, McqQuestion, NumericQuestion, ValidationIssue } from '../types';
+import { createValidationContext, validateQuestion } from './questionValidation';
+
+const validate = (raw: Record<string, unknown>, kind: 'mcq' | 'numeric' | 'descriptive' = 'mcq') => {
+  const issues: ValidationIssue[] = [];
+  const question = validateQuestion(raw, kind, 0, createValidationContext({ language: Language.ENGLISH, topic: 'Ratios' }), issues);
+  return { question, issues };
+};
+
+const mcq = (fields: Record<string, unknown>) => ({
+  id: 'q1',
+  text: 'Which ratio measures liquidity?',
+  options: ['Current ratio', 'Debt-equity ratio', 'Gross profit ratio', 'Stock turnover ratio'],
+  correctOptionIndex: 0,
+  explanation: 'Current assets over current liabilities.',
+  chapter: 'Ratio Analysis',
+  ...fields,
+});
+
+describe('validateQuestion (mcq)', () => {
+  it('moves the correct answer to the kept copy when it repeats an earlier option', () => {
+    const { question, issues } = validate(mcq({ options: ['a', 'b', 'c', 'd', 'a'], correctOptionIndex: 4 }));
+    expect(question).toMatchObject({ options: ['a', 'b', 'c', 'd'], correctOptionIndex: 0 });
+    expect(issues.map((i) => i.action)).toEqual(['repaired']);
+  });
+
+  it('matches a repeated correct option ignoring case and spacing', () => {
+    const { question } = validate(mcq({ options: ['a', 'b', ' B ', 'c', 'd'], correctOptionIndex: 2 }));
+    expect((question as McqQuestion).correctOptionIndex).toBe(1);
+  });
+
+  it('keeps the correct answer in step when an earlier option is removed', () => {
+    const { question } = validate(mcq({ options: ['a', '', 'b', 'c', 'd'], correctOptionIndex: 3 }));
+    expect(question).toMatchObject({ options: ['a', 'b', 'c', 'd'], correctOptionIndex: 2 });
+  });
+
+  it('drops a question whose correct option falls beyond the four kept', () => {
+    const { question, issues } = validate(mcq({ options: ['a', 'b', 'c', 'd', 'e'], correctOptionIndex: 4 }));
+    expect(question).toBeNull();
+    expect(issues[issues.length - 1].action).toBe('dropped');
+  });
+
+  it('drops a question with fewer than four distinct options', () => {
+    const { question } = validate(mcq({ options: ['a', 'b', 'a', 'c'], correctOptionIndex: 0 }));
+    expect(question).toBeNull();
+  });
+
+  it('repairs a correct option index sent as a string', () => {
+    const { question, issues } = validate(mcq({ correctOptionIndex: '2' }));
+    expect((question as McqQuestion).correctOptionIndex).toBe(2);
+    expect(issues[0].reason).toBe('Correct option index was a string.');
+  });
+
+  it('treats a blank correct option index as missing, not as the first option', () => {
+    const { question, issues } = validate(mcq({ correctOptionIndex: ' ' }));
+    expect(question).toBeNull();
+    expect(issues[0].reason).toBe('Correct option index is missing or not a number.');
+  });
+
+  it('files an untagged question under the requested topic', () => {
+    const { question } = validate(mcq({ chapter: undefined }));
+    expect(question?.chapter).toBe('Ratios');
+  });
+});
+
+describe('validateQuestion (numeric and descriptive)', () => {
+  it('reads a numeric answer key sent as a string and keeps a valid tolerance', () => {
+    const { question } = validate(
+      { id: 'n1', text: 'Compute the EOQ.', correctValue: '400', toleranceType: 'absolute', toleranceValue: 1, explanation: 'x', chapter: 'Inventory' },
+      'numeric'
+    );
+    expect(question).toMatchObject({ correctValue: 400, tolerance: { type: 'absolute', value: 1 } });
+  });
+
+  it('drops a numeric question with a blank answer key', () => {
+    const { question } = validate({ id: 'n1', text: 'Compute the EOQ.', correctValue: '', explanation: 'x', chapter: 'Inventory' }, 'numeric');
+    expect(question).toBeNull();
+  });
+
+  it('replaces an unusable tolerance with the default', () => {
+    const { question } = validate(
+      { id: 'n1', text: 'Compute the EOQ.', correctValue: 400, tolerance: { type: 'roughly', value: 2 }, explanation: 'x', chapter: 'Inventory' },
+      'numeric'
+    );
+    expect((question as NumericQuestion).tolerance).toBeUndefined();
+  });
+
+  it('sets descriptive marks to the rubric total', () => {
+    const { question, issues } = validate(
+      {
+        id: 'd1',
+        text: 'Explain the doctrine of indoor management.',
+        modelAnswer: 'Outsiders may assume internal formalities were followed.',
+        rubric: [{ point: 'States the rule', marks: 2 }, { point: 'Applies it', marks: 2 }, { point: '', marks: 1 }],
+        marks: 5,
+        explanation: 'x',
+        chapter: 'Company Law',
+      },
+      'descriptive'
+    );
+    expect(question).toMatchObject({ marks: 4 });
+    expect(issues.map((i) => i.reason)).toContain('Question marks set to the rubric total of 4.');
+  });
+});
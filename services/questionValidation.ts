@@ -0,0 +1,391 @@
+import {
+  DescriptiveGrade,
+  DescriptiveQuestion,
+  ExamConfig,
+  Language,
+  McqQuestion,
+  NumericQuestion,
+  NumericTolerance,
+  Question,
+  QuestionEnglish,
+  QuestionKind,
+  RubricPoint,
+  Scenario,
+  ScenarioGroup,
+  ValidationIssue,
+} from '../types';
+import { LANGUAGES, isBilingual, isInScript } from './languages';
+import { translate } from './i18n';
+
+export const OPTIONS_PER_QUESTION = 4;
+
+export const UNTAGGED_CHAPTER = 'General';
+
+const normalize = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// Blank strings count as missing; Number('') would otherwise read them as 0.
+const asNumber = (value: unknown): number =>
+  typeof value === 'string' ? (value.trim() ? Number(value) : NaN) : typeof value === 'number' ? value : NaN;
+
+// Rounded to two decimals so summed half-marks stay exact.
+const roundMarks = (value: number) => Math.round(value * 100) / 100;
+
+type RawItem = Record<string, unknown>;
+type Report = (action: ValidationIssue['action'], reason: string) => void;
+
+type ContextConfig = Pick<ExamConfig, 'language' | 'topic' | 'bilingual'>;
+
+export interface ValidationContext {
+  config: ContextConfig;
+  seenIds: Set<string>;
+  seenTexts: Set<string>;
+  seenScenarioIds: Set<string>;
+  nextId: () => string;
+}
+
+export const createValidationContext = (config: ContextConfig, existing: Question[] = []): ValidationContext => {
+  let counter = existing.length;
+  const seenIds = new Set(existing.map((q) => q.id));
+  return {
+    config,
+    seenIds,
+    seenTexts: new Set(existing.map((q) => normalize(q.text))),
+    seenScenarioIds: new Set(existing.map((q) => q.scenarioId).filter((id): id is string => !!id)),
+    nextId: () => {
+      let id: string;
+      do {
+        counter++;
+        id = `q-${counter}`;
+      } while (seenIds.has(id));
+      return id;
+    },
+  };
+};
+
+// `sources` holds the raw index each kept option came from, so a parallel English list can follow the repairs.
+const validateMcqBody = (
+  item: RawItem,
+  report: Report
+): (Pick<McqQuestion, 'options' | 'correctOptionIndex'> & { sources: number[] }) | null => {
+  if (!Array.isArray(item.options)) {
+    report('dropped', 'Options are missing.');
+    return null;
+  }
+  let correctOptionIndex = asNumber(item.correctOptionIndex);
+  if (!Number.isInteger(correctOptionIndex)) {
+    report('dropped', Number.isNaN(correctOptionIndex) ? 'Correct option index is missing or not a number.' : 'Correct option index is not an integer.');
+    return null;
+  }
+  if (item.correctOptionIndex !== correctOptionIndex) {
+    report('repaired', 'Correct option index was a string.');
+  }
+  if (correctOptionIndex < 0 || correctOptionIndex >= item.options.length) {
+    report('dropped', `Correct option index ${correctOptionIndex} is out of range.`);
+    return null;
+  }
+
+  // Remove blank and duplicate options while keeping the correct answer's position in sync.
+  const correctText = asText(item.options[correctOptionIndex]);
+  if (!correctText) {
+    report('dropped', 'Correct option is empty.');
+    return null;
+  }
+  const originalIndex = correctOptionIndex;
+  correctOptionIndex = -1;
+  const keptAt = new Map<string, number>();
+  let options: string[] = [];
+  let sources: number[] = [];
+  item.options.forEach((option, idx) => {
+    const value = asText(option);
+    const key = normalize(value);
+    if (!value) return;
+    // A correct answer that repeats an earlier option moves to the copy that was kept
+    if (keptAt.has(key)) {
+      if (idx === originalIndex) correctOptionIndex = keptAt.get(key)!;
+      return;
+    }
+    keptAt.set(key, options.length);
+    if (idx === originalIndex) correctOptionIndex = options.length;
+    options.push(value);
+    sources.push(idx);
+  });
+  if (options.length !== item.options.length) {
+    report('repaired', 'Removed blank or duplicate options.');
+  }
+  if (correctOptionIndex < 0 || correctOptionIndex >= options.length) {
+    report('dropped', 'Correct option could not be matched after removing duplicates.');
+    return null;
+  }
+  if (options.length < OPTIONS_PER_QUESTION) {
+    report('dropped', `Only ${options.length} distinct options; ${OPTIONS_PER_QUESTION} required.`);
+    return null;
+  }
+  if (options.length > OPTIONS_PER_QUESTION) {
+    if (correctOptionIndex >= OPTIONS_PER_QUESTION) {
+      report('dropped', `More than ${OPTIONS_PER_QUESTION} options and the correct one is beyond the limit.`);
+      return null;
+    }
+    options = options.slice(0, OPTIONS_PER_QUESTION);
+    sources = sources.slice(0, OPTIONS_PER_QUESTION);
+    report('repaired', `Trimmed extra options to ${OPTIONS_PER_QUESTION}.`);
+  }
+  return { options, correctOptionIndex, sources };
+};
+
+/**
+ * Reads the English original of a bilingual question. It is dropped, leaving the question
+ * single-language, when its text is missing or its options do not line up with the kept ones.
+ */
+const validateEnglish = (item: RawItem, sources: number[] | undefined, report: Report): QuestionEnglish | undefined => {
+  const english = (item.english && typeof item.english === 'object' ? item.english : {}) as RawItem;
+  const text = asText(english.text);
+  if (!text) {
+    report('flagged', 'English version is missing.');
+    return undefined;
+  }
+  const explanation = asText(english.explanation) || translate(Language.ENGLISH, 'common.noExplanation');
+  if (!sources) return { text, explanation };
+
+  const rawOptions = Array.isArray(english.options) && english.options.length === (item.options as unknown[]).length ? english.options : [];
+  const options = sources.map((idx) => asText(rawOptions[idx]));
+  if (options.some((option) => !option)) {
+    report('flagged', 'English options do not match the question\'s options; English version left out.');
+    return undefined;
+  }
+  return { text, explanation, options };
+};
+
+const TOLERANCE_TYPES: NumericTolerance['type'][] = ['percent', 'absolute', 'decimals'];
+
+const validateNumericBody = (
+  item: RawItem,
+  report: Report
+): Pick<NumericQuestion, 'correctValue' | 'unit' | 'tolerance'> | null => {
+  const correctValue = asNumber(item.correctValue);
+  if (!Number.isFinite(correctValue)) {
+    report('dropped', 'Correct value is not a number.');
+    return null;
+  }
+  if (typeof item.correctValue === 'string') {
+    report('repaired', 'Correct value was a string.');
+  }
+  const unit = asText(item.unit) || undefined;
+
+  // Tolerance arrives flattened from the response schema (or nested, as in the fixtures);
+  // fall back to the default if unusable.
+  const nested = (item.tolerance && typeof item.tolerance === 'object' ? item.tolerance : {}) as RawItem;
+  const rawType = asText(nested.type ?? item.toleranceType) as NumericTolerance['type'];
+  const rawValueSource = nested.value ?? item.toleranceValue;
+  const rawValue = asNumber(rawValueSource);
+  if (!rawType && rawValueSource === undefined) {
+    return { correctValue, unit };
+  }
+  if (!TOLERANCE_TYPES.includes(rawType) || !Number.isFinite(rawValue) || rawValue < 0) {
+    report('repaired', 'Invalid tolerance replaced with the default.');
+    return { correctValue, unit };
+  }
+  return { correctValue, unit, tolerance: { type: rawType, value: rawValue } };
+};
+
+const validateDescriptiveBody = (
+  item: RawItem,
+  report: Report
+): Pick<DescriptiveQuestion, 'modelAnswer' | 'rubric' | 'marks'> | null => {
+  const modelAnswer = asText(item.modelAnswer);
+  if (!modelAnswer) {
+    report('dropped', 'Model answer is missing.');
+    return null;
+  }
+  if (!Array.isArray(item.rubric)) {
+    report('dropped', 'Marking rubric is missing.');
+    return null;
+  }
+  const rubric: RubricPoint[] = [];
+  item.rubric.forEach((raw) => {
+    const entry = (raw && typeof raw === 'object' ? raw : {}) as RawItem;
+    const point = asText(entry.point);
+    const marks = asNumber(entry.marks);
+    if (point && marks > 0) rubric.push({ point, marks });
+  });
+  if (rubric.length !== item.rubric.length) {
+    report('repaired', 'Removed rubric points without a description or positive marks.');
+  }
+  if (rubric.length === 0) {
+    report('dropped', 'Marking rubric has no usable points.');
+    return null;
+  }
+  // The rubric is what gets graded, so its total wins over a stated mark that disagrees.
+  const marks = roundMarks(rubric.reduce((sum, r) => sum + r.marks, 0));
+  if (item.marks !== undefined && asNumber(item.marks) !== marks) {
+    report('repaired', `Question marks set to the rubric total of ${marks}.`);
+  }
+  return { modelAnswer, rubric, marks };
+};
+
+/**
+ * Checks one raw AI item of the requested kind and returns a usable Question,
+ * or null if it cannot be repaired. Every change or rejection is appended to `issues`.
+ */
+export const validateQuestion = (
+  raw: unknown,
+  kind: QuestionKind,
+  position: number,
+  context: ValidationContext,
+  issues: ValidationIssue[]
+): Question | null => {
+  const item = (raw && typeof raw === 'object' ? raw : {}) as RawItem;
+  const rawId = asText(item.id);
+  const report: Report = (action, reason) =>
+    issues.push({ position, questionId: rawId || '(none)', action, reason });
+
+  const text = asText(item.text);
+  if (!text) {
+    report('dropped', 'Question text is empty.');
+    return null;
+  }
+  if (context.seenTexts.has(normalize(text))) {
+    report('dropped', 'Duplicate of an earlier question.');
+    return null;
+  }
+
+  const body = kind === 'descriptive' ? validateDescriptiveBody(item, report)
+    : kind === 'numeric' ? validateNumericBody(item, report)
+    : validateMcqBody(item, report);
+  if (!body) return null;
+
+  let id = rawId;
+  if (!id || context.seenIds.has(id)) {
+    id = context.nextId();
+    report('repaired', rawId ? `Duplicate id replaced with "${id}".` : `Missing id replaced with "${id}".`);
+  }
+
+  let explanation = asText(item.explanation);
+  if (!explanation) {
+    explanation = translate(context.config.language, 'common.noExplanation');
+    report('repaired', 'Explanation was missing.');
+  }
+
+  if (!isInScript(context.config.language, text)) {
+    report('flagged', `Question text is not in ${LANGUAGES[context.config.language].script} script.`);
+  }
+
+  // Untagged questions are grouped under the requested topic so the breakdown still adds up.
+  let chapter = asText(item.chapter);
+  const concept = asText(item.concept) || undefined;
+  if (!chapter) {
+    chapter = context.config.topic?.trim() || UNTAGGED_CHAPTER;
+    report('repaired', `Chapter tag was missing; filed under "${chapter}".`);
+  }
+
+  const sources = 'sources' in body ? body.sources : undefined;
+  const english = isBilingual(context.config) ? validateEnglish(item, sources, report) : undefined;
+
+  context.seenIds.add(id);
+  context.seenTexts.add(normalize(text));
+  // The English original shares the question's id, so answers and notes cover both versions
+  const tags = { chapter, concept, ...(english ? { english } : {}) };
+  switch (kind) {
+    case 'descriptive':
+      return { kind, id, text, explanation, ...tags, ...(body as Pick<DescriptiveQuestion, 'modelAnswer' | 'rubric' | 'marks'>) };
+    case 'numeric':
+      return { kind, id, text, explanation, ...tags, ...(body as Pick<NumericQuestion, 'correctValue' | 'unit' | 'tolerance'>) };
+    default: {
+      const { options, correctOptionIndex } = body as Pick<McqQuestion, 'options' | 'correctOptionIndex'>;
+      return { id, text, explanation, ...tags, options, correctOptionIndex };
+    }
+  }
+};
+
+export const validateQuestionBatch = (
+  raw: unknown[],
+  kind: QuestionKind,
+  context: ValidationContext,
+  issues: ValidationIssue[]
+): Question[] => {
+  const valid: Question[] = [];
+  raw.forEach((item, position) => {
+    const question = validateQuestion(item, kind, position, context, issues);
+    if (question) valid.push(question);
+  });
+  return valid;
+};
+
+// A scenario needs at least this many usable questions to be worth keeping.
+const MIN_SCENARIO_QUESTIONS = 2;
+
+/**
+ * Checks one raw case scenario: its passage, and each child MCQ through the same
+ * rules as standalone questions. Children beyond `questionsPerScenario` are dropped.
+ */
+export const validateScenarioGroup = (
+  raw: unknown,
+  position: number,
+  questionsPerScenario: number,
+  context: ValidationContext,
+  issues: ValidationIssue[]
+): ScenarioGroup | null => {
+  const item = (raw && typeof raw === 'object' ? raw : {}) as RawItem;
+  const rawId = asText(item.id);
+  const report: Report = (action, reason) =>
+    issues.push({ position, questionId: `scenario ${rawId || '(none)'}`, action, reason });
+
+  const passage = asText(item.passage);
+  if (!passage) {
+    report('dropped', 'Scenario passage is empty.');
+    return null;
+  }
+  const children = validateQuestionBatch(Array.isArray(item.questions) ? item.questions : [], 'mcq', context, issues)
+    .slice(0, questionsPerScenario);
+  if (children.length < MIN_SCENARIO_QUESTIONS) {
+    report('dropped', `Only ${children.length} usable question(s) in the scenario.`);
+    return null;
+  }
+
+  let id = rawId;
+  if (!id || context.seenScenarioIds.has(id)) {
+    id = `scenario-${context.seenScenarioIds.size + 1}`;
+    while (context.seenScenarioIds.has(id)) id = `${id}-x`;
+    report('repaired', rawId ? `Duplicate scenario id replaced with "${id}".` : `Missing scenario id replaced with "${id}".`);
+  }
+  context.seenScenarioIds.add(id);
+
+  const title = asText(item.title) || `Case Scenario ${context.seenScenarioIds.size}`;
+  let english: Scenario['english'];
+  if (isBilingual(context.config)) {
+    const raw = (item.english && typeof item.english === 'object' ? item.english : {}) as RawItem;
+    const englishPassage = asText(raw.passage);
+    if (englishPassage) english = { title: asText(raw.title) || title, passage: englishPassage };
+    else report('flagged', 'English version of the passage is missing.');
+  }
+  return {
+    id,
+    title,
+    passage,
+    ...(english ? { english } : {}),
+    questions: children.map((q) => ({ ...q, scenarioId: id })),
+  };
+};
+
+/**
+ * Normalises an AI grading response: one entry per rubric point, each clamped
+ * to that point's marks and rounded down to the nearest half mark.
+ */
+export const validateGrade = (raw: unknown, question: DescriptiveQuestion): DescriptiveGrade => {
+  const item = (raw && typeof raw === 'object' ? raw : {}) as RawItem;
+  const rawPoints = Array.isArray(item.points) ? item.points : [];
+  const points = question.rubric.map((r, idx) => {
+    const entry = (rawPoints[idx] && typeof rawPoints[idx] === 'object' ? rawPoints[idx] : {}) as RawItem;
+    const awarded = asNumber(entry.awarded);
+    return {
+      awarded: Number.isFinite(awarded) ? Math.floor(Math.min(Math.max(awarded, 0), r.marks) * 2) / 2 : 0,
+      comment: asText(entry.comment) || (idx < rawPoints.length ? '' : 'Not assessed.'),
+    };
+  });
+  return {
+    points,
+    awarded: roundMarks(points.reduce((sum, p) => sum + p.awarded, 0)),
+    feedback: asText(item.feedback),
+  };
+};
@@ -0,0 +1,127 @@
+import { ExamAttempt, ExamConfig, ExamState, Question, ReviewCard, Scenario } from '../types';
+import { getMarkingScheme, marksForAnswer, maxMarksFor, countedQuestions } from './marking';
+import { read, write } from './storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DAILY_REVIEW_LIMIT = 20;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export const loadDeck = (): ReviewCard[] => read('reviewDeck');
+
+const writeDeck = (deck: ReviewCard[]) => write('reviewDeck', deck);
+
+// Question ids repeat across exams, so cards are matched on their text instead.
+const cardKey = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const endOfToday = (now: number) => {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end.getTime();
+};
+
+/**
+ * Adds every wrong or skipped question of a finished attempt to the deck, due tomorrow.
+ * A question already in the deck is left on its current schedule.
+ */
+export const addMissedQuestions = (attempt: Pick<ExamAttempt, 'config' | 'state' | 'finishedAt'>): ReviewCard[] => {
+  const { config, state, finishedAt } = attempt;
+  const scheme = getMarkingScheme(config);
+  const deck = loadDeck();
+  const known = new Set(deck.map((c) => cardKey(c.question.text)));
+
+  // Questions not marked under internal choice were never attempted, so they are not mistakes
+  countedQuestions(state).forEach((idx) => {
+    const question = state.questions[idx];
+    const marks = marksForAnswer(question, state.answers[idx], scheme, state.grades?.[idx]);
+    if (marks >= maxMarksFor(question, scheme) || known.has(cardKey(question.text))) return;
+    known.add(cardKey(question.text));
+    deck.push({
+      id: `${finishedAt}-${idx}`,
+      question,
+      scenario: question.scenarioId ? state.scenarios?.find((s) => s.id === question.scenarioId) : undefined,
+      subject: config.subject,
+      level: config.level,
+      language: config.language,
+      addedAt: finishedAt,
+      dueAt: finishedAt + DAY_MS,
+      intervalDays: 1,
+      easeFactor: INITIAL_EASE,
+      repetitions: 0,
+      lapses: 0,
+    });
+  });
+
+  writeDeck(deck);
+  return deck;
+};
+
+// Cards due by the end of today, most overdue first.
+export const dueCards = (deck: ReviewCard[], now = Date.now()): ReviewCard[] =>
+  deck.filter((c) => c.dueAt <= endOfToday(now)).sort((a, b) => a.dueAt - b.dueAt);
+
+/**
+ * SM-2: `quality` 0–5, where 3 or more counts as recalled. A lapse restarts the card at
+ * one day; each recall stretches the interval by the card's ease factor.
+ */
+export const scheduleCard = (card: ReviewCard, quality: number, now = Date.now()): ReviewCard => {
+  const recalled = quality >= 3;
+  const repetitions = recalled ? card.repetitions + 1 : 0;
+  const intervalDays = !recalled ? 1
+    : repetitions === 1 ? 1
+    : repetitions === 2 ? 6
+    : Math.round(card.intervalDays * card.easeFactor);
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  return {
+    ...card,
+    repetitions,
+    intervalDays,
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    lapses: recalled ? card.lapses : card.lapses + 1,
+    dueAt: now + intervalDays * DAY_MS,
+    lastReviewedAt: now,
+  };
+};
+
+/**
+ * Turns cards into a quiz. Ids are re-keyed to the card, since cards from different exams
+ * can share question and scenario ids; each scenario question carries its own passage.
+ */
+export const reviewQuestions = (cards: ReviewCard[]): { questions: Question[]; scenarios: Scenario[] } => ({
+  questions: cards.map((c) => ({
+    ...c.question,
+    id: c.id,
+    scenarioId: c.scenario ? `${c.id}-scenario` : undefined,
+  })),
+  scenarios: cards.filter((c) => c.scenario).map((c) => ({ ...c.scenario, id: `${c.id}-scenario` })),
+});
+
+// Recall quality from the marks earned: full marks 5, partial 3, wrong 1, skipped 0.
+const qualityFor = (marks: number, available: number, answered: boolean) =>
+  !answered ? 0 : marks >= available ? 5 : marks > 0 ? 3 : 1;
+
+/** Reschedules the cards of a finished review session; question i belongs to cards[i]. */
+export const recordReviewSession = (
+  cards: ReviewCard[],
+  state: Pick<ExamState, 'questions' | 'answers' | 'grades'>,
+  config: Pick<ExamConfig, 'markingScheme'>
+): ReviewCard[] => {
+  const scheme = getMarkingScheme(config);
+  const now = Date.now();
+  const updates = new Map(cards.map((card, idx) => {
+    const question = state.questions[idx];
+    const answer = state.answers[idx];
+    const marks = marksForAnswer(question, answer, scheme, state.grades?.[idx]);
+    return [card.id, scheduleCard(card, qualityFor(marks, maxMarksFor(question, scheme), answer !== undefined), now)];
+  }));
+  const deck = loadDeck().map((c) => updates.get(c.id) ?? c);
+  writeDeck(deck);
+  return deck;
+};
+
+export const removeCard = (id: string): ReviewCard[] => {
+  const deck = loadDeck().filter((c) => c.id !== id);
+  writeDeck(deck);
+  return deck;
+};
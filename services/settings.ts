@@ -0,0 +1,10 @@
+import { AppSettings } from '../types';
+import { read, write } from './storage';
+
+export const loadSettings = (): AppSettings => read('settings');
+
+export const updateSettings = (changes: Partial<AppSettings>): AppSettings => {
+  const settings = { ...loadSettings(), ...changes };
+  write('settings', settings);
+  return settings;
+};
@@ -0,0 +1,369 @@
+import { AppSettings, BankQuestion, DifficultyLevel, ExamAttempt, ExamCheckpoint, Language, Lesson, Note, ProfileRegistry, QuestionCacheEntry, ReviewCard } from '../types';
+
+// Each profile's data lives in its own IndexedDB database, one record per collection, and a
+// small registry database lists the profiles. The active profile's collections are read into
+// memory before the first render, so services read them synchronously; writes update memory
+// at once and are saved in the background.
+
+const DB_NAME = 'ca-guide';
+const STORE = 'collections';
+const REGISTRY_DB_NAME = 'ca-guide-profiles';
+const REGISTRY_STORE = 'registry';
+const REGISTRY_KEY = 'ca-profiles'; // In localStorage, without IndexedDB
+
+// The profile that owns the data saved before profiles existed
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Bump when stored data changes shape, and add the migration that upgrades it.
+export const SCHEMA_VERSION = 2;
+
+export interface Collections {
+  lessons: Lesson[];
+  notes: Note[];
+  attempts: ExamAttempt[];
+  settings: AppSettings;
+  questionBank: BankQuestion[];
+  reviewDeck: ReviewCard[];
+  questionCache: QuestionCacheEntry[];
+  activeExam: ExamCheckpoint | null;
+}
+
+export type CollectionName = keyof Collections;
+
+const defaults = (): Collections => ({
+  lessons: [],
+  notes: [],
+  attempts: [],
+  settings: { language: Language.ENGLISH, level: DifficultyLevel.FOUNDATION },
+  questionBank: [],
+  reviewDeck: [],
+  questionCache: [],
+  activeExam: null,
+});
+
+// Where each collection lived in localStorage before IndexedDB, and still does without it.
+// Profiles other than the default add their id to the key.
+const LEGACY_KEYS: Record<CollectionName, string> = {
+  lessons: 'ca-saved-lessons',
+  notes: 'ca-user-notes',
+  attempts: 'ca-exam-history',
+  settings: 'ca-settings',
+  questionBank: 'ca-question-bank',
+  reviewDeck: 'ca-review-deck',
+  questionCache: 'ca-question-cache',
+  activeExam: 'ca-active-exam',
+};
+
+export interface StorageIssue {
+  kind: 'quota' | 'unavailable' | 'unreadable' | 'failed';
+  message: string;
+  collections: CollectionName[];
+}
+
+let db: IDBDatabase | null = null;
+let registryDb: IDBDatabase | null = null;
+let useLocalStorage = false;
+let profileId = DEFAULT_PROFILE_ID;
+let registry: ProfileRegistry = { profiles: [], activeId: DEFAULT_PROFILE_ID };
+let memory: Collections = defaults();
+const pending = new Map<CollectionName, unknown>();
+let flushScheduled = false;
+let lastIssue: StorageIssue | null = null;
+const listeners = new Set<(issue: StorageIssue) => void>();
+let migratedKeys: string[] = [];
+
+const report = (issue: StorageIssue) => {
+  lastIssue = issue;
+  listeners.forEach((listener) => listener(issue));
+};
+
+/** Subscribes to storage problems. The latest earlier issue, e.g. from startup, is replayed. */
+export const onStorageIssue = (listener: (issue: StorageIssue) => void): (() => void) => {
+  listeners.add(listener);
+  if (lastIssue) listener(lastIssue);
+  return () => { listeners.delete(listener); };
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const issueFor = (error: unknown, collections: CollectionName[]): StorageIssue =>
+  isQuotaError(error)
+    ? { kind: 'quota', collections, message: "Your device's storage for this app is full, so the latest changes were not saved. Delete old lessons, notes or attempts to free space." }
+    : { kind: 'failed', collections, message: `Saving failed: ${error instanceof Error ? error.message : String(error)}` };
+
+export type SavedCollections = Partial<Record<CollectionName, unknown>>;
+
+// Each data migration upgrades stored collections from the schema version before it. They also
+// run on older backups and on localStorage data, so each must leave upgraded data as it is.
+// Migrations keep their own copy of any logic they need, so they stay as they were written.
+const DATA_MIGRATIONS: Record<number, (saved: SavedCollections) => SavedCollections> = {
+  // 1: the first IndexedDB schema, holding the old localStorage values as they were
+  1: (saved) => saved,
+  // 2: lessons get an id (one per subject and topic) and a lastModified time, for merging backups
+  2: (saved) => Array.isArray(saved.lessons)
+    ? { ...saved, lessons: saved.lessons.map((l) => ({ id: `${l.subject}|${l.topic}`, lastModified: 0, ...l })) }
+    : saved,
+};
+
+/** Brings collections saved under an older schema version up to the current one. */
+export const upgradeCollections = (saved: SavedCollections, fromVersion: number): SavedCollections => {
+  let upgraded = saved;
+  for (let version = Math.max(fromVersion, 1) + 1; version <= SCHEMA_VERSION; version++) {
+    upgraded = DATA_MIGRATIONS[version](upgraded);
+  }
+  return upgraded;
+};
+
+const legacyKey = (name: CollectionName, id = profileId) =>
+  id === DEFAULT_PROFILE_ID ? LEGACY_KEYS[name] : `${LEGACY_KEYS[name]}-${id}`;
+
+const readLegacy = (): SavedCollections => {
+  const saved: SavedCollections = {};
+  (Object.keys(LEGACY_KEYS) as CollectionName[]).forEach((name) => {
+    try {
+      const raw = localStorage.getItem(legacyKey(name));
+      if (raw !== null) saved[name] = JSON.parse(raw);
+    } catch (e) {
+      // The key stays in localStorage, so nothing is lost
+      console.error(`Failed to load ${legacyKey(name)}`, e);
+      report({ kind: 'unreadable', collections: [name], message: `Some saved ${name} could not be read and were left in place.` });
+    }
+  });
+  return saved;
+};
+
+// Both requests run in order, so the keys are in by the time the values arrive
+const readStore = (tx: IDBTransaction, done: (saved: SavedCollections) => void) => {
+  const keys = tx.objectStore(STORE).getAllKeys();
+  const values = tx.objectStore(STORE).getAll();
+  values.onsuccess = () => done(Object.fromEntries((keys.result as string[]).map((key, idx) => [key, values.result[idx]])));
+};
+
+const putAll = (tx: IDBTransaction, saved: SavedCollections) =>
+  Object.entries(saved).forEach(([name, value]) => tx.objectStore(STORE).put(value, name));
+
+const databaseName = (id: string) => (id === DEFAULT_PROFILE_ID ? DB_NAME : `${DB_NAME}-${id}`);
+
+const openDatabase = (id: string): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(databaseName(id), SCHEMA_VERSION);
+  request.onupgradeneeded = (event) => {
+    const tx = request.transaction;
+    if (event.oldVersion < 1) {
+      request.result.createObjectStore(STORE);
+      // The default profile starts with the old localStorage keys, removed once the upgrade commits
+      if (id !== DEFAULT_PROFILE_ID) return;
+      const legacy = readLegacy();
+      migratedKeys = (Object.keys(legacy) as CollectionName[]).map((name) => LEGACY_KEYS[name]);
+      putAll(tx, upgradeCollections(legacy, 1));
+      return;
+    }
+    readStore(tx, (saved) => putAll(tx, upgradeCollections(saved, event.oldVersion)));
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => report({
+    kind: 'unavailable',
+    collections: [],
+    message: "CA Guide is open in another tab with an older version. Close it so your data can be upgraded.",
+  });
+});
+
+const readAll = (database: IDBDatabase): Promise<SavedCollections> => new Promise((resolve, reject) => {
+  const tx = database.transaction(STORE, 'readonly');
+  readStore(tx, resolve);
+  tx.onerror = () => reject(tx.error);
+});
+
+// Stored values of the wrong shape are reported and replaced by the empty default
+const hydrate = (saved: SavedCollections) => {
+  const fresh = defaults();
+  const unreadable: CollectionName[] = [];
+  (Object.keys(fresh) as CollectionName[]).forEach((name) => {
+    const value = saved[name];
+    if (value === undefined || value === null) return;
+    const fallback = fresh[name];
+    if (Array.isArray(fallback) ? !Array.isArray(value) : typeof value !== 'object') {
+      unreadable.push(name);
+      return;
+    }
+    (fresh as unknown as Record<CollectionName, unknown>)[name] = fallback && !Array.isArray(fallback) ? { ...fallback, ...(value as object) } : value;
+  });
+  memory = fresh;
+  if (unreadable.length > 0) {
+    report({ kind: 'unreadable', collections: unreadable, message: `Saved ${unreadable.join(', ')} were in an unknown format and could not be loaded.` });
+  }
+};
+
+const defaultRegistry = (): ProfileRegistry => ({
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Student', createdAt: Date.now() }],
+  activeId: DEFAULT_PROFILE_ID,
+});
+
+const openRegistry = (): Promise<{ database: IDBDatabase; saved?: ProfileRegistry }> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(REGISTRY_DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(REGISTRY_STORE);
+  request.onerror = () => reject(request.error);
+  request.onsuccess = () => {
+    const database = request.result;
+    const get = database.transaction(REGISTRY_STORE, 'readonly').objectStore(REGISTRY_STORE).get(REGISTRY_STORE);
+    get.onsuccess = () => resolve({ database, saved: get.result });
+    get.onerror = () => reject(get.error);
+  };
+});
+
+const readLegacyRegistry = (): ProfileRegistry | undefined => {
+  try {
+    const raw = localStorage.getItem(REGISTRY_KEY);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch (e) {
+    console.error("Failed to load profiles", e);
+    return undefined;
+  }
+};
+
+// Opens a profile's database, running any pending migrations, and loads its collections
+const loadProfile = async (id: string) => {
+  profileId = id;
+  if (useLocalStorage) {
+    hydrate(upgradeCollections(readLegacy(), 1));
+    return;
+  }
+  const database = await openDatabase(id);
+  // Later saves from this tab fail and are reported rather than landing in an old schema
+  database.onversionchange = () => {
+    database.close();
+    report({ kind: 'unavailable', collections: [], message: "CA Guide was updated in another tab. Reload this page to keep saving your work." });
+  };
+  db = database;
+  hydrate(await readAll(database));
+  migratedKeys.forEach((key) => localStorage.removeItem(key));
+  migratedKeys = [];
+};
+
+/**
+ * Opens the profile registry and the active profile's data. Without IndexedDB (e.g. some
+ * private windows) the app keeps using localStorage and says so. Never rejects, so the app
+ * can always start.
+ */
+export const initStorage = async (): Promise<void> => {
+  try {
+    if (typeof indexedDB === 'undefined') throw new Error("IndexedDB is not available");
+    const { database, saved } = await openRegistry();
+    registryDb = database;
+    registry = saved?.profiles?.length ? saved : defaultRegistry();
+    await loadProfile(registry.activeId);
+    // Asks the browser not to clear the data under storage pressure; it may decline
+    navigator.storage?.persist?.().catch(() => undefined);
+  } catch (e) {
+    console.error("Failed to open IndexedDB, using localStorage", e);
+    db = null;
+    registryDb = null;
+    useLocalStorage = true;
+    migratedKeys = [];
+    const saved = readLegacyRegistry();
+    registry = saved?.profiles?.length ? saved : defaultRegistry();
+    await loadProfile(registry.activeId);
+    if (typeof indexedDB !== 'undefined') {
+      report({ kind: 'unavailable', collections: [], message: "Offline storage could not be opened, so saved data is limited to this browser's smaller local storage." });
+    }
+  }
+};
+
+export const readRegistry = (): ProfileRegistry => structuredClone(registry);
+
+export const writeRegistry = (value: ProfileRegistry) => {
+  registry = value;
+  try {
+    if (registryDb) registryDb.transaction(REGISTRY_STORE, 'readwrite').objectStore(REGISTRY_STORE).put(value, REGISTRY_STORE);
+    else localStorage.setItem(REGISTRY_KEY, JSON.stringify(value));
+  } catch (e) {
+    console.error("Failed to save profiles", e);
+    report(issueFor(e, []));
+  }
+};
+
+/** Saves the current profile's pending writes, then loads another profile's data. */
+export const switchProfile = async (id: string): Promise<void> => {
+  const previous = profileId;
+  if (pending.size > 0) flush();
+  db?.close(); // Waits for the saves above to finish
+  db = null;
+  try {
+    await loadProfile(id);
+  } catch (e) {
+    console.error("Failed to open profile", id, e);
+    await loadProfile(previous);
+    throw e;
+  }
+  writeRegistry({ ...registry, activeId: id });
+};
+
+/** Deletes everything saved for a profile other than the active one. */
+export const deleteProfileData = (id: string): Promise<void> => {
+  if (useLocalStorage) {
+    (Object.keys(LEGACY_KEYS) as CollectionName[]).forEach((name) => localStorage.removeItem(legacyKey(name, id)));
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(databaseName(id));
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const writeLegacy = (name: CollectionName, value: unknown) => {
+  try {
+    if (value === null) localStorage.removeItem(legacyKey(name));
+    else localStorage.setItem(legacyKey(name), JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to save ${name}`, e);
+    report(issueFor(e, [name]));
+  }
+};
+
+// Writes made in the same tick are saved together, keeping only the latest value of each collection
+const flush = () => {
+  flushScheduled = false;
+  const batch = Array.from(pending.entries());
+  pending.clear();
+  if (batch.length === 0) return;
+  if (useLocalStorage) {
+    batch.forEach(([name, value]) => writeLegacy(name, value));
+    return;
+  }
+  const names = batch.map(([name]) => name);
+  try {
+    const tx = db.transaction(STORE, 'readwrite');
+    batch.forEach(([name, value]) => tx.objectStore(STORE).put(value, name));
+    tx.onabort = () => {
+      console.error("Failed to save", names, tx.error);
+      report(issueFor(tx.error, names));
+    };
+  } catch (e) {
+    console.error("Failed to save", names, e);
+    report(issueFor(e, names));
+  }
+};
+
+/** A copy of a collection, so callers can change it freely before writing it back. */
+export const read = <K extends CollectionName>(name: K): Collections[K] => structuredClone(memory[name]);
+
+export const write = <K extends CollectionName>(name: K, value: Collections[K]) => {
+  memory[name] = value;
+  pending.set(name, value);
+  if (!flushScheduled) {
+    flushScheduled = true;
+    queueMicrotask(flush);
+  }
+};
+
+/** Bytes used and available to the app, when the browser reports them. */
+export const storageUsage = async (): Promise<{ usage: number; quota: number } | null> => {
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    return estimate?.quota ? { usage: estimate.usage ?? 0, quota: estimate.quota } : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,345 @@
+import { DifficultyLevel, ExamAttempt, Subject, SyllabusChapter, SyllabusPaper } from '../types';
+
+type ChapterSpec = [name: string, units?: string[]];
+
+const paper = (level: DifficultyLevel, number: string, name: string, subject: Subject, chapters: ChapterSpec[]): SyllabusPaper => {
+  const id = `${level.toLowerCase()}-${number.toLowerCase()}`;
+  return {
+    id,
+    number,
+    name,
+    subject,
+    chapters: chapters.map(([chapterName, units = []], idx) => ({ id: `${id}-${idx + 1}`, name: chapterName, units })),
+  };
+};
+
+// ICAI study material, new scheme of education and training (Foundation 2023, Intermediate and Final 2024).
+// Final Paper 6 (Integrated Business Solutions) is a multidisciplinary case study paper and is not listed.
+export const SYLLABUS: Record<DifficultyLevel, SyllabusPaper[]> = {
+  [DifficultyLevel.FOUNDATION]: [
+    paper(DifficultyLevel.FOUNDATION, '1', 'Accounting', Subject.ACCOUNTING, [
+      ['Theoretical Framework', ['Meaning and Scope of Accounting', 'Accounting Concepts, Principles and Conventions', 'Capital and Revenue Expenditures and Receipts', 'Contingent Assets and Contingent Liabilities', 'Accounting Policies']],
+      ['Accounting Process', ['Basic Accounting Procedures – Journal Entries', 'Ledgers', 'Trial Balance', 'Subsidiary Books', 'Rectification of Errors']],
+      ['Bank Reconciliation Statement'],
+      ['Inventories'],
+      ['Depreciation and Amortisation'],
+      ['Bills of Exchange and Promissory Notes'],
+      ['Preparation of Final Accounts of Sole Proprietors', ['Final Accounts of Manufacturing Entities', 'Final Accounts of Non-Manufacturing Entities']],
+      ['Financial Statements of Not-for-Profit Organisations'],
+      ['Accounts from Incomplete Records'],
+      ['Partnership and LLP Accounts', ['Introduction to Partnership Accounts', 'Treatment of Goodwill', 'Admission of a Partner', 'Retirement of a Partner', 'Death of a Partner', 'Introduction to LLPs']],
+      ['Company Accounts', ['Introduction to Company Accounts', 'Issue, Forfeiture and Re-issue of Shares', 'Issue of Debentures']],
+    ]),
+    paper(DifficultyLevel.FOUNDATION, '2', 'Business Laws', Subject.LAW, [
+      ['Indian Regulatory Framework'],
+      ['The Indian Contract Act, 1872', ['Nature of Contracts', 'Consideration', 'Other Essential Elements of a Contract', 'Performance of Contract', 'Breach of Contract', 'Contingent and Quasi Contracts', 'Contract of Indemnity and Guarantee', 'Bailment and Pledge', 'Agency']],
+      ['The Sale of Goods Act, 1930', ['Formation of the Contract of Sale', 'Conditions and Warranties', 'Transfer of Ownership and Delivery of Goods', 'Unpaid Seller']],
+      ['The Indian Partnership Act, 1932', ['General Nature of a Partnership', 'Relations of Partners', 'Registration and Dissolution of a Firm']],
+      ['The Limited Liability Partnership Act, 2008'],
+      ['The Companies Act, 2013', ['Essential Features of a Company', 'Types of Companies', 'Memorandum and Articles of Association']],
+      ['The Negotiable Instruments Act, 1881'],
+    ]),
+    paper(DifficultyLevel.FOUNDATION, '3', 'Quantitative Aptitude', Subject.QUANTITATIVE_APTITUDE, [
+      ['Ratio and Proportion, Indices and Logarithms'],
+      ['Equations'],
+      ['Linear Inequalities'],
+      ['Mathematics of Finance', ['Simple and Compound Interest', 'Annuity', 'Net Present Value and IRR']],
+      ['Basic Concepts of Permutations and Combinations'],
+      ['Sequence and Series'],
+      ['Sets, Relations and Functions'],
+      ['Basic Applications of Differential and Integral Calculus'],
+      ['Logical Reasoning', ['Number Series, Coding and Decoding', 'Direction Tests', 'Seating Arrangements', 'Blood Relations']],
+      ['Statistical Description of Data'],
+      ['Measures of Central Tendency and Dispersion'],
+      ['Probability'],
+      ['Theoretical Distributions'],
+      ['Correlation and Regression'],
+      ['Index Numbers'],
+    ]),
+    paper(DifficultyLevel.FOUNDATION, '4', 'Business Economics', Subject.ECONOMICS, [
+      ['Introduction to Business Economics'],
+      ['Theory of Demand and Supply', ['Law of Demand and Elasticity of Demand', 'Theory of Consumer Behaviour', 'Supply']],
+      ['Theory of Production and Cost', ['Theory of Production', 'Theory of Cost']],
+      ['Price Determination in Different Markets', ['Meaning and Types of Markets', 'Determination of Prices', 'Price-Output Determination under Different Market Forms']],
+      ['Determination of National Income'],
+      ['Business Cycles'],
+      ['Public Finance'],
+      ['Money Market'],
+      ['International Trade'],
+      ['Indian Economy'],
+    ]),
+  ],
+  [DifficultyLevel.INTERMEDIATE]: [
+    paper(DifficultyLevel.INTERMEDIATE, '1', 'Advanced Accounting', Subject.ADVANCED_ACCOUNTING, [
+      ['Introduction to Accounting Standards'],
+      ['Framework for Preparation and Presentation of Financial Statements'],
+      ['Applicability of Accounting Standards'],
+      ['Presentation and Disclosures Based Accounting Standards', ['AS 1 Disclosure of Accounting Policies', 'AS 3 Cash Flow Statements', 'AS 17 Segment Reporting', 'AS 18 Related Party Disclosures', 'AS 20 Earnings Per Share', 'AS 24 Discontinuing Operations', 'AS 25 Interim Financial Reporting']],
+      ['Assets Based Accounting Standards', ['AS 2 Valuation of Inventories', 'AS 10 Property, Plant and Equipment', 'AS 13 Accounting for Investments', 'AS 16 Borrowing Costs', 'AS 19 Leases', 'AS 26 Intangible Assets', 'AS 28 Impairment of Assets']],
+      ['Liabilities Based Accounting Standards', ['AS 15 Employee Benefits', 'AS 29 Provisions, Contingent Liabilities and Contingent Assets']],
+      ['Accounting Standards Based on Items Impacting Financial Statements', ['AS 4 Contingencies and Events Occurring after the Balance Sheet Date', 'AS 5 Net Profit or Loss for the Period, Prior Period Items and Changes in Accounting Policies', 'AS 11 The Effects of Changes in Foreign Exchange Rates', 'AS 22 Accounting for Taxes on Income']],
+      ['Revenue Based Accounting Standards', ['AS 7 Construction Contracts', 'AS 9 Revenue Recognition']],
+      ['Other Accounting Standards', ['AS 12 Accounting for Government Grants', 'AS 14 Accounting for Amalgamations']],
+      ['Accounting Standards for Consolidated Financial Statements', ['AS 21 Consolidated Financial Statements', 'AS 23 Accounting for Investments in Associates', 'AS 27 Financial Reporting of Interests in Joint Ventures']],
+      ['Financial Statements of Companies', ['Preparation of Financial Statements', 'Cash Flow Statement']],
+      ['Buyback of Securities'],
+      ['Amalgamation of Companies'],
+      ['Accounting for Reconstruction of Companies'],
+      ['Accounting for Branches including Foreign Branches'],
+    ]),
+    paper(DifficultyLevel.INTERMEDIATE, '2', 'Corporate and Other Laws', Subject.LAW, [
+      ['Preliminary'],
+      ['Incorporation of Company and Matters Incidental Thereto'],
+      ['Prospectus and Allotment of Securities'],
+      ['Share Capital and Debentures'],
+      ['Acceptance of Deposits by Companies'],
+      ['Registration of Charges'],
+      ['Management and Administration'],
+      ['Declaration and Payment of Dividend'],
+      ['Accounts of Companies'],
+      ['Audit and Auditors'],
+      ['Companies Incorporated Outside India'],
+      ['The Limited Liability Partnership Act, 2008'],
+      ['The General Clauses Act, 1897'],
+      ['Interpretation of Statutes'],
+      ['The Foreign Exchange Management Act, 1999'],
+    ]),
+    paper(DifficultyLevel.INTERMEDIATE, '3', 'Taxation', Subject.TAXATION, [
+      ['Basic Concepts of Income Tax'],
+      ['Residential Status and Scope of Total Income'],
+      ['Incomes which do not form part of Total Income'],
+      ['Heads of Income', ['Salaries', 'Income from House Property', 'Profits and Gains of Business or Profession', 'Capital Gains', 'Income from Other Sources']],
+      ["Income of Other Persons included in Assessee's Total Income"],
+      ['Aggregation of Income, Set-off and Carry Forward of Losses'],
+      ['Deductions from Gross Total Income'],
+      ['Advance Tax, Tax Deduction at Source and Tax Collection at Source'],
+      ['Provisions for Filing Return of Income and Self-Assessment'],
+      ['Income Tax Liability – Computation and Optimisation'],
+      ['GST in India – An Introduction'],
+      ['Supply under GST'],
+      ['Charge of GST', ['Levy and Collection', 'Reverse Charge', 'Composition Levy']],
+      ['Place of Supply'],
+      ['Exemptions from GST'],
+      ['Time of Supply'],
+      ['Value of Supply'],
+      ['Input Tax Credit'],
+      ['Registration'],
+      ['Tax Invoice, Credit and Debit Notes'],
+      ['Accounts and Records'],
+      ['E-way Bill'],
+      ['Payment of Tax'],
+      ['Returns'],
+    ]),
+    paper(DifficultyLevel.INTERMEDIATE, '4', 'Cost and Management Accounting', Subject.COSTING, [
+      ['Introduction to Cost and Management Accounting'],
+      ['Material Cost'],
+      ['Employee Cost and Direct Expenses'],
+      ['Overheads – Absorption Costing Method'],
+      ['Activity Based Costing'],
+      ['Cost Sheet'],
+      ['Cost Accounting Systems'],
+      ['Batch Costing'],
+      ['Job Costing'],
+      ['Process and Operation Costing'],
+      ['Joint Products and By-products'],
+      ['Service Costing'],
+      ['Standard Costing'],
+      ['Marginal Costing'],
+      ['Budgets and Budgetary Control'],
+    ]),
+    paper(DifficultyLevel.INTERMEDIATE, '5', 'Auditing and Ethics', Subject.AUDITING, [
+      ['Nature, Objective and Scope of Audit'],
+      ['Audit Strategy, Audit Planning and Audit Programme'],
+      ['Risk Assessment and Internal Control'],
+      ['Audit Evidence'],
+      ['Audit of Items of Financial Statements'],
+      ['Audit Documentation'],
+      ['Completion and Review'],
+      ['Audit Report'],
+      ['Special Features of Audit of Different Types of Entities'],
+      ['Audit of Banks'],
+      ['Ethics and Terms of Audit Engagements'],
+    ]),
+    paper(DifficultyLevel.INTERMEDIATE, '6A', 'Financial Management', Subject.FINANCIAL_MANAGEMENT, [
+      ['Scope and Objectives of Financial Management'],
+      ['Types of Financing'],
+      ['Financial Analysis and Planning – Ratio Analysis'],
+      ['Cost of Capital'],
+      ['Financing Decisions – Capital Structure'],
+      ['Financing Decisions – Leverages'],
+      ['Investment Decisions', ['Payback and Accounting Rate of Return', 'Net Present Value and Profitability Index', 'Internal Rate of Return', 'Capital Rationing']],
+      ['Dividend Decision'],
+      ['Management of Working Capital', ['Working Capital Requirement', 'Treasury and Cash Management', 'Management of Inventory', 'Management of Receivables and Payables', 'Financing of Working Capital']],
+    ]),
+    paper(DifficultyLevel.INTERMEDIATE, '6B', 'Strategic Management', Subject.IT_SM, [
+      ['Introduction to Strategic Management'],
+      ['Strategic Analysis: External Environment', ['PESTLE Analysis', "Porter's Five Forces", 'Competitive Landscape']],
+      ['Strategic Analysis: Internal Environment', ['Core Competencies', 'Value Chain', 'SWOT Analysis']],
+      ['Strategic Choices', ['Corporate Level Strategies', 'Business Level Strategies', 'Functional Level Strategies']],
+      ['Strategy Implementation and Evaluation'],
+    ]),
+  ],
+  [DifficultyLevel.FINAL]: [
+    paper(DifficultyLevel.FINAL, '1', 'Financial Reporting', Subject.FINANCIAL_REPORTING, [
+      ['Introduction to Indian Accounting Standards'],
+      ['Conceptual Framework for Financial Reporting under Ind AS'],
+      ['Ind AS on Presentation of Items in the Financial Statements', ['Ind AS 1 Presentation of Financial Statements', 'Ind AS 34 Interim Financial Reporting', 'Ind AS 7 Statement of Cash Flows']],
+      ['Ind AS 115 Revenue from Contracts with Customers'],
+      ['Ind AS on Measurement Based on Accounting Policies', ['Ind AS 8 Accounting Policies, Changes in Estimates and Errors', 'Ind AS 10 Events after the Reporting Period', 'Ind AS 113 Fair Value Measurement']],
+      ['Ind AS on Assets of the Financial Statements', ['Ind AS 2 Inventories', 'Ind AS 16 Property, Plant and Equipment', 'Ind AS 23 Borrowing Costs', 'Ind AS 36 Impairment of Assets', 'Ind AS 38 Intangible Assets', 'Ind AS 40 Investment Property', 'Ind AS 105 Non-current Assets Held for Sale', 'Ind AS 116 Leases']],
+      ['Ind AS on Liabilities of the Financial Statements', ['Ind AS 19 Employee Benefits', 'Ind AS 37 Provisions, Contingent Liabilities and Contingent Assets']],
+      ['Ind AS on Items Impacting the Financial Statements', ['Ind AS 12 Income Taxes', 'Ind AS 21 The Effects of Changes in Foreign Exchange Rates']],
+      ['Ind AS on Disclosures in the Financial Statements', ['Ind AS 24 Related Party Disclosures', 'Ind AS 33 Earnings per Share', 'Ind AS 108 Operating Segments']],
+      ['Other Ind AS', ['Ind AS 20 Government Grants', 'Ind AS 41 Agriculture', 'Ind AS 102 Share-based Payment']],
+      ['Accounting and Reporting of Financial Instruments'],
+      ['Business Combinations and Corporate Restructuring'],
+      ['Consolidated and Separate Financial Statements'],
+      ['First-time Adoption of Ind AS'],
+      ['Analysis of Financial Statements'],
+      ['Professional and Ethical Duty of a Chartered Accountant'],
+      ['Accounting and Technology'],
+    ]),
+    paper(DifficultyLevel.FINAL, '2', 'Advanced Financial Management', Subject.FINANCIAL_MANAGEMENT, [
+      ['Financial Policy and Corporate Strategy'],
+      ['Risk Management'],
+      ['Advanced Capital Budgeting Decisions'],
+      ['Security Analysis'],
+      ['Security Valuation'],
+      ['Portfolio Management'],
+      ['Securitization'],
+      ['Mutual Funds'],
+      ['Derivatives Analysis and Valuation'],
+      ['Foreign Exchange Exposure and Risk Management'],
+      ['International Financial Management'],
+      ['Interest Rate Risk Management'],
+      ['Corporate Valuation'],
+      ['Mergers, Acquisitions and Corporate Restructuring'],
+      ['Startup Finance'],
+    ]),
+    paper(DifficultyLevel.FINAL, '3', 'Advanced Auditing, Assurance and Professional Ethics', Subject.AUDITING, [
+      ['Quality Control'],
+      ["General Auditing Principles and Auditors' Responsibilities"],
+      ['Audit Planning, Strategy and Execution'],
+      ['Materiality, Risk Assessment and Internal Control'],
+      ['Audit Evidence'],
+      ['Completion and Review'],
+      ['Reporting'],
+      ['Specialised Areas'],
+      ['Audit-related Services'],
+      ['Review of Financial Information'],
+      ['Prospective Financial Information and Other Assurance Services'],
+      ['Digital Auditing and Assurance'],
+      ['Group Audits'],
+      ['Special Features of Audit of Banks and Non-Banking Financial Companies'],
+      ['Overview of Audit of Public Sector Undertakings'],
+      ['Internal Audit'],
+      ['Due Diligence, Investigation and Forensic Accounting'],
+      ['Emerging Areas'],
+      ['Professional Ethics and Liabilities of Auditors'],
+    ]),
+    paper(DifficultyLevel.FINAL, '4', 'Direct Tax Laws and International Taxation', Subject.TAXATION, [
+      ['Basis of Charge and Scope of Total Income'],
+      ['Incomes which do not form part of Total Income'],
+      ['Profits and Gains of Business or Profession'],
+      ['Capital Gains'],
+      ['Income from Other Sources'],
+      ["Income of Other Persons included in Assessee's Total Income"],
+      ['Aggregation of Income, Set-off and Carry Forward of Losses'],
+      ['Deductions from Gross Total Income'],
+      ['Assessment of Various Entities'],
+      ['Tax Planning, Tax Avoidance and Tax Evasion'],
+      ['Taxation of Digital Transactions'],
+      ['Deduction, Collection and Recovery of Tax'],
+      ['Income-tax Authorities'],
+      ['Assessment Procedure'],
+      ['Appeals and Revision'],
+      ['Dispute Resolution'],
+      ['Miscellaneous Provisions'],
+      ['Provisions to Counteract Unethical Tax Practices'],
+      ['Tax Audit and Ethical Compliances'],
+      ['Non-resident Taxation'],
+      ['Double Taxation Relief'],
+      ['Transfer Pricing'],
+      ['Fundamentals of Base Erosion and Profit Shifting'],
+      ['Tax Treaties: Overview, Application and Interpretation'],
+      ['Overview of Model Tax Conventions'],
+      ['Latest Developments in International Taxation'],
+    ]),
+    paper(DifficultyLevel.FINAL, '5', 'Indirect Tax Laws', Subject.TAXATION, [
+      ['Supply under GST'],
+      ['Charge of GST'],
+      ['Place of Supply'],
+      ['Exemptions from GST'],
+      ['Time of Supply'],
+      ['Value of Supply'],
+      ['Input Tax Credit'],
+      ['Registration'],
+      ['Tax Invoice, Credit and Debit Notes'],
+      ['Accounts and Records'],
+      ['E-way Bill'],
+      ['Payment of Tax'],
+      ['Electronic Commerce Transactions'],
+      ['Returns'],
+      ['Import and Export under GST'],
+      ['Refunds'],
+      ['Job Work'],
+      ['Assessment and Audit'],
+      ['Inspection, Search, Seizure and Arrest'],
+      ['Demands and Recovery'],
+      ['Liability to Pay in Certain Cases'],
+      ['Offences and Penalties and Ethical Aspects under GST'],
+      ['Appeals and Revision'],
+      ['Advance Ruling'],
+      ['Miscellaneous Provisions under GST'],
+      ['Levy of and Exemptions from Customs Duty'],
+      ['Types of Customs Duty'],
+      ['Classification of Imported and Export Goods'],
+      ['Valuation under the Customs Act, 1962'],
+      ['Importation, Exportation and Transportation of Goods'],
+      ['Duty Drawback'],
+      ['Refund under Customs'],
+      ['Foreign Trade Policy'],
+    ]),
+  ],
+};
+
+export const papersFor = (level: DifficultyLevel): SyllabusPaper[] => SYLLABUS[level];
+
+export const findPaper = (paperId?: string): SyllabusPaper | undefined =>
+  paperId ? Object.values(SYLLABUS).flat().find((p) => p.id === paperId) : undefined;
+
+export const findChapter = (paperId?: string, chapterId?: string): SyllabusChapter | undefined =>
+  chapterId ? findPaper(paperId)?.chapters.find((c) => c.id === chapterId) : undefined;
+
+// Used where only a subject is known (e.g. older attempts): the first paper at that level testing it.
+export const defaultPaperFor = (level: DifficultyLevel, subject: Subject): SyllabusPaper | undefined =>
+  SYLLABUS[level].find((p) => p.subject === subject);
+
+export const paperLabel = (paper: SyllabusPaper) => `Paper ${paper.number}: ${paper.name}`;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+export interface PaperCoverage {
+  paper: SyllabusPaper;
+  covered: Set<string>; // Chapter ids
+}
+
+/**
+ * Chapters practised at a level, per paper. A chapter counts as covered when an attempt
+ * targeted it, or when a question in an attempt on that paper was tagged with its name.
+ */
+export const syllabusCoverage = (level: DifficultyLevel, attempts: ExamAttempt[]): PaperCoverage[] =>
+  SYLLABUS[level].map((p) => {
+    const covered = new Set<string>();
+    attempts.forEach(({ config, state }) => {
+      if (config.level !== level) return;
+      const attemptPaper = findPaper(config.paperId) ?? defaultPaperFor(level, config.subject);
+      if (attemptPaper?.id !== p.id) return;
+      if (config.chapterId) covered.add(config.chapterId);
+      state.questions.forEach((q) => {
+        const match = q.chapter && p.chapters.find((c) => normalize(c.name) === normalize(q.chapter!));
+        if (match) covered.add(match.id);
+      });
+    });
+    return { paper: p, covered };
+  });
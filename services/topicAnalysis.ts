@@ -0,0 +1,54 @@
+import { Answer, DescriptiveGrade, ExamConfig, ExamState, Question, ScoreBreakdown } from '../types';
+import { UNTAGGED_CHAPTER } from './questionValidation';
+import { scoreExam, getMarkingScheme, marksForAnswer, maxMarksFor, countedQuestions } from './marking';
+
+export interface TopicResult extends ScoreBreakdown {
+  chapter: string;
+  questionCount: number;
+  missedConcepts: string[]; // Concepts with a wrong or skipped answer, in paper order
+}
+
+// Weak topics listed under the breakdown; the rest are visible in the table.
+const MAX_WEAK_TOPICS = 3;
+
+export const hasTopicTags = (questions: Question[]) => questions.some((q) => !!q.chapter);
+
+/**
+ * Scores each chapter as if it were its own paper, so accuracy, negative marks and the
+ * pass mark mean the same as in the overall result. Sorted weakest first.
+ */
+export const topicBreakdown = (
+  state: Pick<ExamState, 'questions' | 'answers' | 'grades' | 'sections'>,
+  config: Pick<ExamConfig, 'level' | 'markingScheme'>
+): TopicResult[] => {
+  const groups = new Map<string, { questions: Question[]; answers: Record<number, Answer>; grades: Record<number, DescriptiveGrade> }>();
+  const scheme = getMarkingScheme(config);
+
+  // Optional questions left out under internal choice say nothing about a topic
+  countedQuestions(state).forEach((idx) => {
+    const q = state.questions[idx];
+    const chapter = q.chapter || UNTAGGED_CHAPTER;
+    const group = groups.get(chapter) ?? { questions: [], answers: {}, grades: {} };
+    const position = group.questions.length;
+    group.questions.push(q);
+    if (state.answers[idx] !== undefined) group.answers[position] = state.answers[idx];
+    if (state.grades?.[idx]) group.grades[position] = state.grades[idx];
+    groups.set(chapter, group);
+  });
+
+  const results = Array.from(groups, ([chapter, group]) => {
+    const score = scoreExam(group, config);
+    const concepts: string[] = [];
+    group.questions.forEach((q, position) => {
+      const marks = marksForAnswer(q, group.answers[position], scheme, group.grades[position]);
+      if (marks < maxMarksFor(q, scheme) && q.concept && !concepts.includes(q.concept)) concepts.push(q.concept);
+    });
+    return { ...score, chapter, questionCount: group.questions.length, missedConcepts: concepts };
+  });
+
+  return results.sort((a, b) => a.percentage - b.percentage || b.questionCount - a.questionCount);
+};
+
+// Chapters below the pass mark, weakest first.
+export const weakestTopics = (results: TopicResult[]): TopicResult[] =>
+  results.filter((r) => !r.isPass).slice(0, MAX_WEAK_TOPICS);
@@ -0,0 +1,1661 @@
+import { Language } from '../types';
+
+// English is the source text. `{name}` marks a value filled in by the caller, and a message with
+// `_one` and `_other` forms is chosen by its `count`.
+export const MESSAGES = {
+  // Shared
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.save': 'Save',
+  'common.dismiss': 'Dismiss',
+  'common.optional': '(optional)',
+  'common.previous': 'Previous',
+  'common.next': 'Next',
+  'common.loadingNext': 'Loading next question…',
+  'common.questionOf': 'Question {number} of {total}',
+  'common.questionNumber': 'Question {number}',
+  'common.questions_one': '{count} question',
+  'common.questions_other': '{count} questions',
+  'common.questionWord_one': 'question',
+  'common.questionWord_other': 'questions',
+  'common.marks_one': '{count} mark',
+  'common.marks_other': '{count} marks',
+  'common.anyOf': 'any {attempt} of {total}',
+  'common.allSubjects': 'All Subjects',
+  'common.allLevels': 'All Levels',
+  'common.subject': 'Subject',
+  'common.level': 'Level',
+  'common.language': 'Language',
+  'common.score': 'Score',
+  'common.marks': 'Marks',
+  'common.answered': 'Answered',
+  'common.yourAnswer': 'Your Answer',
+  'common.noExplanation': 'No explanation was provided for this question.',
+  'common.untitledNote': 'Untitled Note',
+  'common.connectionInterrupted': 'Connection interrupted. Please try again.',
+  'common.duration': '{minutes}m {seconds}s',
+  'common.durationSeconds': '{seconds}s',
+
+  'level.Foundation': 'Foundation',
+  'level.Intermediate': 'Intermediate',
+  'level.Final': 'Final',
+
+  'kind.mcq': 'Multiple Choice',
+  'kind.mcqShort': 'MCQ',
+  'kind.numeric': 'Numerical',
+  'kind.descriptive': 'Descriptive',
+
+  'source.ai': 'AI Generated',
+  'source.mixed': 'Bank + AI',
+  'source.bank': 'Bank Only',
+
+  'style.conceptual': 'Simplify for Beginners (Conceptual)',
+  'style.examFocused': 'Exam Oriented (High Scoring)',
+  'style.inDepth': 'Master Class (In-Depth)',
+
+  // Navigation and app-wide prompts
+  'nav.exam': 'Exam Simulator',
+  'nav.examShort': 'Exam',
+  'nav.classes': 'CA Classes',
+  'nav.classesShort': 'Classes',
+  'nav.history': 'History',
+  'nav.review': 'Review',
+  'nav.bank': 'Question Bank',
+  'nav.backup': 'Backup & Restore',
+  'app.connectFailed': 'Failed to connect to CA Guide. Please check your API Key and try again.',
+  'app.confirmExitPractice': 'Are you sure you want to exit? Your practice progress will be lost.',
+  'app.confirmDiscardAttempt': 'Discard this unfinished attempt? Your answers will be lost.',
+  'app.confirmExitReview': "Exit this review? Cards you didn't finish stay due.",
+  'app.attemptGone': 'This attempt is no longer in your history.',
+  'app.gradingTitle': 'Grading Your Written Answers...',
+  'app.gradingDetail': "Each answer is marked point by point against the examiner's rubric",
+  'app.preparingPractice': 'Preparing Practice Session...',
+  'app.generatingFor': 'Generating questions for {topic}',
+  'app.reviewSession_one': '{count} question from past mistakes',
+  'app.reviewSession_other': '{count} questions from past mistakes',
+  'app.noteTitle': 'Q{number}: {text}',
+  'app.noteExplanation': 'Explanation: {text}',
+
+  // Exam setup
+  'setup.tagline': 'Master your Chartered Accountancy exams with our AI-powered simulation engine. Practice with high-quality, scenario-based questions tailored to your level.',
+  'setup.featureAnalysis': 'Real-time Performance Analysis',
+  'setup.featureExplanations': 'Detailed Explanations',
+  'setup.featureDifficulty': 'Customizable Difficulty',
+  'setup.currentLanguage': 'Current Language',
+  'setup.title': 'Configure Examination',
+  'setup.format': 'Exam Format',
+  'setup.customExam': 'Custom Exam',
+  'setup.fullPaper': 'Full Paper',
+  'setup.level': 'Difficulty Level',
+  'setup.wholePaper': 'Whole paper (all chapters)',
+  'setup.paperPattern': 'ICAI Paper Pattern',
+  'setup.paperLength': '{hours} hours · {marks} marks',
+  'setup.passMark': 'Pass mark: {percent}%',
+
+  // Full paper sections
+  'paper.partAMcq': 'Part A – Multiple Choice Questions',
+  'paper.partBQuestion': 'Part B – Question {number}',
+  'paper.partBQuestions': 'Part B – Questions {first} to {last}',
+  'paper.mcq': 'Multiple Choice Questions',
+  'paper.questions': 'Questions {first} to {last}',
+  'paper.allCompulsory': 'All {total} questions are compulsory. Each carries {marks} marks. There is no negative marking.',
+  'paper.allCompulsoryNegative': 'All {total} questions are compulsory. Each carries {marks} mark; {deduction} marks are deducted for every wrong answer.',
+  'paper.questionCompulsory': 'Question {number} is compulsory.',
+  'paper.answerAny': 'Answer any {attempt} of the {total} questions. Only the first {attempt} answers will be marked.',
+
+  'setup.source': 'Question Source',
+  'setup.bankMatches_one': '{count} matching question in your bank',
+  'setup.bankMatches_other': '{count} matching questions in your bank',
+  'setup.bankOnlyCount': ' · the exam will have {count}',
+  'setup.bankMixed': ' · up to half the exam is drawn from the bank',
+  'setup.kinds': 'Question Types',
+  'setup.scheme': 'Marking Scheme',
+  'setup.passMarkAtLevel': 'Pass mark at {level} level: {percent}%',
+  'setup.negativeMarks': ' · −{marks} per wrong answer',
+  'setup.questionCount': 'Number of Questions',
+  'setup.estimatedTime': 'Estimated time: {minutes} minutes',
+  'setup.cachedReady_one': '{count} pre-generated question ready for this selection',
+  'setup.cachedReady_other': '{count} pre-generated questions ready for this selection',
+  'setup.noCached': 'No pre-generated questions for this selection',
+  'setup.preparing': 'Preparing in background...',
+  'setup.pregenerate': 'Pre-generate a set',
+  'setup.scenarios': 'Case Scenarios',
+  'setup.noScenarios': 'None',
+  'setup.scenarioOption_one': '{count} scenario ({questions} questions)',
+  'setup.scenarioOption_other': '{count} scenarios ({questions} questions)',
+  'setup.scenarioHint': 'Each scenario is a shared case passage followed by {count} MCQs, as in the ICAI MCQ papers.',
+  'setup.bilingual': 'Bilingual ({language} and English)',
+  'setup.bilingualHint': 'Questions, options and explanations also come in English, to check technical terms against the original.',
+  'setup.generating': 'Generating Exam ({language})...',
+  'setup.start': 'Start Examination ({language})',
+
+  'syllabus.paper': 'Paper',
+  'syllabus.chapter': 'Chapter',
+  'syllabus.selectChapter': 'Select a chapter...',
+  'syllabus.unit': 'Unit',
+  'syllabus.wholeChapter': 'Whole chapter',
+
+  // Taking an exam or practice quiz
+  'exam.confirmSubmit_one': 'You have {count} unanswered question. Are you sure you want to submit?',
+  'exam.confirmSubmit_other': 'You have {count} unanswered questions. Are you sure you want to submit?',
+  'exam.quizTitle': 'Quiz: {title}',
+  'exam.defaultTitle': 'CA Exam Simulator',
+  'exam.submit': 'Submit Exam',
+  'exam.overAnswered': 'You have answered {answered} questions here; only the first {limit} will be marked.',
+  'exam.flag': 'Flag for Review',
+  'exam.flagged': 'Flagged for Review',
+  'exam.finish': 'Finish Exam',
+  'exam.palette': 'Question Palette',
+  'exam.legendAnswered': 'Answered',
+  'exam.legendFlagged': 'Flagged',
+  'exam.legendCase': 'Case',
+  'exam.generating': 'Generating…',
+  'exam.stillGenerating': 'Still being generated',
+  'exam.progress': 'Progress',
+  'exam.answeredOf': '{answered} / {total} Answered',
+  'scenario.questionRange': 'Questions {first}–{last}',
+  'bilingual.view': 'Question language',
+  'bilingual.sideBySide': 'Side by side',
+  'bilingual.single': 'Single language',
+
+  'practice.heading': 'Practice Session',
+  'practice.exit': 'Exit Practice',
+  'practice.confirmSubmit_one': 'You have {count} unanswered question. Submit anyway?',
+  'practice.confirmSubmit_other': 'You have {count} unanswered questions. Submit anyway?',
+  'practice.finish': 'Finish Practice',
+  'practice.next': 'Next Question',
+
+  'numeric.placeholder': 'e.g. 1,04,000',
+  'numeric.unit': 'Unit',
+  'numeric.unreadable': 'Enter a number; commas, ₹ and brackets for negatives are fine.',
+  'numeric.answerIn': 'Answer in {unit} unless you type another unit (e.g. lakh, crore).',
+  'numeric.askedUnit': 'the unit asked for',
+  'tolerance.absolute': 'Accepted within ±{value}{unit}',
+  'tolerance.wholeNumber': 'Rounded to the nearest whole number',
+  'tolerance.decimals_one': 'Rounded to {count} decimal place',
+  'tolerance.decimals_other': 'Rounded to {count} decimal places',
+  'tolerance.percent': 'Accepted within ±{value}% of the correct figure',
+
+  'descriptive.meta': '{marks} marks · {words} words',
+  'descriptive.placeholder': 'Write your answer as you would in the exam: state the provision, apply it to the facts and conclude.',
+  'descriptive.notAttempted': 'Not attempted.',
+  'descriptive.rubric': 'Rubric',
+  'descriptive.modelAnswer': 'Model Answer',
+  'descriptive.notGraded': 'This answer could not be graded automatically.',
+
+  // Results
+  'results.newExam': 'Take New Exam',
+  'results.backToHistory': 'Back to History',
+  'results.backToDeck': 'Back to Review Deck',
+  'results.passTitle': 'Congratulations!',
+  'results.failTitle': 'Keep Practicing',
+  'results.passDetail': 'You have successfully cleared this simulation. Great preparation!',
+  'results.failDetail': 'You fell short of the passing criteria. Review your answers below.',
+  'results.gained': 'Marks Gained',
+  'results.correctCount': '{count} correct',
+  'results.partialCount': '{count} partial',
+  'results.lost': 'Marks Lost',
+  'results.wrongCount': '{count} wrong',
+  'results.skipped': 'Skipped',
+  'results.zeroMarks': '0 marks',
+  'results.passMark': 'Pass Mark',
+  'results.qualityCheck': 'Quality Check',
+  'results.fixes_one': '{count} fix applied',
+  'results.fixes_other': '{count} fixes applied',
+  'results.delivered': '{delivered}/{requested} questions delivered',
+  'results.saveToBank': 'Save to Question Bank',
+  'results.sectionScores': 'Section-wise Scores',
+  'results.section': 'Section',
+  'results.attempted': 'Attempted',
+  'results.detailedReview': 'Detailed Performance Review',
+  'results.notCounted': 'Not counted',
+  'results.notCountedHint': "Beyond the section's internal choice",
+  'results.yourAnswer': 'Your answer: {answer}',
+  'results.notAttempted': 'Not attempted',
+  'results.correctAnswer': 'Correct answer: {answer}',
+  'results.examinerNote': "Examiner's Note & Logic",
+  'results.addNote': 'Add to Notes',
+  'results.noteAdded': 'Added to Notes',
+
+  'topics.title': 'Topic-wise Analysis',
+  'topics.detail': 'Each chapter scored on its own against the pass mark.',
+  'topics.weakest': 'Weakest Areas',
+  'topics.revise': 'Revise: {concepts}',
+  'topics.study': 'Study in CA Classes',
+  'topics.correct': '{correct}/{total} correct',
+  'topics.skipped': '{count} skipped',
+
+  'coverage.title': '{level} Syllabus Coverage',
+  'coverage.practised': '{covered}/{total} chapters practised',
+
+  // History, review deck and question bank
+  'history.title': 'Attempt History',
+  'history.detail': 'Every finished exam and practice session, newest first.',
+  'history.attempts': 'Attempts',
+  'history.averageBest': 'Average / Best',
+  'history.progress': 'Progress',
+  'history.empty': 'No attempts match these filters yet.',
+  'history.practice': 'Practice',
+  'history.delete': 'Delete Attempt',
+  'history.confirmDelete': 'Delete this attempt from your history?',
+
+  'review.title': 'Review Deck',
+  'review.detail': 'Questions you missed come back on a spaced schedule until you get them right.',
+  'review.due': 'Due for Review',
+  'review.sessionLimit': "Today's session covers the {count} most overdue.",
+  'review.cardsInDeck_one': '{count} card in the deck.',
+  'review.cardsInDeck_other': '{count} cards in the deck.',
+  'review.start': 'Start Review ({count})',
+  'review.caughtUp': 'All caught up',
+  'review.empty': 'Wrong and skipped questions from your exams will appear here.',
+  'review.interval': 'Interval {days}d',
+  'review.missed': 'Missed {count}×',
+  'review.dueToday': 'Due today',
+  'review.dueTomorrow': 'Due tomorrow',
+  'review.dueIn': 'Due in {count} days',
+  'review.remove': 'Remove from Deck',
+  'review.confirmRemove': 'Remove this question from your review deck?',
+
+  'bank.detail': 'Vetted questions for repeatable exams. Import JSON or CSV files, or save questions from your results.',
+  'bank.total': '{count} in the bank across all subjects',
+  'bank.import': 'Import',
+  'bank.empty': 'Import a question file, or use "{action}" on an exam\'s results.',
+  'bank.imported': 'Imported',
+  'bank.savedFromExam': 'Saved from exam',
+  'bank.remove': 'Remove from Bank',
+  'bank.confirmRemove': 'Remove this question from the bank?',
+  'bank.importedCount_one': 'Imported {count} question.',
+  'bank.importedCount_other': 'Imported {count} questions.',
+  'bank.duplicates': '{count} already in the bank were skipped.',
+  'bank.rejected_one': '{count} row was rejected:',
+  'bank.rejected_other': '{count} rows were rejected:',
+  'bank.moreErrors': '…and {count} more.',
+  'bank.readFailed': 'Could not read {file}. {error}',
+  'bank.savedCount_one': 'Saved {count} question to the question bank.',
+  'bank.savedCount_other': 'Saved {count} questions to the question bank.',
+  'bank.allSaved': 'All of these questions are already in the question bank.',
+
+  'resume.title': 'Resume your exam?',
+  'resume.expired': 'Your exam time ran out',
+  'resume.practice': 'Practice session',
+  'resume.timeLeft': 'Time Left',
+  'resume.submit': 'Submit and See Results',
+  'resume.resume': 'Resume Exam',
+  'resume.discard': 'Discard Attempt',
+
+  'storage.usage': 'Using {used} of {quota}.',
+
+  // CA Classes, notes and the tutor
+  'classes.subtitle': 'Your personal expert tutor.',
+  'classes.tabClass': 'Class',
+  'classes.tabLibrary': 'Library',
+  'classes.tabNotes': 'Notes',
+  'classes.targetLevel': 'Target Level',
+  'classes.anyChapter': 'Any chapter',
+  'classes.style': 'Teaching Style',
+  'classes.topic': 'Topic to Master',
+  'classes.topicPlaceholder': 'e.g. GST Input Tax Credit...',
+  'classes.streaming': 'Streaming...',
+  'classes.teachMe': 'Teach Me',
+  'classes.exportLessons': 'Export Lessons',
+  'classes.noLessons': 'No saved lessons.',
+  'classes.firstClass': 'Create your first class',
+  'classes.confirmDeleteLesson': 'Delete this saved class?',
+  'classes.lessonGone': 'The lesson this note came from is no longer in your library.',
+  'classes.addLessonNote': 'Add a note on this lesson',
+  'classes.exportLesson': 'Export this lesson',
+  'classes.unsave': 'Remove from saved',
+  'classes.save': 'Save this lesson',
+  'classes.simplify': 'Explain simpler',
+  'classes.deepen': 'Go deeper',
+  'classes.example': 'Add another example',
+  'classes.regenerate': 'Regenerate',
+  'classes.addSectionNote': 'Add to notes',
+  'classes.revertHint': 'Revert to the previous version',
+  'classes.revert': 'Revert ({count})',
+  'classes.initializing': 'Initializing Mastermind Protocol...',
+  'classes.complete': 'Mastermind Session Complete',
+  'classes.completeDetail': "You've just leveled up your understanding. Ready to test this knowledge?",
+  'classes.savedToLibrary': 'Saved to Library',
+  'classes.saveForLater': 'Save for Later',
+  'classes.takeQuiz': 'Take Practice Quiz',
+  'classes.intro': 'I can make you a topper. Whether you are a beginner needing simple concepts or a Final student needing advanced case law analysis, I adapt to you.',
+  'classes.simplifyCard': 'Simplify',
+  'classes.simplifyCardDetail': 'Break down complex jargon into plain language.',
+  'classes.scoreHigh': 'Score High',
+  'classes.scoreHighDetail': 'Learn keywords and presentation tips for exams.',
+
+  'notes.new': 'New Note',
+  'notes.create': 'Create New Note',
+  'notes.export': 'Export Notes',
+  'notes.search': 'Search notes and lessons...',
+  'notes.none': 'No notes yet.',
+  'notes.noMatches': 'No matching notes.',
+  'notes.noContent': 'No content...',
+  'notes.inLessons': 'In your lessons',
+  'notes.select': 'Select a note to edit',
+  'notes.titlePlaceholder': 'Note Title...',
+  'notes.saved': 'Saved',
+  'notes.delete': 'Delete Note',
+  'notes.confirmDelete': 'Are you sure you want to delete this note?',
+  'notes.openLesson': 'Open the lesson',
+  'notes.openQuestion': 'Open the question in your exam history',
+  'notes.questionSource': 'Question {number}: {text}',
+  'notes.addTag': 'Add tag',
+  'notes.removeTag': 'Remove tag',
+  'notes.contentPlaceholder': 'Start typing your notes here...',
+
+  'tutor.title': 'Ask a Doubt',
+  'tutor.detail': 'Still wondering "but what if…"? Ask the tutor about anything in this lesson.',
+  'tutor.suggestionExample': 'Can you explain this with a different example?',
+  'tutor.suggestionFigures': 'What if the figures in the case study were different?',
+  'tutor.suggestionExam': 'Which part of this is most likely to come in the exam?',
+  'tutor.placeholder': 'Type your doubt...',
+  'tutor.send': 'Send',
+
+  'export.title': 'Export for Revision',
+  'export.detail': 'Pick lessons and notes, then a format.',
+  'export.lessons': 'Lessons',
+  'export.notes': 'Notes',
+  'export.print': 'Print / Save as PDF',
+  'export.printDetail': 'Opens a printable handout',
+  'export.html': 'HTML Handout',
+  'export.htmlDetail': 'One file, opens in any browser',
+  'export.markdown': 'Markdown',
+  'export.markdownDetail': 'For Obsidian, Notion and other editors',
+  'export.anki': 'Anki Flashcards (CSV)',
+  'export.ankiDetail_one': "{count} card from memory hooks, examiner's points and notes",
+  'export.ankiDetail_other': "{count} cards from memory hooks, examiner's points and notes",
+  'export.popupBlocked': 'Please allow pop-ups to print the handout.',
+
+  // Backup and profiles
+  'backup.detail': 'Move your lessons, notes and history to another device, or keep a copy safe.',
+  'backup.onDevice': 'On this device',
+  'backup.download': 'Download Backup',
+  'backup.restore': 'Restore',
+  'backup.choose': 'Choose a Backup File',
+  'backup.chooseOther': 'Choose a different file',
+  'backup.savedAt': ', saved {date}',
+  'backup.merge': 'Merge',
+  'backup.mergeDetail': "Keep this device's data and add the backup's. Where both have an item, the newer copy wins.",
+  'backup.replace': 'Replace',
+  'backup.replaceDetail': "Delete this device's data and use the backup instead, including its settings.",
+  'backup.confirmReplace': 'Replace everything on this device with the backup? Lessons, notes and history not in the backup will be deleted.',
+  'backup.readFailed': 'Could not read the backup: {error}',
+  'backup.restored': '{list}: {count} restored',
+  'backup.merged': '{list}: {added} added, {updated} updated, {kept} already up to date',
+  'backup.skipped_one': '{count} damaged record was skipped.',
+  'backup.skipped_other': '{count} damaged records were skipped.',
+  'backup.empty': 'The backup was empty.',
+  'backup.list.lessons': 'Saved lessons',
+  'backup.list.notes': 'Notes',
+  'backup.list.attempts': 'Exam history',
+  'backup.list.questionBank': 'Question bank',
+  'backup.list.reviewDeck': 'Review deck',
+
+  'profiles.title': 'Profiles',
+  'profiles.switch': 'Switch profile',
+  'profiles.new': 'New Profile',
+  'profiles.edit': 'Edit {name}',
+  'profiles.editTitle': 'Edit Profile',
+  'profiles.delete': 'Delete {name}',
+  'profiles.name': 'Name',
+  'profiles.namePlaceholder': 'e.g. Anjali',
+  'profiles.defaultLevel': 'Default Level',
+  'profiles.pin': 'PIN',
+  'profiles.newPin': 'New PIN',
+  'profiles.keepPin': 'Leave blank to keep the current PIN',
+  'profiles.pinDigits': '4 to 8 digits',
+  'profiles.pinError': 'Use 4 to 8 digits.',
+  'profiles.pinNote': 'Keeps others on this device out of the profile. It does not encrypt your data.',
+  'profiles.removePin': 'Remove the PIN',
+  'profiles.create': 'Create & Switch',
+  'profiles.confirmSwitch': 'Switch to {name}? Your exam is saved and can be resumed from this profile later.',
+  'profiles.confirmDelete': 'Delete the profile "{name}" with all of its lessons, notes and history? This cannot be undone.',
+  'profiles.openFailed': 'Could not open this profile. Please try again.',
+  'profiles.deleteFailed': 'Could not delete the profile. Please try again.',
+  'pin.unlock': 'Unlock',
+  'pin.wrong': 'Wrong PIN. Please try again.',
+  'pin.toSwitch': 'Enter the PIN to switch to this profile.',
+  'pin.toDelete': 'Enter the PIN to delete this profile.',
+  'pin.locked': 'Enter your PIN, or pick another profile from the menu above.',
+};
+
+type Catalog = Partial<Record<keyof typeof MESSAGES, string>>;
+
+const MALAYALAM: Catalog = {
+  'common.cancel': 'റദ്ദാക്കുക',
+  'common.close': 'അടയ്ക്കുക',
+  'common.save': 'സേവ് ചെയ്യുക',
+  'common.dismiss': 'മറയ്ക്കുക',
+  'common.optional': '(ഐച്ഛികം)',
+  'common.previous': 'മുമ്പത്തേത്',
+  'common.next': 'അടുത്തത്',
+  'common.loadingNext': 'അടുത്ത ചോദ്യം ലോഡ് ചെയ്യുന്നു…',
+  'common.questionOf': 'ചോദ്യം {number} / {total}',
+  'common.questionNumber': 'ചോദ്യം {number}',
+  'common.questions_one': '{count} ചോദ്യം',
+  'common.questions_other': '{count} ചോദ്യങ്ങൾ',
+  'common.questionWord_one': 'ചോദ്യം',
+  'common.questionWord_other': 'ചോദ്യങ്ങൾ',
+  'common.marks_one': '{count} മാർക്ക്',
+  'common.marks_other': '{count} മാർക്ക്',
+  'common.anyOf': '{total}-ൽ ഏതെങ്കിലും {attempt}',
+  'common.allSubjects': 'എല്ലാ വിഷയങ്ങളും',
+  'common.allLevels': 'എല്ലാ ലെവലുകളും',
+  'common.subject': 'വിഷയം',
+  'common.level': 'ലെവൽ',
+  'common.language': 'ഭാഷ',
+  'common.score': 'സ്കോർ',
+  'common.marks': 'മാർക്ക്',
+  'common.answered': 'ഉത്തരം നൽകിയവ',
+  'common.yourAnswer': 'നിങ്ങളുടെ ഉത്തരം',
+  'common.noExplanation': 'ഈ ചോദ്യത്തിന് വിശദീകരണം നൽകിയിട്ടില്ല.',
+  'common.untitledNote': 'പേരില്ലാത്ത കുറിപ്പ്',
+  'common.connectionInterrupted': 'കണക്ഷൻ തടസ്സപ്പെട്ടു. വീണ്ടും ശ്രമിക്കുക.',
+  'common.duration': '{minutes} മി. {seconds} സെ.',
+  'common.durationSeconds': '{seconds} സെ.',
+
+  'level.Foundation': 'ഫൗണ്ടേഷൻ',
+  'level.Intermediate': 'ഇന്റർമീഡിയറ്റ്',
+  'level.Final': 'ഫൈനൽ',
+
+  'kind.mcq': 'മൾട്ടിപ്പിൾ ചോയ്സ്',
+  'kind.mcqShort': 'ബഹുവികല്പം',
+  'kind.numeric': 'ന്യൂമെറിക്കൽ',
+  'kind.descriptive': 'വിവരണാത്മകം',
+
+  'source.ai': 'AI തയ്യാറാക്കിയത്',
+  'source.mixed': 'ബാങ്ക് + AI',
+  'source.bank': 'ബാങ്ക് മാത്രം',
+
+  'style.conceptual': 'തുടക്കക്കാർക്ക് ലളിതമായി (ആശയപരം)',
+  'style.examFocused': 'പരീക്ഷാധിഷ്ഠിതം (ഉയർന്ന സ്കോർ)',
+  'style.inDepth': 'മാസ്റ്റർ ക്ലാസ് (ആഴത്തിൽ)',
+
+  'nav.exam': 'പരീക്ഷാ സിമുലേറ്റർ',
+  'nav.examShort': 'പരീക്ഷ',
+  'nav.classes': 'CA ക്ലാസുകൾ',
+  'nav.classesShort': 'ക്ലാസുകൾ',
+  'nav.history': 'ചരിത്രം',
+  'nav.review': 'റിവ്യൂ',
+  'nav.bank': 'ചോദ്യ ബാങ്ക്',
+  'nav.backup': 'ബാക്കപ്പും വീണ്ടെടുക്കലും',
+  'app.connectFailed': 'CA Guide-ലേക്ക് കണക്റ്റ് ചെയ്യാനായില്ല. API Key പരിശോധിച്ച് വീണ്ടും ശ്രമിക്കുക.',
+  'app.confirmExitPractice': 'പുറത്തുകടക്കണോ? ഈ പരിശീലനത്തിലെ പുരോഗതി നഷ്ടപ്പെടും.',
+  'app.confirmDiscardAttempt': 'പൂർത്തിയാകാത്ത ഈ ശ്രമം ഉപേക്ഷിക്കണോ? നിങ്ങളുടെ ഉത്തരങ്ങൾ നഷ്ടപ്പെടും.',
+  'app.confirmExitReview': 'ഈ റിവ്യൂ നിർത്തണോ? പൂർത്തിയാക്കാത്ത കാർഡുകൾ ഇനിയും ബാക്കിയുണ്ടാകും.',
+  'app.attemptGone': 'ഈ ശ്രമം ഇപ്പോൾ നിങ്ങളുടെ ചരിത്രത്തിലില്ല.',
+  'app.gradingTitle': 'എഴുതിയ ഉത്തരങ്ങൾ വിലയിരുത്തുന്നു...',
+  'app.gradingDetail': 'ഓരോ ഉത്തരവും എക്സാമിനറുടെ റൂബ്രിക് അനുസരിച്ച് പോയിന്റ് തിരിച്ച് മാർക്കിടുന്നു',
+  'app.preparingPractice': 'പരിശീലനം തയ്യാറാക്കുന്നു...',
+  'app.generatingFor': '{topic} എന്നതിനുള്ള ചോദ്യങ്ങൾ തയ്യാറാക്കുന്നു',
+  'app.reviewSession_one': 'മുൻ തെറ്റുകളിൽ നിന്ന് {count} ചോദ്യം',
+  'app.reviewSession_other': 'മുൻ തെറ്റുകളിൽ നിന്ന് {count} ചോദ്യങ്ങൾ',
+  'app.noteTitle': 'ചോ.{number}: {text}',
+  'app.noteExplanation': 'വിശദീകരണം: {text}',
+
+  'setup.tagline': 'AI അധിഷ്ഠിത സിമുലേഷനിലൂടെ ചാർട്ടേഡ് അക്കൗണ്ടൻസി പരീക്ഷകളിൽ മികവ് നേടൂ. നിങ്ങളുടെ ലെവലിന് അനുയോജ്യമായ, കേസ് അധിഷ്ഠിത ചോദ്യങ്ങൾ ഉപയോഗിച്ച് പരിശീലിക്കൂ.',
+  'setup.featureAnalysis': 'തത്സമയ പ്രകടന വിശകലനം',
+  'setup.featureExplanations': 'വിശദമായ വിശദീകരണങ്ങൾ',
+  'setup.featureDifficulty': 'ആവശ്യാനുസരണം കാഠിന്യം',
+  'setup.currentLanguage': 'നിലവിലെ ഭാഷ',
+  'setup.title': 'പരീക്ഷ ക്രമീകരിക്കുക',
+  'setup.format': 'പരീക്ഷാ ഫോർമാറ്റ്',
+  'setup.customExam': 'കസ്റ്റം പരീക്ഷ',
+  'setup.fullPaper': 'മുഴുവൻ പേപ്പർ',
+  'setup.level': 'കാഠിന്യ നില',
+  'setup.wholePaper': 'മുഴുവൻ പേപ്പർ (എല്ലാ അധ്യായങ്ങളും)',
+  'setup.paperPattern': 'ICAI പേപ്പർ മാതൃക',
+  'setup.paperLength': '{hours} മണിക്കൂർ · {marks} മാർക്ക്',
+  'setup.passMark': 'പാസ് മാർക്ക്: {percent}%',
+
+  'paper.partAMcq': 'ഭാഗം A – മൾട്ടിപ്പിൾ ചോയ്സ് ചോദ്യങ്ങൾ',
+  'paper.partBQuestion': 'ഭാഗം B – ചോദ്യം {number}',
+  'paper.partBQuestions': 'ഭാഗം B – ചോദ്യങ്ങൾ {first} മുതൽ {last} വരെ',
+  'paper.mcq': 'മൾട്ടിപ്പിൾ ചോയ്സ് ചോദ്യങ്ങൾ',
+  'paper.questions': 'ചോദ്യങ്ങൾ {first} മുതൽ {last} വരെ',
+  'paper.allCompulsory': 'എല്ലാ {total} ചോദ്യങ്ങളും നിർബന്ധമാണ്. ഓരോന്നിനും {marks} മാർക്ക്. നെഗറ്റീവ് മാർക്കിംഗ് ഇല്ല.',
+  'paper.allCompulsoryNegative': 'എല്ലാ {total} ചോദ്യങ്ങളും നിർബന്ധമാണ്. ഓരോന്നിനും {marks} മാർക്ക്; ഓരോ തെറ്റായ ഉത്തരത്തിനും {deduction} മാർക്ക് കുറയ്ക്കും.',
+  'paper.questionCompulsory': 'ചോദ്യം {number} നിർബന്ധമാണ്.',
+  'paper.answerAny': '{total} ചോദ്യങ്ങളിൽ ഏതെങ്കിലും {attempt} എണ്ണത്തിന് ഉത്തരം എഴുതുക. ആദ്യത്തെ {attempt} ഉത്തരങ്ങൾക്ക് മാത്രമേ മാർക്ക് ലഭിക്കൂ.',
+
+  'setup.source': 'ചോദ്യങ്ങളുടെ ഉറവിടം',
+  'setup.bankMatches_one': 'നിങ്ങളുടെ ബാങ്കിൽ യോജിക്കുന്ന {count} ചോദ്യം',
+  'setup.bankMatches_other': 'നിങ്ങളുടെ ബാങ്കിൽ യോജിക്കുന്ന {count} ചോദ്യങ്ങൾ',
+  'setup.bankOnlyCount': ' · പരീക്ഷയിൽ {count} എണ്ണം ഉണ്ടാകും',
+  'setup.bankMixed': ' · പരീക്ഷയുടെ പകുതി വരെ ബാങ്കിൽ നിന്ന് എടുക്കും',
+  'setup.kinds': 'ചോദ്യ തരങ്ങൾ',
+  'setup.scheme': 'മാർക്കിംഗ് രീതി',
+  'setup.passMarkAtLevel': '{level} ലെവലിൽ പാസ് മാർക്ക്: {percent}%',
+  'setup.negativeMarks': ' · ഓരോ തെറ്റിനും −{marks}',
+  'setup.questionCount': 'ചോദ്യങ്ങളുടെ എണ്ണം',
+  'setup.estimatedTime': 'ഏകദേശ സമയം: {minutes} മിനിറ്റ്',
+  'setup.cachedReady_one': 'ഈ തിരഞ്ഞെടുപ്പിനായി മുൻകൂട്ടി തയ്യാറാക്കിയ {count} ചോദ്യം ഉണ്ട്',
+  'setup.cachedReady_other': 'ഈ തിരഞ്ഞെടുപ്പിനായി മുൻകൂട്ടി തയ്യാറാക്കിയ {count} ചോദ്യങ്ങൾ ഉണ്ട്',
+  'setup.noCached': 'ഈ തിരഞ്ഞെടുപ്പിനായി മുൻകൂട്ടി തയ്യാറാക്കിയ ചോദ്യങ്ങളില്ല',
+  'setup.preparing': 'പശ്ചാത്തലത്തിൽ തയ്യാറാക്കുന്നു...',
+  'setup.pregenerate': 'ഒരു സെറ്റ് മുൻകൂട്ടി തയ്യാറാക്കുക',
+  'setup.scenarios': 'കേസ് സാഹചര്യങ്ങൾ',
+  'setup.noScenarios': 'ഒന്നുമില്ല',
+  'setup.scenarioOption_one': '{count} സാഹചര്യം ({questions} ചോദ്യങ്ങൾ)',
+  'setup.scenarioOption_other': '{count} സാഹചര്യങ്ങൾ ({questions} ചോദ്യങ്ങൾ)',
+  'setup.scenarioHint': 'ICAI MCQ പേപ്പറുകളിലെന്നപോലെ, ഓരോ സാഹചര്യവും ഒരു പൊതു കേസ് ഖണ്ഡികയും തുടർന്ന് {count} MCQ-കളുമാണ്.',
+  'setup.bilingual': 'ദ്വിഭാഷ ({language}, ഇംഗ്ലീഷ്)',
+  'setup.bilingualHint': 'സാങ്കേതിക പദങ്ങൾ മൂലരൂപവുമായി ഒത്തുനോക്കാൻ, ചോദ്യങ്ങളും ഓപ്ഷനുകളും വിശദീകരണങ്ങളും ഇംഗ്ലീഷിലും ലഭിക്കും.',
+  'setup.generating': 'പരീക്ഷ തയ്യാറാക്കുന്നു ({language})...',
+  'setup.start': 'പരീക്ഷ ആരംഭിക്കുക ({language})',
+
+  'syllabus.paper': 'പേപ്പർ',
+  'syllabus.chapter': 'അധ്യായം',
+  'syllabus.selectChapter': 'ഒരു അധ്യായം തിരഞ്ഞെടുക്കുക...',
+  'syllabus.unit': 'യൂണിറ്റ്',
+  'syllabus.wholeChapter': 'മുഴുവൻ അധ്യായം',
+
+  'exam.confirmSubmit_one': '{count} ചോദ്യത്തിന് ഉത്തരം നൽകിയിട്ടില്ല. സമർപ്പിക്കണോ?',
+  'exam.confirmSubmit_other': '{count} ചോദ്യങ്ങൾക്ക് ഉത്തരം നൽകിയിട്ടില്ല. സമർപ്പിക്കണോ?',
+  'exam.quizTitle': 'ക്വിസ്: {title}',
+  'exam.defaultTitle': 'CA പരീക്ഷാ സിമുലേറ്റർ',
+  'exam.submit': 'പരീക്ഷ സമർപ്പിക്കുക',
+  'exam.overAnswered': 'ഇവിടെ നിങ്ങൾ {answered} ചോദ്യങ്ങൾക്ക് ഉത്തരം നൽകി; ആദ്യത്തെ {limit} എണ്ണത്തിന് മാത്രമേ മാർക്ക് ലഭിക്കൂ.',
+  'exam.flag': 'റിവ്യൂവിനായി അടയാളപ്പെടുത്തുക',
+  'exam.flagged': 'റിവ്യൂവിനായി അടയാളപ്പെടുത്തി',
+  'exam.finish': 'പരീക്ഷ പൂർത്തിയാക്കുക',
+  'exam.palette': 'ചോദ്യ പാലറ്റ്',
+  'exam.legendAnswered': 'ഉത്തരം നൽകി',
+  'exam.legendFlagged': 'അടയാളപ്പെടുത്തി',
+  'exam.legendCase': 'കേസ്',
+  'exam.generating': 'തയ്യാറാക്കുന്നു…',
+  'exam.stillGenerating': 'ഇപ്പോഴും തയ്യാറാക്കിക്കൊണ്ടിരിക്കുന്നു',
+  'exam.progress': 'പുരോഗതി',
+  'exam.answeredOf': '{answered} / {total} ഉത്തരം നൽകി',
+  'scenario.questionRange': 'ചോദ്യങ്ങൾ {first}–{last}',
+  'bilingual.view': 'ചോദ്യത്തിന്റെ ഭാഷ',
+  'bilingual.sideBySide': 'അടുത്തടുത്ത്',
+  'bilingual.single': 'ഒരു ഭാഷ മാത്രം',
+
+  'practice.heading': 'പരിശീലന സെഷൻ',
+  'practice.exit': 'പരിശീലനം നിർത്തുക',
+  'practice.confirmSubmit_one': '{count} ചോദ്യത്തിന് ഉത്തരം നൽകിയിട്ടില്ല. എന്നിട്ടും സമർപ്പിക്കണോ?',
+  'practice.confirmSubmit_other': '{count} ചോദ്യങ്ങൾക്ക് ഉത്തരം നൽകിയിട്ടില്ല. എന്നിട്ടും സമർപ്പിക്കണോ?',
+  'practice.finish': 'പരിശീലനം പൂർത്തിയാക്കുക',
+  'practice.next': 'അടുത്ത ചോദ്യം',
+
+  'numeric.placeholder': 'ഉദാ. 1,04,000',
+  'numeric.unit': 'യൂണിറ്റ്',
+  'numeric.unreadable': 'ഒരു സംഖ്യ നൽകുക; കോമ, ₹, നെഗറ്റീവിന് ബ്രാക്കറ്റ് എന്നിവ ഉപയോഗിക്കാം.',
+  'numeric.answerIn': 'മറ്റൊരു യൂണിറ്റ് (ഉദാ. ലക്ഷം, കോടി) ടൈപ്പ് ചെയ്യുന്നില്ലെങ്കിൽ {unit}-ൽ ഉത്തരം നൽകുക.',
+  'numeric.askedUnit': 'ചോദിച്ച യൂണിറ്റ്',
+  'tolerance.absolute': '±{value}{unit} വരെ വ്യത്യാസം സ്വീകരിക്കും',
+  'tolerance.wholeNumber': 'ഏറ്റവും അടുത്ത പൂർണ്ണസംഖ്യയിലേക്ക് റൗണ്ട് ചെയ്തത്',
+  'tolerance.decimals_one': '{count} ദശാംശ സ്ഥാനത്തേക്ക് റൗണ്ട് ചെയ്തത്',
+  'tolerance.decimals_other': '{count} ദശാംശ സ്ഥാനങ്ങളിലേക്ക് റൗണ്ട് ചെയ്തത്',
+  'tolerance.percent': 'ശരിയായ തുകയുടെ ±{value}% വരെ സ്വീകരിക്കും',
+
+  'descriptive.meta': '{marks} മാർക്ക് · {words} വാക്കുകൾ',
+  'descriptive.placeholder': 'പരീക്ഷയിലെന്നപോലെ ഉത്തരം എഴുതുക: വ്യവസ്ഥ പറയുക, വസ്തുതകളിൽ പ്രയോഗിക്കുക, നിഗമനത്തിലെത്തുക.',
+  'descriptive.notAttempted': 'ഉത്തരം നൽകിയിട്ടില്ല.',
+  'descriptive.rubric': 'റൂബ്രിക്',
+  'descriptive.modelAnswer': 'മാതൃകാ ഉത്തരം',
+  'descriptive.notGraded': 'ഈ ഉത്തരം സ്വയമേവ മൂല്യനിർണ്ണയം ചെയ്യാനായില്ല.',
+
+  'results.newExam': 'പുതിയ പരീക്ഷ എഴുതുക',
+  'results.backToHistory': 'ചരിത്രത്തിലേക്ക് മടങ്ങുക',
+  'results.backToDeck': 'റിവ്യൂ ഡെക്കിലേക്ക് മടങ്ങുക',
+  'results.passTitle': 'അഭിനന്ദനങ്ങൾ!',
+  'results.failTitle': 'പരിശീലനം തുടരൂ',
+  'results.passDetail': 'ഈ സിമുലേഷൻ നിങ്ങൾ വിജയകരമായി പാസായി. മികച്ച തയ്യാറെടുപ്പ്!',
+  'results.failDetail': 'പാസ് മാനദണ്ഡത്തിൽ എത്തിയില്ല. താഴെ നിങ്ങളുടെ ഉത്തരങ്ങൾ പരിശോധിക്കുക.',
+  'results.gained': 'നേടിയ മാർക്ക്',
+  'results.correctCount': '{count} ശരി',
+  'results.partialCount': '{count} ഭാഗികം',
+  'results.lost': 'നഷ്ടപ്പെട്ട മാർക്ക്',
+  'results.wrongCount': '{count} തെറ്റ്',
+  'results.skipped': 'ഒഴിവാക്കിയവ',
+  'results.zeroMarks': '0 മാർക്ക്',
+  'results.passMark': 'പാസ് മാർക്ക്',
+  'results.qualityCheck': 'ഗുണനിലവാര പരിശോധന',
+  'results.fixes_one': '{count} തിരുത്തൽ വരുത്തി',
+  'results.fixes_other': '{count} തിരുത്തലുകൾ വരുത്തി',
+  'results.delivered': '{delivered}/{requested} ചോദ്യങ്ങൾ ലഭിച്ചു',
+  'results.saveToBank': 'ചോദ്യ ബാങ്കിൽ സേവ് ചെയ്യുക',
+  'results.sectionScores': 'സെക്ഷൻ തിരിച്ചുള്ള സ്കോർ',
+  'results.section': 'സെക്ഷൻ',
+  'results.attempted': 'ശ്രമിച്ചവ',
+  'results.detailedReview': 'വിശദമായ പ്രകടന അവലോകനം',
+  'results.notCounted': 'കണക്കാക്കിയില്ല',
+  'results.notCountedHint': 'സെക്ഷനിലെ ആന്തരിക ചോയ്സിന് പുറത്ത്',
+  'results.yourAnswer': 'നിങ്ങളുടെ ഉത്തരം: {answer}',
+  'results.notAttempted': 'ഉത്തരം നൽകിയിട്ടില്ല',
+  'results.correctAnswer': 'ശരിയായ ഉത്തരം: {answer}',
+  'results.examinerNote': 'എക്സാമിനറുടെ കുറിപ്പും യുക്തിയും',
+  'results.addNote': 'കുറിപ്പുകളിൽ ചേർക്കുക',
+  'results.noteAdded': 'കുറിപ്പുകളിൽ ചേർത്തു',
+
+  'topics.title': 'വിഷയം തിരിച്ചുള്ള വിശകലനം',
+  'topics.detail': 'ഓരോ അധ്യായവും പാസ് മാർക്കുമായി പ്രത്യേകം താരതമ്യം ചെയ്തത്.',
+  'topics.weakest': 'ഏറ്റവും ദുർബലമായ മേഖലകൾ',
+  'topics.revise': 'റിവൈസ് ചെയ്യുക: {concepts}',
+  'topics.study': 'CA ക്ലാസുകളിൽ പഠിക്കുക',
+  'topics.correct': '{correct}/{total} ശരി',
+  'topics.skipped': '{count} ഒഴിവാക്കി',
+
+  'coverage.title': '{level} സിലബസ് കവറേജ്',
+  'coverage.practised': '{covered}/{total} അധ്യായങ്ങൾ പരിശീലിച്ചു',
+
+  'history.title': 'ശ്രമങ്ങളുടെ ചരിത്രം',
+  'history.detail': 'പൂർത്തിയാക്കിയ എല്ലാ പരീക്ഷകളും പരിശീലനങ്ങളും, ഏറ്റവും പുതിയത് ആദ്യം.',
+  'history.attempts': 'ശ്രമങ്ങൾ',
+  'history.averageBest': 'ശരാശരി / മികച്ചത്',
+  'history.progress': 'പുരോഗതി',
+  'history.empty': 'ഈ ഫിൽട്ടറുകൾക്ക് യോജിക്കുന്ന ശ്രമങ്ങൾ ഇതുവരെ ഇല്ല.',
+  'history.practice': 'പരിശീലനം',
+  'history.delete': 'ശ്രമം ഇല്ലാതാക്കുക',
+  'history.confirmDelete': 'ഈ ശ്രമം ചരിത്രത്തിൽ നിന്ന് ഇല്ലാതാക്കണോ?',
+
+  'review.title': 'റിവ്യൂ ഡെക്ക്',
+  'review.detail': 'തെറ്റിയ ചോദ്യങ്ങൾ ശരിയാകുന്നതുവരെ ഇടവേളകളിട്ട് വീണ്ടും വരും.',
+  'review.due': 'റിവ്യൂ ചെയ്യാനുള്ളവ',
+  'review.sessionLimit': 'ഇന്നത്തെ സെഷനിൽ ഏറ്റവും വൈകിയ {count} എണ്ണം.',
+  'review.cardsInDeck_one': 'ഡെക്കിൽ {count} കാർഡ്.',
+  'review.cardsInDeck_other': 'ഡെക്കിൽ {count} കാർഡുകൾ.',
+  'review.start': 'റിവ്യൂ ആരംഭിക്കുക ({count})',
+  'review.caughtUp': 'എല്ലാം പൂർത്തിയായി',
+  'review.empty': 'പരീക്ഷകളിലെ തെറ്റിയതും ഒഴിവാക്കിയതുമായ ചോദ്യങ്ങൾ ഇവിടെ കാണാം.',
+  'review.interval': 'ഇടവേള {days} ദിവസം',
+  'review.missed': '{count}× തെറ്റി',
+  'review.dueToday': 'ഇന്ന്',
+  'review.dueTomorrow': 'നാളെ',
+  'review.dueIn': '{count} ദിവസത്തിനകം',
+  'review.remove': 'ഡെക്കിൽ നിന്ന് നീക്കുക',
+  'review.confirmRemove': 'ഈ ചോദ്യം റിവ്യൂ ഡെക്കിൽ നിന്ന് നീക്കണോ?',
+
+  'bank.detail': 'ആവർത്തിക്കാവുന്ന പരീക്ഷകൾക്കായി പരിശോധിച്ച ചോദ്യങ്ങൾ. JSON അല്ലെങ്കിൽ CSV ഫയലുകൾ ഇമ്പോർട്ട് ചെയ്യുക, അല്ലെങ്കിൽ ഫലങ്ങളിൽ നിന്ന് ചോദ്യങ്ങൾ സേവ് ചെയ്യുക.',
+  'bank.total': 'എല്ലാ വിഷയങ്ങളിലുമായി ബാങ്കിൽ {count}',
+  'bank.import': 'ഇമ്പോർട്ട്',
+  'bank.empty': 'ഒരു ചോദ്യ ഫയൽ ഇമ്പോർട്ട് ചെയ്യുക, അല്ലെങ്കിൽ പരീക്ഷാഫലത്തിൽ "{action}" ഉപയോഗിക്കുക.',
+  'bank.imported': 'ഇമ്പോർട്ട് ചെയ്തത്',
+  'bank.savedFromExam': 'പരീക്ഷയിൽ നിന്ന് സേവ് ചെയ്തത്',
+  'bank.remove': 'ബാങ്കിൽ നിന്ന് നീക്കുക',
+  'bank.confirmRemove': 'ഈ ചോദ്യം ബാങ്കിൽ നിന്ന് നീക്കണോ?',
+  'bank.importedCount_one': '{count} ചോദ്യം ഇമ്പോർട്ട് ചെയ്തു.',
+  'bank.importedCount_other': '{count} ചോദ്യങ്ങൾ ഇമ്പോർട്ട് ചെയ്തു.',
+  'bank.duplicates': 'ബാങ്കിൽ ഇതിനകമുള്ള {count} എണ്ണം ഒഴിവാക്കി.',
+  'bank.rejected_one': '{count} വരി നിരസിച്ചു:',
+  'bank.rejected_other': '{count} വരികൾ നിരസിച്ചു:',
+  'bank.moreErrors': '…കൂടാതെ {count} എണ്ണം കൂടി.',
+  'bank.readFailed': '{file} വായിക്കാനായില്ല. {error}',
+  'bank.savedCount_one': '{count} ചോദ്യം ചോദ്യ ബാങ്കിൽ സേവ് ചെയ്തു.',
+  'bank.savedCount_other': '{count} ചോദ്യങ്ങൾ ചോദ്യ ബാങ്കിൽ സേവ് ചെയ്തു.',
+  'bank.allSaved': 'ഈ ചോദ്യങ്ങളെല്ലാം ഇതിനകം ചോദ്യ ബാങ്കിലുണ്ട്.',
+
+  'resume.title': 'പരീക്ഷ തുടരണോ?',
+  'resume.expired': 'നിങ്ങളുടെ പരീക്ഷാ സമയം കഴിഞ്ഞു',
+  'resume.practice': 'പരിശീലന സെഷൻ',
+  'resume.timeLeft': 'ബാക്കി സമയം',
+  'resume.submit': 'സമർപ്പിച്ച് ഫലം കാണുക',
+  'resume.resume': 'പരീക്ഷ തുടരുക',
+  'resume.discard': 'ശ്രമം ഉപേക്ഷിക്കുക',
+
+  'storage.usage': '{quota}-ൽ {used} ഉപയോഗിക്കുന്നു.',
+
+  'classes.subtitle': 'നിങ്ങളുടെ സ്വന്തം വിദഗ്ധ അധ്യാപകൻ.',
+  'classes.tabClass': 'ക്ലാസ്',
+  'classes.tabLibrary': 'ലൈബ്രറി',
+  'classes.tabNotes': 'കുറിപ്പുകൾ',
+  'classes.targetLevel': 'ലക്ഷ്യ ലെവൽ',
+  'classes.anyChapter': 'ഏത് അധ്യായവും',
+  'classes.style': 'പഠന രീതി',
+  'classes.topic': 'പഠിക്കേണ്ട വിഷയം',
+  'classes.topicPlaceholder': 'ഉദാ. GST ഇൻപുട്ട് ടാക്സ് ക്രെഡിറ്റ്...',
+  'classes.streaming': 'തയ്യാറാക്കുന്നു...',
+  'classes.teachMe': 'പഠിപ്പിക്കൂ',
+  'classes.exportLessons': 'പാഠങ്ങൾ എക്സ്പോർട്ട് ചെയ്യുക',
+  'classes.noLessons': 'സേവ് ചെയ്ത പാഠങ്ങളില്ല.',
+  'classes.firstClass': 'നിങ്ങളുടെ ആദ്യ ക്ലാസ് തുടങ്ങുക',
+  'classes.confirmDeleteLesson': 'സേവ് ചെയ്ത ഈ ക്ലാസ് ഇല്ലാതാക്കണോ?',
+  'classes.lessonGone': 'ഈ കുറിപ്പിന്റെ പാഠം ഇപ്പോൾ ലൈബ്രറിയിലില്ല.',
+  'classes.addLessonNote': 'ഈ പാഠത്തെക്കുറിച്ച് കുറിപ്പ് ചേർക്കുക',
+  'classes.exportLesson': 'ഈ പാഠം എക്സ്പോർട്ട് ചെയ്യുക',
+  'classes.unsave': 'സേവ് ചെയ്തതിൽ നിന്ന് നീക്കുക',
+  'classes.save': 'ഈ പാഠം സേവ് ചെയ്യുക',
+  'classes.simplify': 'കൂടുതൽ ലളിതമായി വിശദീകരിക്കുക',
+  'classes.deepen': 'കൂടുതൽ ആഴത്തിൽ',
+  'classes.example': 'മറ്റൊരു ഉദാഹരണം ചേർക്കുക',
+  'classes.regenerate': 'വീണ്ടും തയ്യാറാക്കുക',
+  'classes.addSectionNote': 'കുറിപ്പുകളിൽ ചേർക്കുക',
+  'classes.revertHint': 'മുമ്പത്തെ പതിപ്പിലേക്ക് മടങ്ങുക',
+  'classes.revert': 'മടങ്ങുക ({count})',
+  'classes.initializing': 'ക്ലാസ് തയ്യാറാക്കുന്നു...',
+  'classes.complete': 'ക്ലാസ് പൂർത്തിയായി',
+  'classes.completeDetail': 'നിങ്ങളുടെ ധാരണ ഒരു പടി കൂടി ഉയർന്നു. ഇത് പരീക്ഷിച്ചുനോക്കാൻ തയ്യാറാണോ?',
+  'classes.savedToLibrary': 'ലൈബ്രറിയിൽ സേവ് ചെയ്തു',
+  'classes.saveForLater': 'പിന്നീടത്തേക്ക് സേവ് ചെയ്യുക',
+  'classes.takeQuiz': 'പരിശീലന ക്വിസ് എഴുതുക',
+  'classes.intro': 'നിങ്ങളെ ഒരു ടോപ്പറാക്കാൻ എനിക്ക് കഴിയും. ലളിതമായ ആശയങ്ങൾ വേണ്ട തുടക്കക്കാരനായാലും ആഴത്തിലുള്ള കേസ് ലോ വിശകലനം വേണ്ട ഫൈനൽ വിദ്യാർത്ഥിയായാലും, ഞാൻ നിങ്ങൾക്കനുസരിച്ച് മാറും.',
+  'classes.simplifyCard': 'ലളിതമാക്കുക',
+  'classes.simplifyCardDetail': 'സങ്കീർണ്ണമായ സാങ്കേതിക പദങ്ങൾ ലളിതമായ ഭാഷയിലാക്കുന്നു.',
+  'classes.scoreHigh': 'ഉയർന്ന സ്കോർ',
+  'classes.scoreHighDetail': 'പരീക്ഷയ്ക്കുള്ള കീവേഡുകളും അവതരണ രീതികളും പഠിക്കുക.',
+
+  'notes.new': 'പുതിയ കുറിപ്പ്',
+  'notes.create': 'പുതിയ കുറിപ്പ് തുടങ്ങുക',
+  'notes.export': 'കുറിപ്പുകൾ എക്സ്പോർട്ട് ചെയ്യുക',
+  'notes.search': 'കുറിപ്പുകളിലും പാഠങ്ങളിലും തിരയുക...',
+  'notes.none': 'ഇതുവരെ കുറിപ്പുകളില്ല.',
+  'notes.noMatches': 'യോജിക്കുന്ന കുറിപ്പുകളില്ല.',
+  'notes.noContent': 'ഉള്ളടക്കമില്ല...',
+  'notes.inLessons': 'നിങ്ങളുടെ പാഠങ്ങളിൽ',
+  'notes.select': 'തിരുത്താൻ ഒരു കുറിപ്പ് തിരഞ്ഞെടുക്കുക',
+  'notes.titlePlaceholder': 'കുറിപ്പിന്റെ തലക്കെട്ട്...',
+  'notes.saved': 'സേവ് ചെയ്തു',
+  'notes.delete': 'കുറിപ്പ് ഇല്ലാതാക്കുക',
+  'notes.confirmDelete': 'ഈ കുറിപ്പ് ഇല്ലാതാക്കണമെന്ന് ഉറപ്പാണോ?',
+  'notes.openLesson': 'പാഠം തുറക്കുക',
+  'notes.openQuestion': 'ചോദ്യം പരീക്ഷാ ചരിത്രത്തിൽ തുറക്കുക',
+  'notes.questionSource': 'ചോദ്യം {number}: {text}',
+  'notes.addTag': 'ടാഗ് ചേർക്കുക',
+  'notes.removeTag': 'ടാഗ് നീക്കുക',
+  'notes.contentPlaceholder': 'നിങ്ങളുടെ കുറിപ്പുകൾ ഇവിടെ ടൈപ്പ് ചെയ്യുക...',
+
+  'tutor.title': 'സംശയം ചോദിക്കുക',
+  'tutor.detail': '"പക്ഷേ ഇങ്ങനെയായാലോ…" എന്ന സംശയമുണ്ടോ? ഈ പാഠത്തിലെ എന്തിനെക്കുറിച്ചും ട്യൂട്ടറോട് ചോദിക്കുക.',
+  'tutor.suggestionExample': 'മറ്റൊരു ഉദാഹരണത്തിലൂടെ ഇത് വിശദീകരിക്കാമോ?',
+  'tutor.suggestionFigures': 'കേസ് സ്റ്റഡിയിലെ തുകകൾ വ്യത്യസ്തമായിരുന്നെങ്കിലോ?',
+  'tutor.suggestionExam': 'ഇതിൽ ഏത് ഭാഗമാണ് പരീക്ഷയിൽ വരാൻ ഏറ്റവും സാധ്യത?',
+  'tutor.placeholder': 'നിങ്ങളുടെ സംശയം ടൈപ്പ് ചെയ്യുക...',
+  'tutor.send': 'അയയ്ക്കുക',
+
+  'export.title': 'റിവിഷനായി എക്സ്പോർട്ട് ചെയ്യുക',
+  'export.detail': 'പാഠങ്ങളും കുറിപ്പുകളും തിരഞ്ഞെടുത്ത് ഒരു ഫോർമാറ്റ് തിരഞ്ഞെടുക്കുക.',
+  'export.lessons': 'പാഠങ്ങൾ',
+  'export.notes': 'കുറിപ്പുകൾ',
+  'export.print': 'പ്രിന്റ് / PDF ആയി സേവ് ചെയ്യുക',
+  'export.printDetail': 'പ്രിന്റ് ചെയ്യാവുന്ന ഹാൻഡൗട്ട് തുറക്കുന്നു',
+  'export.html': 'HTML ഹാൻഡൗട്ട്',
+  'export.htmlDetail': 'ഏത് ബ്രൗസറിലും തുറക്കുന്ന ഒറ്റ ഫയൽ',
+  'export.markdown': 'മാർക്ക്ഡൗൺ ഫയൽ',
+  'export.markdownDetail': 'Obsidian, Notion പോലുള്ള എഡിറ്ററുകൾക്ക്',
+  'export.anki': 'Anki ഫ്ലാഷ്കാർഡുകൾ (CSV)',
+  'export.ankiDetail_one': 'ഓർമ്മ സൂത്രങ്ങൾ, എക്സാമിനർ പോയിന്റുകൾ, കുറിപ്പുകൾ എന്നിവയിൽ നിന്ന് {count} കാർഡ്',
+  'export.ankiDetail_other': 'ഓർമ്മ സൂത്രങ്ങൾ, എക്സാമിനർ പോയിന്റുകൾ, കുറിപ്പുകൾ എന്നിവയിൽ നിന്ന് {count} കാർഡുകൾ',
+  'export.popupBlocked': 'ഹാൻഡൗട്ട് പ്രിന്റ് ചെയ്യാൻ പോപ്പ്-അപ്പുകൾ അനുവദിക്കുക.',
+
+  'backup.detail': 'പാഠങ്ങളും കുറിപ്പുകളും ചരിത്രവും മറ്റൊരു ഉപകരണത്തിലേക്ക് മാറ്റുക, അല്ലെങ്കിൽ ഒരു പകർപ്പ് സുരക്ഷിതമായി സൂക്ഷിക്കുക.',
+  'backup.onDevice': 'ഈ ഉപകരണത്തിൽ',
+  'backup.download': 'ബാക്കപ്പ് ഡൗൺലോഡ് ചെയ്യുക',
+  'backup.restore': 'വീണ്ടെടുക്കുക',
+  'backup.choose': 'ബാക്കപ്പ് ഫയൽ തിരഞ്ഞെടുക്കുക',
+  'backup.chooseOther': 'മറ്റൊരു ഫയൽ തിരഞ്ഞെടുക്കുക',
+  'backup.savedAt': ', {date}-ന് സേവ് ചെയ്തത്',
+  'backup.merge': 'ലയിപ്പിക്കുക',
+  'backup.mergeDetail': 'ഈ ഉപകരണത്തിലെ ഡാറ്റ നിലനിർത്തി ബാക്കപ്പിലേത് ചേർക്കുന്നു. രണ്ടിലുമുള്ളവയിൽ പുതിയ പകർപ്പ് നിലനിൽക്കും.',
+  'backup.replace': 'മാറ്റിസ്ഥാപിക്കുക',
+  'backup.replaceDetail': 'ഈ ഉപകരണത്തിലെ ഡാറ്റ ഇല്ലാതാക്കി, ക്രമീകരണങ്ങൾ ഉൾപ്പെടെ ബാക്കപ്പ് ഉപയോഗിക്കുന്നു.',
+  'backup.confirmReplace': 'ഈ ഉപകരണത്തിലെ എല്ലാം ബാക്കപ്പ് കൊണ്ട് മാറ്റിസ്ഥാപിക്കണോ? ബാക്കപ്പിലില്ലാത്ത പാഠങ്ങളും കുറിപ്പുകളും ചരിത്രവും ഇല്ലാതാകും.',
+  'backup.readFailed': 'ബാക്കപ്പ് വായിക്കാനായില്ല: {error}',
+  'backup.restored': '{list}: {count} വീണ്ടെടുത്തു',
+  'backup.merged': '{list}: {added} ചേർത്തു, {updated} പുതുക്കി, {kept} ഇതിനകം പുതിയത്',
+  'backup.skipped_one': 'കേടായ {count} റെക്കോർഡ് ഒഴിവാക്കി.',
+  'backup.skipped_other': 'കേടായ {count} റെക്കോർഡുകൾ ഒഴിവാക്കി.',
+  'backup.empty': 'ബാക്കപ്പ് ശൂന്യമായിരുന്നു.',
+  'backup.list.lessons': 'സേവ് ചെയ്ത പാഠങ്ങൾ',
+  'backup.list.notes': 'കുറിപ്പുകൾ',
+  'backup.list.attempts': 'പരീക്ഷാ ചരിത്രം',
+  'backup.list.questionBank': 'ചോദ്യ ബാങ്ക്',
+  'backup.list.reviewDeck': 'റിവ്യൂ ഡെക്ക്',
+
+  'profiles.title': 'പ്രൊഫൈലുകൾ',
+  'profiles.switch': 'പ്രൊഫൈൽ മാറ്റുക',
+  'profiles.new': 'പുതിയ പ്രൊഫൈൽ',
+  'profiles.edit': '{name} തിരുത്തുക',
+  'profiles.editTitle': 'പ്രൊഫൈൽ തിരുത്തുക',
+  'profiles.delete': '{name} ഇല്ലാതാക്കുക',
+  'profiles.name': 'പേര്',
+  'profiles.namePlaceholder': 'ഉദാ. അഞ്ജലി',
+  'profiles.defaultLevel': 'സ്ഥിര ലെവൽ',
+  'profiles.pin': 'PIN നമ്പർ',
+  'profiles.newPin': 'പുതിയ PIN',
+  'profiles.keepPin': 'നിലവിലെ PIN നിലനിർത്താൻ ശൂന്യമായി വിടുക',
+  'profiles.pinDigits': '4 മുതൽ 8 വരെ അക്കങ്ങൾ',
+  'profiles.pinError': '4 മുതൽ 8 വരെ അക്കങ്ങൾ ഉപയോഗിക്കുക.',
+  'profiles.pinNote': 'ഈ ഉപകരണത്തിലെ മറ്റുള്ളവരെ പ്രൊഫൈലിൽ നിന്ന് അകറ്റിനിർത്തുന്നു. ഇത് നിങ്ങളുടെ ഡാറ്റ എൻക്രിപ്റ്റ് ചെയ്യുന്നില്ല.',
+  'profiles.removePin': 'PIN നീക്കുക',
+  'profiles.create': 'സൃഷ്ടിച്ച് മാറുക',
+  'profiles.confirmSwitch': '{name}-ലേക്ക് മാറണോ? നിങ്ങളുടെ പരീക്ഷ സേവ് ചെയ്തിട്ടുണ്ട്, പിന്നീട് ഈ പ്രൊഫൈലിൽ നിന്ന് തുടരാം.',
+  'profiles.confirmDelete': '"{name}" എന്ന പ്രൊഫൈൽ അതിലെ എല്ലാ പാഠങ്ങളും കുറിപ്പുകളും ചരിത്രവും സഹിതം ഇല്ലാതാക്കണോ? ഇത് പിൻവലിക്കാനാകില്ല.',
+  'profiles.openFailed': 'ഈ പ്രൊഫൈൽ തുറക്കാനായില്ല. വീണ്ടും ശ്രമിക്കുക.',
+  'profiles.deleteFailed': 'പ്രൊഫൈൽ ഇല്ലാതാക്കാനായില്ല. വീണ്ടും ശ്രമിക്കുക.',
+  'pin.unlock': 'തുറക്കുക',
+  'pin.wrong': 'തെറ്റായ PIN. വീണ്ടും ശ്രമിക്കുക.',
+  'pin.toSwitch': 'ഈ പ്രൊഫൈലിലേക്ക് മാറാൻ PIN നൽകുക.',
+  'pin.toDelete': 'ഈ പ്രൊഫൈൽ ഇല്ലാതാക്കാൻ PIN നൽകുക.',
+  'pin.locked': 'നിങ്ങളുടെ PIN നൽകുക, അല്ലെങ്കിൽ മുകളിലെ മെനുവിൽ നിന്ന് മറ്റൊരു പ്രൊഫൈൽ തിരഞ്ഞെടുക്കുക.',
+};
+
+const HINDI: Catalog = {
+  'common.cancel': 'रद्द करें',
+  'common.close': 'बंद करें',
+  'common.save': 'सेव करें',
+  'common.dismiss': 'हटाएँ',
+  'common.optional': '(वैकल्पिक)',
+  'common.previous': 'पिछला',
+  'common.next': 'अगला',
+  'common.loadingNext': 'अगला प्रश्न लोड हो रहा है…',
+  'common.questionOf': 'प्रश्न {number} / {total}',
+  'common.questionNumber': 'प्रश्न {number}',
+  'common.questions_one': '{count} प्रश्न',
+  'common.questions_other': '{count} प्रश्न',
+  'common.questionWord_one': 'प्रश्न',
+  'common.questionWord_other': 'प्रश्न',
+  'common.marks_one': '{count} अंक',
+  'common.marks_other': '{count} अंक',
+  'common.anyOf': '{total} में से कोई {attempt}',
+  'common.allSubjects': 'सभी विषय',
+  'common.allLevels': 'सभी स्तर',
+  'common.subject': 'विषय',
+  'common.level': 'स्तर',
+  'common.language': 'भाषा',
+  'common.score': 'स्कोर',
+  'common.marks': 'अंक',
+  'common.answered': 'उत्तर दिए',
+  'common.yourAnswer': 'आपका उत्तर',
+  'common.noExplanation': 'इस प्रश्न के लिए कोई व्याख्या नहीं दी गई।',
+  'common.untitledNote': 'बिना शीर्षक का नोट',
+  'common.connectionInterrupted': 'कनेक्शन टूट गया। कृपया फिर से कोशिश करें।',
+  'common.duration': '{minutes} मि. {seconds} से.',
+  'common.durationSeconds': '{seconds} से.',
+
+  'level.Foundation': 'फाउंडेशन',
+  'level.Intermediate': 'इंटरमीडिएट',
+  'level.Final': 'फाइनल',
+
+  'kind.mcq': 'बहुविकल्पीय',
+  'kind.mcqShort': 'बहुविकल्पी',
+  'kind.numeric': 'संख्यात्मक',
+  'kind.descriptive': 'वर्णनात्मक',
+
+  'source.ai': 'AI द्वारा बनाए गए',
+  'source.mixed': 'बैंक + AI',
+  'source.bank': 'केवल बैंक',
+
+  'style.conceptual': 'शुरुआती के लिए सरल (वैचारिक)',
+  'style.examFocused': 'परीक्षा केंद्रित (अधिक अंक)',
+  'style.inDepth': 'मास्टर क्लास (गहराई से)',
+
+  'nav.exam': 'परीक्षा सिम्युलेटर',
+  'nav.examShort': 'परीक्षा',
+  'nav.classes': 'CA कक्षाएँ',
+  'nav.classesShort': 'कक्षाएँ',
+  'nav.history': 'इतिहास',
+  'nav.review': 'रिव्यू',
+  'nav.bank': 'प्रश्न बैंक',
+  'nav.backup': 'बैकअप और रीस्टोर',
+  'app.connectFailed': 'CA Guide से कनेक्ट नहीं हो सका। कृपया अपनी API Key जाँचें और फिर से कोशिश करें।',
+  'app.confirmExitPractice': 'क्या आप बाहर निकलना चाहते हैं? आपकी अभ्यास प्रगति खो जाएगी।',
+  'app.confirmDiscardAttempt': 'यह अधूरा प्रयास छोड़ दें? आपके उत्तर खो जाएँगे।',
+  'app.confirmExitReview': 'यह रिव्यू छोड़ें? जो कार्ड पूरे नहीं हुए वे बाकी रहेंगे।',
+  'app.attemptGone': 'यह प्रयास अब आपके इतिहास में नहीं है।',
+  'app.gradingTitle': 'आपके लिखित उत्तर जाँचे जा रहे हैं...',
+  'app.gradingDetail': 'हर उत्तर को परीक्षक की रूब्रिक के अनुसार बिंदुवार अंक दिए जाते हैं',
+  'app.preparingPractice': 'अभ्यास सत्र तैयार हो रहा है...',
+  'app.generatingFor': '{topic} के लिए प्रश्न बनाए जा रहे हैं',
+  'app.reviewSession_one': 'पिछली गलतियों से {count} प्रश्न',
+  'app.reviewSession_other': 'पिछली गलतियों से {count} प्रश्न',
+  'app.noteTitle': 'प्र.{number}: {text}',
+  'app.noteExplanation': 'व्याख्या: {text}',
+
+  'setup.tagline': 'हमारे AI आधारित सिमुलेशन इंजन से चार्टर्ड अकाउंटेंसी परीक्षाओं में महारत हासिल करें। अपने स्तर के अनुसार उच्च गुणवत्ता वाले, केस आधारित प्रश्नों से अभ्यास करें।',
+  'setup.featureAnalysis': 'तत्काल प्रदर्शन विश्लेषण',
+  'setup.featureExplanations': 'विस्तृत व्याख्याएँ',
+  'setup.featureDifficulty': 'अपनी पसंद का कठिनाई स्तर',
+  'setup.currentLanguage': 'वर्तमान भाषा',
+  'setup.title': 'परीक्षा सेट करें',
+  'setup.format': 'परीक्षा प्रारूप',
+  'setup.customExam': 'कस्टम परीक्षा',
+  'setup.fullPaper': 'पूरा पेपर',
+  'setup.level': 'कठिनाई स्तर',
+  'setup.wholePaper': 'पूरा पेपर (सभी अध्याय)',
+  'setup.paperPattern': 'ICAI पेपर पैटर्न',
+  'setup.paperLength': '{hours} घंटे · {marks} अंक',
+  'setup.passMark': 'उत्तीर्ण अंक: {percent}%',
+
+  'paper.partAMcq': 'भाग A – बहुविकल्पीय प्रश्न',
+  'paper.partBQuestion': 'भाग B – प्रश्न {number}',
+  'paper.partBQuestions': 'भाग B – प्रश्न {first} से {last}',
+  'paper.mcq': 'बहुविकल्पीय प्रश्न',
+  'paper.questions': 'प्रश्न {first} से {last}',
+  'paper.allCompulsory': 'सभी {total} प्रश्न अनिवार्य हैं। प्रत्येक प्रश्न {marks} अंक का है। कोई नकारात्मक अंकन नहीं है।',
+  'paper.allCompulsoryNegative': 'सभी {total} प्रश्न अनिवार्य हैं। प्रत्येक प्रश्न {marks} अंक का है; हर गलत उत्तर पर {deduction} अंक काटे जाएँगे।',
+  'paper.questionCompulsory': 'प्रश्न {number} अनिवार्य है।',
+  'paper.answerAny': '{total} में से कोई {attempt} प्रश्न हल करें। केवल पहले {attempt} उत्तरों का मूल्यांकन होगा।',
+
+  'setup.source': 'प्रश्नों का स्रोत',
+  'setup.bankMatches_one': 'आपके बैंक में {count} मिलता-जुलता प्रश्न',
+  'setup.bankMatches_other': 'आपके बैंक में {count} मिलते-जुलते प्रश्न',
+  'setup.bankOnlyCount': ' · परीक्षा में {count} प्रश्न होंगे',
+  'setup.bankMixed': ' · परीक्षा का आधा हिस्सा तक बैंक से लिया जाएगा',
+  'setup.kinds': 'प्रश्नों के प्रकार',
+  'setup.scheme': 'अंकन योजना',
+  'setup.passMarkAtLevel': '{level} स्तर पर उत्तीर्ण अंक: {percent}%',
+  'setup.negativeMarks': ' · हर गलत उत्तर पर −{marks}',
+  'setup.questionCount': 'प्रश्नों की संख्या',
+  'setup.estimatedTime': 'अनुमानित समय: {minutes} मिनट',
+  'setup.cachedReady_one': 'इस चयन के लिए {count} पहले से बना प्रश्न तैयार है',
+  'setup.cachedReady_other': 'इस चयन के लिए {count} पहले से बने प्रश्न तैयार हैं',
+  'setup.noCached': 'इस चयन के लिए पहले से बने प्रश्न नहीं हैं',
+  'setup.preparing': 'पृष्ठभूमि में तैयार हो रहा है...',
+  'setup.pregenerate': 'एक सेट पहले से बनाएँ',
+  'setup.scenarios': 'केस परिदृश्य',
+  'setup.noScenarios': 'कोई नहीं',
+  'setup.scenarioOption_one': '{count} परिदृश्य ({questions} प्रश्न)',
+  'setup.scenarioOption_other': '{count} परिदृश्य ({questions} प्रश्न)',
+  'setup.scenarioHint': 'ICAI MCQ पेपरों की तरह, हर परिदृश्य में एक साझा केस अनुच्छेद और उसके बाद {count} MCQ होते हैं।',
+  'setup.bilingual': 'द्विभाषी ({language}, अंग्रेज़ी)',
+  'setup.bilingualHint': 'तकनीकी शब्दों को मूल से मिलाने के लिए प्रश्न, विकल्प और व्याख्याएँ अंग्रेज़ी में भी मिलेंगी।',
+  'setup.generating': 'परीक्षा बनाई जा रही है ({language})...',
+  'setup.start': 'परीक्षा शुरू करें ({language})',
+
+  'syllabus.paper': 'पेपर',
+  'syllabus.chapter': 'अध्याय',
+  'syllabus.selectChapter': 'एक अध्याय चुनें...',
+  'syllabus.unit': 'इकाई',
+  'syllabus.wholeChapter': 'पूरा अध्याय',
+
+  'exam.confirmSubmit_one': 'आपने {count} प्रश्न का उत्तर नहीं दिया है। क्या आप जमा करना चाहते हैं?',
+  'exam.confirmSubmit_other': 'आपने {count} प्रश्नों के उत्तर नहीं दिए हैं। क्या आप जमा करना चाहते हैं?',
+  'exam.quizTitle': 'क्विज़: {title}',
+  'exam.defaultTitle': 'CA परीक्षा सिम्युलेटर',
+  'exam.submit': 'परीक्षा जमा करें',
+  'exam.overAnswered': 'आपने यहाँ {answered} प्रश्नों के उत्तर दिए हैं; केवल पहले {limit} को ही अंक मिलेंगे।',
+  'exam.flag': 'रिव्यू के लिए चिह्नित करें',
+  'exam.flagged': 'रिव्यू के लिए चिह्नित',
+  'exam.finish': 'परीक्षा समाप्त करें',
+  'exam.palette': 'प्रश्न पैलेट',
+  'exam.legendAnswered': 'उत्तर दिया',
+  'exam.legendFlagged': 'चिह्नित',
+  'exam.legendCase': 'केस',
+  'exam.generating': 'बन रहा है…',
+  'exam.stillGenerating': 'अभी बन रहा है',
+  'exam.progress': 'प्रगति',
+  'exam.answeredOf': '{answered} / {total} उत्तर दिए',
+  'scenario.questionRange': 'प्रश्न {first}–{last}',
+  'bilingual.view': 'प्रश्न की भाषा',
+  'bilingual.sideBySide': 'साथ-साथ',
+  'bilingual.single': 'केवल एक भाषा',
+
+  'practice.heading': 'अभ्यास सत्र',
+  'practice.exit': 'अभ्यास छोड़ें',
+  'practice.confirmSubmit_one': 'आपने {count} प्रश्न का उत्तर नहीं दिया है। फिर भी जमा करें?',
+  'practice.confirmSubmit_other': 'आपने {count} प्रश्नों के उत्तर नहीं दिए हैं। फिर भी जमा करें?',
+  'practice.finish': 'अभ्यास समाप्त करें',
+  'practice.next': 'अगला प्रश्न',
+
+  'numeric.placeholder': 'जैसे 1,04,000',
+  'numeric.unit': 'इकाई',
+  'numeric.unreadable': 'एक संख्या दर्ज करें; कॉमा, ₹ और ऋणात्मक के लिए कोष्ठक चल सकते हैं।',
+  'numeric.answerIn': 'जब तक आप कोई दूसरी इकाई (जैसे लाख, करोड़) न लिखें, उत्तर {unit} में दें।',
+  'numeric.askedUnit': 'पूछी गई इकाई',
+  'tolerance.absolute': '±{value}{unit} तक स्वीकार्य',
+  'tolerance.wholeNumber': 'निकटतम पूर्ण संख्या तक पूर्णांकित',
+  'tolerance.decimals_one': '{count} दशमलव स्थान तक पूर्णांकित',
+  'tolerance.decimals_other': '{count} दशमलव स्थानों तक पूर्णांकित',
+  'tolerance.percent': 'सही राशि के ±{value}% तक स्वीकार्य',
+
+  'descriptive.meta': '{marks} अंक · {words} शब्द',
+  'descriptive.placeholder': 'उत्तर वैसे ही लिखें जैसे परीक्षा में लिखते हैं: प्रावधान बताएँ, तथ्यों पर लागू करें और निष्कर्ष दें।',
+  'descriptive.notAttempted': 'उत्तर नहीं दिया।',
+  'descriptive.rubric': 'रूब्रिक',
+  'descriptive.modelAnswer': 'आदर्श उत्तर',
+  'descriptive.notGraded': 'इस उत्तर का स्वचालित मूल्यांकन नहीं हो सका।',
+
+  'results.newExam': 'नई परीक्षा दें',
+  'results.backToHistory': 'इतिहास पर लौटें',
+  'results.backToDeck': 'रिव्यू डेक पर लौटें',
+  'results.passTitle': 'बधाई हो!',
+  'results.failTitle': 'अभ्यास जारी रखें',
+  'results.passDetail': 'आपने यह सिमुलेशन सफलतापूर्वक पास कर लिया है। शानदार तैयारी!',
+  'results.failDetail': 'आप उत्तीर्ण मानदंड से पीछे रह गए। नीचे अपने उत्तर देखें।',
+  'results.gained': 'प्राप्त अंक',
+  'results.correctCount': '{count} सही',
+  'results.partialCount': '{count} आंशिक',
+  'results.lost': 'कटे अंक',
+  'results.wrongCount': '{count} गलत',
+  'results.skipped': 'छोड़े गए',
+  'results.zeroMarks': '0 अंक',
+  'results.passMark': 'उत्तीर्ण अंक',
+  'results.qualityCheck': 'गुणवत्ता जाँच',
+  'results.fixes_one': '{count} सुधार किया गया',
+  'results.fixes_other': '{count} सुधार किए गए',
+  'results.delivered': '{delivered}/{requested} प्रश्न मिले',
+  'results.saveToBank': 'प्रश्न बैंक में सेव करें',
+  'results.sectionScores': 'खंडवार स्कोर',
+  'results.section': 'खंड',
+  'results.attempted': 'हल किए',
+  'results.detailedReview': 'विस्तृत प्रदर्शन समीक्षा',
+  'results.notCounted': 'गिना नहीं गया',
+  'results.notCountedHint': 'खंड के आंतरिक विकल्प से बाहर',
+  'results.yourAnswer': 'आपका उत्तर: {answer}',
+  'results.notAttempted': 'उत्तर नहीं दिया',
+  'results.correctAnswer': 'सही उत्तर: {answer}',
+  'results.examinerNote': 'परीक्षक की टिप्पणी और तर्क',
+  'results.addNote': 'नोट्स में जोड़ें',
+  'results.noteAdded': 'नोट्स में जोड़ा गया',
+
+  'topics.title': 'विषयवार विश्लेषण',
+  'topics.detail': 'हर अध्याय को उत्तीर्ण अंक के सामने अलग से आँका गया है।',
+  'topics.weakest': 'सबसे कमज़ोर क्षेत्र',
+  'topics.revise': 'दोहराएँ: {concepts}',
+  'topics.study': 'CA कक्षाओं में पढ़ें',
+  'topics.correct': '{correct}/{total} सही',
+  'topics.skipped': '{count} छोड़े',
+
+  'coverage.title': '{level} पाठ्यक्रम कवरेज',
+  'coverage.practised': '{covered}/{total} अध्यायों का अभ्यास किया',
+
+  'history.title': 'प्रयासों का इतिहास',
+  'history.detail': 'हर पूरी की गई परीक्षा और अभ्यास सत्र, सबसे नया पहले।',
+  'history.attempts': 'प्रयास',
+  'history.averageBest': 'औसत / सर्वश्रेष्ठ',
+  'history.progress': 'प्रगति',
+  'history.empty': 'इन फ़िल्टरों से मेल खाता कोई प्रयास अभी नहीं है।',
+  'history.practice': 'अभ्यास',
+  'history.delete': 'प्रयास हटाएँ',
+  'history.confirmDelete': 'यह प्रयास इतिहास से हटाएँ?',
+
+  'review.title': 'रिव्यू डेक',
+  'review.detail': 'जिन प्रश्नों में आपसे गलती हुई, वे सही होने तक अंतराल पर दोबारा आते हैं।',
+  'review.due': 'रिव्यू के लिए बाकी',
+  'review.sessionLimit': 'आज के सत्र में सबसे ज़्यादा देर वाले {count} प्रश्न हैं।',
+  'review.cardsInDeck_one': 'डेक में {count} कार्ड।',
+  'review.cardsInDeck_other': 'डेक में {count} कार्ड।',
+  'review.start': 'रिव्यू शुरू करें ({count})',
+  'review.caughtUp': 'सब पूरा हो गया',
+  'review.empty': 'आपकी परीक्षाओं के गलत और छोड़े गए प्रश्न यहाँ दिखेंगे।',
+  'review.interval': 'अंतराल {days} दिन',
+  'review.missed': '{count}× गलत',
+  'review.dueToday': 'आज',
+  'review.dueTomorrow': 'कल',
+  'review.dueIn': '{count} दिन में',
+  'review.remove': 'डेक से हटाएँ',
+  'review.confirmRemove': 'यह प्रश्न रिव्यू डेक से हटाएँ?',
+
+  'bank.detail': 'दोहराने योग्य परीक्षाओं के लिए जाँचे हुए प्रश्न। JSON या CSV फ़ाइलें इम्पोर्ट करें, या अपने परिणामों से प्रश्न सेव करें।',
+  'bank.total': 'सभी विषयों में बैंक में {count}',
+  'bank.import': 'इम्पोर्ट',
+  'bank.empty': 'कोई प्रश्न फ़ाइल इम्पोर्ट करें, या परीक्षा परिणाम पर "{action}" का उपयोग करें।',
+  'bank.imported': 'इम्पोर्ट किया गया',
+  'bank.savedFromExam': 'परीक्षा से सेव किया गया',
+  'bank.remove': 'बैंक से हटाएँ',
+  'bank.confirmRemove': 'यह प्रश्न बैंक से हटाएँ?',
+  'bank.importedCount_one': '{count} प्रश्न इम्पोर्ट किया गया।',
+  'bank.importedCount_other': '{count} प्रश्न इम्पोर्ट किए गए।',
+  'bank.duplicates': 'बैंक में पहले से मौजूद {count} छोड़ दिए गए।',
+  'bank.rejected_one': '{count} पंक्ति अस्वीकार की गई:',
+  'bank.rejected_other': '{count} पंक्तियाँ अस्वीकार की गईं:',
+  'bank.moreErrors': '…और {count} अन्य।',
+  'bank.readFailed': '{file} पढ़ी नहीं जा सकी। {error}',
+  'bank.savedCount_one': '{count} प्रश्न प्रश्न बैंक में सेव किया गया।',
+  'bank.savedCount_other': '{count} प्रश्न प्रश्न बैंक में सेव किए गए।',
+  'bank.allSaved': 'ये सभी प्रश्न पहले से प्रश्न बैंक में हैं।',
+
+  'resume.title': 'अपनी परीक्षा फिर से शुरू करें?',
+  'resume.expired': 'आपकी परीक्षा का समय समाप्त हो गया',
+  'resume.practice': 'अभ्यास सत्र',
+  'resume.timeLeft': 'बचा समय',
+  'resume.submit': 'जमा करें और परिणाम देखें',
+  'resume.resume': 'परीक्षा जारी रखें',
+  'resume.discard': 'प्रयास छोड़ें',
+
+  'storage.usage': '{quota} में से {used} उपयोग में।',
+
+  'classes.subtitle': 'आपका निजी विशेषज्ञ ट्यूटर।',
+  'classes.tabClass': 'कक्षा',
+  'classes.tabLibrary': 'लाइब्रेरी',
+  'classes.tabNotes': 'नोट्स',
+  'classes.targetLevel': 'लक्ष्य स्तर',
+  'classes.anyChapter': 'कोई भी अध्याय',
+  'classes.style': 'पढ़ाने की शैली',
+  'classes.topic': 'सीखने का विषय',
+  'classes.topicPlaceholder': 'जैसे GST इनपुट टैक्स क्रेडिट...',
+  'classes.streaming': 'तैयार हो रहा है...',
+  'classes.teachMe': 'मुझे पढ़ाएँ',
+  'classes.exportLessons': 'पाठ एक्सपोर्ट करें',
+  'classes.noLessons': 'कोई सेव किया हुआ पाठ नहीं।',
+  'classes.firstClass': 'अपनी पहली कक्षा बनाएँ',
+  'classes.confirmDeleteLesson': 'यह सेव की हुई कक्षा हटाएँ?',
+  'classes.lessonGone': 'जिस पाठ से यह नोट बना था, वह अब आपकी लाइब्रेरी में नहीं है।',
+  'classes.addLessonNote': 'इस पाठ पर नोट जोड़ें',
+  'classes.exportLesson': 'यह पाठ एक्सपोर्ट करें',
+  'classes.unsave': 'सेव से हटाएँ',
+  'classes.save': 'यह पाठ सेव करें',
+  'classes.simplify': 'और सरल समझाएँ',
+  'classes.deepen': 'और गहराई में',
+  'classes.example': 'एक और उदाहरण जोड़ें',
+  'classes.regenerate': 'फिर से बनाएँ',
+  'classes.addSectionNote': 'नोट्स में जोड़ें',
+  'classes.revertHint': 'पिछले संस्करण पर लौटें',
+  'classes.revert': 'लौटें ({count})',
+  'classes.initializing': 'कक्षा तैयार हो रही है...',
+  'classes.complete': 'कक्षा पूरी हुई',
+  'classes.completeDetail': 'आपकी समझ एक स्तर ऊपर पहुँच गई है। क्या इस ज्ञान को परखने के लिए तैयार हैं?',
+  'classes.savedToLibrary': 'लाइब्रेरी में सेव है',
+  'classes.saveForLater': 'बाद के लिए सेव करें',
+  'classes.takeQuiz': 'अभ्यास क्विज़ दें',
+  'classes.intro': 'मैं आपको टॉपर बना सकता हूँ। चाहे आप सरल अवधारणाएँ चाहने वाले शुरुआती हों या गहन केस लॉ विश्लेषण चाहने वाले फाइनल के छात्र, मैं आपके अनुसार ढल जाता हूँ।',
+  'classes.simplifyCard': 'सरल बनाएँ',
+  'classes.simplifyCardDetail': 'जटिल शब्दावली को आसान भाषा में समझें।',
+  'classes.scoreHigh': 'अधिक अंक पाएँ',
+  'classes.scoreHighDetail': 'परीक्षा के लिए मुख्य शब्द और प्रस्तुति के टिप्स सीखें।',
+
+  'notes.new': 'नया नोट',
+  'notes.create': 'नया नोट बनाएँ',
+  'notes.export': 'नोट्स एक्सपोर्ट करें',
+  'notes.search': 'नोट्स और पाठों में खोजें...',
+  'notes.none': 'अभी कोई नोट नहीं।',
+  'notes.noMatches': 'कोई मिलता-जुलता नोट नहीं।',
+  'notes.noContent': 'कोई सामग्री नहीं...',
+  'notes.inLessons': 'आपके पाठों में',
+  'notes.select': 'संपादित करने के लिए एक नोट चुनें',
+  'notes.titlePlaceholder': 'नोट का शीर्षक...',
+  'notes.saved': 'सेव हुआ',
+  'notes.delete': 'नोट हटाएँ',
+  'notes.confirmDelete': 'क्या आप वाकई यह नोट हटाना चाहते हैं?',
+  'notes.openLesson': 'पाठ खोलें',
+  'notes.openQuestion': 'प्रश्न को परीक्षा इतिहास में खोलें',
+  'notes.questionSource': 'प्रश्न {number}: {text}',
+  'notes.addTag': 'टैग जोड़ें',
+  'notes.removeTag': 'टैग हटाएँ',
+  'notes.contentPlaceholder': 'अपने नोट्स यहाँ लिखना शुरू करें...',
+
+  'tutor.title': 'शंका पूछें',
+  'tutor.detail': 'अब भी सोच रहे हैं "लेकिन अगर…"? इस पाठ की किसी भी बात के बारे में ट्यूटर से पूछें।',
+  'tutor.suggestionExample': 'क्या आप इसे किसी दूसरे उदाहरण से समझा सकते हैं?',
+  'tutor.suggestionFigures': 'अगर केस स्टडी के आँकड़े अलग होते तो क्या होता?',
+  'tutor.suggestionExam': 'इसका कौन-सा भाग परीक्षा में आने की सबसे ज़्यादा संभावना है?',
+  'tutor.placeholder': 'अपनी शंका लिखें...',
+  'tutor.send': 'भेजें',
+
+  'export.title': 'रिवीज़न के लिए एक्सपोर्ट करें',
+  'export.detail': 'पाठ और नोट्स चुनें, फिर एक प्रारूप।',
+  'export.lessons': 'पाठ',
+  'export.notes': 'नोट्स',
+  'export.print': 'प्रिंट / PDF के रूप में सेव करें',
+  'export.printDetail': 'प्रिंट करने योग्य हैंडआउट खोलता है',
+  'export.html': 'HTML हैंडआउट',
+  'export.htmlDetail': 'एक फ़ाइल, किसी भी ब्राउज़र में खुलती है',
+  'export.markdown': 'मार्कडाउन फ़ाइल',
+  'export.markdownDetail': 'Obsidian, Notion और अन्य एडिटरों के लिए',
+  'export.anki': 'Anki फ़्लैशकार्ड (CSV)',
+  'export.ankiDetail_one': 'याद रखने के सूत्रों, परीक्षक के बिंदुओं और नोट्स से {count} कार्ड',
+  'export.ankiDetail_other': 'याद रखने के सूत्रों, परीक्षक के बिंदुओं और नोट्स से {count} कार्ड',
+  'export.popupBlocked': 'हैंडआउट प्रिंट करने के लिए कृपया पॉप-अप की अनुमति दें।',
+
+  'backup.detail': 'अपने पाठ, नोट्स और इतिहास दूसरे डिवाइस पर ले जाएँ, या एक प्रति सुरक्षित रखें।',
+  'backup.onDevice': 'इस डिवाइस पर',
+  'backup.download': 'बैकअप डाउनलोड करें',
+  'backup.restore': 'रीस्टोर',
+  'backup.choose': 'बैकअप फ़ाइल चुनें',
+  'backup.chooseOther': 'दूसरी फ़ाइल चुनें',
+  'backup.savedAt': ', {date} को सेव किया गया',
+  'backup.merge': 'मिलाएँ',
+  'backup.mergeDetail': 'इस डिवाइस का डेटा रखें और बैकअप का डेटा जोड़ें। जहाँ दोनों में कोई आइटम हो, नई प्रति रहती है।',
+  'backup.replace': 'बदलें',
+  'backup.replaceDetail': 'इस डिवाइस का डेटा हटाकर उसकी सेटिंग्स सहित बैकअप का उपयोग करें।',
+  'backup.confirmReplace': 'इस डिवाइस पर सब कुछ बैकअप से बदल दें? बैकअप में न मौजूद पाठ, नोट्स और इतिहास हट जाएँगे।',
+  'backup.readFailed': 'बैकअप पढ़ा नहीं जा सका: {error}',
+  'backup.restored': '{list}: {count} रीस्टोर किए गए',
+  'backup.merged': '{list}: {added} जोड़े, {updated} अपडेट किए, {kept} पहले से नवीनतम',
+  'backup.skipped_one': '{count} खराब रिकॉर्ड छोड़ दिया गया।',
+  'backup.skipped_other': '{count} खराब रिकॉर्ड छोड़ दिए गए।',
+  'backup.empty': 'बैकअप खाली था।',
+  'backup.list.lessons': 'सेव किए पाठ',
+  'backup.list.notes': 'नोट्स',
+  'backup.list.attempts': 'परीक्षा इतिहास',
+  'backup.list.questionBank': 'प्रश्न बैंक',
+  'backup.list.reviewDeck': 'रिव्यू डेक',
+
+  'profiles.title': 'प्रोफ़ाइल',
+  'profiles.switch': 'प्रोफ़ाइल बदलें',
+  'profiles.new': 'नई प्रोफ़ाइल',
+  'profiles.edit': '{name} संपादित करें',
+  'profiles.editTitle': 'प्रोफ़ाइल संपादित करें',
+  'profiles.delete': '{name} हटाएँ',
+  'profiles.name': 'नाम',
+  'profiles.namePlaceholder': 'जैसे अंजलि',
+  'profiles.defaultLevel': 'डिफ़ॉल्ट स्तर',
+  'profiles.pin': 'PIN नंबर',
+  'profiles.newPin': 'नया PIN',
+  'profiles.keepPin': 'मौजूदा PIN रखने के लिए खाली छोड़ें',
+  'profiles.pinDigits': '4 से 8 अंक',
+  'profiles.pinError': '4 से 8 अंकों का उपयोग करें।',
+  'profiles.pinNote': 'इस डिवाइस के अन्य लोगों को प्रोफ़ाइल से दूर रखता है। यह आपके डेटा को एन्क्रिप्ट नहीं करता।',
+  'profiles.removePin': 'PIN हटाएँ',
+  'profiles.create': 'बनाएँ और बदलें',
+  'profiles.confirmSwitch': '{name} पर जाएँ? आपकी परीक्षा सेव है और बाद में इस प्रोफ़ाइल से जारी रखी जा सकती है।',
+  'profiles.confirmDelete': 'प्रोफ़ाइल "{name}" को उसके सभी पाठों, नोट्स और इतिहास सहित हटाएँ? इसे वापस नहीं लाया जा सकता।',
+  'profiles.openFailed': 'यह प्रोफ़ाइल खुल नहीं सकी। कृपया फिर से कोशिश करें।',
+  'profiles.deleteFailed': 'प्रोफ़ाइल हटाई नहीं जा सकी। कृपया फिर से कोशिश करें।',
+  'pin.unlock': 'अनलॉक करें',
+  'pin.wrong': 'गलत PIN। कृपया फिर से कोशिश करें।',
+  'pin.toSwitch': 'इस प्रोफ़ाइल पर जाने के लिए PIN दर्ज करें।',
+  'pin.toDelete': 'इस प्रोफ़ाइल को हटाने के लिए PIN दर्ज करें।',
+  'pin.locked': 'अपना PIN दर्ज करें, या ऊपर के मेनू से कोई दूसरी प्रोफ़ाइल चुनें।',
+};
+
+const TAMIL: Catalog = {
+  'common.cancel': 'ரத்துசெய்',
+  'common.close': 'மூடு',
+  'common.save': 'சேமி',
+  'common.dismiss': 'மறை',
+  'common.optional': '(விருப்பத்தேர்வு)',
+  'common.previous': 'முந்தையது',
+  'common.next': 'அடுத்தது',
+  'common.loadingNext': 'அடுத்த கேள்வி ஏற்றப்படுகிறது…',
+  'common.questionOf': 'கேள்வி {number} / {total}',
+  'common.questionNumber': 'கேள்வி {number}',
+  'common.questions_one': '{count} கேள்வி',
+  'common.questions_other': '{count} கேள்விகள்',
+  'common.questionWord_one': 'கேள்வி',
+  'common.questionWord_other': 'கேள்விகள்',
+  'common.marks_one': '{count} மதிப்பெண்',
+  'common.marks_other': '{count} மதிப்பெண்கள்',
+  'common.anyOf': '{total}-இல் ஏதேனும் {attempt}',
+  'common.allSubjects': 'அனைத்து பாடங்களும்',
+  'common.allLevels': 'அனைத்து நிலைகளும்',
+  'common.subject': 'பாடம்',
+  'common.level': 'நிலை',
+  'common.language': 'மொழி',
+  'common.score': 'மதிப்பெண்',
+  'common.marks': 'மதிப்பெண்கள்',
+  'common.answered': 'பதிலளித்தவை',
+  'common.yourAnswer': 'உங்கள் பதில்',
+  'common.noExplanation': 'இந்தக் கேள்விக்கு விளக்கம் வழங்கப்படவில்லை.',
+  'common.untitledNote': 'தலைப்பில்லா குறிப்பு',
+  'common.connectionInterrupted': 'இணைப்பு துண்டிக்கப்பட்டது. மீண்டும் முயற்சிக்கவும்.',
+  'common.duration': '{minutes} நி. {seconds} வி.',
+  'common.durationSeconds': '{seconds} வி.',
+
+  'level.Foundation': 'ஃபவுண்டேஷன்',
+  'level.Intermediate': 'இன்டர்மீடியட்',
+  'level.Final': 'ஃபைனல்',
+
+  'kind.mcq': 'பல்தேர்வு',
+  'kind.mcqShort': 'பல்தேர்வு',
+  'kind.numeric': 'எண்ணியல்',
+  'kind.descriptive': 'விரிவான விடை',
+
+  'source.ai': 'AI உருவாக்கியவை',
+  'source.mixed': 'வங்கி + AI',
+  'source.bank': 'வங்கி மட்டும்',
+
+  'style.conceptual': 'தொடக்கநிலையினருக்கு எளிமையாக (கருத்தியல்)',
+  'style.examFocused': 'தேர்வு நோக்கு (அதிக மதிப்பெண்)',
+  'style.inDepth': 'மாஸ்டர் கிளாஸ் (ஆழமாக)',
+
+  'nav.exam': 'தேர்வு சிமுலேட்டர்',
+  'nav.examShort': 'தேர்வு',
+  'nav.classes': 'CA வகுப்புகள்',
+  'nav.classesShort': 'வகுப்புகள்',
+  'nav.history': 'வரலாறு',
+  'nav.review': 'மீள்பார்வை',
+  'nav.bank': 'கேள்வி வங்கி',
+  'nav.backup': 'காப்புப்பிரதி & மீட்பு',
+  'app.connectFailed': 'CA Guide-உடன் இணைக்க முடியவில்லை. உங்கள் API Key-ஐச் சரிபார்த்து மீண்டும் முயற்சிக்கவும்.',
+  'app.confirmExitPractice': 'வெளியேற விரும்புகிறீர்களா? உங்கள் பயிற்சி முன்னேற்றம் இழக்கப்படும்.',
+  'app.confirmDiscardAttempt': 'முடிக்காத இந்த முயற்சியைக் கைவிடவா? உங்கள் பதில்கள் இழக்கப்படும்.',
+  'app.confirmExitReview': 'இந்த மீள்பார்வையிலிருந்து வெளியேறவா? முடிக்காத அட்டைகள் நிலுவையில் இருக்கும்.',
+  'app.attemptGone': 'இந்த முயற்சி இப்போது உங்கள் வரலாற்றில் இல்லை.',
+  'app.gradingTitle': 'உங்கள் எழுத்துப் பதில்கள் மதிப்பிடப்படுகின்றன...',
+  'app.gradingDetail': 'ஒவ்வொரு பதிலும் தேர்வாளரின் ரூப்ரிக்கின்படி புள்ளி வாரியாக மதிப்பிடப்படுகிறது',
+  'app.preparingPractice': 'பயிற்சி அமர்வு தயாராகிறது...',
+  'app.generatingFor': '{topic} தலைப்புக்கான கேள்விகள் உருவாக்கப்படுகின்றன',
+  'app.reviewSession_one': 'முந்தைய தவறுகளிலிருந்து {count} கேள்வி',
+  'app.reviewSession_other': 'முந்தைய தவறுகளிலிருந்து {count} கேள்விகள்',
+  'app.noteTitle': 'கே.{number}: {text}',
+  'app.noteExplanation': 'விளக்கம்: {text}',
+
+  'setup.tagline': 'எங்கள் AI சார்ந்த சிமுலேஷன் மூலம் பட்டயக் கணக்காளர் தேர்வுகளில் தேர்ச்சி பெறுங்கள். உங்கள் நிலைக்கு ஏற்ற, தரமான, வழக்கு சார்ந்த கேள்விகளுடன் பயிற்சி செய்யுங்கள்.',
+  'setup.featureAnalysis': 'நேரடி செயல்திறன் பகுப்பாய்வு',
+  'setup.featureExplanations': 'விரிவான விளக்கங்கள்',
+  'setup.featureDifficulty': 'தேவைக்கேற்ற கடினத்தன்மை',
+  'setup.currentLanguage': 'தற்போதைய மொழி',
+  'setup.title': 'தேர்வை அமைக்கவும்',
+  'setup.format': 'தேர்வு வடிவம்',
+  'setup.customExam': 'தனிப்பயன் தேர்வு',
+  'setup.fullPaper': 'முழு தாள்',
+  'setup.level': 'கடினத்தன்மை நிலை',
+  'setup.wholePaper': 'முழு தாள் (அனைத்து அத்தியாயங்களும்)',
+  'setup.paperPattern': 'ICAI தாள் அமைப்பு',
+  'setup.paperLength': '{hours} மணிநேரம் · {marks} மதிப்பெண்கள்',
+  'setup.passMark': 'தேர்ச்சி மதிப்பெண்: {percent}%',
+
+  'paper.partAMcq': 'பகுதி A – பல்தேர்வு கேள்விகள்',
+  'paper.partBQuestion': 'பகுதி B – கேள்வி {number}',
+  'paper.partBQuestions': 'பகுதி B – கேள்விகள் {first} முதல் {last} வரை',
+  'paper.mcq': 'பல்தேர்வு கேள்விகள்',
+  'paper.questions': 'கேள்விகள் {first} முதல் {last} வரை',
+  'paper.allCompulsory': 'அனைத்து {total} கேள்விகளும் கட்டாயம். ஒவ்வொன்றுக்கும் {marks} மதிப்பெண்கள். எதிர்மறை மதிப்பெண் இல்லை.',
+  'paper.allCompulsoryNegative': 'அனைத்து {total} கேள்விகளும் கட்டாயம். ஒவ்வொன்றுக்கும் {marks} மதிப்பெண்; ஒவ்வொரு தவறான விடைக்கும் {deduction} மதிப்பெண் கழிக்கப்படும்.',
+  'paper.questionCompulsory': 'கேள்வி {number} கட்டாயம்.',
+  'paper.answerAny': '{total} கேள்விகளில் ஏதேனும் {attempt} கேள்விகளுக்கு விடையளிக்கவும். முதல் {attempt} விடைகள் மட்டுமே மதிப்பிடப்படும்.',
+
+  'setup.source': 'கேள்விகளின் மூலம்',
+  'setup.bankMatches_one': 'உங்கள் வங்கியில் பொருந்தும் {count} கேள்வி',
+  'setup.bankMatches_other': 'உங்கள் வங்கியில் பொருந்தும் {count} கேள்விகள்',
+  'setup.bankOnlyCount': ' · தேர்வில் {count} கேள்விகள் இருக்கும்',
+  'setup.bankMixed': ' · தேர்வின் பாதி வரை வங்கியிலிருந்து எடுக்கப்படும்',
+  'setup.kinds': 'கேள்வி வகைகள்',
+  'setup.scheme': 'மதிப்பீட்டு முறை',
+  'setup.passMarkAtLevel': '{level} நிலையில் தேர்ச்சி மதிப்பெண்: {percent}%',
+  'setup.negativeMarks': ' · ஒவ்வொரு தவறான பதிலுக்கும் −{marks}',
+  'setup.questionCount': 'கேள்விகளின் எண்ணிக்கை',
+  'setup.estimatedTime': 'மதிப்பிடப்பட்ட நேரம்: {minutes} நிமிடங்கள்',
+  'setup.cachedReady_one': 'இந்தத் தேர்வுக்கு முன்பே உருவாக்கிய {count} கேள்வி தயாராக உள்ளது',
+  'setup.cachedReady_other': 'இந்தத் தேர்வுக்கு முன்பே உருவாக்கிய {count} கேள்விகள் தயாராக உள்ளன',
+  'setup.noCached': 'இந்தத் தேர்வுக்கு முன்பே உருவாக்கிய கேள்விகள் இல்லை',
+  'setup.preparing': 'பின்னணியில் தயாராகிறது...',
+  'setup.pregenerate': 'ஒரு தொகுப்பை முன்பே உருவாக்கு',
+  'setup.scenarios': 'வழக்குச் சூழல்கள்',
+  'setup.noScenarios': 'எதுவுமில்லை',
+  'setup.scenarioOption_one': '{count} சூழல் ({questions} கேள்விகள்)',
+  'setup.scenarioOption_other': '{count} சூழல்கள் ({questions} கேள்விகள்)',
+  'setup.scenarioHint': 'ICAI MCQ தாள்களில் உள்ளதுபோல், ஒவ்வொரு சூழலும் ஒரு பொதுவான வழக்குப் பத்தியும் அதைத் தொடர்ந்து {count} MCQ-களும் ஆகும்.',
+  'setup.bilingual': 'இருமொழி ({language}, ஆங்கிலம்)',
+  'setup.bilingualHint': 'தொழில்நுட்பச் சொற்களை மூலத்துடன் ஒப்பிட, கேள்விகள், விருப்பங்கள், விளக்கங்கள் ஆங்கிலத்திலும் கிடைக்கும்.',
+  'setup.generating': 'தேர்வு உருவாக்கப்படுகிறது ({language})...',
+  'setup.start': 'தேர்வைத் தொடங்கு ({language})',
+
+  'syllabus.paper': 'தாள்',
+  'syllabus.chapter': 'அத்தியாயம்',
+  'syllabus.selectChapter': 'ஒரு அத்தியாயத்தைத் தேர்ந்தெடுக்கவும்...',
+  'syllabus.unit': 'அலகு',
+  'syllabus.wholeChapter': 'முழு அத்தியாயம்',
+
+  'exam.confirmSubmit_one': '{count} கேள்விக்கு நீங்கள் பதிலளிக்கவில்லை. சமர்ப்பிக்க விரும்புகிறீர்களா?',
+  'exam.confirmSubmit_other': '{count} கேள்விகளுக்கு நீங்கள் பதிலளிக்கவில்லை. சமர்ப்பிக்க விரும்புகிறீர்களா?',
+  'exam.quizTitle': 'வினாடி வினா: {title}',
+  'exam.defaultTitle': 'CA தேர்வு சிமுலேட்டர்',
+  'exam.submit': 'தேர்வைச் சமர்ப்பி',
+  'exam.overAnswered': 'இங்கே {answered} கேள்விகளுக்குப் பதிலளித்துள்ளீர்கள்; முதல் {limit} மட்டுமே மதிப்பிடப்படும்.',
+  'exam.flag': 'மீள்பார்வைக்குக் குறி',
+  'exam.flagged': 'மீள்பார்வைக்குக் குறிக்கப்பட்டது',
+  'exam.finish': 'தேர்வை முடி',
+  'exam.palette': 'கேள்விப் பட்டியல்',
+  'exam.legendAnswered': 'பதிலளித்தது',
+  'exam.legendFlagged': 'குறிக்கப்பட்டது',
+  'exam.legendCase': 'வழக்கு',
+  'exam.generating': 'உருவாகிறது…',
+  'exam.stillGenerating': 'இன்னும் உருவாக்கப்படுகிறது',
+  'exam.progress': 'முன்னேற்றம்',
+  'exam.answeredOf': '{answered} / {total} பதிலளிக்கப்பட்டது',
+  'scenario.questionRange': 'கேள்விகள் {first}–{last}',
+  'bilingual.view': 'கேள்வியின் மொழி',
+  'bilingual.sideBySide': 'அருகருகே',
+  'bilingual.single': 'ஒரே மொழி',
+
+  'practice.heading': 'பயிற்சி அமர்வு',
+  'practice.exit': 'பயிற்சியிலிருந்து வெளியேறு',
+  'practice.confirmSubmit_one': '{count} கேள்விக்கு நீங்கள் பதிலளிக்கவில்லை. இருந்தாலும் சமர்ப்பிக்கவா?',
+  'practice.confirmSubmit_other': '{count} கேள்விகளுக்கு நீங்கள் பதிலளிக்கவில்லை. இருந்தாலும் சமர்ப்பிக்கவா?',
+  'practice.finish': 'பயிற்சியை முடி',
+  'practice.next': 'அடுத்த கேள்வி',
+
+  'numeric.placeholder': 'எ.கா. 1,04,000',
+  'numeric.unit': 'அலகு',
+  'numeric.unreadable': 'ஒரு எண்ணை உள்ளிடவும்; காற்புள்ளி, ₹, எதிர்மறைக்கு அடைப்புக்குறி ஆகியவை பரவாயில்லை.',
+  'numeric.answerIn': 'வேறு அலகை (எ.கா. லட்சம், கோடி) தட்டச்சு செய்யாவிட்டால் {unit}-இல் பதிலளிக்கவும்.',
+  'numeric.askedUnit': 'கேட்கப்பட்ட அலகு',
+  'tolerance.absolute': '±{value}{unit} வரை ஏற்கப்படும்',
+  'tolerance.wholeNumber': 'அருகிலுள்ள முழு எண்ணுக்கு முழுமையாக்கப்பட்டது',
+  'tolerance.decimals_one': '{count} தசம இடத்திற்கு முழுமையாக்கப்பட்டது',
+  'tolerance.decimals_other': '{count} தசம இடங்களுக்கு முழுமையாக்கப்பட்டது',
+  'tolerance.percent': 'சரியான தொகையின் ±{value}% வரை ஏற்கப்படும்',
+
+  'descriptive.meta': '{marks} மதிப்பெண்கள் · {words} சொற்கள்',
+  'descriptive.placeholder': 'தேர்வில் எழுதுவதுபோல் பதிலை எழுதுங்கள்: விதியைக் கூறி, உண்மைகளுக்குப் பொருத்தி, முடிவைச் சொல்லுங்கள்.',
+  'descriptive.notAttempted': 'பதிலளிக்கவில்லை.',
+  'descriptive.rubric': 'ரூப்ரிக்',
+  'descriptive.modelAnswer': 'மாதிரி பதில்',
+  'descriptive.notGraded': 'இந்தப் பதிலைத் தானாக மதிப்பிட முடியவில்லை.',
+
+  'results.newExam': 'புதிய தேர்வு எழுது',
+  'results.backToHistory': 'வரலாற்றுக்குத் திரும்பு',
+  'results.backToDeck': 'மீள்பார்வை அடுக்குக்குத் திரும்பு',
+  'results.passTitle': 'வாழ்த்துகள்!',
+  'results.failTitle': 'தொடர்ந்து பயிற்சி செய்யுங்கள்',
+  'results.passDetail': 'இந்த சிமுலேஷனில் வெற்றிகரமாகத் தேர்ச்சி பெற்றுள்ளீர்கள். சிறந்த தயாரிப்பு!',
+  'results.failDetail': 'தேர்ச்சி அளவுகோலை எட்டவில்லை. கீழே உங்கள் பதில்களைப் பாருங்கள்.',
+  'results.gained': 'பெற்ற மதிப்பெண்கள்',
+  'results.correctCount': '{count} சரி',
+  'results.partialCount': '{count} பகுதியளவு',
+  'results.lost': 'இழந்த மதிப்பெண்கள்',
+  'results.wrongCount': '{count} தவறு',
+  'results.skipped': 'தவிர்த்தவை',
+  'results.zeroMarks': '0 மதிப்பெண்',
+  'results.passMark': 'தேர்ச்சி மதிப்பெண்',
+  'results.qualityCheck': 'தரச் சோதனை',
+  'results.fixes_one': '{count} திருத்தம் செய்யப்பட்டது',
+  'results.fixes_other': '{count} திருத்தங்கள் செய்யப்பட்டன',
+  'results.delivered': '{delivered}/{requested} கேள்விகள் கிடைத்தன',
+  'results.saveToBank': 'கேள்வி வங்கியில் சேமி',
+  'results.sectionScores': 'பிரிவு வாரியான மதிப்பெண்கள்',
+  'results.section': 'பிரிவு',
+  'results.attempted': 'முயற்சித்தவை',
+  'results.detailedReview': 'விரிவான செயல்திறன் மதிப்பாய்வு',
+  'results.notCounted': 'கணக்கிடப்படவில்லை',
+  'results.notCountedHint': 'பிரிவின் உள் தேர்வுக்கு அப்பால்',
+  'results.yourAnswer': 'உங்கள் பதில்: {answer}',
+  'results.notAttempted': 'பதிலளிக்கவில்லை',
+  'results.correctAnswer': 'சரியான பதில்: {answer}',
+  'results.examinerNote': 'தேர்வாளர் குறிப்பு & தர்க்கம்',
+  'results.addNote': 'குறிப்புகளில் சேர்',
+  'results.noteAdded': 'குறிப்புகளில் சேர்க்கப்பட்டது',
+
+  'topics.title': 'தலைப்பு வாரியான பகுப்பாய்வு',
+  'topics.detail': 'ஒவ்வொரு அத்தியாயமும் தேர்ச்சி மதிப்பெண்ணுக்கு எதிராகத் தனியாக மதிப்பிடப்பட்டது.',
+  'topics.weakest': 'மிகவும் பலவீனமான பகுதிகள்',
+  'topics.revise': 'மீண்டும் படிக்கவும்: {concepts}',
+  'topics.study': 'CA வகுப்புகளில் படி',
+  'topics.correct': '{correct}/{total} சரி',
+  'topics.skipped': '{count} தவிர்க்கப்பட்டது',
+
+  'coverage.title': '{level} பாடத்திட்டக் கவரேஜ்',
+  'coverage.practised': '{covered}/{total} அத்தியாயங்கள் பயிற்சி செய்யப்பட்டன',
+
+  'history.title': 'முயற்சி வரலாறு',
+  'history.detail': 'முடித்த ஒவ்வொரு தேர்வும் பயிற்சி அமர்வும், புதியவை முதலில்.',
+  'history.attempts': 'முயற்சிகள்',
+  'history.averageBest': 'சராசரி / சிறந்தது',
+  'history.progress': 'முன்னேற்றம்',
+  'history.empty': 'இந்த வடிகட்டிகளுக்குப் பொருந்தும் முயற்சிகள் இன்னும் இல்லை.',
+  'history.practice': 'பயிற்சி',
+  'history.delete': 'முயற்சியை நீக்கு',
+  'history.confirmDelete': 'இந்த முயற்சியை உங்கள் வரலாற்றிலிருந்து நீக்கவா?',
+
+  'review.title': 'மீள்பார்வை அடுக்கு',
+  'review.detail': 'நீங்கள் தவறவிட்ட கேள்விகள், சரியாகும் வரை இடைவெளி விட்டு மீண்டும் வரும்.',
+  'review.due': 'மீள்பார்வைக்கு நிலுவையில்',
+  'review.sessionLimit': 'இன்றைய அமர்வில் மிகவும் தாமதமான {count} கேள்விகள்.',
+  'review.cardsInDeck_one': 'அடுக்கில் {count} அட்டை.',
+  'review.cardsInDeck_other': 'அடுக்கில் {count} அட்டைகள்.',
+  'review.start': 'மீள்பார்வையைத் தொடங்கு ({count})',
+  'review.caughtUp': 'அனைத்தும் முடிந்தது',
+  'review.empty': 'உங்கள் தேர்வுகளில் தவறான மற்றும் தவிர்த்த கேள்விகள் இங்கே தோன்றும்.',
+  'review.interval': 'இடைவெளி {days} நாள்',
+  'review.missed': '{count}× தவறியது',
+  'review.dueToday': 'இன்று',
+  'review.dueTomorrow': 'நாளை',
+  'review.dueIn': '{count} நாட்களில்',
+  'review.remove': 'அடுக்கிலிருந்து நீக்கு',
+  'review.confirmRemove': 'இந்தக் கேள்வியை மீள்பார்வை அடுக்கிலிருந்து நீக்கவா?',
+
+  'bank.detail': 'மீண்டும் நடத்தக்கூடிய தேர்வுகளுக்கான சரிபார்க்கப்பட்ட கேள்விகள். JSON அல்லது CSV கோப்புகளை இறக்குமதி செய்யுங்கள், அல்லது முடிவுகளிலிருந்து கேள்விகளைச் சேமியுங்கள்.',
+  'bank.total': 'அனைத்து பாடங்களிலும் வங்கியில் {count}',
+  'bank.import': 'இறக்குமதி',
+  'bank.empty': 'ஒரு கேள்விக் கோப்பை இறக்குமதி செய்யுங்கள், அல்லது தேர்வு முடிவுகளில் "{action}" பயன்படுத்துங்கள்.',
+  'bank.imported': 'இறக்குமதி செய்யப்பட்டது',
+  'bank.savedFromExam': 'தேர்விலிருந்து சேமிக்கப்பட்டது',
+  'bank.remove': 'வங்கியிலிருந்து நீக்கு',
+  'bank.confirmRemove': 'இந்தக் கேள்வியை வங்கியிலிருந்து நீக்கவா?',
+  'bank.importedCount_one': '{count} கேள்வி இறக்குமதி செய்யப்பட்டது.',
+  'bank.importedCount_other': '{count} கேள்விகள் இறக்குமதி செய்யப்பட்டன.',
+  'bank.duplicates': 'ஏற்கெனவே வங்கியில் உள்ள {count} தவிர்க்கப்பட்டன.',
+  'bank.rejected_one': '{count} வரிசை நிராகரிக்கப்பட்டது:',
+  'bank.rejected_other': '{count} வரிசைகள் நிராகரிக்கப்பட்டன:',
+  'bank.moreErrors': '…மேலும் {count}.',
+  'bank.readFailed': '{file}-ஐப் படிக்க முடியவில்லை. {error}',
+  'bank.savedCount_one': '{count} கேள்வி கேள்வி வங்கியில் சேமிக்கப்பட்டது.',
+  'bank.savedCount_other': '{count} கேள்விகள் கேள்வி வங்கியில் சேமிக்கப்பட்டன.',
+  'bank.allSaved': 'இந்தக் கேள்விகள் அனைத்தும் ஏற்கெனவே கேள்வி வங்கியில் உள்ளன.',
+
+  'resume.title': 'உங்கள் தேர்வைத் தொடரவா?',
+  'resume.expired': 'உங்கள் தேர்வு நேரம் முடிந்துவிட்டது',
+  'resume.practice': 'பயிற்சி அமர்வு',
+  'resume.timeLeft': 'மீதமுள்ள நேரம்',
+  'resume.submit': 'சமர்ப்பித்து முடிவுகளைப் பார்',
+  'resume.resume': 'தேர்வைத் தொடர்',
+  'resume.discard': 'முயற்சியைக் கைவிடு',
+
+  'storage.usage': '{quota}-இல் {used} பயன்பாட்டில் உள்ளது.',
+
+  'classes.subtitle': 'உங்கள் தனிப்பட்ட நிபுணர் ஆசிரியர்.',
+  'classes.tabClass': 'வகுப்பு',
+  'classes.tabLibrary': 'நூலகம்',
+  'classes.tabNotes': 'குறிப்புகள்',
+  'classes.targetLevel': 'இலக்கு நிலை',
+  'classes.anyChapter': 'எந்த அத்தியாயமும்',
+  'classes.style': 'கற்பிக்கும் முறை',
+  'classes.topic': 'கற்க வேண்டிய தலைப்பு',
+  'classes.topicPlaceholder': 'எ.கா. GST உள்ளீட்டு வரி வரவு...',
+  'classes.streaming': 'உருவாகிறது...',
+  'classes.teachMe': 'கற்றுக்கொடு',
+  'classes.exportLessons': 'பாடங்களை ஏற்றுமதி செய்',
+  'classes.noLessons': 'சேமித்த பாடங்கள் இல்லை.',
+  'classes.firstClass': 'உங்கள் முதல் வகுப்பை உருவாக்குங்கள்',
+  'classes.confirmDeleteLesson': 'சேமித்த இந்த வகுப்பை நீக்கவா?',
+  'classes.lessonGone': 'இந்தக் குறிப்பு வந்த பாடம் இப்போது உங்கள் நூலகத்தில் இல்லை.',
+  'classes.addLessonNote': 'இந்தப் பாடத்தில் குறிப்பு சேர்',
+  'classes.exportLesson': 'இந்தப் பாடத்தை ஏற்றுமதி செய்',
+  'classes.unsave': 'சேமித்தவற்றிலிருந்து நீக்கு',
+  'classes.save': 'இந்தப் பாடத்தைச் சேமி',
+  'classes.simplify': 'இன்னும் எளிமையாக விளக்கு',
+  'classes.deepen': 'இன்னும் ஆழமாக',
+  'classes.example': 'இன்னொரு உதாரணம் சேர்',
+  'classes.regenerate': 'மீண்டும் உருவாக்கு',
+  'classes.addSectionNote': 'குறிப்புகளில் சேர்',
+  'classes.revertHint': 'முந்தைய பதிப்புக்குத் திரும்பு',
+  'classes.revert': 'திரும்பு ({count})',
+  'classes.initializing': 'வகுப்பு தயாராகிறது...',
+  'classes.complete': 'வகுப்பு முடிந்தது',
+  'classes.completeDetail': 'உங்கள் புரிதல் ஒரு படி உயர்ந்துள்ளது. இந்த அறிவைச் சோதிக்கத் தயாரா?',
+  'classes.savedToLibrary': 'நூலகத்தில் சேமிக்கப்பட்டது',
+  'classes.saveForLater': 'பின்னர் படிக்கச் சேமி',
+  'classes.takeQuiz': 'பயிற்சி வினாடி வினா எழுது',
+  'classes.intro': 'உங்களை முதலிடம் பெறச் செய்ய என்னால் முடியும். எளிய கருத்துகள் தேவைப்படும் தொடக்கநிலையாளராக இருந்தாலும், ஆழமான வழக்குச் சட்டப் பகுப்பாய்வு தேவைப்படும் ஃபைனல் மாணவராக இருந்தாலும், நான் உங்களுக்கேற்ப மாறுவேன்.',
+  'classes.simplifyCard': 'எளிமையாக்கு',
+  'classes.simplifyCardDetail': 'கடினமான கலைச்சொற்களை எளிய மொழியில் விளக்குகிறது.',
+  'classes.scoreHigh': 'அதிக மதிப்பெண்',
+  'classes.scoreHighDetail': 'தேர்வுக்கான முக்கியச் சொற்களையும் எழுதும் உத்திகளையும் கற்றுக்கொள்ளுங்கள்.',
+
+  'notes.new': 'புதிய குறிப்பு',
+  'notes.create': 'புதிய குறிப்பை உருவாக்கு',
+  'notes.export': 'குறிப்புகளை ஏற்றுமதி செய்',
+  'notes.search': 'குறிப்புகளிலும் பாடங்களிலும் தேடு...',
+  'notes.none': 'இன்னும் குறிப்புகள் இல்லை.',
+  'notes.noMatches': 'பொருந்தும் குறிப்புகள் இல்லை.',
+  'notes.noContent': 'உள்ளடக்கம் இல்லை...',
+  'notes.inLessons': 'உங்கள் பாடங்களில்',
+  'notes.select': 'திருத்த ஒரு குறிப்பைத் தேர்ந்தெடுக்கவும்',
+  'notes.titlePlaceholder': 'குறிப்புத் தலைப்பு...',
+  'notes.saved': 'சேமிக்கப்பட்டது',
+  'notes.delete': 'குறிப்பை நீக்கு',
+  'notes.confirmDelete': 'இந்தக் குறிப்பை நிச்சயமாக நீக்க விரும்புகிறீர்களா?',
+  'notes.openLesson': 'பாடத்தைத் திற',
+  'notes.openQuestion': 'கேள்வியைத் தேர்வு வரலாற்றில் திற',
+  'notes.questionSource': 'கேள்வி {number}: {text}',
+  'notes.addTag': 'குறிச்சொல் சேர்',
+  'notes.removeTag': 'குறிச்சொல்லை நீக்கு',
+  'notes.contentPlaceholder': 'உங்கள் குறிப்புகளை இங்கே தட்டச்சு செய்யத் தொடங்குங்கள்...',
+
+  'tutor.title': 'சந்தேகம் கேள்',
+  'tutor.detail': 'இன்னும் "ஆனால் இப்படி இருந்தால்…" என்று யோசிக்கிறீர்களா? இந்தப் பாடத்தில் எதைப் பற்றியும் ஆசிரியரிடம் கேளுங்கள்.',
+  'tutor.suggestionExample': 'இதை வேறொரு உதாரணத்துடன் விளக்க முடியுமா?',
+  'tutor.suggestionFigures': 'வழக்கு ஆய்வில் உள்ள தொகைகள் வேறாக இருந்தால் என்ன?',
+  'tutor.suggestionExam': 'இதில் எந்தப் பகுதி தேர்வில் வர அதிக வாய்ப்புள்ளது?',
+  'tutor.placeholder': 'உங்கள் சந்தேகத்தைத் தட்டச்சு செய்யுங்கள்...',
+  'tutor.send': 'அனுப்பு',
+
+  'export.title': 'மீள்பார்வைக்கு ஏற்றுமதி செய்',
+  'export.detail': 'பாடங்களையும் குறிப்புகளையும் தேர்ந்தெடுத்து, பின் ஒரு வடிவத்தைத் தேர்ந்தெடுக்கவும்.',
+  'export.lessons': 'பாடங்கள்',
+  'export.notes': 'குறிப்புகள்',
+  'export.print': 'அச்சிடு / PDF ஆகச் சேமி',
+  'export.printDetail': 'அச்சிடக்கூடிய கையேட்டைத் திறக்கும்',
+  'export.html': 'HTML கையேடு',
+  'export.htmlDetail': 'ஒரே கோப்பு, எந்த உலாவியிலும் திறக்கும்',
+  'export.markdown': 'மார்க்டவுன் கோப்பு',
+  'export.markdownDetail': 'Obsidian, Notion போன்ற எடிட்டர்களுக்கு',
+  'export.anki': 'Anki ஃபிளாஷ்கார்டுகள் (CSV)',
+  'export.ankiDetail_one': 'நினைவுக் குறிப்புகள், தேர்வாளர் குறிப்புகள், உங்கள் குறிப்புகளிலிருந்து {count} அட்டை',
+  'export.ankiDetail_other': 'நினைவுக் குறிப்புகள், தேர்வாளர் குறிப்புகள், உங்கள் குறிப்புகளிலிருந்து {count} அட்டைகள்',
+  'export.popupBlocked': 'கையேட்டை அச்சிட பாப்-அப்களை அனுமதிக்கவும்.',
+
+  'backup.detail': 'உங்கள் பாடங்கள், குறிப்புகள், வரலாற்றை வேறொரு சாதனத்துக்கு மாற்றுங்கள், அல்லது ஒரு நகலைப் பாதுகாப்பாக வைத்திருங்கள்.',
+  'backup.onDevice': 'இந்தச் சாதனத்தில்',
+  'backup.download': 'காப்புப்பிரதியைப் பதிவிறக்கு',
+  'backup.restore': 'மீட்டெடு',
+  'backup.choose': 'காப்புப்பிரதிக் கோப்பைத் தேர்ந்தெடு',
+  'backup.chooseOther': 'வேறொரு கோப்பைத் தேர்ந்தெடு',
+  'backup.savedAt': ', {date} அன்று சேமிக்கப்பட்டது',
+  'backup.merge': 'இணை',
+  'backup.mergeDetail': 'இந்தச் சாதனத்தின் தரவை வைத்துக்கொண்டு காப்புப்பிரதியின் தரவைச் சேர்க்கும். இரண்டிலும் உள்ளவற்றில் புதிய நகல் நிலைக்கும்.',
+  'backup.replace': 'மாற்று',
+  'backup.replaceDetail': 'இந்தச் சாதனத்தின் தரவை நீக்கி, அமைப்புகள் உட்பட காப்புப்பிரதியைப் பயன்படுத்தும்.',
+  'backup.confirmReplace': 'இந்தச் சாதனத்தில் உள்ள அனைத்தையும் காப்புப்பிரதியால் மாற்றவா? காப்புப்பிரதியில் இல்லாத பாடங்கள், குறிப்புகள், வரலாறு நீக்கப்படும்.',
+  'backup.readFailed': 'காப்புப்பிரதியைப் படிக்க முடியவில்லை: {error}',
+  'backup.restored': '{list}: {count} மீட்டெடுக்கப்பட்டன',
+  'backup.merged': '{list}: {added} சேர்க்கப்பட்டன, {updated} புதுப்பிக்கப்பட்டன, {kept} ஏற்கெனவே புதியவை',
+  'backup.skipped_one': 'சேதமடைந்த {count} பதிவு தவிர்க்கப்பட்டது.',
+  'backup.skipped_other': 'சேதமடைந்த {count} பதிவுகள் தவிர்க்கப்பட்டன.',
+  'backup.empty': 'காப்புப்பிரதி காலியாக இருந்தது.',
+  'backup.list.lessons': 'சேமித்த பாடங்கள்',
+  'backup.list.notes': 'குறிப்புகள்',
+  'backup.list.attempts': 'தேர்வு வரலாறு',
+  'backup.list.questionBank': 'கேள்வி வங்கி',
+  'backup.list.reviewDeck': 'மீள்பார்வை அடுக்கு',
+
+  'profiles.title': 'சுயவிவரங்கள்',
+  'profiles.switch': 'சுயவிவரத்தை மாற்று',
+  'profiles.new': 'புதிய சுயவிவரம்',
+  'profiles.edit': '{name}-ஐத் திருத்து',
+  'profiles.editTitle': 'சுயவிவரத்தைத் திருத்து',
+  'profiles.delete': '{name}-ஐ நீக்கு',
+  'profiles.name': 'பெயர்',
+  'profiles.namePlaceholder': 'எ.கா. அஞ்சலி',
+  'profiles.defaultLevel': 'இயல்புநிலை',
+  'profiles.pin': 'PIN எண்',
+  'profiles.newPin': 'புதிய PIN',
+  'profiles.keepPin': 'தற்போதைய PIN-ஐ வைத்திருக்க காலியாக விடவும்',
+  'profiles.pinDigits': '4 முதல் 8 இலக்கங்கள்',
+  'profiles.pinError': '4 முதல் 8 இலக்கங்களைப் பயன்படுத்தவும்.',
+  'profiles.pinNote': 'இந்தச் சாதனத்தில் உள்ள மற்றவர்களைச் சுயவிவரத்திலிருந்து விலக்கி வைக்கும். இது உங்கள் தரவை மறையாக்கம் செய்யாது.',
+  'profiles.removePin': 'PIN-ஐ நீக்கு',
+  'profiles.create': 'உருவாக்கி மாறு',
+  'profiles.confirmSwitch': '{name}-க்கு மாறவா? உங்கள் தேர்வு சேமிக்கப்பட்டுள்ளது, பின்னர் இந்தச் சுயவிவரத்திலிருந்து தொடரலாம்.',
+  'profiles.confirmDelete': '"{name}" சுயவிவரத்தை அதன் அனைத்து பாடங்கள், குறிப்புகள், வரலாற்றுடன் நீக்கவா? இதைத் திரும்பப் பெற முடியாது.',
+  'profiles.openFailed': 'இந்தச் சுயவிவரத்தைத் திறக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'profiles.deleteFailed': 'சுயவிவரத்தை நீக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'pin.unlock': 'திற',
+  'pin.wrong': 'தவறான PIN. மீண்டும் முயற்சிக்கவும்.',
+  'pin.toSwitch': 'இந்தச் சுயவிவரத்துக்கு மாற PIN-ஐ உள்ளிடவும்.',
+  'pin.toDelete': 'இந்தச் சுயவிவரத்தை நீக்க PIN-ஐ உள்ளிடவும்.',
+  'pin.locked': 'உங்கள் PIN-ஐ உள்ளிடவும், அல்லது மேலே உள்ள மெனுவிலிருந்து வேறொரு சுயவிவரத்தைத் தேர்ந்தெடுக்கவும்.',
+};
+
+// Translations of MESSAGES; a message missing here is shown in English
+export const TRANSLATIONS: Partial<Record<Language, Catalog>> = {
+  [Language.MALAYALAM]: MALAYALAM,
+  [Language.HINDI]: HINDI,
+  [Language.TAMIL]: TAMIL,
+};
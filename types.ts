@@ -12,6 +12,25 @@ export enum Subject {
   FINANCIAL_MANAGEMENT = 'Financial Management',
   IT_SM = 'EIS & SM',
   ADVANCED_ACCOUNTING = 'Advanced Accounting',
+  QUANTITATIVE_APTITUDE = 'Quantitative Aptitude',
+  ECONOMICS = 'Business Economics',
+  COSTING = 'Cost & Management Accounting',
+  FINANCIAL_REPORTING = 'Financial Reporting',
+}
+
+// One paper of the ICAI syllabus at a level; several papers can test the same subject
+export interface SyllabusPaper {
+  id: string;
+  number: string; // As printed, e.g. "6A"
+  name: string;
+  subject: Subject;
+  chapters: SyllabusChapter[];
+}
+
+export interface SyllabusChapter {
+  id: string;
+  name: string;
+  units: string[];
 }
 
 export enum LearningStyle {
@@ -23,14 +42,115 @@ export enum LearningStyle {
 export enum Language {
   ENGLISH = 'English',
   MALAYALAM = 'Malayalam',
+  HINDI = 'Hindi',
+  TAMIL = 'Tamil',
 }
 
-export interface Question {
+export type QuestionKind = 'mcq' | 'numeric' | 'descriptive';
+
+interface BaseQuestion {
   id: string;
   text: string;
+  explanation: string;
+  marks?: number; // Overrides the marking scheme's marks per question
+  scenarioId?: string; // Set when the question belongs to a case scenario
+  chapter?: string; // Syllabus chapter within the subject, e.g. "Depreciation Accounting"
+  concept?: string; // Concept within the chapter, e.g. "Change in method"
+  english?: QuestionEnglish; // Set when generated in bilingual mode
+}
+
+// The English original of a question generated in another language, shown beside it
+export interface QuestionEnglish {
+  text: string;
+  explanation: string;
+  options?: string[]; // MCQs only, in the same order as the translated options
+}
+
+export interface McqQuestion extends BaseQuestion {
+  kind?: 'mcq'; // Absent on questions saved before other kinds existed
   options: string[];
   correctOptionIndex: number;
-  explanation: string;
+}
+
+export interface RubricPoint {
+  point: string; // What the examiner expects to see
+  marks: number;
+}
+
+export interface DescriptiveQuestion extends BaseQuestion {
+  kind: 'descriptive';
+  modelAnswer: string;
+  rubric: RubricPoint[];
+}
+
+// How close a typed figure must be: within an absolute amount, within a percentage
+// of the correct value, or equal once both are rounded to a number of decimals.
+export interface NumericTolerance {
+  type: 'absolute' | 'percent' | 'decimals';
+  value: number;
+}
+
+export interface NumericQuestion extends BaseQuestion {
+  kind: 'numeric';
+  correctValue: number;
+  unit?: string; // e.g. '₹', '%', '₹ lakh'
+  tolerance?: NumericTolerance; // Defaults to DEFAULT_TOLERANCE in services/numericAnswer.ts
+}
+
+export type Question = McqQuestion | NumericQuestion | DescriptiveQuestion;
+
+// An integrated case scenario: one fact pattern shared by several questions
+export interface Scenario {
+  id: string;
+  title: string;
+  passage: string;
+  english?: Pick<Scenario, 'title' | 'passage'>; // Set when generated in bilingual mode
+}
+
+export interface ScenarioGroup extends Scenario {
+  questions: Question[];
+}
+
+export interface NumericAnswer {
+  value: string; // As typed, e.g. "1,04,000" or "12.2"
+  unit?: string;
+}
+
+// Option index for MCQs, a typed figure for numeric questions, written text for descriptive ones
+export type Answer = number | string | NumericAnswer;
+
+export interface RubricPointGrade {
+  awarded: number;
+  comment: string;
+}
+
+export interface DescriptiveGrade {
+  points: RubricPointGrade[]; // Parallel to the question's rubric
+  awarded: number;
+  feedback: string;
+  error?: string; // Set when automatic grading failed and no marks could be awarded
+}
+
+export interface MarkingScheme {
+  id: string;
+  name: string;
+  marksPerQuestion: number;
+  negativeMarks: number; // Deducted for each wrong answer; skipped questions score zero
+  passPercentage: Record<DifficultyLevel, number>;
+}
+
+export interface ScoreBreakdown {
+  correct: number;
+  partial: number; // Descriptive answers that earned some but not all marks
+  wrong: number;
+  skipped: number;
+  marksGained: number;
+  marksLost: number;
+  netMarks: number;
+  maxMarks: number;
+  percentage: number;
+  passPercentage: number;
+  isPass: boolean;
 }
 
 export interface ExamConfig {
@@ -39,19 +159,123 @@ export interface ExamConfig {
   questionCount: number;
   durationMinutes: number;
   topic?: string; // Optional topic for specific quizzes
+  paperId?: string; // Syllabus paper; older attempts only have a subject
+  chapterId?: string;
   language: Language;
+  markingScheme?: MarkingScheme; // Defaults to one mark per question, no negative marking
+  questionKinds?: QuestionKind[]; // Defaults to MCQ only
+  scenarioCount?: number; // Case scenarios, each followed by QUESTIONS_PER_SCENARIO MCQs
+  format?: 'custom' | 'full-paper'; // A full paper follows the blueprint for its level and paper
+  questionSource?: QuestionSource; // Defaults to AI-generated questions
+  bilingual?: boolean; // Also generate every question in English; ignored for English exams
+}
+
+// Where a custom exam's questions come from; 'mixed' takes up to half from the bank
+export type QuestionSource = 'ai' | 'bank' | 'mixed';
+
+// A part of a full paper, covering a contiguous run of questions
+export interface ExamSection {
+  id: string;
+  // Message keys, translated when shown; attempts saved before they were localized hold English text
+  title: string;
+  titleParams?: Record<string, string | number>;
+  instructions: string;
+  instructionParams?: Record<string, string | number>;
+  start: number; // Index of the section's first question
+  count: number;
+  attemptCount?: number; // Internal choice: only this many answers are marked, e.g. "any 4 of 5"
+}
+
+// Outcome of validating AI output before it reaches the exam screens
+export interface ValidationIssue {
+  position: number; // Index of the item in the raw AI response batch
+  questionId: string;
+  action: 'repaired' | 'dropped' | 'flagged';
+  reason: string;
+}
+
+export interface ValidationReport {
+  requested: number;
+  delivered: number;
+  topUpRounds: number;
+  issues: ValidationIssue[];
+  fromCache?: number; // Questions served from the pre-generated cache
 }
 
 export interface ExamState {
-  status: 'idle' | 'loading' | 'active' | 'finished' | 'error';
-  questions: Question[];
+  status: 'idle' | 'loading' | 'active' | 'grading' | 'finished' | 'error';
+  questions: Question[]; // Scenario questions are stored inline, linked by scenarioId
+  scenarios?: Scenario[];
+  sections?: ExamSection[]; // Full papers only
   currentQuestionIndex: number;
-  answers: Record<number, number>; // QuestionIndex -> OptionIndex
+  pendingCount?: number; // Questions still being generated after the exam has started
+  answers: Record<number, Answer>; // QuestionIndex -> OptionIndex or written answer
   flagged: Record<number, boolean>; // QuestionIndex -> isFlagged
+  grades?: Record<number, DescriptiveGrade>; // QuestionIndex -> rubric grading, filled after submission
   startTime: number | null;
   timeRemaining: number; // in seconds
-  score: number;
+  score: number; // Net marks under the config's marking scheme
   error?: string;
+  generationReport?: ValidationReport;
+}
+
+// A finished exam or practice session kept in the history browser
+export interface ExamAttempt {
+  id: string;
+  mode: 'EXAM' | 'PRACTICE';
+  config: ExamConfig;
+  state: ExamState;
+  startedAt: number;
+  finishedAt: number;
+  durationSeconds: number; // Time actually spent, not the time allowed
+}
+
+// Snapshot of an in-progress exam, written on every change so it survives a reload
+export interface ExamCheckpoint {
+  mode: 'EXAM' | 'PRACTICE';
+  config: ExamConfig;
+  state: ExamState;
+  deadline: number; // Epoch ms at which the exam auto-submits
+  savedAt: number;
+}
+
+// A missed question in the spaced-repetition deck, scheduled with SM-2
+export interface ReviewCard {
+  id: string;
+  question: Question;
+  scenario?: Scenario; // The case passage, for questions from a case scenario
+  subject: Subject;
+  level: DifficultyLevel;
+  language: Language;
+  addedAt: number;
+  dueAt: number; // Epoch ms
+  intervalDays: number;
+  easeFactor: number;
+  repetitions: number; // Successful reviews in a row
+  lapses: number;
+  lastReviewedAt?: number;
+}
+
+// Generated questions not yet served, pooled per syllabus selection and language
+export interface QuestionCacheEntry {
+  key: string;
+  questions: Question[]; // Standalone questions of any kind
+  groups: ScenarioGroup[];
+  updatedAt: number;
+}
+
+// A vetted question kept in the local bank for repeatable exams
+export interface BankQuestion {
+  id: string;
+  question: Question;
+  scenario?: Scenario;
+  subject: Subject;
+  level: DifficultyLevel;
+  paperId?: string;
+  topic?: string;
+  language: Language;
+  source: 'imported' | 'generated';
+  addedAt: number;
 }
 
 export interface SetupProps {
@@ -62,7 +286,7 @@ export interface SetupProps {
 
 export interface ExamSessionProps {
   state: ExamState;
-  onAnswer: (questionIndex: number, optionIndex: number) => void;
+  onAnswer: (questionIndex: number, answer: Answer) => void;
   onFlag: (questionIndex: number) => void;
   onNavigate: (questionIndex: number) => void;
   onSubmit: () => void;
@@ -78,11 +302,75 @@ export interface ResultsProps {
 export interface LessonSection {
   title: string;
   content: string;
+  history?: string[]; // Earlier versions of the content, most recent last, for reverting
+}
+
+// Rewrites of a single lesson section; 'example' appends, the others replace the content
+export type SectionAction = 'simplify' | 'deepen' | 'example' | 'regenerate';
+
+// One turn of the ask-a-doubt chat that follows a lesson
+export interface TutorMessage {
+  role: 'student' | 'tutor';
+  text: string; // Markdown for the tutor's replies
+  sentAt: number;
 }
 
 export interface Lesson {
+  id: string; // One lesson per subject and topic, so copies on two devices share an id
+  lastModified: number;
   topic: string;
   subject: string;
   level: string;
   sections: LessonSection[];
+  paperId?: string;
+  chapterId?: string;
+  style?: LearningStyle; // Missing on lessons bookmarked before the tutor chat
+  language?: Language;
+  chat?: TutorMessage[];
+}
+
+// Where a note was added from, so it can lead back there
+export type NoteSource =
+  | { type: 'lesson'; subject: string; topic: string; sectionTitle?: string }
+  | { type: 'question'; attemptId: string; questionIndex: number; questionText: string };
+
+// A student's own note in CA Classes
+export interface Note {
+  id: string;
+  title: string;
+  content: string;
+  lastModified: number;
+  tags?: string[];
+  source?: NoteSource;
+}
+
+// A profile's preferences, kept across visits
+export interface AppSettings {
+  language: Language;
+  level: DifficultyLevel; // Preselected in the exam and class setup
+  bilingual?: boolean; // Generate exams and quizzes in English too
+}
+
+// How a bilingual question is shown: both languages in columns, or only the exam language
+export type BilingualView = 'side-by-side' | 'single';
+
+// A student sharing this device; each profile has its own saved data and settings
+export interface Profile {
+  id: string;
+  name: string;
+  pinHash?: string; // Set when the profile is locked with a PIN
+  createdAt: number;
+}
+
+export interface ProfileRegistry {
+  profiles: Profile[];
+  activeId: string;
+}
+
+// Opens CA Classes on a topic from elsewhere in the app, e.g. a weak area in the results
+export interface LessonLink {
+  subject: Subject;
+  level: DifficultyLevel;
+  topic: string;
+  paperId?: string;
 }
\ No newline at end of file